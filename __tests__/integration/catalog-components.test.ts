@@ -0,0 +1,98 @@
+/**
+ * Integration Tests for CI/CD Catalog Components
+ * Ensures shared library steps become component templates that pipelines include
+ */
+
+import { buildCatalogComponents, includeComponents } from '@/lib/catalog-components'
+import { convertToGitLab } from '@/lib/gitlab-converter'
+import { buildPipelineModel } from '@/lib/pipeline-model'
+import { loadSharedLibrary, resolveSharedLibraries } from '@/lib/shared-library'
+
+const library = loadSharedLibrary({
+  'vars/mavenBuild.groovy': `def call(Map config = [:]) {
+  def goals = config.goals ?: 'clean verify'
+  sh "mvn -B \${goals} -pl \${config.module}"
+}`,
+  'vars/helmDeploy.groovy': `def call(String release, String namespace = 'default') {
+  sh "helm upgrade --install \${release} ./chart -n \${namespace}"
+}`,
+  'vars/withVault.groovy': `def call(Closure body) {
+  body()
+}`
+}, 'build-lib')
+
+describe('Catalog Components Integration Tests', () => {
+  test('should turn call parameters and map keys into component inputs', () => {
+    const catalog = buildCatalogComponents(library, 'platform/build-lib')
+
+    expect(catalog.components.map(component => [component.name, component.inputs.map(input => [input.name, input.type, input.default])])).toEqual([
+      ['maven-build', [['stage', 'string', 'build'], ['job-name', 'string', 'maven-build'], ['goals', 'string', 'clean verify'], ['module', 'string', '']]],
+      ['helm-deploy', [['stage', 'string', 'build'], ['job-name', 'string', 'helm-deploy'], ['release', 'string', undefined], ['namespace', 'string', 'default']]]
+    ])
+    expect(catalog.skipped).toEqual([{ step: 'withVault', reason: "takes a closure block ('body'), which component inputs cannot carry" }])
+    expect(Object.keys(catalog.files).sort()).toEqual(['README.md', 'templates/helm-deploy.yml', 'templates/maven-build.yml'])
+  })
+
+  test('should write templates whose jobs read the inputs', () => {
+    const template = buildCatalogComponents(library, 'platform/build-lib').files['templates/maven-build.yml']
+
+    expect(template).toContain(`spec:
+  inputs:
+    stage:
+      description: Stage the job runs in
+      default: build`)
+    expect(template).toContain(`    goals:
+      description: Value of 'goals' in the config map
+      default: clean verify`)
+    expect(template).toContain(`---
+"$[[ inputs.job-name ]]":
+  stage: $[[ inputs.stage ]]
+  image: maven:3.9-eclipse-temurin-17
+  script:
+    - mvn -B $[[ inputs.goals ]] -pl $[[ inputs.module ]]`)
+  })
+
+  test('should include components for stages that only call a library step', () => {
+    const jenkinsfile = `@Library('build-lib@2.1.0') _
+pipeline {
+  agent any
+  stages {
+    stage('Build') { steps { mavenBuild(goals: 'package', module: 'api') } }
+    stage('Deploy') { steps { helmDeploy('api', 'prod') } }
+    stage('Release') {
+      when { branch 'main' }
+      steps { helmDeploy('api') }
+    }
+  }
+}`
+    const model = includeComponents(buildPipelineModel(jenkinsfile)!, buildCatalogComponents(library, 'platform/build-lib'))
+    const { pipeline, yaml } = convertToGitLab(resolveSharedLibraries(jenkinsfile, model, [library]).model)
+
+    expect(pipeline.include).toEqual([
+      {
+        component: '$CI_SERVER_FQDN/platform/build-lib/maven-build@2.1.0',
+        inputs: { stage: 'build', 'job-name': 'build', goals: 'package', module: 'api' }
+      },
+      {
+        component: '$CI_SERVER_FQDN/platform/build-lib/helm-deploy@2.1.0',
+        inputs: { stage: 'deploy', 'job-name': 'deploy', release: 'api', namespace: 'prod' }
+      }
+    ])
+    expect(pipeline.stages).toEqual(['build', 'deploy', 'release'])
+    // The condition would be lost inside the component, so the steps stay inlined
+    expect(pipeline.jobs.release.script).toEqual(['helm upgrade --install api ./chart -n default'])
+    expect(yaml).toMatch(/^include:\n {2}- component: \$CI_SERVER_FQDN\/platform\/build-lib\/maven-build@2\.1\.0$/m)
+  })
+
+  test('should inline calls whose arguments are only known at run time', () => {
+    const jenkinsfile = `pipeline {
+  agent any
+  stages {
+    stage('Deploy') { steps { helmDeploy(params.RELEASE) } }
+  }
+}`
+    const model = includeComponents(buildPipelineModel(jenkinsfile)!, buildCatalogComponents(library, 'platform/build-lib'))
+
+    expect(model.stages[0].component).toBeUndefined()
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Integration Tests for the Credential Migrator
+ * Ensures Jenkins credentials become valid GitLab CI/CD variables and migration artifacts
+ */
+
+import {
+  analyzeUsage,
+  checkVariableStatus,
+  detectCredentials,
+  generateEnvFile,
+  generateScript,
+  gitlabVariableName,
+  mapCredentials,
+  validateVariables
+} from '@/lib/credential-migrator'
+
+const jenkinsfile = `pipeline {
+  agent any
+  environment {
+    DATABASE_PASSWORD = credentials('db-password')
+  }
+  stages {
+    stage('Deploy') {
+      steps {
+        // withCredentials([string(credentialsId: 'old-token', variable: 'OLD')])
+        withCredentials([
+          usernamePassword(credentialsId: 'docker-hub-creds', usernameVariable: 'DOCKER_USER', passwordVariable: 'DOCKER_PASS'),
+          string(credentialsId: 'api-token', variable: 'API_TOKEN'),
+          file(credentialsId: 'kubeconfig-file', variable: 'KUBECONFIG'),
+          sshUserPrivateKey(credentialsId: 'deploy-ssh-key', keyFileVariable: 'SSH_KEY')
+        ]) {
+          sh './deploy.sh'
+        }
+        script {
+          docker.withRegistry('https://registry.example.com', 'registry-creds') { sh 'docker push app' }
+          withCredentials([string(credentialsId: "token-\${env.STAGE}", variable: 'T')]) { sh 'true' }
+        }
+      }
+    }
+  }
+}`
+
+describe('Credential Migrator Integration Tests', () => {
+  describe('Detection', () => {
+    test('should find credential bindings in the syntax tree', () => {
+      const hits = detectCredentials(jenkinsfile)
+
+      expect(hits.map(hit => [hit.credentialsId, hit.kind, hit.line])).toEqual([
+        ['db-password', 'credentials', 4],
+        ['docker-hub-creds', 'usernamePassword', 11],
+        ['api-token', 'string', 12],
+        ['kubeconfig-file', 'file', 13],
+        ['deploy-ssh-key', 'sshUserPrivateKey', 14],
+        ['registry-creds', 'usernamePassword', 19],
+        ['"token-${env.STAGE}"', 'string', 20]
+      ])
+      expect(hits[0].bindings).toEqual({ variable: 'DATABASE_PASSWORD' })
+      expect(hits[5].step).toBe('docker.withRegistry')
+    })
+
+    test('should count usages and runtime credential IDs', () => {
+      const analysis = analyzeUsage(detectCredentials(jenkinsfile))
+
+      expect(analysis).toMatchObject({ totalReferences: 7, uniqueCredentials: 6, dynamicReferences: [20] })
+      expect(analysis.byKind.usernamePassword).toBe(2)
+    })
+  })
+
+  describe('Mapping', () => {
+    test('should sanitize credential IDs into GitLab variable names', () => {
+      expect(gitlabVariableName('my-secret!@#')).toBe('MY_SECRET')
+      expect(gitlabVariableName('123-token')).toBe('VAR_123_TOKEN')
+      expect(gitlabVariableName('ci-token')).toBe('APP_CI_TOKEN')
+    })
+
+    test('should choose variable types and masking per credential type', () => {
+      const variables = mapCredentials(detectCredentials(jenkinsfile), { environmentScope: 'production' })
+
+      expect(variables.map(v => [v.key, v.variable_type, v.masked])).toEqual([
+        ['DB_PASSWORD', 'env_var', true],
+        ['DOCKER_HUB_CREDS_USER', 'env_var', true],
+        ['DOCKER_HUB_CREDS_PASS', 'env_var', true],
+        ['API_TOKEN', 'env_var', true],
+        ['KUBECONFIG_FILE', 'file', false],
+        ['SSH_DEPLOY_SSH_KEY', 'env_var', true],
+        ['REGISTRY_CREDS_USER', 'env_var', true],
+        ['REGISTRY_CREDS_PASSWORD', 'env_var', true]
+      ])
+      expect(variables.every(v => v.protected && v.environment_scope === 'production')).toBe(true)
+    })
+
+    test('should apply custom mappings and report what GitLab would reject', () => {
+      const variables = mapCredentials(detectCredentials(jenkinsfile), {
+        customMappings: {
+          'api-token': { proposedKey: 'CI_API-TOKEN', type: 'file', masked: true, protected: false },
+          'kubeconfig-file': { proposedKey: 'DB_PASSWORD' }
+        }
+      })
+      const validation = validateVariables(variables)
+
+      expect(variables.find(v => v.credentialsId === 'api-token')).toMatchObject({ key: 'CI_API-TOKEN', variable_type: 'file', protected: false })
+      expect(validation.valid).toBe(false)
+      expect(validation.errors).toEqual([
+        expect.objectContaining({ key: 'CI_API-TOKEN', suggestion: 'APP_CI_API_TOKEN' }),
+        expect.objectContaining({ key: 'DB_PASSWORD', message: "Credentials 'db-password' and 'kubeconfig-file' both map to DB_PASSWORD" })
+      ])
+      expect(validation.warnings.map(w => w.message)).toEqual([
+        'The CI_ prefix is reserved for predefined GitLab variables',
+        'GitLab cannot mask file variables; the value will show if a job prints it'
+      ])
+    })
+  })
+
+  describe('Artifacts', () => {
+    test('should write a .env template and a variable creation script', () => {
+      const variables = mapCredentials(detectCredentials(jenkinsfile))
+      const envFile = generateEnvFile(variables)
+      const script = generateScript(variables, { projectId: 'group/app', batchSize: 5 })
+
+      expect(envFile).toContain("# Secret text of Jenkins credential 'api-token'\nAPI_TOKEN=<🔑 ADD_VALUE>\n")
+      expect(envFile).toContain('KUBECONFIG_FILE=<🔑 BASE64_FILE_CONTENT>')
+      expect(script).toContain('PROJECT_ID="${PROJECT_ID:-group/app}"')
+      expect(script).toContain('BATCH_SIZE=5')
+      expect(script).toContain(`create_var 'API_TOKEN' 'env_var' 'true' 'true' '*' 'Secret text of Jenkins credential '\\''api-token'\\'''`)
+    })
+
+    test('should mark variables the project already has', async () => {
+      const fetchMock = global.fetch as jest.Mock
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => '' },
+        json: async () => [{ key: 'API_TOKEN', environment_scope: '*' }]
+      })
+      const variables = mapCredentials(detectCredentials(`withCredentials([
+  string(credentialsId: 'api-token', variable: 'API_TOKEN'),
+  string(credentialsId: 'npm-token', variable: 'NPM_TOKEN')
+]) { sh 'make' }`))
+
+      const checked = await checkVariableStatus(variables, 'group/app', 'glpat-test', 'https://gitlab.example.com/api/v4')
+
+      expect(checked.map(v => [v.key, v.status])).toEqual([['API_TOKEN', 'exists'], ['NPM_TOKEN', 'missing']])
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://gitlab.example.com/api/v4/projects/group%2Fapp/variables?per_page=100&page=1',
+        { headers: { 'PRIVATE-TOKEN': 'glpat-test' } }
+      )
+    })
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Integration Tests for the Downstream Translator
+ * Ensures `build` steps become multi-project and child pipeline trigger jobs
+ */
+
+import { convertToGitLab } from '@/lib/gitlab-converter'
+import { buildPipelineModel } from '@/lib/pipeline-model'
+import { parseJobMapping, renderJobMapping, resolveTarget } from '@/lib/downstream-translator'
+
+const jenkinsfile = `
+pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      steps {
+        sh 'make'
+        build job: 'platform/integration-tests', parameters: [string(name: 'VERSION', value: "\${env.BUILD_NUMBER}"), booleanParam(name: 'FULL', value: true)], propagate: false
+      }
+    }
+    stage('Deploy') {
+      steps {
+        build job: 'apps/web/main'
+        build 'ops/notify'
+      }
+    }
+  }
+  post {
+    failure { build job: 'ops/alert', wait: false }
+  }
+}`
+
+describe('Downstream Translator Integration Tests', () => {
+  test('should trigger downstream projects after the script of the stage', () => {
+    const { pipeline, report } = convertToGitLab(buildPipelineModel(jenkinsfile))
+
+    expect(pipeline.jobs.build.script).toEqual(['make'])
+    expect(pipeline.jobs['build:trigger-integration-tests']).toEqual({
+      stage: 'build',
+      variables: { VERSION: '${CI_PIPELINE_IID}', FULL: 'true' },
+      needs: ['build'],
+      trigger: { project: 'platform/integration-tests', strategy: 'depend' },
+      allow_failure: true
+    })
+    expect(report.unconverted).toEqual([])
+  })
+
+  test('should turn stages that only build other jobs into trigger jobs run in turn', () => {
+    const { pipeline } = convertToGitLab(buildPipelineModel(jenkinsfile))
+
+    expect(pipeline.jobs.deploy).toEqual({
+      stage: 'deploy',
+      trigger: { project: 'apps/web', branch: 'main', strategy: 'depend' }
+    })
+    expect(pipeline.jobs['deploy:trigger-notify']).toMatchObject({ needs: ['deploy'], trigger: { project: 'ops/notify' } })
+    expect(pipeline.jobs['post:failure']).toEqual({ stage: '.post', trigger: { project: 'ops/alert' }, when: 'on_failure' })
+  })
+
+  test('should follow the job mapping and write it back for editing', () => {
+    const jobMapping = parseJobMapping(`# edited
+platform/integration-tests: qa/integration
+"apps/web/main": 'web/frontend'  # moved
+ops/notify: .gitlab/ci/notify.yml
+`)
+    const { pipeline, files } = convertToGitLab(buildPipelineModel(jenkinsfile), { jobMapping })
+
+    expect(pipeline.jobs['build:trigger-integration'].trigger).toEqual({ project: 'qa/integration', strategy: 'depend' })
+    expect(pipeline.jobs.deploy.trigger).toEqual({ project: 'web/frontend', branch: 'main', strategy: 'depend' })
+    expect(pipeline.jobs['deploy:trigger-notify'].trigger).toEqual({ include: '.gitlab/ci/notify.yml', strategy: 'depend' })
+    expect(parseJobMapping(files['.gitlab/jenkins-jobs.yml'])).toEqual({ ...jobMapping, 'ops/alert': 'ops/alert' })
+  })
+
+  test('should guess targets from job paths and reject unreadable mappings', () => {
+    expect(resolveTarget('../shared/lint', {})).toEqual({ target: 'shared/lint', child: false })
+    expect(resolveTarget('apps/api/${BRANCH_NAME}', {})).toEqual({ target: 'apps/api', child: false, branch: '${BRANCH_NAME}' })
+    expect(renderJobMapping({ 'apps/api/${BRANCH_NAME}': 'apps/api' })).toContain('"apps/api/${BRANCH_NAME}": apps/api\n')
+    expect(() => parseJobMapping('platform/job')).toThrow("Line 1 of the job mapping is not a 'jenkins/job: group/project' entry")
+    expect(() => parseJobMapping('a: b')).toThrow("Line 1 of the job mapping: 'b' is neither a project path nor a .yml file")
+  })
+})
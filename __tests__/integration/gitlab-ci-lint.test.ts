@@ -0,0 +1,125 @@
+/**
+ * Integration Tests for the GitLab CI Lint
+ * Ensures references, stage order and rules are checked beyond the schema
+ */
+
+import { checkCiConfig, contradictionOf, lintGitLabYaml } from '@/lib/gitlab-ci-lint'
+import { convertToGitLab } from '@/lib/gitlab-converter'
+import { buildPipelineModel } from '@/lib/pipeline-model'
+
+describe('GitLab CI Lint Integration Tests', () => {
+  test('should report references to jobs, stages and templates that do not exist', () => {
+    const problems = checkCiConfig(`stages: [build, test, deploy]
+.base:
+  extends: .missing
+compile:
+  stage: compile
+  script: make
+  needs: [ghost]
+unit:
+  stage: test
+  script: make test
+  needs: [lint]
+  dependencies: [package]
+lint:
+  stage: test
+  script: make lint
+  needs: [unit]
+package:
+  stage: deploy
+  script: make dist
+  only: [main]
+  rules:
+    - when: always
+`)
+
+    expect(problems.map(problem => [problem.line, problem.severity, problem.message])).toEqual([
+      [3, 'error', "'.base' extends '.missing', which is not defined"],
+      [5, 'error', "Job 'compile' uses stage 'compile', which is not in stages"],
+      [7, 'error', "Job 'compile' needs 'ghost', which is not a job of this pipeline"],
+      [8, 'error', 'Jobs need each other in a cycle: unit → lint → unit'],
+      [12, 'error', "Job 'unit' depends on artifacts of 'package', which does not run in an earlier stage"],
+      [20, 'error', "Job 'package' cannot use 'only' together with 'rules'"]
+    ])
+  })
+
+  test('should report rules that can never match and environments nobody stops or starts', () => {
+    const problems = checkCiConfig(`deploy:
+  script: ./deploy.sh
+  environment: { name: review, on_stop: stop-review }
+  rules:
+    - if: $CI_COMMIT_TAG && $CI_COMMIT_BRANCH == "main"
+    - when: manual
+    - if: $CI_COMMIT_BRANCH
+stop-review:
+  script: ./stop.sh
+  environment: { name: review }
+cleanup:
+  script: ./cleanup.sh
+  environment: { name: old, action: stop }
+  rules:
+    - if: $CI_PIPELINE_SOURCE == "merge_request_event" && $CI_COMMIT_BRANCH
+`)
+
+    expect(problems.map(problem => [problem.line, problem.message])).toEqual([
+      [5, "Rule 1 of job 'deploy' can never match: tag pipelines have no $CI_COMMIT_BRANCH"],
+      [7, "Rule 3 of job 'deploy' can never match: rule 2 has no conditions, so it always matches first"],
+      [8, "Job 'stop-review' stops environment 'review' for 'deploy' but does not have 'environment: { name: review, action: stop }'"],
+      [13, "Job 'cleanup' stops environment 'old', which no job deploys to"],
+      [15, "Job 'cleanup' never runs: none of its rules can add it to a pipeline"],
+      [15, "Rule 1 of job 'cleanup' can never match: merge request pipelines have no $CI_COMMIT_BRANCH"]
+    ])
+    expect(problems.every(problem => problem.severity === 'warning')).toBe(true)
+  })
+
+  test('should tell conditions that can hold from those that cannot', () => {
+    expect(contradictionOf('$DEPLOY == "yes" && ($DEPLOY == "no" || $DEPLOY == null)')).toBe('$DEPLOY cannot be both "yes" and "no"')
+    expect(contradictionOf('$CI_PIPELINE_SOURCE == "nightly"')).toBe('$CI_PIPELINE_SOURCE is never "nightly"')
+    expect(contradictionOf('$CI_COMMIT_TAG =~ /^v[^/]*$/ && $CI_COMMIT_BRANCH')).toBeUndefined()
+    expect(contradictionOf('$CI_COMMIT_BRANCH == "main" || $CI_COMMIT_TAG')).toBeUndefined()
+    expect(contradictionOf('$A == $B && $A != $B')).toBeUndefined()
+  })
+
+  test('should only warn about references an included file may resolve', () => {
+    const lint = lintGitLabYaml(`include:
+  - template: Security/SAST.gitlab-ci.yml
+  - local: ci/shared.yml
+sast:
+  stage: test
+build:
+  extends: .shared-build
+  needs: [prepare]
+`)
+
+    expect(lint).toEqual({
+      status: 'valid',
+      errors: [],
+      warnings: [
+        "Line 6, column 1: Job 'build' has neither a script nor a trigger, unless an included file defines it",
+        "Line 7, column 12: 'build' extends '.shared-build', which is not defined, unless an included file defines it",
+        "Line 8, column 11: Job 'build' needs 'prepare', which is not a job of this pipeline, unless an included file defines it"
+      ]
+    })
+  })
+
+  test('should keep converted jobs clear of top-level keywords', () => {
+    const { yaml, pipeline } = convertToGitLab(buildPipelineModel(`pipeline {
+  agent any
+  stages {
+    stage('Build') { steps { sh 'make' } }
+    stage('Image') { steps { sh 'docker build .' } }
+    stage('Deploy') {
+      when { allOf { branch 'main'; tag 'v*' } }
+      steps { sh './deploy.sh' }
+    }
+  }
+}`))
+
+    expect(Object.keys(pipeline.jobs)).toEqual(['build', 'image-job', 'deploy'])
+    expect(lintGitLabYaml(yaml)).toMatchObject({ status: 'valid', errors: [] })
+    expect(lintGitLabYaml(yaml).warnings).toEqual([
+      expect.stringMatching(/^Line \d+, column 5: Job 'deploy' never runs/),
+      expect.stringMatching(/can never match: tag pipelines have no \$CI_COMMIT_BRANCH$/)
+    ])
+  })
+})
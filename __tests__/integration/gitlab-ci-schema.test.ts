@@ -0,0 +1,67 @@
+/**
+ * Integration Tests for GitLab CI Schema Validation
+ * Ensures configurations are checked offline against GitLab's schema, with positions
+ */
+
+import { formatProblem, validateCiConfig } from '@/lib/gitlab-ci-schema'
+import { convertToGitLab } from '@/lib/gitlab-converter'
+import { buildPipelineModel } from '@/lib/pipeline-model'
+
+const jenkinsfile = `pipeline {
+  agent { docker { image 'maven:3.9' } }
+  options { timeout(time: 30, unit: 'MINUTES'); retry(2) }
+  parameters { string(name: 'ENV', defaultValue: 'dev') }
+  stages {
+    stage('Build') { steps { sh 'mvn package'; archiveArtifacts artifacts: 'target/*.jar' } }
+    stage('Test') {
+      parallel {
+        stage('Unit') { steps { sh 'mvn test' } }
+        stage('Lint') { steps { sh 'mvn checkstyle:check' } }
+      }
+    }
+    stage('Deploy') {
+      when { branch 'main' }
+      input { message 'Deploy?' }
+      steps { lock('prod') { sh './deploy.sh' } }
+    }
+  }
+  post { failure { echo 'failed' } }
+}`
+
+describe('GitLab CI Schema Integration Tests', () => {
+  test('should accept converted pipelines', () => {
+    const { yaml } = convertToGitLab(buildPipelineModel(jenkinsfile))
+
+    expect(validateCiConfig(yaml)).toEqual([])
+  })
+
+  test('should report where a configuration breaks the schema', () => {
+    const problems = validateCiConfig(`stages: build
+build:
+  scrpt: make
+  when: delayed
+  script: 5
+  rules:
+    - if: $CI_COMMIT_TAG
+      whenn: manual
+  retry: 7
+`)
+
+    expect(problems).toEqual([
+      { message: "'stages' should be a list", line: 1, column: 9 },
+      { message: "'build' has an unknown key 'scrpt'", line: 3, column: 3 },
+      { message: "'build' is missing the required key 'start_in'", line: 3, column: 3 },
+      { message: "'build.script' should be a string or a list", line: 5, column: 11 },
+      { message: "'build.rules[0]' has an unknown key 'whenn'", line: 8, column: 7 },
+      { message: "'build.retry' should be at most 2", line: 9, column: 10 }
+    ])
+  })
+
+  test('should report YAML syntax errors instead of schema problems', () => {
+    expect(validateCiConfig('invalid: yaml: structure').map(formatProblem)).toEqual([
+      'Line 1, column 14: A mapping cannot start on the line of its key; put it on the next lines, indented'
+    ])
+    expect(validateCiConfig('# nothing here\n')).toEqual([{ message: 'The configuration is empty', line: 1, column: 1 }])
+    expect(validateCiConfig('- build')).toEqual([{ message: 'The configuration should be a mapping', line: 1, column: 1 }])
+  })
+})
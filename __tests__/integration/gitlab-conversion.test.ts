@@ -157,7 +157,6 @@ pipeline {
       expect(result.gitlabYaml).toContain('stages:')
       expect(result.gitlabYaml).toContain('script:')
       expect(result.gitlabYaml).toContain('variables:')
-      expect(result.gitlabYaml).toContain('include:')
 
       // Ensure no Jenkins-specific syntax remains
       expect(result.gitlabYaml).not.toContain('pipeline {')
@@ -165,7 +164,7 @@ pipeline {
       expect(result.gitlabYaml).not.toContain('Jenkinsfile')
     })
 
-    test('should include comprehensive GitLab CI features', async () => {
+    test('should build jobs, images and scripts from the pipeline', async () => {
       const scanResult = scan(sampleJenkinsfile)
       
       const result = await enterpriseAIMigrationSystem.migrate({
@@ -175,23 +174,24 @@ pipeline {
 
       const yaml = result.gitlabYaml
 
-      // Check for enterprise features
-      expect(yaml).toContain('Security/')
-      expect(yaml).toContain('docker:')
-      expect(yaml).toContain('artifacts:')
-      expect(yaml).toContain('coverage:')
-      expect(yaml).toContain('parallel:')
-      expect(yaml).toContain('rules:')
-
-      // Check for security scanning templates
-      expect(yaml).toContain('Container-Scanning')
-      expect(yaml).toContain('Dependency-Scanning')
-      expect(yaml).toContain('SAST')
-      expect(yaml).toContain('Secret-Detection')
-
-      // Check for workflow configuration
-      expect(yaml).toContain('workflow:')
-      expect(yaml).toContain('MergeRequest-Pipelines')
+      // One GitLab stage per Jenkins stage, parallel branches as sibling jobs
+      expect(result.report.stages).toEqual(['build', 'test', 'security-scan', 'docker-build', 'deploy'])
+      expect(result.report.jobs).toContain('build:maven-build')
+      expect(result.report.jobs).toContain('build:frontend-build')
+
+      // Images follow the commands and declared tool versions
+      expect(yaml).toMatch(/build:frontend-build:\n  stage: build\n  image: node:18\n/)
+      expect(yaml).toContain('image: maven:3.9-eclipse-temurin-17')
+      expect(yaml).toContain('- docker:24.0-dind')
+
+      // Scripts are copied across with Jenkins variables translated
+      expect(yaml).toContain('- npm run lint')
+      expect(yaml).toContain('- mvn sonar:sonar -Dsonar.token=$SONAR_TOKEN')
+      expect(yaml).toContain('VERSION: ${CI_PIPELINE_IID}')
+      expect(yaml).not.toContain('Security/')
+
+      // when { branch 'main' } becomes a rule
+      expect(yaml).toContain('  rules:\n    - if: $CI_COMMIT_BRANCH == "main"\n')
     })
 
     test('should handle simple Jenkins pipelines correctly', async () => {
@@ -209,7 +209,7 @@ pipeline {
       expect(result.gitlabYaml).toContain('test')
     })
 
-    test('should generate immutable Docker image references', async () => {
+    test('should not use unpinned latest images', async () => {
       const scanResult = scan(sampleJenkinsfile)
       
       const result = await enterpriseAIMigrationSystem.migrate({
@@ -217,17 +217,8 @@ pipeline {
         scanResult
       })
 
-      const yaml = result.gitlabYaml
-
-      // Check for SHA256 digest references (immutable images)
-      const sha256Pattern = /@sha256:[a-f0-9]{64}/g
-      const sha256Matches = yaml.match(sha256Pattern)
-      expect(sha256Matches).toBeTruthy()
-      expect(sha256Matches!.length).toBeGreaterThan(5)
-
-      // Ensure no latest tags without digests in production sections
       const latestWithoutDigest = /image:.*:latest(?!@sha256)/g
-      expect(yaml.match(latestWithoutDigest)).toBeFalsy()
+      expect(result.gitlabYaml.match(latestWithoutDigest)).toBeFalsy()
     })
   })
 
@@ -243,8 +234,11 @@ pipeline {
       expect(result.intelligence).toBeDefined()
       expect(result.intelligence.summary).toBeDefined()
       expect(result.intelligence.summary.originalComplexity).toBe(scanResult.tier)
-      expect(result.intelligence.summary.targetComplexity).toBe('enterprise')
-      expect(result.intelligence.summary.confidenceScore).toBe(100)
+      expect(result.intelligence.summary.targetComplexity).toBe('balanced')
+      expect(result.intelligence.summary.automaticConversions).toBe(result.report.convertedSteps)
+      // publishHTML has no GitLab equivalent
+      expect(result.intelligence.summary.confidenceScore).toBeLessThan(100)
+      expect(result.intelligence.summary.confidenceScore).toBeGreaterThan(50)
 
       expect(result.intelligence.optimizations).toBeDefined()
       expect(Array.isArray(result.intelligence.optimizations)).toBe(true)
@@ -252,6 +246,9 @@ pipeline {
 
       expect(result.intelligence.recommendations).toBeDefined()
       expect(Array.isArray(result.intelligence.recommendations)).toBe(true)
+      expect(result.intelligence.recommendations).toContain(
+        "Create CI/CD variable(s) SONAR_TOKEN for Jenkins credential 'sonar-token'"
+      )
     })
 
     test('should track performance metrics', async () => {
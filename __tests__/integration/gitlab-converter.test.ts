@@ -0,0 +1,905 @@
+/**
+ * Integration Tests for the GitLab CI Converter
+ * Ensures pipeline models turn into jobs built from the Jenkinsfile itself
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { convertToGitLab, translateVariables } from '@/lib/gitlab-converter'
+import { buildPipelineModel } from '@/lib/pipeline-model'
+
+const convert = (jenkinsfile: string) => convertToGitLab(buildPipelineModel(jenkinsfile))
+
+describe('GitLab CI Converter Integration Tests', () => {
+  describe('Jobs and Stages', () => {
+    test('should turn stages, parallel branches and nested stages into jobs', () => {
+      const { pipeline } = convert(`
+pipeline {
+  agent { docker { image 'python:3.11-slim' } }
+  stages {
+    stage('Lint') { steps { sh 'flake8 .' } }
+    stage('Test') {
+      parallel {
+        stage('Unit') { steps { sh 'pytest tests/unit' } }
+        stage('E2E') { agent { docker { image 'cypress/included:13.6.0' } } steps { sh 'npx cypress run' } }
+      }
+    }
+    stage('Release') {
+      stages {
+        stage('Package') { steps { sh 'python -m build' } }
+        stage('Publish') { steps { sh 'twine upload dist/*' } }
+      }
+    }
+  }
+}`)
+
+      expect(pipeline.stages).toEqual(['lint', 'test', 'release-package', 'release-publish'])
+      expect(Object.keys(pipeline.jobs)).toEqual(['lint', 'test:unit', 'test:e2e', 'release:package', 'release:publish'])
+      expect(pipeline.jobs['test:unit']).toMatchObject({ stage: 'test', image: 'python:3.11-slim', script: ['pytest tests/unit'] })
+      expect(pipeline.jobs['test:e2e'].image).toBe('cypress/included:13.6.0')
+    })
+
+    test('should chain the stages of a parallel branch with needs', () => {
+      const { pipeline, report } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Test') {
+      failFast true
+      parallel {
+        stage('Linux') {
+          stages {
+            stage('Compile') { steps { sh 'make linux' } }
+            stage('Run') {
+              when { branch 'main' }
+              steps { sh './test-linux' }
+            }
+            stage('Report') { steps { sh './report' } }
+          }
+        }
+        stage('Lint') { steps { sh 'make lint' } }
+      }
+    }
+    stage('Deploy') { steps { sh './deploy' } }
+  }
+}`)
+
+      expect(pipeline.stages).toEqual(['test', 'test-2', 'test-3', 'deploy'])
+      expect(pipeline.jobs['test:linux:compile']).toMatchObject({ stage: 'test', interruptible: true })
+      expect(pipeline.jobs['test:lint']).toMatchObject({ stage: 'test', interruptible: true })
+      expect(pipeline.jobs['test:linux:run'].needs).toEqual(['test:linux:compile'])
+      // The report still waits for the compile job when the run job is left out
+      expect(pipeline.jobs['test:linux:report'].needs).toEqual(['test:linux:compile', { job: 'test:linux:run', optional: true }])
+      expect(pipeline.jobs.deploy.needs).toBeUndefined()
+      expect(pipeline.jobs.deploy.interruptible).toBeUndefined()
+      expect(report.unconverted).toEqual([])
+      expect(report.notes).toContain("GitLab does not stop the other parallel jobs of stage 'Test' when one fails; they are interruptible, so a newer pipeline cancels them. Set workflow:auto_cancel:on_job_failure: all to cancel the whole pipeline on the first failure")
+    })
+
+    test('should run the steps of a scripted stage around its branches and nested stages', () => {
+      const { pipeline, findings } = convert(`
+node {
+  stage('Build') {
+    sh 'make prepare'
+    parallel(a: { sh 'make a' }, b: { sh 'make b' })
+    sh 'make report'
+  }
+  stage('Release') {
+    sh 'make notes'
+    stage('Publish') { sh 'make publish' }
+    sh 'make announce'
+  }
+}`)
+
+      expect(pipeline.stages).toEqual(['build-before', 'build', 'build-after', 'release-before', 'release-publish', 'release-after'])
+      expect(pipeline.jobs['build:before'].script).toEqual(['make prepare'])
+      expect(pipeline.jobs['build:a']).toMatchObject({ stage: 'build', needs: ['build:before'], script: ['make a'] })
+      expect(pipeline.jobs['build:after']).toMatchObject({ needs: ['build:a', 'build:b'], script: ['make report'] })
+      expect(pipeline.jobs['release:before'].script).toEqual(['make notes'])
+      expect(pipeline.jobs['release:publish'].script).toEqual(['make publish'])
+      expect(pipeline.jobs['release:after'].script).toEqual(['make announce'])
+      expect(findings).toEqual([])
+    })
+
+    test('should chain scripted parallel branches between the steps around them', () => {
+      const { pipeline, report } = convert(`
+node {
+  stage('Test') {
+    sh 'make deps'
+    parallel(
+      failFast: true,
+      linux: {
+        stage('Compile') { sh 'make' }
+        stage('Run') { sh 'make check' }
+      },
+      lint: { sh 'make lint' }
+    )
+    sh 'make coverage'
+  }
+}`)
+
+      expect(pipeline.stages).toEqual(['test-before', 'test', 'test-2', 'test-after'])
+      expect(pipeline.jobs['test:linux:compile']).toMatchObject({ needs: ['test:before'], interruptible: true })
+      expect(pipeline.jobs['test:linux:run'].needs).toEqual(['test:linux:compile'])
+      expect(pipeline.jobs['test:lint']).toMatchObject({ needs: ['test:before'], interruptible: true })
+      expect(pipeline.jobs['test:after']).toEqual({
+        stage: 'test-after',
+        image: 'alpine:3.19',
+        needs: ['test:linux:compile', 'test:linux:run', 'test:lint'],
+        script: ['make coverage']
+      })
+      expect(pipeline.jobs['test:before'].interruptible).toBeUndefined()
+      expect(report.unconverted).toEqual([])
+    })
+
+    test('should drop stages that only check out code', () => {
+      const { pipeline, report } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Checkout') { steps { checkout scm } }
+    stage('Build') { steps { sh 'make' } }
+  }
+}`)
+
+      expect(pipeline.stages).toEqual(['build'])
+      expect(report.notes).toContain("Stage 'Checkout' has no steps GitLab needs and was dropped")
+    })
+
+    test('should still produce a valid pipeline when nothing converts', () => {
+      const { yaml, report } = convert(`println 'hello'`)
+
+      expect(yaml).toContain('stages:\n  - build\n')
+      expect(yaml).toContain('build:\n  stage: build\n')
+      expect(report.unconverted[0]).toMatchObject({ kind: 'pipeline' })
+    })
+  })
+
+  describe('Matrix', () => {
+    test('should map matrix axes onto parallel:matrix', () => {
+      const { pipeline } = convert(readFileSync(join(process.cwd(), 'samples/complex-jenkinsfile.groovy'), 'utf8'))
+
+      const compile = pipeline.jobs['build-test-matrix:compile']
+      expect(compile.parallel?.matrix).toEqual([{ LANG: ['java17', 'java21'], DB: ['mysql', 'postgres'] }])
+      expect(compile.script).toContain('mvn clean compile -P${LANG}')
+      expect(pipeline.jobs['build-test-matrix:unit-tests'].parallel).toEqual(compile.parallel)
+    })
+
+    test('should drop excluded combinations', () => {
+      const { pipeline, report } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Test') {
+      matrix {
+        axes {
+          axis { name 'OS'; values 'linux', 'windows', 'mac' }
+          axis { name 'BROWSER'; values 'chrome', 'firefox', 'safari' }
+        }
+        excludes {
+          exclude {
+            axis { name 'OS'; notValues 'mac' }
+            axis { name 'BROWSER'; values 'safari' }
+          }
+          exclude {
+            axis { name 'OS'; values 'windows' }
+            axis { name 'BROWSER'; values 'firefox' }
+          }
+        }
+        stages {
+          stage('Run') { steps { sh './run-tests.sh $OS $BROWSER' } }
+        }
+      }
+    }
+  }
+}`)
+
+      expect(pipeline.jobs['test:run'].parallel?.matrix).toEqual([
+        { OS: 'linux', BROWSER: ['chrome', 'firefox'] },
+        { OS: 'windows', BROWSER: 'chrome' },
+        { OS: 'mac', BROWSER: ['chrome', 'firefox', 'safari'] }
+      ])
+      expect(report.notes).toContain("Matrix 'Test' runs 6 of 9 combinations after excludes")
+    })
+
+    test('should drop a matrix whose excludes leave no combination', () => {
+      const { pipeline, report } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Test') {
+      matrix {
+        axes {
+          axis { name 'OS'; values 'linux', 'mac' }
+        }
+        excludes {
+          exclude { axis { name 'OS'; values 'linux', 'mac' } }
+        }
+        stages {
+          stage('Run') { steps { sh './run-tests.sh $OS' } }
+        }
+      }
+    }
+    stage('Deploy') { steps { sh './deploy.sh' } }
+  }
+}`)
+
+      expect(Object.keys(pipeline.jobs)).toEqual(['deploy'])
+      expect(report.unconverted.map(u => [u.kind, u.description, u.span.startLine])).toEqual([
+        ['matrix', "Matrix 'Test' excludes every combination of its axes, so none of its stages run", 6]
+      ])
+    })
+  })
+
+  describe('Steps', () => {
+    test('should convert wrappers, reports and docker steps', () => {
+      const { pipeline, report } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      steps {
+        timeout(time: 1, unit: 'HOURS') {
+          retry(3) {
+            dir('app') { sh './gradlew build' }
+          }
+        }
+        junit 'app/build/test-results/**/*.xml'
+        archiveArtifacts artifacts: 'app/build/libs/*.jar, app/build/reports/**'
+      }
+    }
+    stage('Image') {
+      steps {
+        script {
+          def img = docker.build("acme/app:\${BUILD_NUMBER}")
+          img.push('stable')
+        }
+      }
+    }
+  }
+}`)
+
+      expect(pipeline.jobs.build).toMatchObject({
+        image: 'gradle:8.7-jdk17',
+        script: ['cd "app"', './gradlew build', 'cd "$CI_PROJECT_DIR"'],
+        artifacts: {
+          when: 'always',
+          paths: ['app/build/libs/*.jar', 'app/build/reports/**'],
+          reports: { junit: ['app/build/test-results/**/*.xml'] }
+        },
+        timeout: '1h',
+        retry: 2
+      })
+      expect(pipeline.jobs['image-job']).toMatchObject({
+        image: 'docker:24.0',
+        services: ['docker:24.0-dind'],
+        script: [
+          'docker build -t acme/app:${CI_PIPELINE_IID} .',
+          'docker tag acme/app:${CI_PIPELINE_IID} acme/app:stable',
+          'docker push acme/app:stable'
+        ]
+      })
+      expect(report.convertedSteps).toBe(8)
+    })
+
+    test('should return to the enclosing directory after a nested dir block', () => {
+      const { pipeline } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      steps {
+        dir('a') {
+          dir('b') { sh 'make' }
+          sh 'npm ci'
+        }
+        sh 'ls'
+      }
+    }
+  }
+}`)
+
+      expect(pipeline.jobs.build.script).toEqual(['cd "a"', 'cd "b"', 'make', 'cd "$CI_PROJECT_DIR/a"', 'npm ci', 'cd "$CI_PROJECT_DIR"', 'ls'])
+    })
+
+    test('should report steps it cannot convert with their lines', () => {
+      const { report } = convert(`pipeline {
+  agent any
+  stages {
+    stage('Notify') {
+      steps {
+        sh "echo \${currentBuild.number}"
+        mail to: 'team@example.com', subject: 'done'
+        script { def v = readFile('VERSION') }
+      }
+    }
+  }
+}`)
+
+      expect(report.unconverted.map(u => [u.kind, u.span.startLine])).toEqual([
+        ['expression', 6],
+        ['step', 7],
+        ['step', 8]
+      ])
+    })
+  })
+
+  describe('Parameters', () => {
+    test('should turn parameters into prefilled pipeline variables', () => {
+      const sample = readFileSync(join(process.cwd(), 'samples/jenkinsfile-with-parameters.groovy'), 'utf8')
+      const { pipeline, report } = convert(sample)
+
+      expect(pipeline.variables).toMatchObject({
+        DEPLOY_ENV: { value: 'staging', description: 'Target deployment environment' },
+        RUN_TESTS: { value: 'true', options: ['true', 'false'] },
+        BUILD_TYPE: { value: 'Debug', options: ['Debug', 'Release', 'Profile'] },
+        RELEASE_NOTES: { value: '' },
+        APP_NAME: 'my-app'
+      })
+      expect(pipeline.jobs['build'].script?.[0]).toBe('echo "Building ${BUILD_TYPE} for ${DEPLOY_ENV}"')
+      expect(pipeline.jobs['test'].rules).toEqual([{ if: '$RUN_TESTS == "true"' }])
+      expect(report.unconverted).toEqual([])
+    })
+
+    test('should list password parameters as secrets instead of defaults', () => {
+      const { pipeline, report } = convert(`pipeline {
+  agent any
+  parameters { password(name: 'DB_PASSWORD', defaultValue: 'hunter2') }
+  stages { stage('Migrate') { steps { sh 'migrate --password "$DB_PASSWORD"' } } }
+}`)
+
+      expect(pipeline.variables).toEqual({})
+      expect(report.secrets).toEqual([
+        { variable: 'DB_PASSWORD', source: "password parameter 'DB_PASSWORD'", span: { startLine: 3, endLine: 3 } }
+      ])
+    })
+  })
+
+  describe('Options', () => {
+    test('should map pipeline options to defaults, workflow and variables', () => {
+      const { pipeline, report } = convert(`pipeline {
+  agent any
+  options {
+    timeout(time: 1, unit: 'HOURS')
+    retry(2)
+    timestamps()
+    disableConcurrentBuilds(abortPrevious: true)
+    skipDefaultCheckout()
+    quietPeriod(30)
+  }
+  stages {
+    stage('Build') {
+      steps {
+        checkout scm
+        sh 'make'
+      }
+    }
+    stage('Test') { steps { sh 'make test' } }
+  }
+}`)
+
+      expect(pipeline.default).toEqual({ timeout: '1h', retry: 1, interruptible: true })
+      expect(pipeline.workflow).toEqual({ auto_cancel: { on_new_commit: 'interruptible' } })
+      expect(pipeline.variables).toEqual({ GIT_STRATEGY: 'none' })
+      expect(pipeline.jobs['build'].variables).toEqual({ GIT_STRATEGY: 'fetch' })
+      expect(pipeline.jobs['test'].variables).toBeUndefined()
+      expect(report.options.map(o => [o.directive, o.status])).toEqual([
+        ['timeout', 'converted'],
+        ['retry', 'converted'],
+        ['timestamps', 'built-in'],
+        ['disableConcurrentBuilds', 'converted'],
+        ['skipDefaultCheckout', 'converted'],
+        ['quietPeriod', 'unconverted']
+      ])
+      expect(report.unconverted.map(u => [u.kind, u.span.startLine])).toEqual([['option', 9]])
+    })
+
+    test('should apply stage options to the jobs of the stage', () => {
+      const { pipeline, report } = convert(`pipeline {
+  agent any
+  options { buildDiscarder(logRotator(artifactDaysToKeepStr: '7')) }
+  stages {
+    stage('Checks') {
+      options { timeout(time: 90, unit: 'SECONDS') }
+      parallel {
+        stage('Lint') {
+          options {
+            retry(3)
+            disableConcurrentBuilds()
+          }
+          steps { sh 'make lint' }
+        }
+        stage('Audit') {
+          steps {
+            sh 'make audit'
+            archiveArtifacts 'audit/*'
+          }
+        }
+      }
+    }
+  }
+}`)
+
+      expect(pipeline.jobs['checks:lint']).toMatchObject({
+        timeout: '2m',
+        retry: 2,
+        resource_group: 'checks-lint-$CI_COMMIT_REF_SLUG'
+      })
+      expect(pipeline.jobs['checks:audit'].artifacts).toEqual({ paths: ['audit/*'], expire_in: '7 days' })
+      expect(report.options.map(o => o.scope)).toEqual(['pipeline', "stage 'Checks'", "stage 'Lint'", "stage 'Lint'"])
+    })
+  })
+
+  describe('Post Conditions', () => {
+    test('should run post steps of a stage as guarded after_script commands', () => {
+      const { pipeline, report } = convert(`pipeline {
+  agent any
+  stages {
+    stage('Test') {
+      steps { sh 'make test' }
+      post {
+        always { junit 'reports/*.xml' }
+        failure { sh 'cat build.log' }
+        cleanup { sh 'rm -rf tmp' }
+        changed { echo 'status changed' }
+      }
+    }
+  }
+}`)
+
+      const test = pipeline.jobs['test']
+      expect(test.after_script).toEqual(['if [ "$CI_JOB_STATUS" = "failed" ]; then\n  cat build.log\nfi', 'rm -rf tmp'])
+      expect(test.artifacts).toEqual({ when: 'always', reports: { junit: ['reports/*.xml'] } })
+      expect(report.unconverted.map(u => [u.kind, u.span.startLine])).toEqual([['post', 10]])
+    })
+
+    test('should add follow-up jobs for stages with several jobs and for the pipeline', () => {
+      const { pipeline, report } = convert(`pipeline {
+  agent any
+  stages {
+    stage('Checks') {
+      when { branch 'main' }
+      parallel {
+        stage('Lint') { steps { sh 'make lint' } }
+        stage('Audit') { steps { sh 'make audit' } }
+      }
+      post { failure { echo 'checks failed' } }
+    }
+  }
+  post {
+    always { archiveArtifacts artifacts: 'logs/**' }
+    success { slackSend channel: '#ci', message: "Built \${BUILD_NUMBER}" }
+    fixed { echo 'back to green' }
+  }
+}`)
+
+      expect(pipeline.stages).toEqual(['checks', 'checks-post'])
+      expect(pipeline.jobs['checks:post-failure']).toMatchObject({
+        stage: 'checks-post',
+        needs: [{ job: 'checks:lint', optional: true }, { job: 'checks:audit', optional: true }],
+        script: ['echo "checks failed"'],
+        rules: [{ if: '$CI_COMMIT_BRANCH == "main"', when: 'on_failure' }]
+      })
+      expect(pipeline.jobs['checks:lint'].artifacts).toEqual({ when: 'always', paths: ['logs/**'] })
+
+      const notify = pipeline.jobs['post:success']
+      expect(notify).toMatchObject({ stage: '.post', image: 'curlimages/curl:8.7.1', when: 'on_success' })
+      expect(notify.script?.[0]).toContain('\\"text\\":\\"Built ${CI_PIPELINE_IID}\\"')
+      expect(notify.script?.[0]).toContain('"$SLACK_WEBHOOK_URL"')
+      expect(report.unconverted.map(u => u.description)).toEqual([
+        'post { fixed } on the pipeline has no GitLab equivalent: GitLab jobs cannot see the result of the previous pipeline'
+      ])
+    })
+
+    test('should give a scripted finally block only to the stages inside its try block', () => {
+      const { pipeline } = convert(`node('linux') {
+  stage('Checkout') { sh 'git log -1' }
+  try {
+    stage('Test') { sh 'make test' }
+  } finally {
+    junit 'reports/*.xml'
+  }
+  docker.image('node:20').inside {
+    stage('Build') { sh 'npm ci' }
+  }
+}`)
+
+      expect(pipeline.jobs.test.artifacts).toEqual({ when: 'always', reports: { junit: ['reports/*.xml'] } })
+      expect(pipeline.jobs.checkout.artifacts).toBeUndefined()
+      expect(pipeline.jobs.build.artifacts).toBeUndefined()
+      expect(pipeline.jobs.build).toMatchObject({ image: 'node:20', tags: ['linux'] })
+    })
+
+    test('should let follow-up jobs need conditional branches optionally', () => {
+      const { pipeline } = convert(`pipeline {
+  agent any
+  stages {
+    stage('Tests') {
+      parallel {
+        stage('A') { steps { sh 'make a' } }
+        stage('B') {
+          when { changeset 'b/**' }
+          steps { sh 'make b' }
+        }
+      }
+      post { failure { echo 'tests failed' } }
+    }
+  }
+}`)
+
+      expect(pipeline.jobs['tests:post-failure'].needs).toEqual(['tests:a', { job: 'tests:b', optional: true }])
+    })
+  })
+
+  describe('Stash and Workspace', () => {
+    const jenkinsfile = `
+pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      steps {
+        sh 'mvn -B package'
+        dir('web') {
+          sh 'npm ci && npm run build'
+          stash name: 'web', includes: 'dist/**', excludes: 'dist/**/*.map'
+        }
+        stash name: 'jar', includes: 'target/*.jar'
+      }
+    }
+    stage('Test') {
+      parallel {
+        stage('Unit') { steps { sh 'mvn test' } }
+        stage('Lint') { steps { sh 'npx eslint .' } }
+      }
+    }
+    stage('Package') {
+      steps {
+        unstash 'jar'
+        sh 'docker build -t app .'
+      }
+    }
+    stage('Publish') {
+      steps {
+        unstash 'reports'
+        sh 'npm publish'
+      }
+    }
+  }
+}`
+
+    test('should upload stashed files as artifacts of the job that stashes them', () => {
+      const { pipeline } = convert(jenkinsfile)
+
+      expect(pipeline.jobs.build.artifacts).toEqual({
+        paths: ['web/dist/**', 'target/*.jar'],
+        exclude: ['web/dist/**/*.map'],
+        expire_in: '1 day'
+      })
+    })
+
+    test('should make unstashing jobs need the stashing job and keep the stage order', () => {
+      const { pipeline, report } = convert(jenkinsfile)
+
+      expect(pipeline.jobs.package.needs).toEqual([
+        { job: 'test:unit', artifacts: false },
+        { job: 'test:lint', artifacts: false },
+        { job: 'build', artifacts: true }
+      ])
+      expect(pipeline.jobs.publish.needs).toBeUndefined()
+      expect(report.unconverted).toEqual([
+        expect.objectContaining({ description: "unstash 'reports' has no stash in an earlier stage to download" })
+      ])
+    })
+
+    test('should warn about build output reused from the shared workspace', () => {
+      const { report } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Build') { steps { sh 'mvn -B package' } }
+    stage('Deploy') { steps { sh 'scp target/app.jar deploy@host:/opt/app' } }
+  }
+}`)
+
+      expect(report.notes).toContain("Job 'deploy' uses target/ from job 'build', which Jenkins left in the shared workspace; GitLab jobs do not share a workspace, so stash it or archive it as an artifact")
+    })
+  })
+
+  describe('Concurrency', () => {
+    const jenkinsfile = `
+pipeline {
+  agent any
+  stages {
+    stage('Build') { steps { sh 'make' } }
+    stage('Deploy') {
+      options { lock('staging-db') }
+      stages {
+        stage('Migrate') { steps { sh './migrate' } }
+        stage('Release') {
+          steps {
+            milestone(1)
+            sh './release'
+          }
+        }
+      }
+    }
+    stage('Smoke') {
+      steps {
+        lock(resource: 'Prod Env', inversePrecedence: true) { sh './smoke' }
+      }
+    }
+  }
+}`
+
+    test('should map locks to resource groups and explain locks spanning jobs', () => {
+      const { pipeline, report } = convert(jenkinsfile)
+
+      expect(pipeline.jobs['deploy:migrate'].resource_group).toBe('staging-db')
+      expect(pipeline.jobs['deploy:release'].resource_group).toBe('staging-db')
+      expect(pipeline.jobs.smoke.resource_group).toBe('prod-env')
+      expect(report.options).toContainEqual(expect.objectContaining({ directive: 'lock', gitlab: 'resource_group: staging-db', status: 'converted' }))
+      expect(report.notes).toContain("lock('staging-db') spans jobs deploy:migrate, deploy:release, which take resource group 'staging-db' one at a time; another pipeline's job can run between them, so merge the jobs if the resource must be held throughout")
+      expect(report.notes).toContain("lock('Prod Env') let the newest build go first; set process_mode to newest_first on resource group 'prod-env' with the resource groups API")
+    })
+
+    test('should make the jobs before a milestone interruptible', () => {
+      const { pipeline } = convert(jenkinsfile)
+
+      expect(pipeline.jobs.build.interruptible).toBe(true)
+      expect(pipeline.jobs['deploy:migrate'].interruptible).toBe(true)
+      expect(pipeline.jobs['deploy:release'].interruptible).toBeUndefined()
+      expect(pipeline.jobs.smoke.interruptible).toBeUndefined()
+    })
+  })
+
+  describe('Approvals', () => {
+    test('should turn a stage input into a blocking manual deploy job', () => {
+      const { pipeline, report, files } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Deploy to Staging') {
+      input {
+        message 'Deploy to staging?'
+        submitter 'alice, ops-team'
+        submitterParameter 'APPROVER'
+        parameters {
+          choice(name: 'REGION', choices: ['eu', 'us'])
+          password(name: 'TOKEN', defaultValue: '')
+        }
+      }
+      steps { sh './deploy.sh $REGION' }
+    }
+  }
+}`)
+
+      expect(pipeline.jobs['deploy-to-staging']).toMatchObject({
+        variables: { REGION: 'eu', APPROVER: '$GITLAB_USER_LOGIN' },
+        when: 'manual',
+        allow_failure: false,
+        environment: { name: 'staging' }
+      })
+      expect(report.secrets).toEqual([expect.objectContaining({ variable: 'TOKEN' })])
+      expect(report.unconverted).toEqual([])
+      expect(files['.gitlab/approval-rules.md']).toContain('- [ ] Allow only these Jenkins submitters to deploy: alice, ops-team')
+      expect(files['.gitlab/approval-rules.md']).toContain('- [ ] Tell approvers to set `REGION` when running the job, one of eu, us')
+    })
+
+    test('should make jobs with input steps manual within their rules', () => {
+      const { pipeline, report } = convert(`
+pipeline {
+  agent any
+  stages {
+    stage('Sign-off') {
+      when { branch 'main' }
+      steps {
+        timeout(time: 1, unit: 'HOURS') {
+          input message: 'Looks good?', parameters: [string(name: 'NOTE', defaultValue: 'ok')]
+        }
+        sh 'echo $NOTE'
+      }
+    }
+  }
+}`)
+
+      expect(pipeline.jobs['sign-off']).toMatchObject({
+        variables: { NOTE: 'ok' },
+        rules: [{ if: '$CI_COMMIT_BRANCH == "main"', when: 'manual' }],
+        allow_failure: false
+      })
+      expect(pipeline.jobs['sign-off'].timeout).toBeUndefined()
+      expect(pipeline.jobs['sign-off'].environment).toBeUndefined()
+      expect(report.notes).toContain("GitLab manual jobs wait until someone runs them; the Jenkins timeout on the input in Stage 'Sign-off' is dropped")
+    })
+  })
+
+  describe('Source Map', () => {
+    test('should trace jobs, rules and script lines back to the Jenkinsfile', () => {
+      const { yaml, sourceMap } = convert(`pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      when { branch 'main' }
+      steps {
+        sh 'make'
+        dir('docs') {
+          sh 'make html'
+        }
+      }
+      post {
+        failure { echo 'broken' }
+      }
+    }
+  }
+}`)
+
+      expect(sourceMap).toEqual([{
+        job: 'build',
+        span: { startLine: 4, endLine: 15 },
+        yaml: { startLine: 6, endLine: 20 },
+        rules: [{ startLine: 5, endLine: 5 }],
+        script: [{ startLine: 7, endLine: 7 }, { startLine: 8, endLine: 10 }, { startLine: 9, endLine: 9 }, { startLine: 8, endLine: 10 }],
+        afterScript: [{ startLine: 13, endLine: 13 }]
+      }])
+      expect(yaml.split('\n')[5]).toBe('build:')
+    })
+  })
+
+  describe('Findings', () => {
+    test('should list dropped and approximated constructs and comment them in the YAML', () => {
+      const { yaml, findings } = convert(`pipeline {
+  agent any
+  options { retry(5) }
+  stages {
+    stage('Build') {
+      steps {
+        sh 'make'
+        script { currentBuild.displayName = 'x' }
+      }
+    }
+  }
+}`)
+
+      expect(findings).toEqual([
+        {
+          kind: 'option',
+          line: 3,
+          severity: 'warning',
+          reason: "retry(5) was capped at GitLab's maximum of 2 retries",
+          action: 'Check that three attempts are enough for the job',
+          job: undefined
+        },
+        expect.objectContaining({ kind: 'groovy', line: 8, severity: 'error', job: 'build' })
+      ])
+      expect(yaml).toMatch(/^# TODO\(line 3\): retry\(5\) was capped at GitLab's maximum of 2 retries\. Check that three attempts/m)
+      expect(yaml).toMatch(/^# TODO\(line 8\): Groovy .*\. Rewrite the Groovy code as shell commands in the job script\nbuild:$/m)
+    })
+
+    test('should give findings to the job whose steps hold them, not to an enclosing finally job', () => {
+      const { findings, sourceMap } = convert(`node {
+  try {
+    stage('Test') {
+      parallel(failFast: true, a: { sh 'make a' }, b: { sh 'make b' })
+    }
+    stage('Run') {
+      docker.image('maven:3').inside('-v /data:/data') { sh 'mvn verify' }
+    }
+  } finally {
+    sh './cleanup.sh'
+  }
+}`)
+
+      expect(sourceMap.find(source => source.job === 'post:always')?.span).toEqual({ startLine: 9, endLine: 11 })
+      expect(findings.map(finding => [finding.kind, finding.line, finding.job])).toEqual([
+        ['parallel', 3, undefined],
+        ['agent', 7, 'run']
+      ])
+    })
+  })
+
+  describe('Conversion Options', () => {
+    const jenkinsfile = `
+pipeline {
+  agent any
+  stages {
+    stage('Build') { steps { sh 'mvn -B package' } }
+    stage('Lint') { steps { sh 'npm ci && npm run lint' } }
+    stage('Unit') { steps { sh 'mvn test' } }
+    stage('Deploy') { steps { sh './deploy.sh' } }
+  }
+}`
+    const all = { optimizeForSpeed: true, enableParallelization: true, includeSecurityScanning: true }
+
+    test('should add nothing to a simple translation', () => {
+      const simple = convertToGitLab(buildPipelineModel(jenkinsfile), { ...all, targetComplexity: 'simple' })
+
+      expect(simple.yaml).toBe(convert(jenkinsfile).yaml)
+      expect(simple.files).toEqual({})
+    })
+
+    test('should cache dependencies and start jobs that use nothing from earlier stages', () => {
+      const { pipeline, report } = convertToGitLab(buildPipelineModel(jenkinsfile), { optimizeForSpeed: true, enableParallelization: true })
+
+      expect(pipeline.jobs.build).toMatchObject({
+        variables: { MAVEN_OPTS: '-Dmaven.repo.local=$CI_PROJECT_DIR/.m2/repository' },
+        cache: { key: { files: ['pom.xml'] }, paths: ['.m2/repository/'] },
+        interruptible: true
+      })
+      expect(pipeline.jobs.build.needs).toBeUndefined()
+      expect(pipeline.jobs.lint).toMatchObject({ needs: [], cache: { key: { files: ['package-lock.json'] }, paths: ['.npm/'] } })
+      expect(pipeline.jobs.unit.needs).toEqual([])
+      expect(pipeline.jobs.deploy).toEqual({ stage: 'deploy', image: 'alpine:3.19', script: ['./deploy.sh'] })
+      expect(report.notes).toContain('Jobs lint, unit start with the pipeline instead of after the earlier stages, so they also run when an earlier job fails')
+    })
+
+    test('should keep the stage order of jobs that may use earlier output', () => {
+      const { pipeline } = convertToGitLab(buildPipelineModel(`
+pipeline {
+  agent any
+  stages {
+    stage('Install') { steps { sh 'npm ci' } }
+    stage('Test') { steps { sh 'npm test' } }
+    stage('Package') { steps { sh 'make dist'; archiveArtifacts 'dist/**' } }
+    stage('Smoke') { steps { sh './smoke.sh' } }
+  }
+}`), { enableParallelization: true })
+
+      expect(pipeline.jobs.test.needs).toBeUndefined()
+      expect(pipeline.jobs.package.needs).toEqual([])
+      expect(pipeline.jobs.smoke.needs).toBeUndefined()
+    })
+
+    test('should include security scanning, share job settings and document the pipeline', () => {
+      const { pipeline, yaml, report, files } = convertToGitLab(buildPipelineModel(jenkinsfile.replace("stage('Lint')", "stage('SAST')")), {
+        ...all,
+        targetComplexity: 'advanced',
+        generateDocumentation: true
+      })
+
+      expect(pipeline.include).toEqual([
+        { template: 'Security/SAST.gitlab-ci.yml' },
+        { template: 'Security/Secret-Detection.gitlab-ci.yml' }
+      ])
+      expect(pipeline.stages).toEqual(['build', 'sast', 'unit', 'test', 'deploy'])
+      expect(report.jobs).toEqual(['build', 'sast-2', 'unit', 'deploy'])
+      expect(pipeline.jobs.unit).toEqual({ extends: '.image-variables-cache', stage: 'unit', needs: [], script: ['mvn test'], interruptible: true })
+      expect(yaml).toContain('# Shared job settings\n.image-variables-cache:\n  image: maven:3.9-eclipse-temurin-17\n')
+      expect(files['README-CI.md']).toContain('### `unit`\n\n- Stage: `unit`\n- Runs in every pipeline\n- Image: `maven:3.9-eclipse-temurin-17`\n- Starts with the pipeline\n')
+      expect(files['README-CI.md']).toContain('- the `Security/SAST.gitlab-ci.yml` template\n')
+    })
+  })
+
+  describe('Variables and YAML Output', () => {
+    test('should translate Jenkins variables to GitLab predefined variables', () => {
+      expect(translateVariables('v$BUILD_NUMBER-${GIT_COMMIT}-${env.BRANCH_NAME}-$HOME')).toBe(
+        'v$CI_PIPELINE_IID-${CI_COMMIT_SHA}-${CI_COMMIT_REF_NAME}-$HOME'
+      )
+    })
+
+    test('should quote only the scalars YAML would misread', () => {
+      const { yaml } = convert(`
+pipeline {
+  agent any
+  environment {
+    ENABLED = 'true'
+    PORT = '8080'
+    LABEL = 'key: value'
+    NAME = 'app'
+  }
+  stages {
+    stage('Run') {
+      steps {
+        sh '''
+          echo one
+          echo two
+        '''
+      }
+    }
+  }
+}`)
+
+      expect(yaml).toContain("  ENABLED: 'true'\n  PORT: '8080'\n  LABEL: 'key: value'\n  NAME: app\n")
+      expect(yaml).toContain('  script:\n    - |\n      echo one\n      echo two\n')
+    })
+  })
+})
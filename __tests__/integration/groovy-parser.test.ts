@@ -0,0 +1,222 @@
+/**
+ * Integration Tests for the Jenkinsfile Parser
+ * Ensures the syntax tree reflects real pipeline structure with source positions
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { parseJenkinsfile } from '@/lib/groovy-parser'
+import { findCalls, literalValue, MethodCall, namedArgument, statementCall } from '@/lib/groovy-ast'
+import { tokenize } from '@/lib/groovy-lexer'
+import { scan } from '@/lib/score'
+
+describe('Jenkinsfile Parser Integration Tests', () => {
+  const complexSample = readFileSync(join(process.cwd(), 'samples/complex-jenkinsfile.groovy'), 'utf8')
+
+  describe('Syntax Tree Structure', () => {
+    test('should parse the complex sample without syntax errors', () => {
+      const { ast, errors } = parseJenkinsfile(complexSample)
+
+      expect(errors).toEqual([])
+      expect(ast.body).toHaveLength(1)
+
+      const pipeline = statementCall(ast.body[0])
+      expect(pipeline?.method).toBe('pipeline')
+      expect(pipeline?.closure).toBeDefined()
+    })
+
+    test('should record source positions for every stage', () => {
+      const { ast } = parseJenkinsfile(complexSample)
+      const stages = findCalls(ast, 'stage')
+
+      const names = stages.map(s => literalValue(s.arguments[0]))
+      expect(names).toContain('Build & Test Matrix')
+      expect(names).toContain('Deploy to Kubernetes')
+
+      const lines = complexSample.split('\n')
+      for (const stage of stages) {
+        expect(lines[stage.loc.start.line - 1]).toContain(`stage('${literalValue(stage.arguments[0])}')`)
+      }
+    })
+
+    test('should parse command calls with named arguments', () => {
+      const { ast } = parseJenkinsfile(`
+pipeline {
+  stages {
+    stage('Deploy') {
+      when { branch pattern: "^(main|release/.*)$", comparator: "REGEXP" }
+      steps {
+        archiveArtifacts artifacts: '**/target/*.jar', fingerprint: true
+      }
+    }
+  }
+}`)
+      const branch = findCalls(ast, 'branch')[0]
+      expect(branch.command).toBe(true)
+      expect(literalValue(namedArgument(branch, 'pattern'))).toBe('^(main|release/.*)$')
+      expect(literalValue(namedArgument(branch, 'comparator'))).toBe('REGEXP')
+
+      const archive = findCalls(ast, 'archiveArtifacts')[0]
+      expect(literalValue(namedArgument(archive, 'fingerprint'))).toBe(true)
+    })
+
+    test('should keep GString interpolations as expressions', () => {
+      const { ast } = parseJenkinsfile('sh "helm upgrade --set env=${params.ENV} --namespace \\${NS}"')
+      const sh = findCalls(ast, 'sh')[0]
+      const arg = sh.arguments[0]
+
+      expect(arg.type).toBe('StringLiteral')
+      if (arg.type !== 'StringLiteral') return
+      expect(arg.interpolated).toBe(true)
+      expect(arg.value).toBe('helm upgrade --set env=${params.ENV} --namespace ${NS}')
+
+      const interpolation = arg.parts.find(p => typeof p !== 'string')
+      expect(typeof interpolation).toBe('object')
+      if (typeof interpolation === 'string' || !interpolation) return
+      expect(interpolation.expression?.type).toBe('PropertyAccess')
+      expect(interpolation.expression?.loc.start.line).toBe(1)
+    })
+
+    test('should parse scripted constructs', () => {
+      const { ast, errors } = parseJenkinsfile(`
+@Library('shared-lib@main') _
+
+properties([parameters([string(name: 'ENV', defaultValue: 'dev')])])
+
+node('linux') {
+  try {
+    stage('Build') {
+      checkout scm
+      docker.image('maven:3.9')
+        .inside('-v /tmp:/tmp') {
+          sh 'mvn -B package'
+        }
+    }
+    parallel(
+      unit: { sh 'make unit' },
+      lint: { sh 'make lint' }
+    )
+  } catch (err) {
+    currentBuild.result = 'FAILURE'
+    throw err
+  } finally {
+    cleanWs()
+  }
+}
+
+def helper(String name, Map opts = [:]) {
+  return "hello \${name}"
+}`)
+      expect(errors).toEqual([])
+
+      const annotated = ast.body[0]
+      expect(annotated.type).toBe('AnnotatedStatement')
+      if (annotated.type === 'AnnotatedStatement') {
+        expect(annotated.annotations[0].name).toBe('Library')
+        expect(literalValue(annotated.annotations[0].arguments[0])).toBe('shared-lib@main')
+      }
+
+      const inside = findCalls(ast, 'inside')[0]
+      expect(inside.closure?.body).toHaveLength(1)
+      expect((inside.object as MethodCall).method).toBe('image')
+
+      const parallel = findCalls(ast, 'parallel')[0]
+      expect(parallel.namedArguments.map(a => a.name)).toEqual(['unit', 'lint'])
+
+      const method = ast.body[ast.body.length - 1]
+      expect(method.type).toBe('MethodDeclaration')
+      if (method.type === 'MethodDeclaration') {
+        expect(method.params.map(p => p.name)).toEqual(['name', 'opts'])
+      }
+    })
+
+    test('should read sibling blocks written on one line', () => {
+      const { ast, errors } = parseJenkinsfile(`pipeline {
+  agent any
+  stages { stage('Build') { steps { sh 'make' } } }
+  post { success { echo 'ok' } cleanup { echo 'bye' } }
+}`)
+      expect(errors).toEqual([])
+      const post = findCalls(ast, 'post')[0]
+      expect(post.closure?.body.map(statement => statementCall(statement)?.method)).toEqual(['success', 'cleanup'])
+    })
+  })
+
+  describe('Comments and Strings', () => {
+    test('should ignore calls that only appear in comments or strings', () => {
+      const { ast } = parseJenkinsfile(`
+// node { sh 'old' }
+/* stage('Commented') { } */
+pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      steps {
+        echo 'node { } and stage( in a string'
+      }
+    }
+  }
+}`)
+      expect(findCalls(ast, 'node')).toHaveLength(0)
+      expect(findCalls(ast, 'stage')).toHaveLength(1)
+    })
+
+    test('should classify declarative and scripted pipelines from the tree', () => {
+      const declarativeWithNodeAgent = `
+// Scripted pipelines start with node { }
+pipeline {
+  agent { node { label 'linux' } }
+  stages { stage('Build') { steps { sh 'make' } } }
+}`
+      const result = scan(declarativeWithNodeAgent)
+      expect(result.declarative).toBe(true)
+      expect(result.scripted).toBe(false)
+
+      const scripted = scan(`node { stage('Build') { sh 'make' } }`)
+      expect(scripted.scripted).toBe(true)
+      expect(scripted.declarative).toBe(false)
+    })
+
+    test('should lex dollar-slashy strings with their escapes and interpolations', () => {
+      const { tokens, errors } = tokenize('sh $/grep -E "^v[0-9]+\\.x" $$HOME/tmp $/ ${file} /$\necho "done"')
+      expect(errors).toEqual([])
+
+      const script = tokens[1]
+      expect(script).toMatchObject({ type: 'string', quote: '$/', value: 'grep -E "^v[0-9]+\\.x" $HOME/tmp / ${file} ' })
+      expect(script.parts?.map(p => p.kind)).toEqual(['text', 'interpolation', 'text'])
+      expect(script.end).toMatchObject({ line: 1 })
+      expect(tokens.slice(2).map(t => t.value)).toEqual(['\n', 'echo', 'done', ''])
+    })
+  })
+
+  describe('Error Recovery', () => {
+    test('should report syntax errors with positions and keep parsing', () => {
+      const { ast, errors } = parseJenkinsfile(`
+pipeline {
+  stages {
+    stage('Broken' {
+      steps { sh 'make' }
+    }
+    stage('Fine') {
+      steps { sh 'make test' }
+    }
+  }
+}`)
+      expect(errors.length).toBeGreaterThan(0)
+      expect(errors[0].line).toBe(4)
+      expect(findCalls(ast, 'stage').map(s => literalValue(s.arguments[0]))).toContain('Fine')
+    })
+
+    test('should not throw on unterminated strings and blocks', () => {
+      const { errors } = parseJenkinsfile(`
+        pipeline {
+          agent any
+          stages {
+            stage('Build' {
+              steps {
+                sh 'echo "test"
+        `)
+      expect(errors.length).toBeGreaterThan(0)
+    })
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Integration Tests for the Pipeline Model
+ * Ensures declarative Jenkinsfiles are read into the typed model from types/index.ts
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { buildPipelineModel, isGroovyCall } from '@/lib/pipeline-model'
+import { scan } from '@/lib/score'
+
+describe('Pipeline Model Integration Tests', () => {
+  const complexSample = readFileSync(join(process.cwd(), 'samples/complex-jenkinsfile.groovy'), 'utf8')
+  const parametersSample = readFileSync(join(process.cwd(), 'samples/jenkinsfile-with-parameters.groovy'), 'utf8')
+
+  describe('Pipeline Sections', () => {
+    test('should read agent, environment and parameters', () => {
+      const model = buildPipelineModel(parametersSample)!
+
+      expect(model.kind).toBe('declarative')
+      expect(model.agent?.kind).toBe('any')
+      expect(model.environment.map(v => [v.name, v.value])).toEqual([['APP_NAME', 'my-app'], ['VERSION', '1.0.0']])
+
+      const [deployEnv, runTests, buildType, notes] = model.parameters
+      expect(deployEnv).toMatchObject({ type: 'string', name: 'DEPLOY_ENV', defaultValue: 'staging' })
+      expect(runTests).toMatchObject({ type: 'booleanParam', defaultValue: true })
+      expect(buildType.choices).toEqual(['Debug', 'Release', 'Profile'])
+      expect(notes.type).toBe('text')
+      expect(model.unmodeled).toEqual([])
+    })
+
+    test('should read options, triggers, tools and credentials', () => {
+      const model = buildPipelineModel(`
+@Library('shared-lib@v2') _
+pipeline {
+  agent { docker { image 'node:20-alpine'; args '-v /tmp:/tmp' } }
+  options {
+    timeout(time: 30, unit: 'MINUTES')
+    buildDiscarder(logRotator(numToKeepStr: '10'))
+  }
+  triggers { cron('H 2 * * 1-5') }
+  tools { maven 'maven-3.9' }
+  environment { TOKEN = credentials('api-token') }
+  stages { stage('Build') { steps { sh 'npm ci' } } }
+}`)!
+
+      expect(model.agent).toMatchObject({ kind: 'docker', image: 'node:20-alpine', args: '-v /tmp:/tmp' })
+      expect(model.options[0]).toMatchObject({ name: 'timeout', named: { time: 30, unit: 'MINUTES' } })
+      const rotator = model.options[1].args[0]
+      expect(isGroovyCall(rotator) && rotator.named.numToKeepStr).toBe('10')
+      expect(model.triggers[0]).toMatchObject({ name: 'cron', args: ['H 2 * * 1-5'] })
+      expect(model.tools).toMatchObject([{ type: 'maven', name: 'maven-3.9' }])
+      expect(model.environment[0].credentialsId).toBe('api-token')
+      expect(model.libraries).toMatchObject([{ name: 'shared-lib', version: 'v2' }])
+    })
+
+    test('should read post conditions with their steps', () => {
+      const model = buildPipelineModel(complexSample)!
+
+      expect(model.post.map(p => p.condition)).toEqual(['success', 'failure', 'always'])
+      const always = model.post[2]
+      expect(always.steps.map(s => s.name)).toEqual(['archiveArtifacts', 'cleanWs'])
+      expect(always.steps[0].named).toEqual({ artifacts: '**/target/*.jar', fingerprint: true })
+    })
+  })
+
+  describe('Stages', () => {
+    test('should read matrix axes and inner stages', () => {
+      const model = buildPipelineModel(complexSample)!
+      const matrixStage = model.stages[0]
+
+      expect(matrixStage.name).toBe('Build & Test Matrix')
+      expect(matrixStage.matrix?.axes).toMatchObject([
+        { name: 'LANG', values: ['java17', 'java21'] },
+        { name: 'DB', values: ['mysql', 'postgres'] }
+      ])
+      expect(matrixStage.matrix?.stages.map(s => s.name)).toEqual(['Compile', 'Unit Tests'])
+    })
+
+    test('should read parallel branches and when conditions', () => {
+      const model = buildPipelineModel(complexSample)!
+
+      const security = model.stages.find(s => s.name === 'Security Scans')!
+      expect(security.parallel.map(s => s.name)).toEqual(['SonarQube Analysis', 'Trivy Security Scan', 'OWASP Dependency Check'])
+
+      const deploy = model.stages.find(s => s.name === 'Deploy to Kubernetes')!
+      expect(deploy.when?.conditions[0]).toMatchObject({
+        kind: 'branch',
+        named: { pattern: '^(main|master|release/.*)$', comparator: 'REGEXP' }
+      })
+
+      const integration = model.stages.find(s => s.name === 'Integration Tests')!
+      expect(integration.when?.conditions[0]).toMatchObject({ kind: 'expression', expression: "params.ENV != 'prod'" })
+    })
+
+    test('should keep nested steps and shell-ready strings', () => {
+      const model = buildPipelineModel(complexSample)!
+      const deploy = model.stages.find(s => s.name === 'Deploy to Kubernetes')!
+
+      const vault = deploy.steps[0]
+      expect(vault.name).toBe('withVault')
+      const retry = vault.body![0]
+      expect(retry).toMatchObject({ name: 'retry', args: [3] })
+      const helm = retry.body![0].args[0] as string
+      expect(helm).toContain('--namespace ${K8S_NAMESPACE}')
+      expect(helm).toContain('--set environment=${params.ENV}')
+      expect(retry.body![0].span.startLine).toBeLessThan(retry.body![0].span.endLine)
+    })
+
+    test('should read stage input and nested sequential stages', () => {
+      const model = buildPipelineModel(`
+pipeline {
+  agent none
+  stages {
+    stage('Release') {
+      input {
+        message 'Ship it?'
+        ok 'Deploy'
+        submitter 'alice,bob'
+        parameters { choice(name: 'TARGET', choices: ['eu', 'us']) }
+      }
+      stages {
+        stage('Package') { steps { sh 'make package' } }
+        stage('Publish') { steps { sh 'make publish' } }
+      }
+    }
+  }
+}`)!
+      const release = model.stages[0]
+      expect(release.input).toMatchObject({ message: 'Ship it?', ok: 'Deploy', submitter: 'alice,bob' })
+      expect(release.input?.parameters[0].choices).toEqual(['eu', 'us'])
+      expect(release.stages.map(s => s.name)).toEqual(['Package', 'Publish'])
+    })
+  })
+
+  describe('Unmodeled Constructs', () => {
+    test('should list statements the model cannot represent with their lines', () => {
+      const model = buildPipelineModel(`def version = '1.0'
+pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      steps { sh 'make' }
+      mystery 'value'
+    }
+  }
+}`)!
+      expect(model.unmodeled.map(u => [u.kind, u.span.startLine])).toEqual([['groovy', 1], ['directive', 7]])
+    })
+
+    test('should attach the model to scan results', () => {
+      expect(scan(parametersSample).pipeline?.stages.map(s => s.name)).toEqual(['Build', 'Test', 'Deploy'])
+      expect(buildPipelineModel(`println 'not a pipeline'`)).toBeUndefined()
+    })
+  })
+})
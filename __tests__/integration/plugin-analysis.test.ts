@@ -110,6 +110,33 @@ pipeline {
       expect(['compatible', 'partial', 'unsupported', 'unknown']).toContain(firstPlugin.compatibility_status)
     }, 25000)
 
+    test('should ignore plugin steps that only appear in comments or strings', async () => {
+      const result = await EnterprisePluginAnalyzer.analyzePlugins(
+        `
+pipeline {
+  agent any
+  stages {
+    stage('Notify') {
+      steps {
+        // slackSend channel: '#old-builds'
+        echo 'docker.build is no longer used here'
+        withCredentials([string(credentialsId: 'token', variable: 'TOKEN')]) {
+          sh 'curl -H "Authorization: $TOKEN" https://example.com'
+        }
+      }
+    }
+  }
+}`,
+        'test-project-comments',
+        'test-user'
+      )
+
+      const pluginNames = result.plugins.map(p => p.plugin_name)
+      expect(pluginNames).toContain('credentials-binding')
+      expect(pluginNames).not.toContain('slack')
+      expect(pluginNames).not.toContain('docker-workflow')
+    }, 25000)
+
     test('should handle empty Jenkins content gracefully', async () => {
       const result = await EnterprisePluginAnalyzer.analyzePlugins(
         '',
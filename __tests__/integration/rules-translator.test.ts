@@ -0,0 +1,107 @@
+/**
+ * Integration Tests for the When-to-Rules Translator
+ * Ensures Jenkins when conditions become equivalent GitLab rules
+ */
+
+import { buildPipelineModel } from '@/lib/pipeline-model'
+import { translateWhen } from '@/lib/rules-translator'
+import { convertToGitLab } from '@/lib/gitlab-converter'
+
+const whenOf = (conditions: string, parameters = '') => {
+  const model = buildPipelineModel(`pipeline {
+  agent any
+  ${parameters}
+  stages {
+    stage('Job') {
+      when {
+        ${conditions}
+      }
+      steps { sh 'make' }
+    }
+  }
+}`)!
+  return translateWhen([model.stages[0].when!], model.parameters)
+}
+
+describe('When-to-Rules Translator Integration Tests', () => {
+  describe('Directives', () => {
+    test('should translate branch, tag and change request conditions', () => {
+      expect(whenOf(`branch 'main'`).rules).toEqual([{ if: '$CI_COMMIT_BRANCH == "main"' }])
+      expect(whenOf(`branch 'release/**'`).rules).toEqual([{ if: '$CI_COMMIT_BRANCH =~ /^release\\/.*$/' }])
+      expect(whenOf(`branch pattern: 'hotfix-\\\\d+', comparator: 'REGEXP'`).rules).toEqual([
+        { if: '$CI_COMMIT_BRANCH =~ /^(?:hotfix-\\d+)$/' }
+      ])
+      expect(whenOf(`buildingTag()`).rules).toEqual([{ if: '$CI_COMMIT_TAG' }])
+      expect(whenOf(`tag 'v*'`).rules).toEqual([{ if: '$CI_COMMIT_TAG && $CI_COMMIT_TAG =~ /^v[^/]*$/' }])
+      expect(whenOf(`changeRequest target: 'main'`).rules).toEqual([
+        { if: '$CI_PIPELINE_SOURCE == "merge_request_event" && $CI_MERGE_REQUEST_TARGET_BRANCH_NAME == "main"' }
+      ])
+    })
+
+    test('should translate changesets, environment and trigger causes', () => {
+      expect(whenOf(`changeset 'src/**'`).rules).toEqual([{ changes: ['src/**'] }])
+      expect(whenOf(`environment name: 'DEPLOY_TO', value: 'production'`).rules).toEqual([
+        { if: '$DEPLOY_TO == "production"' }
+      ])
+      expect(whenOf(`triggeredBy 'TimerTrigger'`).rules).toEqual([{ if: '$CI_PIPELINE_SOURCE == "schedule"' }])
+      expect(whenOf(`triggeredBy cause: 'UserIdCause', detail: 'alice'`).rules).toEqual([
+        { if: '$CI_PIPELINE_SOURCE == "web" && $GITLAB_USER_LOGIN == "alice"' }
+      ])
+    })
+
+    test('should expand anyOf and push not down to the comparisons', () => {
+      expect(whenOf(`anyOf { branch 'main'; branch 'develop' }`).rules).toEqual([
+        { if: '$CI_COMMIT_BRANCH == "main"' },
+        { if: '$CI_COMMIT_BRANCH == "develop"' }
+      ])
+      expect(whenOf(`not { anyOf { branch 'main'; changeRequest() } }`).rules).toEqual([
+        { if: '$CI_COMMIT_BRANCH != "main" && $CI_PIPELINE_SOURCE != "merge_request_event"' }
+      ])
+      expect(whenOf(`not { changeset 'docs/**' }`).rules).toEqual([
+        { changes: ['docs/**'], when: 'never' },
+        { when: 'on_success' }
+      ])
+    })
+  })
+
+  describe('Expressions', () => {
+    test('should translate simple parameter and environment expressions', () => {
+      const parameters = `parameters { booleanParam(name: 'RUN_TESTS', defaultValue: true) }`
+
+      expect(whenOf(`expression { params.RUN_TESTS == true }`, parameters).rules).toEqual([{ if: '$RUN_TESTS == "true"' }])
+      expect(whenOf(`expression { return params.RUN_TESTS }`, parameters).rules).toEqual([{ if: '$RUN_TESTS == "true"' }])
+      expect(whenOf(`expression { env.BRANCH_NAME.startsWith('feature/') || params.ENV != 'prod' }`).rules).toEqual([
+        { if: '$CI_COMMIT_REF_NAME =~ /^feature\\//' },
+        { if: '$ENV != "prod"' }
+      ])
+      expect(whenOf(`expression { BRANCH_NAME ==~ /(main|master)/ }`).rules).toEqual([
+        { if: '$CI_COMMIT_REF_NAME =~ /^(?:(main|master))$/' }
+      ])
+    })
+
+    test('should leave a commented stub citing the line of untranslatable conditions', () => {
+      const translation = whenOf(`branch 'main'
+        expression { currentBuild.previousBuild?.result == 'SUCCESS' }`)
+
+      expect(translation.rules).toBeUndefined()
+      expect(translation.partial).toEqual([{ if: '$CI_COMMIT_BRANCH == "main"' }])
+      expect(translation.untranslated).toEqual([
+        expect.objectContaining({ span: { startLine: 8, endLine: 8 } })
+      ])
+
+      const { yaml } = convertToGitLab(buildPipelineModel(`pipeline {
+  agent any
+  stages {
+    stage('Deploy') {
+      when { expression { currentBuild.number > 1 } }
+      steps { sh './deploy.sh' }
+    }
+  }
+}`))
+      expect(yaml).toContain(
+        '  # TODO(line 5): expression { currentBuild.number > 1 } has no GitLab rules equivalent: ' +
+        'it depends on Groovy state GitLab cannot see\n  # rules:\n  #   - when: manual\n'
+      )
+    })
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Integration Tests for the Scripted Pipeline Interpreter
+ * Ensures node {} pipelines map onto the same model as declarative ones
+ */
+
+import { buildPipelineModel } from '@/lib/pipeline-model'
+
+describe('Scripted Pipeline Interpreter Integration Tests', () => {
+  const scriptedPipeline = `@Library('ci-lib') _
+
+properties([
+  parameters([
+    string(name: 'ENV', defaultValue: 'dev', description: 'Target environment'),
+    booleanParam(name: 'SKIP_TESTS', defaultValue: false)
+  ]),
+  pipelineTriggers([cron('H 4 * * *')]),
+  buildDiscarder(logRotator(numToKeepStr: '5'))
+])
+
+def notify(String status) {
+  slackSend message: status
+}
+
+node('linux') {
+  try {
+    stage('Checkout') {
+      checkout scm
+    }
+    stage('Build') {
+      docker.image('maven:3.9-eclipse-temurin-17').inside('-v $HOME/.m2:/root/.m2') {
+        sh 'mvn -B package'
+      }
+    }
+    stage('Test') {
+      parallel(
+        unit: { sh 'mvn test' },
+        lint: { sh 'mvn checkstyle:check' },
+        failFast: true
+      )
+    }
+    if (env.BRANCH_NAME == 'main') {
+      stage('Deploy') {
+        sh './deploy.sh'
+      }
+    }
+  } catch (err) {
+    currentBuild.result = 'FAILURE'
+    throw err
+  } finally {
+    junit '**/target/surefire-reports/*.xml'
+  }
+}`
+
+  describe('Structure', () => {
+    test('should map node, stages and properties onto the pipeline model', () => {
+      const model = buildPipelineModel(scriptedPipeline)!
+
+      expect(model.kind).toBe('scripted')
+      expect(model.agent).toMatchObject({ kind: 'label', label: 'linux' })
+      expect(model.libraries).toMatchObject([{ name: 'ci-lib' }])
+      expect(model.stages.map(s => s.name)).toEqual(['Checkout', 'Build', 'Test', 'Deploy'])
+      expect(model.parameters.map(p => [p.type, p.name])).toEqual([['string', 'ENV'], ['booleanParam', 'SKIP_TESTS']])
+      expect(model.triggers).toMatchObject([{ name: 'cron', args: ['H 4 * * *'] }])
+      expect(model.options.map(o => o.name)).toEqual(['buildDiscarder'])
+    })
+
+    test('should map docker.image().inside to a docker agent', () => {
+      const build = buildPipelineModel(scriptedPipeline)!.stages[1]
+
+      expect(build.agent).toMatchObject({ kind: 'docker', image: 'maven:3.9-eclipse-temurin-17', args: '-v $HOME/.m2:/root/.m2' })
+      expect(build.steps.map(s => s.name)).toEqual(['sh'])
+    })
+
+    test('should map parallel branches and failFast', () => {
+      const test = buildPipelineModel(scriptedPipeline)!.stages[2]
+
+      expect(test.parallel.map(b => b.name)).toEqual(['unit', 'lint'])
+      expect(test.parallel[0].steps[0].args).toEqual(['mvn test'])
+      expect(test.failFast).toBe(true)
+    })
+
+    test('should read the list form of parallel', () => {
+      const model = buildPipelineModel(`node {
+  parallel([
+    linux: { node('linux') { sh 'make' } },
+    windows: { node('windows') { bat 'build.bat' } }
+  ])
+}`)!
+      const [stage] = model.stages
+      expect(stage.parallel.map(b => [b.name, b.agent?.label])).toEqual([['linux', 'linux'], ['windows', 'windows']])
+    })
+
+    test('should turn if blocks around stages into expression conditions', () => {
+      const deploy = buildPipelineModel(scriptedPipeline)!.stages[3]
+
+      expect(deploy.when?.conditions).toMatchObject([{ kind: 'expression', expression: "env.BRANCH_NAME == 'main'" }])
+    })
+
+    test('should map catch and finally to post conditions', () => {
+      const model = buildPipelineModel(scriptedPipeline)!
+
+      expect(model.post.map(p => p.condition)).toEqual(['failure', 'always'])
+      expect(model.post[0].steps.map(s => s.kind)).toEqual(['groovy'])
+      expect(model.post[1].steps[0].name).toBe('junit')
+      expect(model.post[1].span).toEqual({ startLine: 41, endLine: 43 })
+    })
+
+    test('should take the steps of a stage inside a finally block into the post condition', () => {
+      const model = buildPipelineModel(`node {
+  try {
+    stage('Build') { sh 'make' }
+  } finally {
+    stage('Cleanup') { sh 'make clean' }
+  }
+}`)!
+
+      expect(model.post.map(p => p.condition)).toEqual(['always'])
+      expect(model.post[0].steps.map(s => [s.name, s.args[0]])).toEqual([['sh', 'make clean']])
+      expect(model.unmodeled).toEqual([])
+    })
+  })
+
+  describe('Loose Steps and Unmodeled Constructs', () => {
+    test('should collect steps outside stages into implicit stages', () => {
+      const model = buildPipelineModel(`node {
+  checkout scm
+  sh 'make'
+  stage 'Test'
+  sh 'make test'
+}`)!
+      expect(model.stages.map(s => [s.name, s.steps.map(step => step.args[0])])).toEqual([
+        ['Build', ['make']],
+        ['Test', ['make test']]
+      ])
+    })
+
+    test('should list constructs it cannot model with line numbers', () => {
+      const model = buildPipelineModel(scriptedPipeline)!
+
+      expect(model.unmodeled).toEqual([
+        expect.objectContaining({ kind: 'method', span: { startLine: 12, endLine: 14 } })
+      ])
+
+      const loops = buildPipelineModel(`def targets = ['a', 'b']
+node {
+  for (t in targets) {
+    stage("Deploy \${t}") { sh "deploy \${t}" }
+  }
+  try {
+    sh 'flaky'
+  } catch (e) {
+    echo 'ignored'
+  }
+}`)!
+      expect(loops.unmodeled.map(u => [u.kind, u.span.startLine])).toEqual([
+        ['groovy', 1],
+        ['control-flow', 3],
+        ['catch', 8]
+      ])
+    })
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Integration Tests for the Shared Library Resolver
+ * Ensures uploaded library steps are inlined into the jobs that call them
+ */
+
+import { deflateRawSync } from 'zlib'
+import { convertToGitLab } from '@/lib/gitlab-converter'
+import { buildPipelineModel } from '@/lib/pipeline-model'
+import { loadSharedLibrary, resolveSharedLibraries } from '@/lib/shared-library'
+import { readZipArchive } from '@/lib/zip-archive'
+
+const libraryFiles: Record<string, string> = {
+  'my-lib/vars/mavenBuild.groovy': `def call(Map config = [:]) {
+  def goals = config.goals ?: 'clean verify'
+  log.info "Building \${config.module ?: 'all'}"
+  sh "mvn -B \${goals} -pl \${config.module}"
+  if (config.publish) {
+    junit 'target/surefire-reports/*.xml'
+  }
+}`,
+  'my-lib/vars/log.groovy': `def info(String message) {
+  echo "[INFO] \${message}"
+}`,
+  'my-lib/vars/withDeployEnv.groovy': `def call(String target, Closure body) {
+  withEnv(["DEPLOY_TARGET=\${target}"]) {
+    body()
+  }
+}`,
+  'my-lib/vars/deployScript.groovy': `def call() {
+  sh libraryResource('scripts/deploy.sh')
+}`,
+  'my-lib/vars/standardPipeline.groovy': `def call(body) {
+  def config = [:]
+  body.resolveStrategy = Closure.DELEGATE_FIRST
+  body.delegate = config
+  body()
+
+  pipeline {
+    agent { docker { image "maven:\${config.jdk ?: '3.9-eclipse-temurin-17'}" } }
+    stages {
+      stage('Build') {
+        steps { sh "mvn -B \${config.goals}" }
+      }
+      stage('Deploy') {
+        when { branch 'main' }
+        steps { deployScript() }
+      }
+    }
+  }
+}`,
+  'my-lib/src/org/example/Utils.groovy': 'package org.example\nclass Utils {}',
+  'my-lib/resources/scripts/deploy.sh': 'set -e\n./deploy --prod'
+}
+
+const convertWithLibrary = (jenkinsfile: string) => {
+  const library = loadSharedLibrary(libraryFiles, 'my-lib')
+  const resolution = resolveSharedLibraries(jenkinsfile, buildPipelineModel(jenkinsfile), [library])
+  return { resolution, result: convertToGitLab(resolution.model) }
+}
+
+describe('Shared Library Resolver Integration Tests', () => {
+  test('should read steps, classes and resources below the library root', () => {
+    const library = loadSharedLibrary(libraryFiles, 'my-lib')
+
+    expect(Object.keys(library.steps).sort()).toEqual(['deployScript', 'log', 'mavenBuild', 'standardPipeline', 'withDeployEnv'])
+    expect(Object.keys(library.steps.log.methods)).toEqual(['info'])
+    expect(library.classes).toEqual(['src/org/example/Utils.groovy'])
+    expect(library.resources['scripts/deploy.sh']).toBe('set -e\n./deploy --prod')
+  })
+
+  test('should inline global steps with their arguments bound', () => {
+    const { resolution, result } = convertWithLibrary(`@Library('my-lib@v2') _
+pipeline {
+  agent any
+  stages {
+    stage('Build') {
+      steps {
+        mavenBuild(goals: 'install', module: 'api', publish: true)
+        withDeployEnv('staging') {
+          sh './smoke.sh $DEPLOY_TARGET'
+        }
+        deployScript()
+      }
+    }
+  }
+}`)
+
+    expect(result.pipeline.jobs.build.script).toEqual([
+      'echo "[INFO] Building api"',
+      'mvn -B install -pl api',
+      'export DEPLOY_TARGET=staging',
+      './smoke.sh $DEPLOY_TARGET',
+      'set -e\n./deploy --prod'
+    ])
+    expect(result.pipeline.jobs.build.artifacts?.reports?.junit).toEqual(['target/surefire-reports/*.xml'])
+    expect(resolution.inlined.map(entry => entry.step)).toEqual(['mavenBuild', 'log.info', 'withDeployEnv', 'deployScript'])
+    expect(resolution.model?.libraries).toEqual([expect.objectContaining({ name: 'my-lib', resolved: true })])
+    expect(result.report.unconverted.filter(item => item.kind === 'library')).toEqual([])
+    expect(result.report.notes).toContain("Steps of shared library 'my-lib' are inlined into the jobs that call them")
+  })
+
+  test('should take the pipeline from a step that defines it', () => {
+    const { result } = convertWithLibrary(`@Library('my-lib') _
+standardPipeline {
+  goals = 'deploy'
+  jdk = '3.9-eclipse-temurin-21'
+}`)
+
+    expect(Object.keys(result.pipeline.jobs)).toEqual(['build', 'deploy'])
+    expect(result.pipeline.jobs.build).toMatchObject({ image: 'maven:3.9-eclipse-temurin-21', script: ['mvn -B deploy'] })
+    expect(result.pipeline.jobs.deploy.script).toEqual(['set -e\n./deploy --prod'])
+  })
+
+  test('should report libraries that were not uploaded', () => {
+    const jenkinsfile = `@Library(['my-lib', 'other-lib']) _
+pipeline { agent any; stages { stage('Build') { steps { mavenBuild(module: 'api') } } } }`
+    const library = loadSharedLibrary(libraryFiles, 'my-lib')
+    const { model } = resolveSharedLibraries(jenkinsfile, buildPipelineModel(jenkinsfile), [library, { ...library, name: 'third-lib' }])
+
+    expect(model?.libraries.map(entry => [entry.name, entry.resolved])).toEqual([['my-lib', true], ['other-lib', false]])
+    expect(convertToGitLab(model).report.unconverted).toEqual([expect.objectContaining({ kind: 'library' })])
+  })
+
+  test('should read stored and deflated zip entries', () => {
+    const zip = buildZip({ 'lib/vars/hello.groovy': 'def call() { echo "hi" }', 'lib/resources/a.txt': 'x'.repeat(2000) })
+
+    expect(readZipArchive(zip)).toEqual({ 'lib/vars/hello.groovy': 'def call() { echo "hi" }', 'lib/resources/a.txt': 'x'.repeat(2000) })
+    expect(() => readZipArchive(Buffer.from('not a zip archive at all'))).toThrow('Not a zip archive')
+  })
+})
+
+/** A minimal zip archive; larger entries are deflated */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.from(content)
+    const method = raw.length > 1000 ? 8 : 0
+    const data = method === 8 ? deflateRawSync(raw) : raw
+    const nameBytes = Buffer.from(name)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+    offset += 30 + nameBytes.length + data.length
+  }
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 8)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
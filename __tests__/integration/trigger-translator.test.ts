@@ -0,0 +1,84 @@
+/**
+ * Integration Tests for the Trigger Translator
+ * Ensures Jenkins triggers become pipeline schedules, workflow rules and upstream trigger jobs
+ */
+
+import { buildPipelineModel } from '@/lib/pipeline-model'
+import { translateCron, translateTriggers } from '@/lib/trigger-translator'
+import { convertToGitLab } from '@/lib/gitlab-converter'
+
+const pipelineWith = (triggers: string) => buildPipelineModel(`pipeline {
+  agent any
+  triggers {
+    ${triggers}
+  }
+  stages { stage('Build') { steps { sh 'make' } } }
+}`)!
+
+describe('Trigger Translator Integration Tests', () => {
+  describe('Cron', () => {
+    test('should resolve H fields within their ranges and keep the rest', () => {
+      const [entry] = translateCron('H H(8-18) * * 1-5', 'seed')
+      const [minute, hour, ...rest] = entry.cron.split(' ')
+
+      expect(Number(minute)).toBeGreaterThanOrEqual(0)
+      expect(Number(minute)).toBeLessThanOrEqual(59)
+      expect(Number(hour)).toBeGreaterThanOrEqual(8)
+      expect(Number(hour)).toBeLessThanOrEqual(18)
+      expect(rest).toEqual(['*', '*', '1-5'])
+      expect(translateCron('H H(8-18) * * 1-5', 'seed')).toEqual([entry])
+      expect(translateCron('H/15 * * * *', 'seed')[0].cron).toMatch(/^([0-9]|1[0-4])-59\/15 \* \* \* \*$/)
+    })
+
+    test('should read aliases, time zones, comments and parameters', () => {
+      const entries = translateCron(`TZ=Europe/Berlin
+# nightly
+@midnight %TARGET=nightly;DRY_RUN=false`, 'seed', true)
+
+      expect(entries).toHaveLength(1)
+      expect(entries[0].cron).toMatch(/^\d+ [0-2] \* \* \*$/)
+      expect(entries[0]).toMatchObject({ timezone: 'Europe/Berlin', variables: { TARGET: 'nightly', DRY_RUN: 'false' } })
+      expect(() => translateCron('H 2 * *', 'seed')).toThrow('expected 5 fields')
+    })
+  })
+
+  describe('Triggers', () => {
+    test('should limit the pipeline to the sources Jenkins built for', () => {
+      const model = pipelineWith(`pollSCM('H/5 * * * *')
+    cron('H 2 * * *')`)
+      const translation = translateTriggers(model.triggers, 'seed')
+
+      expect(translation.sources).toEqual(['push', 'schedule', 'web'])
+      expect(translation.schedules).toMatchObject([{ description: "Jenkins cron 'H 2 * * *'", ref: 'main', cron_timezone: 'UTC' }])
+      expect(translation.notes[0]).toContain('pollSCM polling is not needed')
+    })
+
+    test('should write schedules and upstream trigger jobs as companion files', () => {
+      const { pipeline, files, report } = convertToGitLab(pipelineWith(`cron('H 2 * * 1-5')
+    upstream(upstreamProjects: 'libs/core', threshold: hudson.model.Result.FAILURE)
+    issueCommentTrigger('.*rebuild.*')`))
+
+      expect(pipeline.workflow).toBeUndefined()
+      expect(files['.gitlab/pipeline-schedules.yml']).toMatch(/cron: \d+ 2 \* \* 1-5\n/)
+      expect(files['.gitlab/upstream/libs-core.gitlab-ci.yml']).toContain(`trigger-downstream:
+  stage: .post
+  trigger:
+    project: path/to/this-project
+  when: always
+`)
+      expect(report.unconverted.map(u => [u.kind, u.span.startLine])).toEqual([['trigger', 6]])
+    })
+
+    test('should skip branch pipelines that duplicate merge request pipelines', () => {
+      const { pipeline, yaml } = convertToGitLab(pipelineWith(`gitlab(triggerOnPush: true)`))
+
+      expect(pipeline.workflow?.rules).toEqual([
+        { if: '$CI_PIPELINE_SOURCE == "push" && $CI_OPEN_MERGE_REQUESTS', when: 'never' },
+        { if: '$CI_PIPELINE_SOURCE == "merge_request_event"' },
+        { if: '$CI_PIPELINE_SOURCE == "push"' },
+        { if: '$CI_PIPELINE_SOURCE == "web"' }
+      ])
+      expect(yaml).toContain('workflow:\n  rules:\n')
+    })
+  })
+})
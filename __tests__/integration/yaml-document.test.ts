@@ -0,0 +1,101 @@
+/**
+ * Integration Tests for the YAML Document
+ * Ensures documents render with correct quoting and repeated job settings become templates
+ */
+
+import { YamlComment, YamlMapping, extractTemplates, renderYamlDocument } from '@/lib/yaml-document'
+import { parseYaml, toValue } from '@/lib/yaml-parser'
+
+const roundTrip = (value: YamlMapping) => {
+  const { documents, errors } = parseYaml(renderYamlDocument({ entries: [{ key: 'job', value }] }))
+  expect(errors).toEqual([])
+  return (toValue(documents[0]) as Record<string, unknown>).job
+}
+
+describe('YAML Document Integration Tests', () => {
+  test('should quote only what YAML would misread and keep variables as written', () => {
+    const yaml = renderYamlDocument({
+      comments: ['Generated'],
+      entries: [
+        {
+          key: 'variables',
+          value: {
+            OPTS: '-Dmaven.repo.local=$CI_PROJECT_DIR/.m2',
+            IMAGE: '$CI_REGISTRY_IMAGE:${CI_COMMIT_SHA}',
+            FLAG: 'yes',
+            VERSION: '1.10',
+            QUOTE: "it's: here"
+          }
+        },
+        { key: 'empty', value: undefined },
+        { key: 'job', value: { script: ['echo "$NAME"', 'line one\nline two'], cache: [] }, comments: ['Build'] },
+        { key: 'rules', value: new YamlComment(['rules: none']) }
+      ],
+      trailing: ['TODO: review']
+    })
+
+    expect(yaml).toBe(`# Generated
+
+variables:
+  OPTS: '-Dmaven.repo.local=$CI_PROJECT_DIR/.m2'
+  IMAGE: $CI_REGISTRY_IMAGE:\${CI_COMMIT_SHA}
+  FLAG: 'yes'
+  VERSION: '1.10'
+  QUOTE: 'it''s: here'
+
+# Build
+job:
+  script:
+    - echo "$NAME"
+    - |
+      line one
+      line two
+  cache: []
+
+# rules: none
+
+# TODO: review
+`)
+  })
+
+  test('should read back strings that look like infinities or not-a-number', () => {
+    const value = { variables: { UP: '.inf', DOWN: '-.Inf', NONE: '.NaN' } }
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  test('should quote flow sequence items that hold flow indicators or line breaks', () => {
+    const value = { parallel: [['a,b', '[x]', '{y}', 'one\ntwo', "it's"]] }
+    expect(roundTrip(value)).toEqual(value)
+  })
+
+  test('should give block scalars that start with spaces an indentation indicator', () => {
+    const value = { script: ['  indented\nnext', '\n  after a blank line\nnext'], description: '    deep\nshallow' }
+    const yaml = renderYamlDocument({ entries: [{ key: 'job', value }] })
+    expect(yaml).toContain('description: |2\n        deep')
+    expect(roundTrip(value)).toEqual({
+      script: ['  indented\nnext\n', '\n  after a blank line\nnext\n'],
+      description: '    deep\nshallow\n'
+    })
+  })
+
+  test('should factor settings that jobs repeat into templates they extend', () => {
+    const deploy = { stage: 'deploy', image: 'bitnami/kubectl:latest' }
+    const { templates, jobs } = extractTemplates({
+      build: { stage: 'build', image: 'maven:3.9', cache: { paths: ['.m2/'] }, script: ['mvn package'] },
+      test: { stage: 'test', image: 'maven:3.9', cache: { paths: ['.m2/'] }, script: ['mvn test'] },
+      'deploy:staging': { ...deploy, script: ['deploy staging'] },
+      'deploy:production': { ...deploy, script: ['deploy production'], when: 'manual' },
+      sast: { stage: 'analyze' },
+      dependency_scanning: { stage: 'analyze' }
+    })
+
+    expect(templates).toEqual({
+      '.image-cache': { image: 'maven:3.9', cache: { paths: ['.m2/'] } },
+      '.deploy': deploy
+    })
+    expect(jobs.test).toEqual({ extends: '.image-cache', stage: 'test', script: ['mvn test'] })
+    expect(jobs['deploy:production']).toEqual({ extends: '.deploy', script: ['deploy production'], when: 'manual' })
+    // Jobs of included templates keep their own extends
+    expect(jobs.sast).toEqual({ stage: 'analyze' })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Integration Tests for the YAML Parser
+ * Ensures CI files read into values with positions, and malformed YAML into errors
+ */
+
+import { renderYamlDocument } from '@/lib/yaml-document'
+import { parseYaml, toValue, YamlMappingNode } from '@/lib/yaml-parser'
+
+describe('YAML Parser Integration Tests', () => {
+  test('should read collections, scalars, anchors and merge keys', () => {
+    const { documents, errors } = parseYaml(`# CI
+.defaults: &defaults
+  image: node:20
+  tags: [docker, "linux"]
+
+build:
+  <<: *defaults
+  tags: [shell]
+  variables:
+    QUOTED: 'it''s'
+    ESCAPED: "a\\tb"
+    FLAG: yes
+    VERSION: 1.10
+    EMPTY: ~
+  script:
+    - echo "hi"  # comment
+    - |
+      line one
+      line two
+    - >-
+      folded
+      text
+    - !reference [.setup, script]
+    - long command
+      continued
+`)
+
+    expect(errors).toEqual([])
+    expect(toValue(documents[0])).toEqual({
+      '.defaults': { image: 'node:20', tags: ['docker', 'linux'] },
+      build: {
+        tags: ['shell'],
+        variables: { QUOTED: "it's", ESCAPED: 'a\tb', FLAG: true, VERSION: 1.1, EMPTY: null },
+        script: ['echo "hi"', 'line one\nline two\n', 'folded text', ['.setup', 'script'], 'long command continued'],
+        image: 'node:20'
+      }
+    })
+    const build = (documents[0] as YamlMappingNode).pairs[1]
+    expect([build.key, build.line, build.column]).toEqual(['build', 6, 1])
+    expect((build.value as YamlMappingNode).pairs.find(pair => pair.key === 'script')).toMatchObject({ line: 15, column: 3 })
+  })
+
+  test('should read back what the document model writes', () => {
+    const variables = { OPTS: '-Dx=$CI_PROJECT_DIR', FLAG: 'yes', VERSION: '1.10', QUOTE: "it's: here", TIME: '12:30' }
+    const job = { stage: 'test', script: ['echo "$NAME"', 'line one\nline two'], needs: [], rules: [{ if: '$CI_COMMIT_TAG', when: 'manual' }] }
+    const { documents, errors } = parseYaml(renderYamlDocument({ comments: ['Generated'], entries: [{ key: 'variables', value: variables }, { key: 'test:unit', value: job }] }))
+
+    expect(errors).toEqual([])
+    expect(toValue(documents[0])).toEqual({ variables, 'test:unit': { ...job, script: ['echo "$NAME"', 'line one\nline two\n'] } })
+  })
+
+  test('should report malformed YAML with lines and columns', () => {
+    expect(parseYaml('invalid: yaml: structure').errors).toEqual([
+      { message: 'A mapping cannot start on the line of its key; put it on the next lines, indented', line: 1, column: 14 }
+    ])
+    expect(parseYaml('job:\n\tscript: make').errors).toEqual([{ message: 'Tabs cannot be used for indentation', line: 2, column: 1 }])
+    expect(parseYaml('a: 1\na: 2\n  b: 3').errors).toEqual([
+      { message: "Duplicate key 'a'", line: 2, column: 1 },
+      { message: 'Bad indentation: expected 0 spaces, found 2', line: 3, column: 3 }
+    ])
+    expect(parseYaml('job:\n  <<: *missing').errors).toEqual([
+      { message: "Alias '*missing' refers to an anchor that is not defined before it", line: 2, column: 7 }
+    ])
+    expect(parseYaml('script: "echo\n').errors).toEqual([{ message: 'Unterminated quoted string', line: 1, column: 9 }])
+    expect(parseYaml('tags: [a, b\n').errors).toEqual([{ message: "Unterminated flow collection, expected ']'", line: 1, column: 7 }])
+  })
+
+  test('should read each document of a file', () => {
+    const { documents } = parseYaml('spec:\n  inputs:\n    stage:\n      default: test\n---\njob:\n  stage: $[[ inputs.stage ]]\n')
+
+    expect(documents.map(toValue)).toEqual([
+      { spec: { inputs: { stage: { default: 'test' } } } },
+      { job: { stage: '$[[ inputs.stage ]]' } }
+    ])
+  })
+})
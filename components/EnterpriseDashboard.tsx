@@ -5,7 +5,7 @@
  * with enterprise-grade reliability, security, and user experience.
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import {
   Activity,
   AlertTriangle,
@@ -18,6 +18,7 @@ import {
   RefreshCw,
   Search,
   Settings,
+  Upload,
   Shield,
   Zap,
   X,
@@ -27,10 +28,35 @@ import {
   Eye,
   FileText,
   GitBranch,
+  KeyRound,
   List,
   BarChart3,
   TrendingUp
 } from 'lucide-react'
+import type { CredentialHit, GitLabVarSpec, UsageAnalysis, ValidationResult } from '@/lib/credential-migrator'
+import type { ConversionFinding, JobSource, LintResult, SourceSpan } from '@/types'
+import type { ConversionOptions } from '@/lib/gitlab-converter'
+
+/** A shared library as sent to /api/convert: a base64 zip or a directory's files */
+interface LibraryUpload {
+  name: string
+  zip?: string
+  files?: Record<string, string>
+  /** Catalog project path; when set, the library's steps become CI/CD components */
+  catalogProject?: string
+}
+
+/** What the converter adds to the translated pipeline, as sent to /api/convert */
+type ConversionSettings = Omit<ConversionOptions, 'jobMapping'>
+
+// Same as the defaults of /api/convert
+const DEFAULT_SETTINGS: ConversionSettings = {
+  targetComplexity: 'balanced',
+  optimizeForSpeed: true,
+  includeSecurityScanning: true,
+  enableParallelization: true,
+  generateDocumentation: false
+}
 
 interface PluginAnalysisResult {
   id: string
@@ -92,6 +118,23 @@ interface JobLog {
   warnings: string[]
 }
 
+interface CredentialMigrationResult {
+  credentials: CredentialHit[]
+  analysis: UsageAnalysis
+  variables: GitLabVarSpec[]
+  validation: ValidationResult
+  envFile?: string
+  script?: string
+  statusError?: string
+  summary: {
+    totalCredentials: number
+    totalVariables: number
+    fileVariables: number
+    protectedVariables: number
+    maskedVariables: number
+  }
+}
+
 interface EnterpriseDashboardProps {
   jenkinsContent: string
   onClose: () => void
@@ -102,7 +145,7 @@ export default function EnterpriseDashboard({
   onClose
 }: EnterpriseDashboardProps) {
   // State management
-  const [activeTab, setActiveTab] = useState<'plugins' | 'dry-run' | 'gitlab'>('plugins')
+  const [activeTab, setActiveTab] = useState<'plugins' | 'dry-run' | 'gitlab' | 'secrets'>('plugins')
   const [pluginAnalysis, setPluginAnalysis] = useState<PluginAnalysisResult | null>(null)
   const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
@@ -111,6 +154,19 @@ export default function EnterpriseDashboard({
   const [generatedYaml, setGeneratedYaml] = useState<string>('')
   const [gitlabYaml, setGitlabYaml] = useState<string>('')
   const [isGeneratingYaml, setIsGeneratingYaml] = useState(false)
+  // The conversion in flight; a newer one aborts it so that its result never lands
+  const conversion = useRef<AbortController | null>(null)
+  useEffect(() => () => conversion.current?.abort(), [])
+  const [libraries, setLibraries] = useState<LibraryUpload[]>([])
+  const [gitlabFiles, setGitlabFiles] = useState<Record<string, string>>({})
+  const [sourceMap, setSourceMap] = useState<JobSource[]>([])
+  const [findings, setFindings] = useState<ConversionFinding[]>([])
+  const [lint, setLint] = useState<LintResult | null>(null)
+  const [jobMapping, setJobMapping] = useState<string | undefined>()
+  const [settings, setSettings] = useState<ConversionSettings>(DEFAULT_SETTINGS)
+  const [secrets, setSecrets] = useState<CredentialMigrationResult | null>(null)
+  const [isAnalyzingSecrets, setIsAnalyzingSecrets] = useState(false)
+  const [secretsError, setSecretsError] = useState<string | null>(null)
   
   // Filters and search
   const [pluginFilter, setPluginFilter] = useState<'all' | 'blocking' | 'compatible' | 'unsupported'>('all')
@@ -287,7 +343,14 @@ test:
   /**
    * Generate GitLab YAML for dry-run
    */
-  const generateGitLabYaml = async () => {
+  const generateGitLabYaml = async (
+    uploads: LibraryUpload[] = libraries,
+    mapping: string | undefined = jobMapping,
+    options: ConversionSettings = settings
+  ) => {
+    conversion.current?.abort()
+    const controller = new AbortController()
+    conversion.current = controller
     setIsGeneratingYaml(true)
     setError(null)
     
@@ -295,28 +358,120 @@ test:
       // Use the convert endpoint for comprehensive GitLab CI YAML
       const response = await fetch('/api/convert', {
         method: 'POST',
+        signal: controller.signal,
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          content: jenkinsContent
+          content: jenkinsContent,
+          libraries: uploads.length > 0 ? uploads : undefined,
+          jobMapping: mapping,
+          options
         })
       })
 
       if (!response.ok) {
-        throw new Error('Failed to generate GitLab YAML')
+        const failure = await response.json().catch(() => null)
+        throw new Error(failure?.error || 'Failed to generate GitLab YAML')
       }
 
       const data = await response.json()
+      if (controller.signal.aborted) return
       if (data.success && data.yaml) {
         setGeneratedYaml(data.yaml)
         setGitlabYaml(data.yaml)
+        setGitlabFiles(data.files ?? {})
+        setSourceMap(data.sourceMap ?? [])
+        setFindings(data.findings ?? [])
+        setLint(data.lint ?? null)
       } else {
         throw new Error('No YAML generated')
       }
     } catch (error) {
+      if (controller.signal.aborted) return
       console.error('Failed to generate GitLab YAML:', error)
       setError(`Failed to generate GitLab CI YAML: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
-      setIsGeneratingYaml(false)
+      if (conversion.current === controller) {
+        conversion.current = null
+        setIsGeneratingYaml(false)
+      }
+    }
+  }
+
+  /**
+   * Add an uploaded shared library, replacing one of the same name, and
+   * convert again so its steps are inlined
+   */
+  const uploadLibrary = (upload: LibraryUpload) => {
+    const uploads = [...libraries.filter(library => library.name !== upload.name), upload]
+    setLibraries(uploads)
+    generateGitLabYaml(uploads)
+  }
+
+  const clearLibraries = () => {
+    setLibraries([])
+    generateGitLabYaml([])
+  }
+
+  /**
+   * Include the library steps as CI/CD components from a catalog project,
+   * or inline them again when no project is given
+   */
+  const setCatalogProject = (catalogProject?: string) => {
+    const uploads = libraries.map(library => ({ ...library, catalogProject }))
+    setLibraries(uploads)
+    generateGitLabYaml(uploads)
+  }
+
+  /**
+   * Convert again with an edited job mapping file, or with the guessed
+   * downstream projects when none is given
+   */
+  const uploadJobMapping = (text?: string) => {
+    setJobMapping(text)
+    generateGitLabYaml(libraries, text)
+  }
+
+  /**
+   * Convert again with changed conversion options
+   */
+  const changeSettings = (changes: ConversionSettings) => {
+    const options = { ...settings, ...changes }
+    setSettings(options)
+    generateGitLabYaml(libraries, jobMapping, options)
+  }
+
+  /**
+   * Map pipeline credentials to GitLab variables, checking them against a
+   * GitLab project when its ID and an access token are given
+   */
+  const analyzeSecrets = async (gitlab?: { projectId: string; token: string }) => {
+    setIsAnalyzingSecrets(true)
+    setSecretsError(null)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/creds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jenkinsfile: jenkinsContent,
+          projectId: gitlab?.projectId,
+          gitlabToken: gitlab?.token
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Credential analysis failed: ${response.status}`)
+      }
+      setSecrets(data.data)
+    } catch (error) {
+      console.error('❌ Credential analysis failed:', error)
+      const message = error instanceof Error ? error.message : 'Credential analysis failed'
+      setSecretsError(message)
+      setError(message)
+    } finally {
+      setIsAnalyzingSecrets(false)
     }
   }
 
@@ -532,6 +687,28 @@ test:
                 </span>
               )}
             </button>
+
+            <button
+              onClick={() => {
+                setActiveTab('secrets')
+                if (!secrets && !isAnalyzingSecrets) analyzeSecrets()
+              }}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
+                activeTab === 'secrets'
+                  ? 'bg-white/10 text-slate-100'
+                  : 'text-slate-100/70 hover:text-slate-100 hover:bg-white/5'
+              }`}
+            >
+              <KeyRound className="w-4 h-4" />
+              Secrets
+              {secrets && (
+                <span className={`px-2 py-1 rounded text-xs ${
+                  activeTab === 'secrets' ? 'bg-white/20 text-slate-100' : 'bg-white/10 text-slate-300'
+                }`}>
+                  {secrets.summary.totalVariables}
+                </span>
+              )}
+            </button>
           </div>
         </div>
       </div>
@@ -572,7 +749,30 @@ test:
           <GitLabCIView
             gitlabYaml={gitlabYaml}
             isGenerating={isGeneratingYaml}
-            onGenerate={generateGitLabYaml}
+            onGenerate={() => generateGitLabYaml()}
+            libraries={libraries}
+            onUploadLibrary={uploadLibrary}
+            onClearLibraries={clearLibraries}
+            onSetCatalogProject={setCatalogProject}
+            jobMapping={jobMapping}
+            onUploadJobMapping={uploadJobMapping}
+            settings={settings}
+            onChangeSettings={changeSettings}
+            files={gitlabFiles}
+            jenkinsContent={jenkinsContent}
+            sourceMap={sourceMap}
+            findings={findings}
+            lint={lint}
+            copyToClipboard={copyToClipboard}
+          />
+        )}
+
+        {activeTab === 'secrets' && (
+          <SecretsView
+            secrets={secrets}
+            isAnalyzing={isAnalyzingSecrets}
+            error={secretsError}
+            onAnalyze={analyzeSecrets}
             copyToClipboard={copyToClipboard}
           />
         )}
@@ -1068,6 +1268,24 @@ interface GitLabCIViewProps {
   gitlabYaml: string
   isGenerating: boolean
   onGenerate: () => void
+  libraries: LibraryUpload[]
+  onUploadLibrary: (upload: LibraryUpload) => void
+  onClearLibraries: () => void
+  onSetCatalogProject: (catalogProject?: string) => void
+  /** Edited job mapping file, mapping downstream Jenkins jobs to GitLab projects */
+  jobMapping?: string
+  onUploadJobMapping: (text?: string) => void
+  settings: ConversionSettings
+  onChangeSettings: (changes: ConversionSettings) => void
+  /** Companion files by path, such as catalog component templates */
+  files: Record<string, string>
+  jenkinsContent: string
+  /** Jenkinsfile lines behind each job, for the side-by-side view */
+  sourceMap: JobSource[]
+  /** Constructs to migrate or check by hand */
+  findings: ConversionFinding[]
+  /** The YAML checked against GitLab's CI schema */
+  lint: LintResult | null
   copyToClipboard: (text: string) => void
 }
 
@@ -1075,20 +1293,154 @@ function GitLabCIView({
   gitlabYaml,
   isGenerating,
   onGenerate,
+  libraries,
+  onUploadLibrary,
+  onClearLibraries,
+  onSetCatalogProject,
+  jobMapping,
+  onUploadJobMapping,
+  settings,
+  onChangeSettings,
+  files,
+  jenkinsContent,
+  sourceMap,
+  findings,
+  lint,
   copyToClipboard
 }: GitLabCIViewProps) {
-  const downloadYaml = () => {
-    const blob = new Blob([gitlabYaml], { type: 'text/yaml' })
+  const [selectedJob, setSelectedJob] = useState<string | null>(null)
+  const [showFindings, setShowFindings] = useState(true)
+  const jenkinsPane = useRef<HTMLDivElement>(null)
+  const selected = sourceMap.find(source => source.job === selectedJob)
+
+  // Bring the stage of the job clicked in the YAML into view
+  useEffect(() => {
+    if (!selected) return
+    jenkinsPane.current
+      ?.querySelector(`[data-line="${selected.span.startLine}"]`)
+      ?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [selected])
+
+  const download = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'text/yaml' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = '.gitlab-ci.yml'
+    a.download = filename
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
     URL.revokeObjectURL(url)
   }
 
+  const downloadYaml = () => download(gitlabYaml, '.gitlab-ci.yml')
+
+  const catalogProject = libraries.find(library => library.catalogProject)?.catalogProject
+
+  const chooseCatalogProject = () => {
+    const project = window.prompt('Catalog project path for the components (e.g. platform/jenkins-library)')
+    if (project) onSetCatalogProject(project.trim())
+  }
+
+  // The library name is what `@Library('name')` refers to; default to the upload's own name
+  const readZip = (file: File) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const dataUrl = reader.result as string
+      onUploadLibrary({ name: file.name.replace(/\.zip$/i, ''), zip: dataUrl.slice(dataUrl.indexOf(',') + 1) })
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const readDirectory = async (fileList: FileList) => {
+    const uploaded = Array.from(fileList)
+    const files: Record<string, string> = {}
+    for (const file of uploaded) {
+      const path = file.webkitRelativePath || file.name
+      if (/\.(groovy|json|ya?ml|sh|txt|properties)$/i.test(path)) files[path] = await file.text()
+    }
+    onUploadLibrary({ name: uploaded[0]?.webkitRelativePath.split('/')[0] || 'library', files })
+  }
+
+  const libraryControls = (
+    <div className="flex items-center gap-3 flex-wrap">
+      <label className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-slate-600 bg-slate-800 text-slate-100 hover:bg-slate-700 cursor-pointer">
+        <Upload className="w-4 h-4" />
+        Upload Shared Library (.zip)
+        <input
+          type="file"
+          accept=".zip"
+          className="hidden"
+          onChange={event => {
+            const file = event.target.files?.[0]
+            if (file) readZip(file)
+            event.target.value = ''
+          }}
+        />
+      </label>
+      <label className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-slate-600 bg-slate-800 text-slate-100 hover:bg-slate-700 cursor-pointer">
+        <Upload className="w-4 h-4" />
+        Upload Library Directory
+        <input
+          type="file"
+          className="hidden"
+          {...{ webkitdirectory: '', directory: '' }}
+          onChange={event => {
+            if (event.target.files?.length) readDirectory(event.target.files)
+            event.target.value = ''
+          }}
+        />
+      </label>
+      {libraries.length > 0 && (
+        <span className="inline-flex items-center gap-2 text-sm text-slate-300">
+          Libraries: {libraries.map(library => library.name).join(', ')}
+          <button onClick={onClearLibraries} className="text-slate-400 hover:text-slate-100" title="Remove libraries">
+            <X className="w-4 h-4" />
+          </button>
+        </span>
+      )}
+      {libraries.length > 0 && (catalogProject ? (
+        <button
+          onClick={() => onSetCatalogProject(undefined)}
+          className="text-sm text-slate-300 hover:text-slate-100"
+          title="Inline the library steps instead"
+        >
+          Components from {catalogProject} ✕
+        </button>
+      ) : (
+        <button onClick={chooseCatalogProject} className="text-sm text-blue-300 hover:text-blue-200">
+          Convert steps to CI/CD components
+        </button>
+      ))}
+      {(jobMapping !== undefined || files['.gitlab/jenkins-jobs.yml'] !== undefined) && (
+        <label className="inline-flex items-center gap-2 text-sm text-blue-300 hover:text-blue-200 cursor-pointer">
+          <Upload className="w-4 h-4" />
+          Upload edited jenkins-jobs.yml
+          <input
+            type="file"
+            accept=".yml,.yaml"
+            className="hidden"
+            onChange={async event => {
+              const file = event.target.files?.[0]
+              if (file) onUploadJobMapping(await file.text())
+              event.target.value = ''
+            }}
+          />
+        </label>
+      )}
+      {jobMapping !== undefined && (
+        <button
+          onClick={() => onUploadJobMapping(undefined)}
+          className="text-sm text-slate-300 hover:text-slate-100"
+          title="Use the guessed downstream projects instead"
+        >
+          Job mapping uploaded ✕
+        </button>
+      )}
+    </div>
+  )
+
+
   if (!gitlabYaml && !isGenerating) {
     return (
       <div className="h-full flex items-center justify-center p-8">
@@ -1107,6 +1459,10 @@ function GitLabCIView({
             <GitBranch className="w-4 h-4" />
             Generate GitLab CI
           </button>
+          <p className="text-slate-400 text-sm mt-6 mb-3">
+            Does the pipeline use <code>@Library</code>? Upload the library so its steps are converted too.
+          </p>
+          <div className="flex justify-center">{libraryControls}</div>
         </div>
       </div>
     )
@@ -1140,6 +1496,7 @@ function GitLabCIView({
             <p className="text-muted-foreground">
               Production-ready GitLab CI YAML converted from your Jenkins pipeline
             </p>
+            <div className="mt-3">{libraryControls}</div>
           </div>
           <div className="flex items-center gap-3">
             <button
@@ -1160,16 +1517,405 @@ function GitLabCIView({
         </div>
       </div>
 
-      {/* YAML Content */}
+      {/* A simple translation adds nothing to the Jenkins pipeline, so its additions are off */}
+      <div className="border-b border-slate-800 bg-slate-900 px-6 py-3 flex items-center gap-4 flex-wrap text-sm text-slate-200">
+        <label className="inline-flex items-center gap-2">
+          <Settings className="w-4 h-4 text-slate-400" />
+          Output
+          <select
+            value={settings.targetComplexity}
+            onChange={event => onChangeSettings({ targetComplexity: event.target.value as ConversionSettings['targetComplexity'] })}
+            className="rounded border border-slate-700 bg-slate-800 px-2 py-1 text-slate-100"
+          >
+            <option value="simple">Simple: translation only</option>
+            <option value="balanced">Balanced</option>
+            <option value="advanced">Advanced: shared job templates</option>
+          </select>
+        </label>
+        {([
+          ['optimizeForSpeed', 'Cache dependencies', true],
+          ['enableParallelization', 'Start independent jobs early', true],
+          ['includeSecurityScanning', 'SAST and secret detection', true],
+          ['generateDocumentation', 'README-CI.md', false]
+        ] as const).map(([option, label, addsToPipeline]) => {
+          const disabled = addsToPipeline && settings.targetComplexity === 'simple'
+          return (
+            <label key={option} className={`inline-flex items-center gap-2 ${disabled ? 'text-slate-500' : ''}`}>
+              <input
+                type="checkbox"
+                checked={!!settings[option] && !disabled}
+                disabled={disabled}
+                onChange={event => onChangeSettings({ [option]: event.target.checked })}
+              />
+              {label}
+            </label>
+          )
+        })}
+      </div>
+
+      {/* Companion files, such as catalog component templates */}
+      {Object.keys(files).length > 0 && (
+        <div className="border-b border-slate-800 bg-slate-900 px-6 py-3 flex items-center gap-2 flex-wrap">
+          <span className="text-sm text-slate-300">Additional files:</span>
+          {Object.entries(files).map(([path, content]) => (
+            <button
+              key={path}
+              onClick={() => download(content, path.split('/').pop() || path)}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded border border-slate-700 text-xs text-slate-200 hover:bg-slate-800"
+            >
+              <Download className="w-3 h-3" />
+              {path}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Lint errors would make GitLab reject the file, so they come first */}
+      {lint && (
+        <div className="border-b border-slate-800 bg-slate-900 px-6 py-3 text-sm">
+          {lint.status === 'valid' ? (
+            <span className="inline-flex items-center gap-2 text-green-400">
+              <CheckCircle className="w-4 h-4" />
+              Valid GitLab CI configuration
+              {lint.warnings && lint.warnings.length > 0 && (
+                <span className="text-amber-400">, {lint.warnings.length} {lint.warnings.length === 1 ? 'warning' : 'warnings'}</span>
+              )}
+            </span>
+          ) : (
+            <span className="inline-flex items-center gap-2 text-red-400">
+              <AlertTriangle className="w-4 h-4" />
+              {lint.errors.length} GitLab CI {lint.errors.length === 1 ? 'error' : 'errors'}
+            </span>
+          )}
+          {(lint.errors.length > 0 || (lint.warnings ?? []).length > 0) && (
+            <ul className="mt-2 max-h-32 overflow-auto space-y-1 text-xs font-mono">
+              {lint.errors.map((lintError, index) => <li key={`error-${index}`} className="text-red-300">{lintError}</li>)}
+              {(lint.warnings ?? []).map((warning, index) => <li key={`warning-${index}`} className="text-amber-300">{warning}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Constructs to migrate or check by hand; picking one shows its job */}
+      {findings.length > 0 && (
+        <div className="border-b border-slate-800 bg-slate-900 px-6 py-3">
+          <button
+            onClick={() => setShowFindings(!showFindings)}
+            className="inline-flex items-center gap-2 text-sm text-slate-200 hover:text-slate-100"
+          >
+            {showFindings ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            Manual follow-up: {findings.filter(finding => finding.severity === 'error').length} not converted,{' '}
+            {findings.filter(finding => finding.severity === 'warning').length} approximated
+          </button>
+          {showFindings && (
+            <ul className="mt-2 max-h-48 overflow-auto space-y-1">
+              {findings.map((finding, index) => (
+                <li key={index}>
+                  <button
+                    onClick={() => setSelectedJob(finding.job ?? null)}
+                    className={`w-full text-left flex items-start gap-2 px-2 py-1 rounded text-xs hover:bg-slate-800 ${finding.job && finding.job === selectedJob ? 'bg-blue-950' : ''}`}
+                  >
+                    <AlertTriangle className={`w-3 h-3 mt-0.5 shrink-0 ${finding.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`} />
+                    <span className="w-16 shrink-0 text-slate-400">line {finding.line}</span>
+                    <span className="w-20 shrink-0 text-slate-400">{finding.kind}</span>
+                    <span className="text-slate-200">
+                      {finding.reason}
+                      <span className="block text-slate-400">{finding.action}{finding.job ? ` (job ${finding.job})` : ''}</span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* YAML Content, beside the Jenkinsfile when the jobs can be traced back to it */}
       <div className="flex-1 overflow-hidden bg-slate-950">
-        <div className="h-full p-6">
-          <div className="bg-slate-900 border border-slate-700 rounded-lg p-6 h-full overflow-auto">
+        {sourceMap.length > 0 ? (
+          <div className="h-full p-6 grid grid-cols-2 gap-4">
+            <div className="bg-slate-900 border border-slate-700 rounded-lg h-full overflow-auto">
+              <div className="sticky top-0 bg-slate-900 border-b border-slate-700 px-4 py-2 text-xs text-slate-400">
+                .gitlab-ci.yml — click a job to see the Jenkinsfile lines it came from
+              </div>
+              <div className="py-2 text-sm font-mono leading-relaxed">
+                {gitlabYaml.split('\n').map((line, index) => {
+                  const job = sourceMap.find(source => inSpan(index + 1, source.yaml))
+                  return (
+                    <div
+                      key={index}
+                      onClick={() => setSelectedJob(job && job.job !== selectedJob ? job.job : null)}
+                      className={`flex ${job ? 'cursor-pointer hover:bg-slate-800' : ''} ${job && job.job === selectedJob ? 'bg-blue-950' : ''}`}
+                    >
+                      <span className="w-10 shrink-0 pr-3 text-right text-slate-500 select-none">{index + 1}</span>
+                      <span className="whitespace-pre-wrap text-slate-100">{line}</span>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+            <div ref={jenkinsPane} className="bg-slate-900 border border-slate-700 rounded-lg h-full overflow-auto">
+              <div className="sticky top-0 bg-slate-900 border-b border-slate-700 px-4 py-2 text-xs text-slate-400">
+                Jenkinsfile{selected ? ` — job ${selected.job}` : ''}
+              </div>
+              <div className="py-2 text-sm font-mono leading-relaxed">
+                {jenkinsContent.split('\n').map((line, index) => {
+                  const number = index + 1
+                  // Steps and conditions stand out within the stage the job came from
+                  const detail = selected && [...selected.rules, ...selected.script, ...selected.afterScript]
+                    .some(span => inSpan(number, span ?? undefined))
+                  const source = selected && inSpan(number, selected.span)
+                  return (
+                    <div
+                      key={index}
+                      data-line={number}
+                      className={`flex ${detail ? 'bg-blue-800/60' : source ? 'bg-blue-950' : ''}`}
+                    >
+                      <span className="w-10 shrink-0 pr-3 text-right text-slate-500 select-none">{number}</span>
+                      <span className="whitespace-pre-wrap text-slate-100">{line}</span>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="h-full p-6">
+            <div className="bg-slate-900 border border-slate-700 rounded-lg p-6 h-full overflow-auto">
+              <pre className="text-sm text-slate-100 font-mono whitespace-pre-wrap leading-relaxed dark-code-block">
+                {gitlabYaml}
+              </pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+function inSpan(line: number, span?: SourceSpan): boolean {
+  return !!span && line >= span.startLine && line <= span.endLine
+}
+
+/**
+ * Secrets View Component
+ */
+interface SecretsViewProps {
+  secrets: CredentialMigrationResult | null
+  isAnalyzing: boolean
+  error: string | null
+  onAnalyze: (gitlab?: { projectId: string; token: string }) => void
+  copyToClipboard: (text: string) => void
+}
+
+function SecretsView({
+  secrets,
+  isAnalyzing,
+  error,
+  onAnalyze,
+  copyToClipboard
+}: SecretsViewProps) {
+  const [artifact, setArtifact] = useState<'env' | 'script' | null>(null)
+
+  const download = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'text/plain' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = filename
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const checkStatus = () => {
+    const projectId = window.prompt('GitLab project ID or path (e.g. 12345 or group/project)')
+    if (!projectId) return
+    const token = window.prompt('GitLab access token with api scope')
+    if (!token) return
+    onAnalyze({ projectId, token })
+  }
+
+  if (isAnalyzing) {
+    return (
+      <div className="h-full flex items-center justify-center p-8">
+        <div className="text-center">
+          <div className="w-12 h-12 border-4 border-slate-600 border-t-primary rounded-full animate-spin mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-slate-100 mb-2">
+            Analyzing Credentials
+          </h3>
+          <p className="text-slate-300">
+            Mapping Jenkins credentials to GitLab CI/CD variables...
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!secrets) {
+    return (
+      <div className="h-full flex items-center justify-center p-8">
+        <div className="text-center">
+          <AlertTriangle className="w-12 h-12 text-yellow-300 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-slate-100 mb-2">
+            No Credential Analysis Available
+          </h3>
+          <p className="text-slate-300">
+            {error ?? 'Click retry to map Jenkins credentials to GitLab CI/CD variables'}
+          </p>
+          <button onClick={() => onAnalyze()} className="btn-primary mt-4">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const { summary, variables, validation } = secrets
+  const artifactContent = artifact === 'env' ? secrets.envFile : artifact === 'script' ? secrets.script : undefined
+
+  return (
+    <div className="h-full flex flex-col overflow-auto">
+      {/* Summary */}
+      <div className="p-6 bg-slate-950 border-b border-slate-800">
+        <div className="flex items-center justify-between mb-6">
+          <div className="grid grid-cols-5 gap-8">
+            {[
+              ['Credentials', summary.totalCredentials],
+              ['Variables', summary.totalVariables],
+              ['File Variables', summary.fileVariables],
+              ['Protected', summary.protectedVariables],
+              ['Masked', summary.maskedVariables]
+            ].map(([label, value]) => (
+              <div key={label} className="text-center">
+                <div className="text-2xl font-bold text-slate-100">{value}</div>
+                <div className="text-sm text-slate-100/70">{label}</div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={checkStatus}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Check Status
+          </button>
+        </div>
+
+        {secrets.statusError && (
+          <p className="text-sm text-red-300 mb-2">Status check failed: {secrets.statusError}</p>
+        )}
+        {[...validation.errors, ...validation.warnings].map((issue, index) => (
+          <div
+            key={`${issue.key}-${index}`}
+            className={`flex items-start gap-2 text-sm ${index < validation.errors.length ? 'text-red-300' : 'text-yellow-300'}`}
+          >
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              <span className="font-mono">{issue.key}</span>: {issue.message}
+              {issue.suggestion && <> (suggested: <span className="font-mono">{issue.suggestion}</span>)</>}
+            </span>
+          </div>
+        ))}
+        {secrets.analysis.dynamicReferences.length > 0 && (
+          <p className="text-sm text-yellow-300 mt-2">
+            Credential IDs computed at runtime on line(s) {secrets.analysis.dynamicReferences.join(', ')} need mapping by hand
+          </p>
+        )}
+      </div>
+
+      {/* Variable Mappings */}
+      <div className="p-6">
+        {variables.length === 0 ? (
+          <p className="text-slate-300 text-center">No credential references found in this pipeline</p>
+        ) : (
+          <table className="w-full text-sm text-left">
+            <thead className="text-slate-400 border-b border-slate-800">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Credential ID</th>
+                <th className="py-2 pr-4 font-medium">GitLab Variable</th>
+                <th className="py-2 pr-4 font-medium">Type</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium">Properties</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variables.map(variable => (
+                <tr key={`${variable.credentialsId}-${variable.key}`} className="border-b border-slate-800/50">
+                  <td className="py-2 pr-4 font-mono text-slate-300">{variable.credentialsId}</td>
+                  <td className="py-2 pr-4 font-mono text-slate-100">{variable.key}</td>
+                  <td className="py-2 pr-4 text-slate-300">{variable.variable_type === 'file' ? 'File' : 'Variable'}</td>
+                  <td className={`py-2 pr-4 ${
+                    variable.status === 'exists' ? 'text-green-300' :
+                    variable.status === 'missing' ? 'text-red-300' :
+                    'text-slate-500'
+                  }`}>
+                    {variable.status === 'exists' ? 'Exists' : variable.status === 'missing' ? 'Missing' : 'Not checked'}
+                  </td>
+                  <td className="py-2 text-slate-300">
+                    {[variable.masked && 'Masked', variable.protected && 'Protected'].filter(Boolean).join(', ') || '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {/* Migration Artifacts */}
+        <div className="flex items-center gap-3 mt-6">
+          {secrets.envFile !== undefined && (
+            <>
+              <button
+                onClick={() => setArtifact(artifact === 'env' ? null : 'env')}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-slate-600 bg-slate-800 text-slate-100 hover:bg-slate-700"
+              >
+                <Eye className="w-4 h-4" />
+                {artifact === 'env' ? 'Hide .env File' : 'Show .env File'}
+              </button>
+              <button
+                onClick={() => download(secrets.envFile!, '.env')}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-slate-600 bg-slate-800 text-slate-100 hover:bg-slate-700"
+              >
+                <Download className="w-4 h-4" />
+                Download .env
+              </button>
+            </>
+          )}
+          {secrets.script !== undefined && (
+            <>
+              <button
+                onClick={() => setArtifact(artifact === 'script' ? null : 'script')}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-md border border-slate-600 bg-slate-800 text-slate-100 hover:bg-slate-700"
+              >
+                <FileText className="w-4 h-4" />
+                {artifact === 'script' ? 'Hide Script' : 'Show Script'}
+              </button>
+              <button
+                onClick={() => download(secrets.script!, 'create_gitlab_vars.sh')}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+              >
+                <Download className="w-4 h-4" />
+                Download Script
+              </button>
+            </>
+          )}
+        </div>
+
+        {artifactContent !== undefined && (
+          <div className="relative bg-slate-900 border border-slate-700 rounded-lg p-6 mt-4">
+            <button
+              onClick={() => copyToClipboard(artifactContent)}
+              className="absolute top-3 right-3 p-2 rounded-md border border-slate-600 bg-slate-800 text-slate-100 hover:bg-slate-700"
+            >
+              <Copy className="w-4 h-4" />
+            </button>
             <pre className="text-sm text-slate-100 font-mono whitespace-pre-wrap leading-relaxed dark-code-block">
-              {gitlabYaml}
+              {artifactContent}
             </pre>
           </div>
-        </div>
+        )}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,218 @@
+/**
+ * Agent Translator
+ *
+ * Turns a Jenkins `agent` into what a GitLab job needs to run on the same
+ * kind of executor: runner `tags:` for labels, `image:` and `services:` for
+ * docker agents and Kubernetes pod templates, and the Dockerfile to build
+ * first for dockerfile agents.
+ */
+
+import { AgentSpec, SourceSpan } from '@/types'
+import type { GitLabImage, GitLabService } from './gitlab-converter'
+
+export interface AgentTranslation {
+  image?: string | GitLabImage
+  services: Array<string | GitLabService>
+  tags: string[]
+  /** Container environment from `docker run -e` arguments */
+  variables: Record<string, string>
+  /** Image to build before the jobs run, for dockerfile agents */
+  dockerfile?: { file: string; context: string; buildArgs?: string }
+  /** Pod containers by name, for `container('name') { }` steps */
+  containers: Record<string, string>
+  untranslated: Array<{ description: string; span: SourceSpan }>
+  notes: string[]
+}
+
+interface PodContainer {
+  name: string
+  image?: string
+}
+
+// The Jenkins agent container of a pod template, which GitLab does not need
+const JNLP_CONTAINER = 'jnlp'
+
+export function translateAgent(agent: AgentSpec): AgentTranslation {
+  const translation: AgentTranslation = { services: [], tags: [], variables: {}, containers: {}, untranslated: [], notes: [] }
+  const skip = (description: string) => translation.untranslated.push({ description, span: agent.span })
+
+  if (agent.kind === 'label' || agent.kind === 'node' || agent.kind === 'docker' || agent.kind === 'dockerfile') {
+    if (agent.label) {
+      const tags = labelTags(agent.label)
+      if (tags) translation.tags = tags
+      else skip(`Agent label expression '${agent.label}' cannot be expressed as runner tags; a GitLab runner must carry every tag of a job`)
+    }
+    if (agent.settings.customWorkspace !== undefined) {
+      skip('customWorkspace is not converted; GitLab chooses the build directory, or GIT_CLONE_PATH when the runner allows it')
+    }
+  }
+
+  switch (agent.kind) {
+    case 'docker': {
+      if (!agent.image) {
+        skip('Docker agent image is computed at runtime')
+        break
+      }
+      const registry = typeof agent.settings.registryUrl === 'string' ? agent.settings.registryUrl.replace(/^https?:\/\//, '').replace(/\/+$/, '') : ''
+      const name = registry && !hasRegistryHost(agent.image) ? `${registry}/${agent.image}` : agent.image
+      translation.image = imageWithArgs(name, agent, translation, skip)
+      if (agent.settings.alwaysPull === true) translation.image = { ...asImage(translation.image), pull_policy: 'always' }
+      if (typeof agent.settings.registryCredentialsId === 'string') {
+        translation.notes.push(`Set a DOCKER_AUTH_CONFIG CI/CD variable with the registry login from Jenkins credential '${agent.settings.registryCredentialsId}'`)
+      }
+      break
+    }
+    case 'dockerfile': {
+      const context = agent.dir ?? '.'
+      const filename = agent.filename ?? 'Dockerfile'
+      translation.dockerfile = {
+        file: context === '.' ? filename : `${context.replace(/\/+$/, '')}/${filename}`,
+        context,
+        buildArgs: agent.additionalBuildArgs
+      }
+      // The converter names the image once it knows where the build job pushes it
+      translation.image = imageWithArgs('', agent, translation, skip)
+      break
+    }
+    case 'kubernetes': {
+      if (!agent.yaml) {
+        skip(agent.yamlFile
+          ? `Pod template file '${agent.yamlFile}' is not read; set the job image and services from it`
+          : 'Kubernetes agent has no inline pod template; set the job image and services by hand')
+        break
+      }
+      const containers = podContainers(agent.yaml).filter(container => container.name !== JNLP_CONTAINER && container.image)
+      for (const container of containers) translation.containers[container.name] = container.image!
+      const main = containers.find(container => container.name === agent.defaultContainer) ?? containers[0]
+      if (!main) {
+        skip('Pod template has no containers besides the Jenkins agent')
+        break
+      }
+      translation.image = main.image
+      translation.services = containers
+        .filter(container => container !== main)
+        .map(container => ({ name: container.image!, alias: container.name }))
+      translation.notes.push('Kubernetes agents map best to a runner with the Kubernetes executor, where services share the job pod like sidecar containers')
+      break
+    }
+  }
+  return translation
+}
+
+/**
+ * Runner tags for a label expression, or undefined when it needs OR or NOT
+ */
+export function labelTags(label: string): string[] | undefined {
+  if (/\|\||!|->|<->/.test(label)) return undefined
+  return label.split('&&').map(tag => tag.replace(/[()'"]/g, '').trim()).filter(Boolean)
+}
+
+/**
+ * Apply `docker run` arguments of a docker or dockerfile agent to the job
+ */
+function imageWithArgs(
+  name: string,
+  agent: AgentSpec,
+  translation: AgentTranslation,
+  skip: (description: string) => void
+): string | GitLabImage {
+  const image: GitLabImage = { name }
+  const args = splitArgs(agent.args ?? '')
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inline] = args[i].startsWith('--') ? splitOption(args[i]) : [args[i], undefined]
+    const value = () => inline ?? args[++i] ?? ''
+    switch (flag) {
+      case '-e':
+      case '--env': {
+        const [key, ...rest] = value().split('=')
+        if (rest.length > 0) translation.variables[key] = rest.join('=')
+        break
+      }
+      case '-u':
+      case '--user':
+        image.docker = { user: value() }
+        break
+      case '--entrypoint':
+        image.entrypoint = [value()]
+        break
+      case '-v':
+      case '--volume':
+        skip(`Docker volume '${value()}' needs a volumes entry in the runner configuration`)
+        break
+      case '--privileged':
+        translation.notes.push('The docker agent runs privileged; the GitLab runner needs privileged = true')
+        break
+      default:
+        skip(`Docker argument '${args[i]}' is not converted`)
+        if (!args[i].includes('=') && args[i + 1] && !args[i + 1].startsWith('-')) i++
+    }
+  }
+  return image.entrypoint || image.docker ? image : name
+}
+
+function asImage(image: string | GitLabImage): GitLabImage {
+  return typeof image === 'string' ? { name: image } : image
+}
+
+function hasRegistryHost(image: string): boolean {
+  const first = image.split('/')[0]
+  return image.includes('/') && (first.includes('.') || first.includes(':') || first === 'localhost')
+}
+
+function splitOption(arg: string): [string, string | undefined] {
+  const index = arg.indexOf('=')
+  return index < 0 ? [arg, undefined] : [arg.slice(0, index), arg.slice(index + 1)]
+}
+
+/** Shell-style words, keeping quoted spaces */
+function splitArgs(text: string): string[] {
+  const words: string[] = []
+  for (const match of text.matchAll(/(?:[^\s'"]+|'[^']*'|"[^"]*")+/g)) {
+    words.push(match[0].replace(/'([^']*)'|"([^"]*)"/g, '$1$2'))
+  }
+  return words
+}
+
+/**
+ * Containers of a pod spec. Reads only `name` and `image` of each entry in
+ * the `containers:` list, which is all the job needs.
+ */
+function podContainers(yaml: string): PodContainer[] {
+  const containers: PodContainer[] = []
+  let listIndent: number | undefined
+  let keyIndent: number | undefined
+  let current: PodContainer | undefined
+
+  for (const line of yaml.split('\n')) {
+    if (!line.trim() || line.trim().startsWith('#')) continue
+    const indent = line.search(/\S/)
+    if (/^\s*containers:\s*$/.test(line)) {
+      listIndent = indent
+      keyIndent = undefined
+      continue
+    }
+    if (listIndent === undefined) continue
+
+    const item = line.match(/^(\s*)-\s+(\w+):\s*(.*)$/)
+    if (item && (keyIndent === undefined || item[1].length + 2 === keyIndent)) {
+      keyIndent = item[1].length + 2
+      current = { name: '' }
+      containers.push(current)
+      setField(current, item[2], item[3])
+      continue
+    }
+    if (indent < listIndent || (indent === listIndent && !line.trim().startsWith('-'))) {
+      listIndent = undefined
+      continue
+    }
+    const field = line.match(/^\s*(\w+):\s*(.*)$/)
+    if (field && current && indent === keyIndent) setField(current, field[1], field[2])
+  }
+  return containers.filter(container => container.name)
+}
+
+function setField(container: PodContainer, key: string, value: string): void {
+  const text = value.replace(/\s+#.*$/, '').trim().replace(/^(['"])(.*)\1$/, '$2')
+  if (key === 'name') container.name = text
+  if (key === 'image') container.image = text
+}
@@ -1,20 +1,28 @@
 /**
  * Simplified AI Migration System for Enterprise GitLab CI Generation
- * Focused on production-ready 10/10 output
+ * Jobs, stages, images and scripts come from the uploaded pipeline
  */
 
-import { ScanResult } from '@/types'
+import { ConversionFinding, ConversionReport, JobSource, ScanResult } from '@/types'
+import { parseJenkinsfile } from './groovy-parser'
+import { findCalls, stringValue } from './groovy-ast'
+import { buildPipelineModel } from './pipeline-model'
+import { ConversionOptions, convertToGitLab, GitLabPipeline, jobSettings } from './gitlab-converter'
+import { resolveSharedLibraries, SharedLibrary } from './shared-library'
+import { buildCatalogComponents, includeComponents } from './catalog-components'
+import { JobMapping } from './downstream-translator'
 
 export interface MigrationContext {
   jenkinsfile: string
   scanResult: ScanResult
-  options?: {
-    targetComplexity?: 'simple' | 'balanced' | 'advanced'
-    optimizeForSpeed?: boolean
-    includeSecurityScanning?: boolean
-    enableParallelization?: boolean
-    generateDocumentation?: boolean
-  }
+  /** Uploaded shared libraries whose steps the pipeline calls */
+  libraries?: SharedLibrary[]
+  /** Catalog project path by library name, for libraries whose steps become CI/CD components */
+  catalogProjects?: Record<string, string>
+  /** GitLab targets of downstream Jenkins jobs, from an uploaded job mapping file */
+  jobMapping?: JobMapping
+  /** What the converter adds to the translated pipeline */
+  options?: Omit<ConversionOptions, 'jobMapping'>
 }
 
 export interface MigrationResult {
@@ -22,44 +30,58 @@ export interface MigrationResult {
   intelligence: any
   performanceMetrics: any
   dockerValidation: any[]
+  report: ConversionReport
+  /** Companion files by path, such as pipeline schedule definitions */
+  files: Record<string, string>
+  /** Jenkinsfile lines behind each generated job */
+  sourceMap: JobSource[]
+  /** Constructs to migrate or check by hand, by Jenkinsfile line */
+  findings: ConversionFinding[]
   success: boolean
 }
 
 export class EnterpriseAIMigrationSystem {
   
   /**
-   * Main migration entry point - generates enterprise-grade GitLab CI
+   * Main migration entry point - converts the scanned pipeline to GitLab CI
    */
   async migrate(context: MigrationContext): Promise<MigrationResult> {
     const startTime = performance.now()
     
-    console.log('🚀 Starting enterprise AI migration analysis...')
+    console.log('🚀 Starting migration analysis...')
     
     try {
-      // Generate enterprise-grade GitLab CI configuration
-      const gitlabYaml = this.generateEnterpriseGitLabCI()
-      
-      // Mock validation for enterprise features
-      const dockerValidation: any[] = [{
-        image: 'maven:3.9-eclipse-temurin-17',
-        is_valid: true,
-        security_score: 95,
-        vulnerabilities: [],
-        recommendations: ['Enterprise-grade security validated'],
-        has_digest: true,
-        validated_reference: 'maven:3.9-eclipse-temurin-17@sha256:abc123',
-        metadata: { source: 'enterprise-migration' }
-      }]
+      let model = context.scanResult.pipeline ?? buildPipelineModel(context.jenkinsfile)
+      const catalogFiles: Record<string, string> = {}
+      for (const library of context.libraries ?? []) {
+        const project = context.catalogProjects?.[library.name]
+        if (typeof project !== 'string' || !model) continue
+        const catalog = buildCatalogComponents(library, project)
+        model = includeComponents(model, catalog)
+        for (const [path, content] of Object.entries(catalog.files)) catalogFiles[`catalog/${library.name}/${path}`] = content
+      }
+      // Library steps outside component stages are inlined
+      if (context.libraries?.length) model = resolveSharedLibraries(context.jenkinsfile, model, context.libraries).model
+      const conversion = convertToGitLab(model, { ...context.options, jobMapping: context.jobMapping })
+      const { pipeline, yaml: gitlabYaml, report, sourceMap, findings } = conversion
+      const files = { ...conversion.files, ...catalogFiles }
+
+      // Images named by CI/CD variables, such as built agent images, are only known at run time
+      const dockerValidation = report.images.filter(image => !image.includes('$')).map(image => this.checkImageReference(image))
+      const optimizations = this.describeOptimizations(pipeline)
+      const attempted = report.convertedSteps + report.unconverted.length
       
       const endTime = performance.now()
       const performanceMetrics = {
         totalTime: endTime - startTime,
         aiDecisions: 0,
         cacheHits: 0,
-        optimizationsApplied: 2
+        optimizationsApplied: optimizations.length,
+        jobsGenerated: report.jobs.length,
+        stepsConverted: report.convertedSteps
       }
       
-      console.log(`✅ Enterprise migration completed in ${Math.round(endTime - startTime)}ms`)
+      console.log(`✅ Migration completed in ${Math.round(endTime - startTime)}ms`)
       
       return {
         gitlabYaml,
@@ -67,34 +89,30 @@ export class EnterpriseAIMigrationSystem {
         intelligence: {
           summary: {
             originalComplexity: context.scanResult.tier,
-            targetComplexity: 'enterprise',
-            migrationStrategy: 'production-ready',
+            targetComplexity: context.options?.targetComplexity ?? 'balanced',
+            migrationStrategy: 'deterministic',
             aiDecisions: 0,
-            automaticConversions: 10,
-            confidenceScore: 100
+            automaticConversions: report.convertedSteps,
+            manualConversions: report.unconverted.length,
+            confidenceScore: attempted > 0 ? Math.round((report.convertedSteps / attempted) * 100) : 0
           },
-          plugins: [],
-          pipeline: {},
-          optimizations: [
-            {
-              type: 'performance',
-              description: 'Enterprise-grade performance optimizations applied',
-              impact: 'high',
-              effort: 'minimal',
-              applied: true
-            },
-            {
-              type: 'security',
-              description: 'Advanced security scanning and validation',
-              impact: 'high',
-              effort: 'minimal',
-              applied: true
-            }
+          plugins: context.scanResult.pluginHits,
+          pipeline: this.describePipeline(context),
+          optimizations,
+          recommendations: [
+            ...report.notes,
+            ...report.secrets.map(secret => `Create a masked CI/CD variable ${secret.variable} for the ${secret.source}`),
+            ...report.unconverted.map(item => `Line ${item.span.startLine}: ${item.description}`)
           ],
-          recommendations: ['Migration ready for production deployment', 'All enterprise features configured'],
-          estimatedEffort: 'Ready for immediate deployment'
+          estimatedEffort: report.unconverted.length === 0
+            ? 'No manual changes needed'
+            : `${report.unconverted.length} construct(s) to migrate by hand`
         },
         performanceMetrics,
+        report,
+        files,
+        sourceMap,
+        findings,
         success: true
       }
       
@@ -105,551 +123,99 @@ export class EnterpriseAIMigrationSystem {
   }
 
   /**
-   * Generate enterprise-grade GitLab CI with 10/10 production standards
+   * Pipeline outline read from the same syntax tree the scan used
    */
-  private generateEnterpriseGitLabCI(): string {
-    const today = new Date().toISOString().split('T')[0]
-    
-    return `# ═══════════════════════════════════════════════════════════════════════════
-# Jenkins to GitLab CI Migration - Production Ready
-# Converted: ${today} | Confidence: 100% | Auto-validated: ✓
-# Meets all 10/10 punch-list requirements for GitLab 17.11/18.x
-# Features: Matrix builds, security scans, immutable tags, Review Apps, VSA, compliance
-# Runtime: < 15 min | Edit Distance: 0 lines (configure CI/CD Variables only)
-# ═══════════════════════════════════════════════════════════════════════════
-
-# Includes for shared configurations (replacing Jenkins @Library)
-include:
-  - project: 'corp/gitlab-ci-templates'
-    ref: 'v2.1.0'
-    file:
-      - '/templates/maven.yml'
-      - '/templates/docker.yml'
-      - '/templates/npm.yml'
-      - '/templates/security.yml'
-  - template: 'Workflows/MergeRequest-Pipelines.gitlab-ci.yml'
-  - template: 'Security/Container-Scanning.gitlab-ci.yml'
-  - template: 'Security/Dependency-Scanning.gitlab-ci.yml'
-  - template: 'Security/SAST.gitlab-ci.yml'
-  - template: 'Security/Secret-Detection.gitlab-ci.yml'
-  - template: 'Security/License-Compliance.gitlab-ci.yml'
-  - local: '/.gitlab/ci/variables.yml'
-
-# ──────────────────────────────────────────────────────────────────
-# Global Configuration
-# ──────────────────────────────────────────────────────────────────
-stages:
-  - validate
-  - build
-  - test
-  - analyze
-  - package
-  - publish
-  - deploy
-  - verify
-  - notify
-  - docs
-
-workflow:
-  name: 'Pipeline #\$CI_PIPELINE_ID | \$CI_COMMIT_SHORT_SHA'
-  rules:
-    - if: '\$CI_PIPELINE_SOURCE == "merge_request_event"'
-      variables:
-        PIPELINE_TYPE: "MR"
-        RUN_E2E: "false"
-    - if: '\$CI_COMMIT_BRANCH == \$CI_DEFAULT_BRANCH'
-      variables:
-        PIPELINE_TYPE: "MAIN"
-        RUN_E2E: "true"
-    - if: '\$CI_COMMIT_TAG'
-      variables:
-        PIPELINE_TYPE: "RELEASE"
-        RUN_E2E: "true"
-    - when: never
-
-variables:
-  # Build Configuration
-  MAVEN_CLI_OPTS: "-B --errors --fail-at-end --show-version"
-  MAVEN_OPTS: "-Dmaven.repo.local=\${CI_PROJECT_DIR}/.m2/repository -Dorg.slf4j.simpleLogger.showDateTime=true"
-  NODE_VERSION: "18.19.0"
-  JAVA_VERSION: "17.0.9"
-
-  # Docker Configuration
-  DOCKER_DRIVER: overlay2
-  DOCKER_BUILDKIT: 1
-  BUILDKIT_PROGRESS: plain
-  DOCKER_TLS_CERTDIR: "/certs"
-  IMAGE_NAME: "\${CI_REGISTRY_IMAGE}"
-  IMAGE_TAG: "\${CI_COMMIT_SHORT_SHA}"
-
-  # Security & Quality Gates
-  SONAR_USER_HOME: "\${CI_PROJECT_DIR}/.sonar"
-  TRIVY_SEVERITY: "HIGH,CRITICAL"
-  TRIVY_EXIT_CODE: 1
-
-  # Deployment Configuration
-  KUBE_NAMESPACE: "\${ENV:-dev}"
-  ROLLOUT_TIMEOUT: "300"
-
-  # Notification Channels
-  SLACK_CHANNEL: "#ci-results"
-  ALERT_EMAILS: "team@example.com,devops@example.com"
-
-# ──────────────────────────────────────────────────────────────────
-# Shared Configuration Templates
-# ──────────────────────────────────────────────────────────────────
-.default_cache: &default_cache
-  key:
-    files:
-      - pom.xml
-      - package-lock.json
-    prefix: "\${CI_JOB_NAME}-\${CI_COMMIT_REF_SLUG}"
-  paths:
-    - .m2/repository/
-    - node_modules/
-    - .sonar/cache/
-  policy: pull
-
-.maven_image: &maven_image
-  image: maven:3.9.5-eclipse-temurin-17-alpine@sha256:3e4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4a4
-  before_script:
-    - echo "Build started by \${GITLAB_USER_NAME}"
-    - java -version
-    - mvn --version
-
-.docker_dind: &docker_dind
-  image: docker:24.0.7-cli-alpine3.19@sha256:7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e7e
-  services:
-    - name: docker:24.0.7-dind-alpine3.19@sha256:8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e8e
-      alias: docker
-      command: ["--tls=false", "--registry-mirror=https://mirror.gcr.io"]
-  variables:
-    DOCKER_HOST: tcp://docker:2375
-
-.retry_config: &retry_config
-  retry:
-    max: 2
-    when:
-      - runner_system_failure
-      - stuck_or_timeout_failure
-      - scheduler_failure
-
-# ──────────────────────────────────────────────────────────────────
-# Stage: Validate
-# ──────────────────────────────────────────────────────────────────
-validate:pipeline:
-  stage: validate
-  image: alpine:3.19@sha256:0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a
-  script:
-    - apk add --no-cache curl jq
-    - |
-      echo "Validating GitLab CI configuration..."
-      curl -s --header "PRIVATE-TOKEN: \${CI_JOB_TOKEN}" \\
-        "\${CI_API_V4_URL}/projects/\${CI_PROJECT_ID}/ci/lint" \\
-        -X POST \\
-        --form "content=<.gitlab-ci.yml" | jq '.valid'
-  rules:
-    - if: '\$CI_PIPELINE_SOURCE == "merge_request_event"'
-      changes:
-        - .gitlab-ci.yml
-        - .gitlab/ci/**/*
-  timeout: 2m
-  interruptible: true
-
-# ──────────────────────────────────────────────────────────────────
-# Stage: Build & Test (Matrix)
-# ──────────────────────────────────────────────────────────────────
-build_and_test:
-  stage: build
-  <<: *maven_image
-  <<: *retry_config
-  parallel:
-    matrix:
-      - JAVA_PROFILE: ["java17", "java21"]
-        DATABASE: ["mysql", "postgres"]
-  cache:
-    <<: *default_cache
-    policy: pull-push
-  services:
-    - name: mysql:8.0@sha256:1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1
-      alias: mysql
-      variables:
-        MYSQL_ROOT_PASSWORD: test
-        MYSQL_DATABASE: testdb
-      command: ["--default-authentication-plugin=mysql_native_password"]
-      rules:
-        - if: '\$DATABASE == "mysql"'
-    - name: postgres:15-alpine@sha256:2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2c2
-      alias: postgres
-      variables:
-        POSTGRES_PASSWORD: test
-        POSTGRES_DB: testdb
-      rules:
-        - if: '\$DATABASE == "postgres"'
-  script:
-    - |
-      export DB_HOST=\$([ "\$DATABASE" = "mysql" ] && echo "mysql" || echo "postgres")
-      mvn \${MAVEN_CLI_OPTS} -P\${JAVA_PROFILE} clean compile
-      mvn \${MAVEN_CLI_OPTS} -P\${JAVA_PROFILE} test \\
-        -Dspring.datasource.url=jdbc:\${DATABASE}://\${DB_HOST}:\${DB_PORT:-3306}/testdb
-      mvn \${MAVEN_CLI_OPTS} -P\${JAVA_PROFILE} package -DskipTests
-  after_script:
-    - |
-      echo "Test Coverage: \$(grep -oP 'Total.*?(\\\\d+%)' target/site/jacoco/index.html | grep -oP '\\\\d+%')"
-  artifacts:
-    name: "build-\${JAVA_PROFILE}-\${DATABASE}-\${CI_COMMIT_SHORT_SHA}"
-    paths:
-      - target/*.jar
-      - target/classes/
-      - target/site/jacoco/
-    reports:
-      junit: target/surefire-reports/TEST-*.xml
-      coverage_report:
-        coverage_format: cobertura
-        path: target/site/cobertura/coverage.xml
-      dotenv: build.env
-    expire_in: 1 day
-    source: "gitlab-ci"  # SLSA Level 1 provenance (GitLab 17.11+)
-  coverage: '/Total.*?(\\\\d+%)/'
-  resource_group: build-\${JAVA_PROFILE}-\${DATABASE}
-  timeout: 20m
-
-test:frontend:
-  stage: test
-  image: node:\${NODE_VERSION}-alpine@sha256:3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f3f
-  needs: []
-  cache:
-    <<: *default_cache
-  script:
-    - npm ci --audit=false
-    - npm run test:unit -- --coverage
-    - npm run lint -- --format json --output-file eslint-report.json
-  artifacts:
-    reports:
-      coverage_report:
-        coverage_format: cobertura
-        path: coverage/cobertura-coverage.xml
-      codequality: eslint-report.json
-    paths:
-      - coverage/
-    expire_in: 1 day
-  coverage: '/Lines\\\\s*:\\\\s*(\\\\d+\\\\.\\\\d+)%/'
-  timeout: 10m
-  interruptible: true
-
-# ──────────────────────────────────────────────────────────────────
-# Stage: Analyze
-# ──────────────────────────────────────────────────────────────────
-analyze:sonarqube:
-  stage: analyze
-  <<: *maven_image
-  needs:
-    - job: build_and_test
-      artifacts: true
-  cache:
-    <<: *default_cache
-  script:
-    - |
-      mvn \${MAVEN_CLI_OPTS} verify sonar:sonar \\
-        -Dsonar.host.url=\${SONAR_HOST_URL} \\
-        -Dsonar.token=\${SONAR_TOKEN} \\
-        -Dsonar.projectKey=\${CI_PROJECT_PATH_SLUG} \\
-        -Dsonar.qualitygate.wait=true \\
-        -Dsonar.coverage.jacoco.xmlReportPaths=target/site/jacoco/jacoco.xml
-  allow_failure: false
-  timeout: 20m
-  rules:
-    - if: '\$CI_MERGE_REQUEST_ID'
-    - if: '\$CI_COMMIT_BRANCH == \$CI_DEFAULT_BRANCH'
-
-# Security scans handled by included templates (Container-Scanning, Dependency-Scanning, SAST, Secret-Detection, License-Compliance)
-
-# ──────────────────────────────────────────────────────────────────
-# Stage: Package
-# ──────────────────────────────────────────────────────────────────
-package:docker:
-  stage: package
-  <<: *docker_dind
-  <<: *retry_config
-  needs:
-    - job: build_and_test
-      artifacts: true
-      parallel:
-        matrix:
-          - JAVA_PROFILE: "java17"
-            DATABASE: "mysql"
-  before_script:
-    - echo "\${CI_REGISTRY_PASSWORD}" | docker login -u "\${CI_REGISTRY_USER}" --password-stdin "\${CI_REGISTRY}"
-    - docker info
-  script:
-    - |
-      docker buildx create --use --driver docker-container
-      docker buildx build \\
-        --cache-from type=registry,ref=\${IMAGE_NAME}:cache \\
-        --cache-to type=registry,ref=\${IMAGE_NAME}:cache,mode=max \\
-        --platform linux/amd64,linux/arm64 \\
-        --build-arg BUILD_DATE=\$(date -u +'%Y-%m-%dT%H:%M:%SZ') \\
-        --build-arg VCS_REF=\${CI_COMMIT_SHA} \\
-        --build-arg VERSION=\${CI_COMMIT_TAG:-\${CI_COMMIT_SHORT_SHA}} \\
-        --tag \${IMAGE_NAME}:\${IMAGE_TAG} \\
-        --tag \${IMAGE_NAME}:latest --immutable \\
-        --push .
-      docker sbom \${IMAGE_NAME}:\${IMAGE_TAG} --format spdx-json > sbom.json
-      echo "\${COSIGN_KEY}" | base64 -d > /tmp/cosign.key
-      cosign sign --key /tmp/cosign.key \${IMAGE_NAME}:\${IMAGE_TAG}
-      rm /tmp/cosign.key
-  artifacts:
-    reports:
-      container_scanning: trivy-image-report.json
-      sbom: sbom.json
-    paths:
-      - trivy-image-report.json
-      - sbom.json
-    expire_in: 1 month
-  timeout: 20m
-  resource_group: docker-build
-
-# ──────────────────────────────────────────────────────────────────
-# Stage: Deploy
-# ──────────────────────────────────────────────────────────────────
-.deploy_template: &deploy_template
-  stage: deploy
-  image: bitnami/kubectl:1.28@sha256:5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f
-  needs:
-    - job: package:docker
-      artifacts: false
-  before_script:
-    - kubectl version --client
-    - kubectl config set-cluster k8s --server="\${KUBE_URL}"
-    - kubectl config set-credentials gitlab --token="\${KUBE_TOKEN}"
-    - kubectl config set-context gitlab --cluster=k8s --user=gitlab --namespace="\${KUBE_NAMESPACE}"
-    - kubectl config use-context gitlab
-  script:
-    - kubectl apply -k "k8s/overlays/\${ENV}"
-    - kubectl set image deployment/\${CI_PROJECT_NAME} \\
-        \${CI_PROJECT_NAME}=\${IMAGE_NAME}:\${IMAGE_TAG} \\
-        -n \${KUBE_NAMESPACE} \\
-        --record
-    - kubectl rollout status deployment/\${CI_PROJECT_NAME} \\
-        -n \${KUBE_NAMESPACE} \\
-        --timeout=\${ROLLOUT_TIMEOUT}s
-    - kubectl get pods -n \${KUBE_NAMESPACE} -l app=\${CI_PROJECT_NAME}
-  after_script:
-    - kubectl describe deployment/\${CI_PROJECT_NAME} -n \${KUBE_NAMESPACE} > deployment-info.txt
-  artifacts:
-    paths:
-      - deployment-info.txt
-    expire_in: 1 week
-  timeout: 15m
-
-deploy:dev:
-  <<: *deploy_template
-  environment:
-    name: development
-    url: https://dev.example.com
-    on_stop: stop:dev
-    auto_stop_in: 1 week
-  variables:
-    ENV: dev
-    KUBE_NAMESPACE: dev
-  rules:
-    - if: '\$CI_COMMIT_BRANCH == "develop"'
-      when: on_success
-    - if: '\$CI_MERGE_REQUEST_ID'
-      when: manual
-  resource_group: deploy-dev
-
-deploy:staging:
-  <<: *deploy_template
-  environment:
-    name: staging
-    url: https://staging.example.com
-    on_stop: stop:staging
-  variables:
-    ENV: staging
-    KUBE_NAMESPACE: staging
-  rules:
-    - if: '\$CI_COMMIT_BRANCH == \$CI_DEFAULT_BRANCH'
-      when: on_success
-  resource_group: deploy-staging
-
-deploy:production:
-  <<: *deploy_template
-  environment:
-    name: production
-    url: https://example.com
-    on_stop: stop:production
-  variables:
-    ENV: prod
-    KUBE_NAMESPACE: production
-  rules:
-    - if: '\$CI_COMMIT_TAG =~ /^v[0-9]+\\\\.[0-9]+\\\\.[0-9]+\$/'
-      when: manual
-      allow_failure: false
-  resource_group: deploy-production
-  needs:
-    - job: package:docker
-    - job: test:e2e
-      optional: true
-
-deploy:review:
-  <<: *deploy_template
-  environment:
-    name: pr-\$CI_MERGE_REQUEST_IID
-    url: https://pr-\$CI_MERGE_REQUEST_IID.example.com
-    on_stop: stop:review
-    auto_stop_in: 1 day
-  variables:
-    ENV: review
-    KUBE_NAMESPACE: pr-\$CI_MERGE_REQUEST_IID
-  rules:
-    - if: '\$CI_MERGE_REQUEST_IID'
-      when: manual
-  resource_group: deploy-review
-
-# ──────────────────────────────────────────────────────────────────
-# Stage: Verify (E2E Tests)
-# ──────────────────────────────────────────────────────────────────
-test:e2e:
-  stage: verify
-  image: cypress/included:13.6.2@sha256:6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c6c
-  needs:
-    - job: deploy:staging
-      artifacts: false
-  variables:
-    CYPRESS_BASE_URL: "https://staging.example.com"
-    CYPRESS_RECORD_KEY: "\${CYPRESS_RECORD_KEY}"
-  cache:
-    <<: *default_cache
-  script:
-    - |
-      cypress run \\
-        --record \\
-        --key \${CYPRESS_RECORD_KEY} \\
-        --parallel \\
-        --ci-build-id \${CI_PIPELINE_ID} \\
-        --group "E2E-\${CI_NODE_INDEX}/\${CI_NODE_TOTAL}"
-  after_script:
-    - npx mochawesome-merge cypress/results/*.json > mochawesome.json
-    - npx marge mochawesome.json -f e2e-report -o cypress/reports
-  artifacts:
-    when: always
-    paths:
-      - cypress/videos/
-      - cypress/screenshots/
-      - cypress/reports/
-    reports:
-      junit: cypress/results/*.xml
-    expire_in: 1 week
-  timeout: 30m
-  parallel: 3
-  rules:
-    - if: '\$RUN_E2E == "true"'
-    - if: '\$CI_COMMIT_BRANCH == \$CI_DEFAULT_BRANCH'
-    - if: '\$CI_COMMIT_TAG'
-
-# ──────────────────────────────────────────────────────────────────
-# Stage: Notify
-# ──────────────────────────────────────────────────────────────────
-.notify_template: &notify_template
-  stage: notify
-  needs:
-    - job: deploy:production
-      optional: true
-    - job: deploy:staging
-      optional: true
-    - job: test:e2e
-      optional: true
-  timeout: 5m
-  when: always
-
-notify:slack:
-  <<: *notify_template
-  script:
-    - |
-      slack_notification:
-        channel: "\$SLACK_CHANNEL"
-        message: |
-          :\${CI_JOB_STATUS == "success" ? "white_check_mark" : "x"} Pipeline #\${CI_PIPELINE_ID} \${CI_JOB_STATUS} (\${CI_COMMIT_SHORT_SHA})
-          Project: \${CI_PROJECT_NAME}
-          Branch: \${CI_COMMIT_BRANCH}
-          Author: \${GITLAB_USER_NAME}
-          Environment: \${ENV:-N/A}
-          Duration: \${CI_PIPELINE_DURATION}s
-          Pipeline: \${CI_PIPELINE_URL}
-  rules:
-    - if: '\$SLACK_WEBHOOK_URL'
-
-# Note: Email notifications enabled via Settings → Integrations → Pipelines emails
-# Configure ALERT_EMAILS, SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS in CI/CD Variables
-
-# ──────────────────────────────────────────────────────────────────
-# Cleanup & Stop Jobs
-# ──────────────────────────────────────────────────────────────────
-stop:dev:
-  stage: deploy
-  image: bitnami/kubectl:1.28@sha256:5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f
-  environment:
-    name: development
-    action: stop
-  script:
-    - kubectl delete deployment/\${CI_PROJECT_NAME} -n dev --ignore-not-found=true
-  when: manual
-  timeout: 5m
-
-stop:staging:
-  stage: deploy
-  image: bitnami/kubectl:1.28@sha256:5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f
-  environment:
-    name: staging
-    action: stop
-  script:
-    - kubectl delete deployment/\${CI_PROJECT_NAME} -n staging --ignore-not-found=true
-  when: manual
-  timeout: 5m
-
-stop:production:
-  stage: deploy
-  image: bitnami/kubectl:1.28@sha256:5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f
-  environment:
-    name: production
-    action: stop
-  script:
-    - echo "Production stop requires manual intervention"
-    - exit 1
-  when: manual
-  timeout: 5m
-
-stop:review:
-  stage: deploy
-  image: bitnami/kubectl:1.28@sha256:5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f5f
-  environment:
-    name: pr-\$CI_MERGE_REQUEST_IID
-    action: stop
-  script:
-    - kubectl delete namespace pr-\$CI_MERGE_REQUEST_IID --ignore-not-found=true
-  when: manual
-  timeout: 5m
+  private describePipeline(context: MigrationContext) {
+    const { ast, errors } = parseJenkinsfile(context.jenkinsfile)
+    return {
+      kind: context.scanResult.declarative ? 'declarative' : context.scanResult.scripted ? 'scripted' : 'unknown',
+      stages: findCalls(ast, 'stage').map(stage => ({
+        name: stringValue(stage.arguments[0]) ?? '(dynamic)',
+        line: stage.loc.start.line
+      })),
+      syntaxErrors: errors
+    }
+  }
+  /**
+   * Improvements the generated pipeline has over running the stages one by one
+   */
+  private describeOptimizations(pipeline: GitLabPipeline) {
+    const optimizations = []
+    const jobs = Object.entries(pipeline.jobs).filter(([name]) => !name.startsWith('.')).map(([, job]) => jobSettings(pipeline, job))
+    const concurrent = pipeline.stages.filter(stage => jobs.filter(job => job.stage === stage).length > 1)
+    if (concurrent.length > 0) {
+      optimizations.push({
+        type: 'performance',
+        description: `Jobs in ${concurrent.join(', ')} run concurrently`,
+        impact: 'medium',
+        effort: 'none',
+        applied: true
+      })
+    }
+    const cached = jobs.filter(job => job.cache).length
+    if (cached > 0) {
+      optimizations.push({
+        type: 'performance',
+        description: `${cached} job(s) reuse cached dependency downloads`,
+        impact: 'high',
+        effort: 'none',
+        applied: true
+      })
+    }
+    const started = jobs.filter(job => job.needs?.length === 0).length
+    if (started > 0) {
+      optimizations.push({
+        type: 'performance',
+        description: `${started} job(s) start without waiting for earlier stages`,
+        impact: 'medium',
+        effort: 'none',
+        applied: true
+      })
+    }
+    if (pipeline.include?.some(entry => 'template' in entry)) {
+      optimizations.push({
+        type: 'security',
+        description: 'SAST and secret detection scan every pipeline',
+        impact: 'medium',
+        effort: 'none',
+        applied: true
+      })
+    }
+    if (jobs.some(job => job.artifacts?.reports?.junit)) {
+      optimizations.push({
+        type: 'reliability',
+        description: 'Test reports are uploaded even when the job fails',
+        impact: 'low',
+        effort: 'none',
+        applied: true
+      })
+    }
+    return optimizations
+  }
 
-# ──────────────────────────────────────────────────────────────────
-# Stage: Docs (GitLab Pages)
-# ──────────────────────────────────────────────────────────────────
-pages:
-  stage: docs
-  <<: *maven_image
-  script:
-    - mvn \${MAVEN_CLI_OPTS} site:site
-    - mv target/site public
-    - cp .gitlab/ci/README-CI.md public/README-CI.md
-  artifacts:
-    paths:
-      - public
-    expire_in: 1 month
-  rules:
-    - if: '\$CI_COMMIT_BRANCH == \$CI_DEFAULT_BRANCH'
-  timeout: 10m`
+  /**
+   * Static check of an image reference; nothing is pulled
+   */
+  private checkImageReference(image: string) {
+    const hasDigest = /@sha256:[a-f0-9]{64}$/.test(image)
+    const tag = image.replace(/@.*$/, '').match(/:([\w][\w.-]*)$/)?.[1]
+    const isValid = /^[a-z0-9.-]+(:\d+)?(\/[a-z0-9._-]+)*(:[\w][\w.-]{0,127})?(@sha256:[a-f0-9]{64})?$/.test(image)
+    const recommendations: string[] = []
+    if (!isValid) recommendations.push('Image reference is not a valid name[:tag][@digest]')
+    if (!tag || tag === 'latest') recommendations.push('Pin a version tag instead of latest')
+    if (!hasDigest) recommendations.push('Pin the image by digest for reproducible builds')
+    return {
+      image,
+      is_valid: isValid,
+      security_score: hasDigest ? 100 : tag && tag !== 'latest' ? 80 : 50,
+      vulnerabilities: [],
+      recommendations,
+      has_digest: hasDigest,
+      validated_reference: image,
+      metadata: { source: 'static-check' }
+    }
   }
 }
 
 // Export singleton instance
-export const enterpriseAIMigrationSystem = new EnterpriseAIMigrationSystem()
\ No newline at end of file
+export const enterpriseAIMigrationSystem = new EnterpriseAIMigrationSystem()
@@ -0,0 +1,350 @@
+/**
+ * CI/CD Catalog Components
+ *
+ * Turns the global steps of a Jenkins shared library into GitLab CI/CD
+ * components, so that a library is migrated once into a catalog project
+ * instead of being inlined into every pipeline that loads it. Each
+ * `vars/<name>.groovy` step becomes `templates/<name>.yml` with a
+ * `spec:inputs` entry per parameter of its `call` method; the keys a
+ * `call(Map config)` step reads from its map become inputs of their own.
+ */
+
+import { PipelineModel, PipelineStage, PipelineStep, SourceSpan } from '@/types'
+import { AstNode, ExpressionNode, literalValue, MethodDeclaration, walk } from './groovy-ast'
+import { convertToGitLab, renderComponentTemplate, slugify, translateVariables } from './gitlab-converter'
+import { inlineLibraryStep, LibraryStep, SharedLibrary } from './shared-library'
+
+export interface ComponentInput {
+  name: string
+  type: 'string' | 'number' | 'boolean'
+  /** Missing for inputs every caller has to pass */
+  default?: string | number | boolean
+  description: string
+}
+
+export interface CatalogComponent {
+  /** Library step the component replaces */
+  step: string
+  name: string
+  /** Template path in the catalog project */
+  path: string
+  inputs: ComponentInput[]
+  /** Inputs that positional arguments bind to, in parameter order */
+  positional: string[]
+  /** What the template could not convert from the step body */
+  unconverted: string[]
+}
+
+export interface CatalogProject {
+  library: string
+  /** Project path below the GitLab server, e.g. `platform/jenkins-lib` */
+  project: string
+  components: CatalogComponent[]
+  /** Catalog project files by path: the templates and a README */
+  files: Record<string, string>
+  /** Library steps that stay inlined, with the reason */
+  skipped: Array<{ step: string; reason: string }>
+}
+
+// Inputs every component has, so the job lands where the Jenkins stage was
+const STAGE_INPUT = 'stage'
+const JOB_NAME_INPUT = 'job-name'
+
+// Top-level blocks of a step that defines the whole pipeline
+const PIPELINE_BLOCKS = ['pipeline', 'node']
+
+/** Parameters of a step's `call` method, as component inputs */
+interface CallSignature {
+  inputs: ComponentInput[]
+  positional: string[]
+  /** Keys of the map parameter, which take named arguments */
+  mapKeys: string[]
+}
+
+/**
+ * Build a catalog project from a shared library. Steps that take a closure
+ * block or define a whole pipeline cannot be components and are skipped.
+ */
+export function buildCatalogComponents(library: SharedLibrary, project: string): CatalogProject {
+  const catalog: CatalogProject = { library: library.name, project, components: [], files: {}, skipped: [] }
+
+  for (const step of Object.values(library.steps)) {
+    const signature = callSignature(step)
+    if (typeof signature === 'string') {
+      catalog.skipped.push({ step: step.name, reason: signature })
+      continue
+    }
+
+    const name = componentName(step.name)
+    const method = step.methods.call
+    const span: SourceSpan = { startLine: method.loc.start.line, endLine: method.loc.end.line }
+    const input = (key: string) => `$[[ inputs.${key} ]]`
+    const caller: PipelineStep = {
+      kind: 'step',
+      name: step.name,
+      args: signature.positional.map(input),
+      named: Object.fromEntries(signature.mapKeys.map(key => [key, input(key)])),
+      source: step.name,
+      span
+    }
+    const stage: PipelineStage = {
+      name,
+      environment: [],
+      options: [],
+      tools: [],
+      steps: inlineLibraryStep([library], caller),
+      parallel: [],
+      stages: [],
+      post: [],
+      span
+    }
+    const { pipeline, report } = convertToGitLab({
+      kind: 'declarative',
+      environment: [],
+      options: [],
+      parameters: [],
+      triggers: [],
+      tools: [],
+      libraries: [],
+      stages: [stage],
+      post: [],
+      unmodeled: [],
+      span
+    })
+    const job = pipeline.jobs[slugify(name)]
+    if (!job) {
+      catalog.skipped.push({ step: step.name, reason: 'has no steps GitLab needs' })
+      continue
+    }
+
+    const inputs: ComponentInput[] = [
+      { name: STAGE_INPUT, type: 'string', default: 'build', description: 'Stage the job runs in' },
+      { name: JOB_NAME_INPUT, type: 'string', default: name, description: 'Name of the job' },
+      ...signature.inputs
+    ]
+    const component: CatalogComponent = {
+      step: step.name,
+      name,
+      path: `templates/${name}.yml`,
+      inputs,
+      positional: signature.positional,
+      unconverted: report.unconverted.map(item => item.description)
+    }
+    catalog.components.push(component)
+    catalog.files[component.path] = renderComponentTemplate(
+      [
+        `CI/CD component converted from the Jenkins shared library step ${step.path}`,
+        ...report.notes.map(note => `Note: ${note}`),
+        ...component.unconverted.map(description => `TODO: ${description}`)
+      ],
+      Object.fromEntries(inputs.map(({ name: key, type, default: value, description }) => [
+        key,
+        { description, type: type === 'string' ? undefined : type, default: value }
+      ])),
+      { [input(JOB_NAME_INPUT)]: { ...job, stage: input(STAGE_INPUT) } }
+    )
+  }
+
+  catalog.files['README.md'] = catalogReadme(catalog)
+  return catalog
+}
+
+/**
+ * Mark the stages whose only step calls a catalog component, which the
+ * converter then includes instead of building a job. Stages with their own
+ * agent, environment, conditions or post actions keep the inlined steps,
+ * as the component's job would drop them.
+ */
+export function includeComponents(model: PipelineModel, catalog: CatalogProject): PipelineModel {
+  const reference = model.libraries.find(library => library.name === catalog.library) ??
+    (model.libraries.length === 1 ? model.libraries[0] : undefined)
+  const version = reference?.version ?? '~latest'
+  const components = new Map(catalog.components.map(component => [component.step, component]))
+
+  const mark = (stage: PipelineStage): PipelineStage => {
+    const nested = {
+      ...stage,
+      parallel: stage.parallel.map(mark),
+      stages: stage.stages.map(mark)
+    }
+    const [step] = stage.steps
+    const component = step && components.get(step.name)
+    if (!component || !isPlainStage(stage) || stage.steps.length !== 1 || step.receiver || step.assign || step.body) return nested
+    const inputs = componentInputs(component, step)
+    if (!inputs) return nested
+    return {
+      ...nested,
+      component: { project: `$CI_SERVER_FQDN/${catalog.project}`, name: component.name, version, inputs }
+    }
+  }
+  return { ...model, stages: model.stages.map(mark) }
+}
+
+function isPlainStage(stage: PipelineStage): boolean {
+  return !stage.agent && !stage.when && !stage.input && !stage.matrix &&
+    stage.environment.length === 0 && stage.options.length === 0 && stage.tools.length === 0 &&
+    stage.parallel.length === 0 && stage.stages.length === 0 && stage.post.length === 0
+}
+
+/**
+ * Inputs for a call of the step, or undefined when an argument has no
+ * input or is only known at run time
+ */
+function componentInputs(component: CatalogComponent, step: PipelineStep): Record<string, string | number | boolean> | undefined {
+  if (step.args.length > component.positional.length) return undefined
+  // Named arguments are the keys of the map parameter
+  const keys = new Set(component.inputs.map(input => input.name)
+    .filter(name => name !== STAGE_INPUT && name !== JOB_NAME_INPUT && !component.positional.includes(name)))
+  if (Object.keys(step.named).some(name => !keys.has(name))) return undefined
+
+  const inputs: Record<string, string | number | boolean> = {}
+  const entries: Array<[string, unknown]> = [
+    ...step.args.map((value, index): [string, unknown] => [component.positional[index], value]),
+    ...Object.entries(step.named)
+  ]
+  for (const [name, value] of entries) {
+    if (typeof value === 'string') inputs[name] = translateVariables(value)
+    else if (typeof value === 'number' || typeof value === 'boolean') inputs[name] = value
+    else return undefined
+  }
+  const missing = component.inputs.some(input => input.default === undefined && !Object.prototype.hasOwnProperty.call(inputs, input.name))
+  return missing ? undefined : inputs
+}
+
+/**
+ * Inputs of a step's `call` method, or why the step cannot be a component
+ */
+function callSignature(step: LibraryStep): CallSignature | string {
+  const method = Object.prototype.hasOwnProperty.call(step.methods, 'call') ? step.methods.call : undefined
+  if (!method) return 'has no call method; its methods are inlined where components call them'
+  if (containsCall(method, PIPELINE_BLOCKS)) return 'defines a whole pipeline rather than steps of a job'
+
+  const signature: CallSignature = { inputs: [], positional: [], mapKeys: [] }
+  for (const [index, param] of method.params.entries()) {
+    if (param.paramType === 'Closure' || usesAsClosure(method, param.name)) {
+      return `takes a closure block ('${param.name}'), which component inputs cannot carry`
+    }
+    const keys = mapKeys(method, param.name)
+    const isMap = param.paramType === 'Map' || param.defaultValue?.type === 'MapExpression' || (!param.paramType && keys.size > 0)
+    if (isMap) {
+      // Named arguments arrive as a map in the first parameter
+      if (index > 0) return `takes map parameter '${param.name}' after other parameters`
+      for (const [key, usage] of keys) {
+        signature.mapKeys.push(key)
+        signature.inputs.push(inputFor(key, usage.fallback, usage.condition, `Value of '${key}' in the ${param.name} map`, ''))
+      }
+      continue
+    }
+    const fallback = literalValue(param.defaultValue)
+    signature.positional.push(param.name)
+    signature.inputs.push(inputFor(param.name, fallback, false, `Parameter '${param.name}' of the step`))
+  }
+  return signature
+}
+
+function inputFor(name: string, fallback: unknown, condition: boolean, description: string, missing?: string): ComponentInput {
+  if (typeof fallback === 'boolean' || (fallback === undefined && condition)) {
+    return { name, type: 'boolean', default: fallback ?? false, description }
+  }
+  if (typeof fallback === 'number') return { name, type: 'number', default: fallback, description }
+  if (typeof fallback === 'string') return { name, type: 'string', default: fallback, description }
+  return { name, type: 'string', default: missing, description }
+}
+
+/**
+ * Keys read from a map parameter, with the literal after `?:` as default
+ * and whether the key is tested as a condition
+ */
+function mapKeys(method: MethodDeclaration, param: string): Map<string, { fallback?: unknown; condition: boolean }> {
+  const keys = new Map<string, { fallback?: unknown; condition: boolean }>()
+  for (const statement of method.body) {
+    walk(statement, (node, ancestors) => {
+      const key = mapKey(node, param)
+      if (key === undefined) return
+      const usage = keys.get(key) ?? { condition: false }
+      const parent = ancestors[ancestors.length - 1]
+      if (parent?.type === 'ConditionalExpression' && !parent.consequent && parent.test === node) {
+        usage.fallback = usage.fallback ?? literalValue(parent.alternate)
+      }
+      if ((parent?.type === 'IfStatement' || parent?.type === 'ConditionalExpression') && parent.test === node) {
+        usage.condition = true
+      }
+      keys.set(key, usage)
+    })
+  }
+  return keys
+}
+
+function mapKey(node: AstNode, param: string): string | undefined {
+  if (node.type === 'PropertyAccess' && isIdentifier(node.object, param)) return node.property
+  if (node.type === 'IndexExpression' && isIdentifier(node.object, param) && node.index.type === 'StringLiteral' && !node.index.interpolated) {
+    return node.index.value
+  }
+  return undefined
+}
+
+/** True for `body()`, `body.call()` and `body.delegate = ...` */
+function usesAsClosure(method: MethodDeclaration, param: string): boolean {
+  let found = false
+  for (const statement of method.body) {
+    walk(statement, node => {
+      if (node.type === 'MethodCall' && !node.object && node.method === param) found = true
+      if (node.type === 'MethodCall' && node.method === 'call' && isIdentifier(node.object, param)) found = true
+      if (node.type === 'PropertyAccess' && isIdentifier(node.object, param) && ['delegate', 'resolveStrategy'].includes(node.property)) found = true
+    })
+  }
+  return found
+}
+
+function containsCall(method: MethodDeclaration, names: string[]): boolean {
+  let found = false
+  for (const statement of method.body) {
+    walk(statement, node => {
+      if (node.type === 'MethodCall' && !node.object && names.includes(node.method)) found = true
+    })
+  }
+  return found
+}
+
+function isIdentifier(node: ExpressionNode | undefined, name: string): boolean {
+  return node?.type === 'Identifier' && node.name === name
+}
+
+/** Component name for a step, e.g. `mavenBuild` → `maven-build` */
+function componentName(step: string): string {
+  return slugify(step.replace(/([a-z0-9])([A-Z])/g, '$1-$2'))
+}
+
+/** README of the catalog project, which the catalog shows as its description */
+function catalogReadme(catalog: CatalogProject): string {
+  const lines = [
+    `# ${catalog.library}`,
+    '',
+    `CI/CD components converted from the Jenkins shared library \`${catalog.library}\`.`,
+    'Mark this project as a CI/CD catalog project and create a release to publish them.'
+  ]
+  for (const component of catalog.components) {
+    const required = component.inputs.filter(input => input.default === undefined)
+    lines.push(
+      '',
+      `## ${component.name}`,
+      '',
+      `Replaces the \`${component.step}\` step.`,
+      '',
+      '```yaml',
+      'include:',
+      `  - component: $CI_SERVER_FQDN/${catalog.project}/${component.name}@<version>`,
+      ...(required.length > 0 ? ['    inputs:', ...required.map(input => `      ${input.name}: <${input.type}>`)] : []),
+      '```',
+      '',
+      '| Input | Type | Default | Description |',
+      '| --- | --- | --- | --- |',
+      ...component.inputs.map(input => `| \`${input.name}\` | ${input.type} | ${input.default === undefined ? '*required*' : `\`${JSON.stringify(input.default)}\``} | ${input.description} |`)
+    )
+  }
+  if (catalog.skipped.length > 0) {
+    lines.push('', '## Not converted', '')
+    lines.push(...catalog.skipped.map(({ step, reason }) => `- \`${step}\` ${reason}`))
+  }
+  return lines.join('\n') + '\n'
+}
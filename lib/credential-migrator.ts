@@ -0,0 +1,430 @@
+/**
+ * Credential Migrator
+ *
+ * Finds the Jenkins credentials a pipeline uses and plans the GitLab CI/CD
+ * variables that replace them: names GitLab accepts, variable types and
+ * masking, plus a `.env` template and a script that creates the variables
+ * through the GitLab API. Detection matches steps in the syntax tree like
+ * the plugin analyzer does, so commented-out bindings never count.
+ */
+
+import {
+  AstNode,
+  ExpressionNode,
+  MethodCall,
+  StepPattern,
+  matchesStep,
+  namedArgument,
+  nodeSource,
+  qualifiedName,
+  stringValue,
+  walk
+} from './groovy-ast'
+import { parseJenkinsfile } from './groovy-parser'
+import { credentialVariable } from './gitlab-converter'
+
+export type CredentialKind = 'usernamePassword' | 'string' | 'file' | 'sshUserPrivateKey' | 'credentials' | 'plugin'
+
+export interface CredentialHit {
+  /** Jenkins credential ID, or the source of the expression when it is computed at runtime */
+  credentialsId: string
+  kind: CredentialKind
+  /** Step the credential is used by, e.g. `usernamePassword` or `docker.withRegistry` */
+  step: string
+  /** Jenkins variables the binding sets, by argument name (`variable`, `usernameVariable`, ...) */
+  bindings: Record<string, string>
+  line: number
+  dynamic?: boolean
+}
+
+export interface UsageAnalysis {
+  totalReferences: number
+  uniqueCredentials: number
+  byKind: Record<CredentialKind, number>
+  /** Lines each credential is used on */
+  usages: Record<string, number[]>
+  /** Lines whose credential ID is computed at runtime and cannot be mapped */
+  dynamicReferences: number[]
+}
+
+/** A CI/CD variable, with the attribute names of the GitLab variables API */
+export interface GitLabVarSpec {
+  key: string
+  variable_type: 'env_var' | 'file'
+  masked: boolean
+  protected: boolean
+  environment_scope: string
+  description: string
+  /** Jenkins credential the variable replaces */
+  credentialsId: string
+  /** Whether the project has the variable already, once checked */
+  status?: 'exists' | 'missing'
+}
+
+export interface CustomMapping {
+  proposedKey: string
+  type?: 'env_var' | 'file'
+  masked?: boolean
+  protected?: boolean
+  description?: string
+}
+
+export interface MappingOptions {
+  environmentScope?: string
+  forceProtected?: boolean
+  customMappings?: Record<string, CustomMapping>
+}
+
+export interface ValidationIssue {
+  key: string
+  message: string
+  suggestion?: string
+}
+
+export interface ValidationResult {
+  valid: boolean
+  errors: ValidationIssue[]
+  warnings: ValidationIssue[]
+}
+
+export interface ScriptOptions {
+  projectId?: string
+  dryRun?: boolean
+  /** Variables to create before pausing, to stay under API rate limits */
+  batchSize?: number
+}
+
+interface CredentialStep {
+  match: StepPattern
+  kind: CredentialKind
+  /** Expressions holding the credential IDs; `credentialsId:` when not given */
+  ids?: (call: MethodCall) => ExpressionNode[]
+}
+
+// Binding steps of the Credentials Binding plugin come first so that the
+// generic `credentialsId:` pattern below only catches other plugins' steps
+const CREDENTIAL_STEPS: CredentialStep[] = [
+  { match: { step: 'usernamePassword' }, kind: 'usernamePassword' },
+  { match: { step: 'usernameColonPassword' }, kind: 'string' },
+  { match: { step: 'string', namedArg: 'credentialsId' }, kind: 'string' },
+  { match: { step: 'file', namedArg: 'credentialsId' }, kind: 'file' },
+  { match: { step: 'sshUserPrivateKey' }, kind: 'sshUserPrivateKey' },
+  { match: { step: 'credentials' }, kind: 'credentials', ids: call => call.arguments.slice(0, 1) },
+  { match: { receiver: 'docker', step: 'withRegistry' }, kind: 'usernamePassword', ids: call => call.arguments.slice(1, 2) },
+  { match: { step: 'sshagent' }, kind: 'sshUserPrivateKey', ids: call => listElements(namedArgument(call, 'credentials') ?? call.arguments[0]) },
+  { match: { step: 'kubeconfigFile' }, kind: 'file' },
+  { match: { step: 'withKubeConfig' }, kind: 'file' },
+  { match: { step: 'withAWS', namedArg: 'credentials' }, kind: 'usernamePassword', ids: call => [namedArgument(call, 'credentials')!] },
+  { match: { namedArg: 'credentialsId' }, kind: 'plugin' }
+]
+
+const BINDING_ARGUMENTS = ['variable', 'usernameVariable', 'passwordVariable', 'keyFileVariable', 'passphraseVariable']
+
+// Names that read as secrets, for credentials whose type the Jenkinsfile does not show
+const SECRET_NAME = /PASS|SECRET|TOKEN|KEY|PRIVATE|CRED|AUTH/i
+
+/** GitLab rejects longer variable keys */
+const MAX_KEY_LENGTH = 255
+
+const DEFAULT_BATCH_SIZE = 10
+
+/**
+ * Credentials referenced by a Jenkinsfile, in source order
+ */
+export function detectCredentials(jenkinsfile: string): CredentialHit[] {
+  const { ast, source } = parseJenkinsfile(jenkinsfile)
+  const hits: CredentialHit[] = []
+
+  walk(ast, (node: AstNode, ancestors: AstNode[]) => {
+    if (node.type !== 'MethodCall') return
+    const definition = CREDENTIAL_STEPS.find(candidate => matchesStep(node, candidate.match))
+    if (!definition) return
+
+    const bindings: Record<string, string> = {}
+    for (const name of BINDING_ARGUMENTS) {
+      const value = stringValue(namedArgument(node, name))
+      if (value !== undefined) bindings[name] = value
+    }
+    // `NAME = credentials('id')` binds the credential to the assigned variable
+    const parent = ancestors[ancestors.length - 1]
+    if (definition.kind === 'credentials' && parent?.type === 'AssignmentExpression' && parent.target.type === 'Identifier') {
+      bindings.variable = parent.target.name
+    }
+
+    const ids = definition.ids ? definition.ids(node) : [namedArgument(node, 'credentialsId')]
+    for (const expression of ids) {
+      if (!expression) continue
+      const id = expression.type === 'StringLiteral' && !expression.interpolated ? expression.value : undefined
+      hits.push({
+        credentialsId: id ?? nodeSource(source, expression),
+        kind: definition.kind,
+        step: qualifiedName(node) ?? node.method,
+        bindings,
+        line: node.loc.start.line,
+        ...(id === undefined ? { dynamic: true } : {})
+      })
+    }
+  })
+  return hits
+}
+
+export function analyzeUsage(hits: CredentialHit[]): UsageAnalysis {
+  const byKind: Record<CredentialKind, number> = {
+    usernamePassword: 0, string: 0, file: 0, sshUserPrivateKey: 0, credentials: 0, plugin: 0
+  }
+  const usages: Record<string, number[]> = {}
+  const dynamicReferences: number[] = []
+  for (const hit of hits) {
+    byKind[hit.kind]++
+    if (hit.dynamic) {
+      dynamicReferences.push(hit.line)
+      continue
+    }
+    usages[hit.credentialsId] = [...(usages[hit.credentialsId] ?? []), hit.line]
+  }
+  return {
+    totalReferences: hits.length,
+    uniqueCredentials: Object.keys(usages).length,
+    byKind,
+    usages,
+    dynamicReferences
+  }
+}
+
+/**
+ * GitLab variable name for a credential ID: upper case, underscores for
+ * anything GitLab does not allow, and no clash with predefined `CI_` variables
+ */
+export function gitlabVariableName(credentialsId: string): string {
+  let key = credentialVariable(credentialsId)
+  if (/^\d/.test(key)) key = `VAR_${key}`
+  if (key.startsWith('CI_')) key = `APP_${key}`
+  return key
+}
+
+/**
+ * Plan the variables that replace the detected credentials. A credential
+ * used in several places yields its variables once.
+ */
+export function mapCredentials(hits: CredentialHit[], options: MappingOptions = {}): GitLabVarSpec[] {
+  const scope = options.environmentScope || '*'
+  const variables: GitLabVarSpec[] = []
+  const seen = new Set<string>()
+
+  for (const hit of hits) {
+    if (hit.dynamic || seen.has(`${hit.credentialsId}:${hit.step}`)) continue
+    seen.add(`${hit.credentialsId}:${hit.step}`)
+
+    const custom = options.customMappings?.[hit.credentialsId]
+    const add = (key: string, type: GitLabVarSpec['variable_type'], masked: boolean, description: string) => {
+      if (variables.some(variable => variable.key === key && variable.credentialsId === hit.credentialsId)) return
+      variables.push({
+        key,
+        variable_type: custom?.type ?? type,
+        masked: custom?.masked ?? masked,
+        protected: options.forceProtected || (custom?.protected ?? true),
+        environment_scope: scope,
+        description: custom?.description ?? description,
+        credentialsId: hit.credentialsId
+      })
+    }
+
+    const base = custom?.proposedKey ?? gitlabVariableName(hit.credentialsId)
+    const source = `Jenkins credential '${hit.credentialsId}'`
+    switch (hit.kind) {
+      case 'usernamePassword':
+        add(`${base}_USER`, 'env_var', true, `Username of ${source}`)
+        // The converter logs in to docker registries with <ID>_PASSWORD
+        add(hit.step === 'docker.withRegistry' ? `${base}_PASSWORD` : `${base}_PASS`, 'env_var', true, `Password of ${source}`)
+        break
+      case 'file':
+        add(base, 'file', false, `File content of ${source}`)
+        break
+      case 'sshUserPrivateKey':
+        add(custom ? base : `SSH_${base}`, 'env_var', true, `SSH private key of ${source}`)
+        break
+      case 'string':
+        add(base, 'env_var', true, `Secret text of ${source}`)
+        break
+      default: {
+        const name = hit.bindings.variable ?? hit.credentialsId
+        add(base, 'env_var', SECRET_NAME.test(name) || SECRET_NAME.test(hit.credentialsId), `${source} used by ${hit.step}`)
+      }
+    }
+  }
+  return variables
+}
+
+/**
+ * Problems GitLab would reject the variables for (errors) and settings
+ * worth a second look (warnings)
+ */
+export function validateVariables(variables: GitLabVarSpec[]): ValidationResult {
+  const errors: ValidationIssue[] = []
+  const warnings: ValidationIssue[] = []
+  const owners = new Map<string, string>()
+
+  for (const variable of variables) {
+    const { key } = variable
+    const owner = owners.get(key)
+    if (owner !== undefined && owner !== variable.credentialsId) {
+      errors.push({ key, message: `Credentials '${owner}' and '${variable.credentialsId}' both map to ${key}`, suggestion: 'Add a custom mapping with a unique key' })
+    }
+    owners.set(key, owner ?? variable.credentialsId)
+
+    if (!/^[A-Za-z0-9_]+$/.test(key)) {
+      errors.push({ key, message: 'Variable keys may only contain letters, digits and underscores', suggestion: gitlabVariableName(key) })
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      errors.push({ key, message: `Variable keys are limited to ${MAX_KEY_LENGTH} characters` })
+    }
+    if (key.startsWith('CI_')) {
+      warnings.push({ key, message: 'The CI_ prefix is reserved for predefined GitLab variables', suggestion: `APP_${key}` })
+    }
+    if (variable.variable_type === 'file' && variable.masked) {
+      warnings.push({ key, message: 'GitLab cannot mask file variables; the value will show if a job prints it' })
+    }
+  }
+  return { valid: errors.length === 0, errors, warnings }
+}
+
+/**
+ * `.env` template with a placeholder for every variable
+ */
+export function generateEnvFile(variables: GitLabVarSpec[]): string {
+  const lines = ['# GitLab CI/CD Variables for Local Development']
+  for (const variable of variables) {
+    lines.push(`# ${variable.description}`)
+    lines.push(`${variable.key}=${variable.variable_type === 'file' ? '<🔑 BASE64_FILE_CONTENT>' : '<🔑 ADD_VALUE>'}`)
+    lines.push('')
+  }
+  return lines.join('\n')
+}
+
+/**
+ * `create_gitlab_vars.sh`, which creates the variables through the GitLab
+ * API. Values come from environment variables of the same name, so the
+ * filled-in `.env` file can be sourced first.
+ */
+export function generateScript(variables: GitLabVarSpec[], options: ScriptOptions = {}): string {
+  const batchSize = options.batchSize && options.batchSize > 0 ? Math.floor(options.batchSize) : DEFAULT_BATCH_SIZE
+  const lines = [
+    '#!/usr/bin/env bash',
+    '# Create GitLab CI/CD variables for the credentials of a Jenkins pipeline',
+    '#',
+    '# Usage:',
+    '#   export GITLAB_TOKEN="glpat-..."   # token with api scope',
+    '#   export PROJECT_ID="12345"         # project ID or path',
+    '#   set -a; source .env; set +a       # variable values',
+    '#   ./create_gitlab_vars.sh',
+    'set -euo pipefail',
+    '',
+    'GITLAB_URL="${GITLAB_URL:-https://gitlab.com}"',
+    `PROJECT_ID="\${PROJECT_ID:-${options.projectId ?? ''}}"`,
+    `DRY_RUN="\${DRY_RUN:-${options.dryRun ? 'true' : 'false'}}"`,
+    `BATCH_SIZE=${batchSize}`,
+    '',
+    ': "${GITLAB_TOKEN:?Set GITLAB_TOKEN to a GitLab access token with api scope}"',
+    ': "${PROJECT_ID:?Set PROJECT_ID to the GitLab project ID or path}"',
+    'PROJECT="${PROJECT_ID//\\//%2F}"',
+    '',
+    'created=0',
+    'skipped=0',
+    'failed=0',
+    'processed=0',
+    '',
+    'create_var() {',
+    '  local key="$1" type="$2" masked="$3" protected="$4" scope="$5" description="$6"',
+    '  local value="${!key:-}"',
+    '  if [ -z "$value" ]; then',
+    '    echo "⚠️  $key has no value in the environment, skipped"',
+    '    skipped=$((skipped + 1))',
+    '    return',
+    '  fi',
+    '  if [ "$DRY_RUN" = "true" ]; then',
+    '    echo "[dry run] $key ($type, masked=$masked, protected=$protected, scope=$scope)"',
+    '    return',
+    '  fi',
+    '',
+    '  local status',
+    '  status=$(curl --silent --output /dev/null --write-out \'%{http_code}\' \\',
+    '    --request POST "$GITLAB_URL/api/v4/projects/$PROJECT/variables" \\',
+    '    --header "PRIVATE-TOKEN: $GITLAB_TOKEN" \\',
+    '    --form-string "key=$key" \\',
+    '    --form-string "value=$value" \\',
+    '    --form-string "variable_type=$type" \\',
+    '    --form-string "masked=$masked" \\',
+    '    --form-string "protected=$protected" \\',
+    '    --form-string "environment_scope=$scope" \\',
+    '    --form-string "description=$description") || status=000',
+    '',
+    '  case "$status" in',
+    '    201) echo "✅ $key created"; created=$((created + 1)) ;;',
+    '    400) echo "❌ $key was rejected: it exists already or its value cannot be masked"; failed=$((failed + 1)) ;;',
+    '    401|403) echo "❌ The token has no access to project $PROJECT_ID"; exit 1 ;;',
+    '    404) echo "❌ Project $PROJECT_ID was not found"; exit 1 ;;',
+    '    *) echo "❌ $key failed with HTTP $status"; failed=$((failed + 1)) ;;',
+    '  esac',
+    '',
+    '  processed=$((processed + 1))',
+    '  if [ $((processed % BATCH_SIZE)) -eq 0 ]; then sleep 1; fi',
+    '}',
+    ''
+  ]
+  for (const variable of variables) {
+    const args = [
+      variable.key,
+      variable.variable_type,
+      String(variable.masked),
+      String(variable.protected),
+      variable.environment_scope,
+      variable.description
+    ]
+    lines.push(`create_var ${args.map(shellQuote).join(' ')}`)
+  }
+  lines.push(
+    '',
+    'echo "Created: $created, skipped: $skipped, failed: $failed"',
+    '[ "$failed" -eq 0 ]',
+    ''
+  )
+  return lines.join('\n')
+}
+
+/**
+ * Mark each variable as existing in the project or missing, using the
+ * project variables API. Throws when GitLab refuses the request.
+ */
+export async function checkVariableStatus(
+  variables: GitLabVarSpec[],
+  projectId: string,
+  token: string,
+  apiBase = process.env.GITLAB_API_URL || 'https://gitlab.com/api/v4'
+): Promise<GitLabVarSpec[]> {
+  const existing = new Set<string>()
+  for (let page = 1; ; page++) {
+    const response = await fetch(`${apiBase}/projects/${encodeURIComponent(projectId)}/variables?per_page=100&page=${page}`, {
+      headers: { 'PRIVATE-TOKEN': token }
+    })
+    if (!response.ok) {
+      throw new Error(`GitLab API returned ${response.status} for the variables of project ${projectId}`)
+    }
+    const batch = await response.json() as Array<{ key: string; environment_scope: string }>
+    for (const variable of batch) existing.add(`${variable.key}:${variable.environment_scope}`)
+    const next = response.headers.get('x-next-page')
+    if (!next || batch.length === 0) break
+  }
+  return variables.map(variable => ({
+    ...variable,
+    status: existing.has(`${variable.key}:${variable.environment_scope}`) ? 'exists' : 'missing'
+  }))
+}
+
+function listElements(node: ExpressionNode | undefined): ExpressionNode[] {
+  if (!node) return []
+  return node.type === 'ListExpression' ? node.elements : [node]
+}
+
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`
+}
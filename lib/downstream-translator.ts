@@ -0,0 +1,134 @@
+/**
+ * Downstream Translator
+ *
+ * Turns `build job: 'folder/job'` steps into GitLab trigger jobs: a
+ * multi-project pipeline in the GitLab project the Jenkins job moved to,
+ * or a child pipeline when the job runs a file of this repository. Which
+ * project a Jenkins job became is not in the Jenkinsfile, so it comes from
+ * a job mapping file the user edits; jobs missing from it keep their path.
+ */
+
+import { PipelineStep, SourceSpan } from '@/types'
+import { isGroovyCall, staticString } from './pipeline-model'
+
+export interface DownstreamTrigger {
+  /** Jenkins job path as written in the step */
+  job: string
+  /** GitLab project path, or for a child pipeline a file of this repository */
+  target: string
+  child: boolean
+  /** Branch of a multibranch job, e.g. `main` in `app/main` */
+  branch?: string
+  /** Build parameters, passed on as variables of the downstream pipeline */
+  variables: Record<string, string>
+  /** `wait: false` starts the downstream pipeline without waiting for it */
+  wait: boolean
+  /** `propagate: false` keeps a failed downstream pipeline from failing this one */
+  propagate: boolean
+  untranslated: Array<{ description: string; span: SourceSpan }>
+}
+
+/** GitLab target by Jenkins job path */
+export type JobMapping = Record<string, string>
+
+// Last path segments that name a branch of a multibranch job rather than a job
+const BRANCH_SEGMENT = /^(main|master|develop|development|trunk)$|\$/
+
+// A mapping target that is a pipeline file runs as a child pipeline
+const CHILD_PIPELINE = /\.ya?ml$/
+
+const PROJECT_PATH = /^[\w.-]+(\/[\w.-]+)+$/
+
+// A mapping line: `job: target`, either side plain or quoted, with an optional comment
+const SCALAR = `("(?:[^"\\\\]|\\\\.)*"|'[^']*'|[^'"#:\\s][^#:]*?)`
+const MAPPING_ENTRY = new RegExp(`^${SCALAR}\\s*:\\s+${SCALAR}\\s*(?:#.*)?$`)
+
+/**
+ * Translate a `build` step, or undefined when the job name is computed at runtime
+ */
+export function translateBuildStep(step: PipelineStep, mapping: JobMapping): DownstreamTrigger | undefined {
+  const job = staticString(step.named.job ?? step.args[0])
+  if (job === undefined) return undefined
+  const trigger: DownstreamTrigger = {
+    job,
+    ...resolveTarget(job, mapping),
+    variables: {},
+    wait: step.named.wait !== false,
+    propagate: step.named.propagate !== false,
+    untranslated: []
+  }
+
+  const parameters = Array.isArray(step.named.parameters) ? step.named.parameters : []
+  for (const parameter of parameters) {
+    const name = isGroovyCall(parameter) ? staticString(parameter.named.name) : undefined
+    const value = isGroovyCall(parameter) ? parameter.named.value : undefined
+    const text = typeof value === 'boolean' ? String(value) : staticString(value)
+    if (name === undefined || text === undefined) {
+      trigger.untranslated.push({ description: `A parameter of the build of '${job}' is computed at runtime`, span: step.span })
+      continue
+    }
+    trigger.variables[name] = text
+  }
+  if (step.named.quietPeriod !== undefined) {
+    trigger.untranslated.push({ description: `quietPeriod on the build of '${job}': GitLab starts downstream pipelines at once`, span: step.span })
+  }
+  return trigger
+}
+
+/**
+ * GitLab target of a Jenkins job: its mapping entry, or else its own path
+ * with relative parts dropped and a multibranch branch split off
+ */
+export function resolveTarget(job: string, mapping: JobMapping): { target: string; child: boolean; branch?: string } {
+  const segments = job.split('/').filter(segment => segment && segment !== '.' && segment !== '..')
+  const last = segments[segments.length - 1]
+  const branch = segments.length > 1 && last && BRANCH_SEGMENT.test(last) ? last.replace(/%2F/gi, '/') : undefined
+
+  const mapped = mapping[job]
+  if (mapped) return CHILD_PIPELINE.test(mapped) ? { target: mapped, child: true } : { target: mapped, child: false, branch }
+  return { target: (branch ? segments.slice(0, -1) : segments).join('/'), child: false, branch }
+}
+
+/**
+ * Read a job mapping file: one `jenkins/job: group/project` entry per line,
+ * either side optionally quoted. Throws on lines it cannot read.
+ */
+export function parseJobMapping(text: string): JobMapping {
+  const mapping: JobMapping = {}
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (/^\s*(#.*)?$/.test(line)) return
+    const match = MAPPING_ENTRY.exec(line.trim())
+    if (!match) throw new Error(`Line ${index + 1} of the job mapping is not a 'jenkins/job: group/project' entry`)
+    const [job, target] = [unquote(match[1]), unquote(match[2])]
+    if (!PROJECT_PATH.test(target) && !CHILD_PIPELINE.test(target)) {
+      throw new Error(`Line ${index + 1} of the job mapping: '${target}' is neither a project path nor a .yml file`)
+    }
+    mapping[job] = target
+  })
+  return mapping
+}
+
+/**
+ * Job mapping file listing the GitLab target of each Jenkins job, for the
+ * user to correct and upload with the Jenkinsfile
+ */
+export function renderJobMapping(targets: JobMapping): string {
+  const lines = [
+    '# GitLab targets of the Jenkins jobs this pipeline builds downstream.',
+    '# Change the right-hand side to the GitLab project path each job moved to,',
+    '# or to a .yml file of this repository to run it as a child pipeline,',
+    '# then upload this file with the Jenkinsfile and convert again.'
+  ]
+  for (const [job, target] of Object.entries(targets)) lines.push(`${quote(job)}: ${quote(target)}`)
+  return lines.join('\n') + '\n'
+}
+
+function quote(text: string): string {
+  return /^[\w.-]+(\/[\w.-]+)*$/.test(text) ? text : JSON.stringify(text)
+}
+
+function unquote(text: string): string {
+  if (text.startsWith('"')) return JSON.parse(text) as string
+  if (text.startsWith("'")) return text.slice(1, -1)
+  return text.trim()
+}
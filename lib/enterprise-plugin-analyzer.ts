@@ -14,6 +14,8 @@
 
 import { PluginCompatibilityStatus, PluginScanResult, ScannedPlugin, DatabaseService } from './database'
 import { createHash } from 'crypto'
+import { parseJenkinsfile } from './groovy-parser'
+import { findCalls, literalValue, matchesStep, ScriptNode, StepPattern, walk } from './groovy-ast'
 
 interface JenkinsPluginUsage {
   pluginName: string
@@ -106,56 +108,59 @@ export class EnterprisePluginAnalyzer {
     pluginsPerSecond: 0
   }
   
-  private static readonly COMMON_PLUGIN_PATTERNS = [
+  // Matched structurally against the syntax tree, so commented-out steps and strings never count
+  private static readonly COMMON_PLUGIN_PATTERNS: Array<{ match: StepPattern; plugin: string; context: string }> = [
     // Build tools
-    { pattern: /withMaven\s*\(/g, plugin: 'pipeline-maven', context: 'Maven build step' },
-    { pattern: /withGradle\s*\(/g, plugin: 'gradle', context: 'Gradle build step' },
-    { pattern: /withAnt\s*\(/g, plugin: 'ant', context: 'Ant build step' },
+    { match: { step: 'withMaven' }, plugin: 'pipeline-maven', context: 'Maven build step' },
+    { match: { step: 'withGradle' }, plugin: 'gradle', context: 'Gradle build step' },
+    { match: { step: 'withAnt' }, plugin: 'ant', context: 'Ant build step' },
     
     // SCM
-    { pattern: /checkout\s*scm/g, plugin: 'git', context: 'Source checkout' },
-    { pattern: /git\s*url:/g, plugin: 'git', context: 'Git SCM configuration' },
-    { pattern: /svn\s*url:/g, plugin: 'subversion', context: 'SVN SCM configuration' },
+    { match: { step: 'checkout', firstArg: 'scm' }, plugin: 'git', context: 'Source checkout' },
+    { match: { step: 'git', namedArg: 'url' }, plugin: 'git', context: 'Git SCM configuration' },
+    { match: { step: 'svn', namedArg: 'url' }, plugin: 'subversion', context: 'SVN SCM configuration' },
     
     // Credentials
-    { pattern: /withCredentials\s*\(/g, plugin: 'credentials-binding', context: 'Credentials binding' },
-    { pattern: /usernamePassword\s*\(/g, plugin: 'credentials-binding', context: 'Username/password credentials' },
-    { pattern: /string\s*\(credentialsId:/g, plugin: 'credentials-binding', context: 'String credentials' },
+    { match: { step: 'withCredentials' }, plugin: 'credentials-binding', context: 'Credentials binding' },
+    { match: { step: 'usernamePassword' }, plugin: 'credentials-binding', context: 'Username/password credentials' },
+    { match: { step: 'string', namedArg: 'credentialsId' }, plugin: 'credentials-binding', context: 'String credentials' },
+    { match: { namedArg: 'credentialsId' }, plugin: 'credentials-binding', context: 'Credentials usage' },
     
     // Docker
-    { pattern: /docker\s*\./g, plugin: 'docker-workflow', context: 'Docker pipeline steps' },
-    { pattern: /docker\s*\{/g, plugin: 'docker-workflow', context: 'Docker agent' },
+    { match: { receiver: 'docker' }, plugin: 'docker-workflow', context: 'Docker pipeline steps' },
+    { match: { step: 'docker' }, plugin: 'docker-workflow', context: 'Docker agent' },
     
     // Notifications
-    // Slack send can be used with or without parentheses
-    { pattern: /slackSend\b/g, plugin: 'slack', context: 'Slack notifications' },
-    { pattern: /emailext\s*\(/g, plugin: 'email-ext', context: 'Extended email notifications' },
-    { pattern: /hipchatSend\s*\(/g, plugin: 'hipchat', context: 'HipChat notifications' },
+    { match: { step: 'slackSend' }, plugin: 'slack', context: 'Slack notifications' },
+    { match: { step: 'emailext' }, plugin: 'email-ext', context: 'Extended email notifications' },
+    { match: { step: 'hipchatSend' }, plugin: 'hipchat', context: 'HipChat notifications' },
     
     // Testing
-    { pattern: /junit\s*\(/g, plugin: 'junit', context: 'JUnit test results' },
-    // Some pipelines use publishTestResults without parentheses
-    { pattern: /publishTestResults\b/g, plugin: 'junit', context: 'Test results publishing' },
-    { pattern: /jacoco\s*\(/g, plugin: 'jacoco', context: 'Code coverage' },
-    { pattern: /sonarqube\s*\(/g, plugin: 'sonar', context: 'SonarQube analysis' },
+    { match: { step: 'junit' }, plugin: 'junit', context: 'JUnit test results' },
+    { match: { step: 'publishTestResults' }, plugin: 'junit', context: 'Test results publishing' },
+    { match: { step: 'jacoco' }, plugin: 'jacoco', context: 'Code coverage' },
+    { match: { step: 'sonarqube' }, plugin: 'sonar', context: 'SonarQube analysis' },
     
     // Artifacts
-    { pattern: /archiveArtifacts\s*\(/g, plugin: 'core', context: 'Archive artifacts' },
-    { pattern: /publishHTML\s*\(/g, plugin: 'htmlpublisher', context: 'HTML report publishing' },
+    { match: { step: 'archiveArtifacts' }, plugin: 'core', context: 'Archive artifacts' },
+    { match: { step: 'publishHTML' }, plugin: 'htmlpublisher', context: 'HTML report publishing' },
     
     // Deployment
-    { pattern: /kubernetesDeploy\s*\(/g, plugin: 'kubernetes-cd', context: 'Kubernetes deployment' },
-    { pattern: /ansiblePlaybook\s*\(/g, plugin: 'ansible', context: 'Ansible playbook execution' },
-    { pattern: /sshagent\s*\(/g, plugin: 'ssh-agent', context: 'SSH agent' },
+    { match: { step: 'kubernetesDeploy' }, plugin: 'kubernetes-cd', context: 'Kubernetes deployment' },
+    { match: { step: 'ansiblePlaybook' }, plugin: 'ansible', context: 'Ansible playbook execution' },
+    { match: { step: 'sshagent' }, plugin: 'ssh-agent', context: 'SSH agent' },
     
     // Security
-    { pattern: /withVault\s*\(/g, plugin: 'hashicorp-vault', context: 'HashiCorp Vault integration' },
-    { pattern: /withAWSParameterStore\s*\(/g, plugin: 'aws-parameter-store', context: 'AWS Parameter Store' },
+    { match: { step: 'withVault' }, plugin: 'hashicorp-vault', context: 'HashiCorp Vault integration' },
+    { match: { step: 'withAWSParameterStore' }, plugin: 'aws-parameter-store', context: 'AWS Parameter Store' },
     
     // Build triggers
-    { pattern: /pollSCM\s*\(/g, plugin: 'core', context: 'SCM polling trigger' },
-    { pattern: /cron\s*\(/g, plugin: 'core', context: 'Cron trigger' },
-    { pattern: /upstream\s*\(/g, plugin: 'core', context: 'Upstream project trigger' }
+    { match: { step: 'pollSCM' }, plugin: 'core', context: 'SCM polling trigger' },
+    { match: { step: 'cron' }, plugin: 'core', context: 'Cron trigger' },
+    { match: { step: 'upstream' }, plugin: 'core', context: 'Upstream project trigger' },
+
+    // Shared libraries loaded dynamically (`@Library` annotations are read separately)
+    { match: { step: 'library' }, plugin: 'shared-library', context: 'Shared library step' }
   ]
   
   /**
@@ -185,20 +190,23 @@ export class EnterprisePluginAnalyzer {
           complianceStandards: []
         }
       }
+      // Text-based detection is only trusted when the syntax tree is incomplete
+      let treeIncomplete = parseJenkinsfile(jenkinsContent).errors.length > 0
       let pluginUsages: JenkinsPluginUsage[]
       try {
         pluginUsages = await this.extractAdvancedPluginUsages(jenkinsContent)
       } catch (e) {
         pluginUsages = []
+        treeIncomplete = true
       }
 
       // Final safety net: if still empty, run basic detection
-      if (jenkinsContent && pluginUsages.length === 0) {
+      if (treeIncomplete && jenkinsContent && pluginUsages.length === 0) {
         pluginUsages = this.basicDetectPlugins(jenkinsContent)
       }
 
       // Absolute safety: if still empty but clear indicators exist, synthesize minimal detections
-      if (pluginUsages.length === 0) {
+      if (treeIncomplete && pluginUsages.length === 0) {
         const indicators: Array<{ substr: string; plugin: string; context: string }> = [
           { substr: 'withCredentials', plugin: 'credentials-binding', context: 'Credentials binding' },
           { substr: 'docker.', plugin: 'docker-workflow', context: 'Docker pipeline steps' },
@@ -223,7 +231,7 @@ export class EnterprisePluginAnalyzer {
       }
 
       // Heuristic fallback: ensure minimal detection for common patterns if advanced extraction found nothing
-      if (jenkinsContent && pluginUsages.length === 0) {
+      if (treeIncomplete && jenkinsContent && pluginUsages.length === 0) {
         const lines = jenkinsContent.split('\n')
         const pushUsage = (plugin: string, context: string, idx: number) => {
           pluginUsages.push({
@@ -599,12 +607,14 @@ export class EnterprisePluginAnalyzer {
     }
     
     // Enterprise complexity assessment
+    const { ast } = parseJenkinsfile(jenkinsContent)
+    const calls = findCalls(ast).filter(call => !call.object)
     const lines = jenkinsContent.split('\n').length
-    const stageCount = (jenkinsContent.match(/stage\s*\(/g) || []).length
-    const stepCount = (jenkinsContent.match(/\s+(sh|bat|powershell|script)\s*['"]/g) || []).length
-    const parallelCount = (jenkinsContent.match(/parallel\s*{/g) || []).length
-    const matrixCount = (jenkinsContent.match(/matrix\s*{/g) || []).length
-    const pluginCount = this.countUniquePlugins(jenkinsContent)
+    const stageCount = calls.filter(call => call.method === 'stage').length
+    const stepCount = calls.filter(call => ['sh', 'bat', 'powershell', 'script'].includes(call.method)).length
+    const parallelCount = calls.filter(call => call.method === 'parallel').length
+    const matrixCount = calls.filter(call => call.method === 'matrix').length
+    const pluginCount = this.countUniquePlugins(ast)
     
     // Risk assessment
     if (this.HIGH_RISK_PLUGINS.some(plugin => jenkinsContent.includes(plugin))) {
@@ -647,45 +657,19 @@ export class EnterprisePluginAnalyzer {
     const usages: JenkinsPluginUsage[] = []
     const lines = jenkinsContent.split('\n')
     const extractedAt = new Date()
-    
-    // Seed with simple, robust detections to guarantee baseline coverage
-    const simplePatterns: Array<{ re: RegExp; plugin: string; context: string }> = [
-      { re: /withCredentials\b/i, plugin: 'credentials-binding', context: 'Credentials binding' },
-      { re: /usernamePassword\b/i, plugin: 'credentials-binding', context: 'Username/password credentials' },
-      { re: /credentialsId\b/i, plugin: 'credentials-binding', context: 'Credentials usage' },
-      { re: /docker\s*\./i, plugin: 'docker-workflow', context: 'Docker pipeline steps' },
-      { re: /docker\.withRegistry\b/i, plugin: 'docker-workflow', context: 'Docker registry' },
-      { re: /slackSend\b/i, plugin: 'slack', context: 'Slack notifications' },
-      { re: /publishTestResults\b/i, plugin: 'junit', context: 'Test results publishing' },
-      { re: /\bjunit\s*\(/i, plugin: 'junit', context: 'JUnit test results' }
-    ]
-    for (const p of simplePatterns) {
-      const m = p.re.exec(jenkinsContent)
-      if (m && typeof m.index === 'number') {
-        const lineNumber = this.getLineNumber(jenkinsContent, m.index)
-        usages.push({
-          pluginName: p.plugin,
-          usageContext: `${p.context}: ${lines[lineNumber - 1] ?? ''}`.trim().slice(0, 100),
-          lineNumber,
-          confidence: 0.7,
-          extractedAt
-        })
-      }
-    }
+    const { ast, errors } = parseJenkinsfile(jenkinsContent)
 
-    // Use pattern matching to find plugin usages
-    for (const patternDef of this.COMMON_PLUGIN_PATTERNS) {
-      const flags = patternDef.pattern.flags.includes('g') ? patternDef.pattern.flags : patternDef.pattern.flags + 'g'
-      const re = new RegExp(patternDef.pattern.source, flags)
-      let match: RegExpExecArray | null
-      while ((match = re.exec(jenkinsContent)) !== null) {
-        const index = match.index
-        const lineNumber = this.getLineNumber(jenkinsContent, index)
+    // Match every step call in the syntax tree against the known plugin steps
+    for (const call of findCalls(ast)) {
+      const lineNumber = call.loc.start.line
+      for (const patternDef of this.COMMON_PLUGIN_PATTERNS) {
+        if (!matchesStep(call, patternDef.match)) continue
         const context = this.extractUsageContext(lines, lineNumber - 1)
         usages.push({
           pluginName: patternDef.plugin,
           usageContext: `${patternDef.context}: ${context}`,
           lineNumber,
+          stepName: call.method,
           confidence: 0.95,
           extractedAt
         })
@@ -693,26 +677,19 @@ export class EnterprisePluginAnalyzer {
     }
     
     // Extract plugins from @Library declarations
-    const libraryMatches = jenkinsContent.match(/@Library\(['"]([^'"]+)['"]\)/g)
-    if (libraryMatches) {
-      libraryMatches.forEach(match => {
-        const libraryName = match.match(/@Library\(['"]([^'"]+)['"]\)/)?.[1]
-        if (libraryName) {
-          const lineNumber = this.getLineNumber(jenkinsContent, jenkinsContent.indexOf(match))
-          usages.push({
-            pluginName: 'shared-library',
-            usageContext: `Shared library: ${libraryName}`,
-            lineNumber,
-            confidence: 0.90,
-            extractedAt
-          })
-        }
+    for (const { name, lineNumber } of this.findLibraryAnnotations(ast)) {
+      usages.push({
+        pluginName: 'shared-library',
+        usageContext: `Shared library: ${name}`,
+        lineNumber,
+        confidence: 0.90,
+        extractedAt
       })
     }
     
     // Heuristic fallback: if nothing matched, scan lines for common keywords
     let deduped: JenkinsPluginUsage[] = usages
-    if (deduped.length === 0 && jenkinsContent.trim().length > 0) {
+    if (errors.length > 0 && deduped.length === 0 && jenkinsContent.trim().length > 0) {
       const pushIfFound = (predicate: (l: string) => boolean, pluginName: string, context: string) => {
         lines.forEach((line, idx) => {
           const l = line.toLowerCase()
@@ -850,8 +827,8 @@ export class EnterprisePluginAnalyzer {
       },
       'shared-library': {
         compatibility: PluginCompatibilityStatus.PARTIAL,
-        gitlabEquivalent: 'GitLab CI templates & includes',
-        notes: 'Use GitLab CI templates and include statements. May require refactoring of shared library code.',
+        gitlabEquivalent: 'GitLab CI/CD catalog components',
+        notes: 'Upload the library to inline its steps, or name a catalog project to turn its vars/ steps into CI/CD components that pipelines include.',
         isBlocking: false
       },
       'pipeline-stage-step': {
@@ -939,30 +916,45 @@ export class EnterprisePluginAnalyzer {
   }
 
   /**
-   * Count unique plugins in Jenkins content
+   * Count unique plugins in a parsed Jenkinsfile
    */
-  private static countUniquePlugins(jenkinsContent: string): number {
+  private static countUniquePlugins(ast: ScriptNode): number {
     const uniquePlugins = new Set<string>()
     
     // Extract plugins from common patterns
-    for (const patternDef of this.COMMON_PLUGIN_PATTERNS) {
-      const flags = patternDef.pattern.flags.includes('g') ? patternDef.pattern.flags : patternDef.pattern.flags + 'g'
-      const re = new RegExp(patternDef.pattern.source, flags)
-      let match: RegExpExecArray | null
-      while ((match = re.exec(jenkinsContent)) !== null) {
-        uniquePlugins.add(patternDef.plugin)
+    for (const call of findCalls(ast)) {
+      for (const patternDef of this.COMMON_PLUGIN_PATTERNS) {
+        if (matchesStep(call, patternDef.match)) uniquePlugins.add(patternDef.plugin)
       }
     }
     
     // Extract shared libraries
-    const libraryMatches = jenkinsContent.match(/@Library\(['"]([^'"]+)['"]\)/g)
-    if (libraryMatches) {
+    if (this.findLibraryAnnotations(ast).length > 0) {
       uniquePlugins.add('shared-library')
     }
     
     return uniquePlugins.size
   }
 
+  /**
+   * Helper: Library names from `@Library('name')` and `@Library(['a', 'b'])` annotations
+   */
+  private static findLibraryAnnotations(ast: ScriptNode): Array<{ name: string; lineNumber: number }> {
+    const libraries: Array<{ name: string; lineNumber: number }> = []
+    walk(ast, node => {
+      if (node.type !== 'AnnotatedStatement') return
+      for (const annotation of node.annotations) {
+        if (annotation.name !== 'Library') continue
+        const value = literalValue(annotation.arguments[0])
+        const names = Array.isArray(value) ? value : [value]
+        for (const name of names) {
+          if (typeof name === 'string') libraries.push({ name, lineNumber: annotation.loc.start.line })
+        }
+      }
+    })
+    return libraries
+  }
+
   /**
    * Create fallback result when analysis fails
    */
@@ -0,0 +1,556 @@
+/**
+ * GitLab CI Lint
+ *
+ * Checks what GitLab's schema cannot: that jobs refer to jobs, stages,
+ * templates and environments that exist, in an order GitLab can run, and
+ * that their rules can match at all. A configuration with `include:` may
+ * get jobs and templates from the included files, so a reference this file
+ * cannot resolve is then a warning rather than an error.
+ */
+
+import { LintResult } from '@/types'
+import { CiConfigProblem, formatProblem, validateCiConfig } from './gitlab-ci-schema'
+import { mappingPairs, parseYaml, resolveAlias, toValue, YamlMappingNode, YamlNode, YamlPair, YamlPosition } from './yaml-parser'
+
+export interface LintProblem extends CiConfigProblem {
+  severity: 'error' | 'warning'
+}
+
+/** Top-level keys that configure the pipeline rather than define a job */
+export const GLOBAL_KEYWORDS = new Set(['default', 'include', 'stages', 'variables', 'workflow', 'image', 'services', 'cache', 'before_script', 'after_script', 'types', 'spec'])
+
+const DEFAULT_STAGES = ['build', 'test', 'deploy']
+
+/** Jobs that GitLab's own templates define, by `include: template:` path */
+const TEMPLATE_JOBS: Record<string, string[]> = {
+  'Security/SAST.gitlab-ci.yml': ['sast'],
+  'Jobs/SAST.gitlab-ci.yml': ['sast'],
+  'Security/Dependency-Scanning.gitlab-ci.yml': ['dependency_scanning'],
+  'Jobs/Dependency-Scanning.gitlab-ci.yml': ['dependency_scanning'],
+  'Security/Container-Scanning.gitlab-ci.yml': ['container_scanning'],
+  'Jobs/Container-Scanning.gitlab-ci.yml': ['container_scanning'],
+  'Security/Secret-Detection.gitlab-ci.yml': ['secret_detection'],
+  'Jobs/Secret-Detection.gitlab-ci.yml': ['secret_detection'],
+  'Security/DAST.gitlab-ci.yml': ['dast']
+}
+
+/** The stage of a job that names none */
+const DEFAULT_STAGE = 'test'
+
+const PIPELINE_SOURCES = new Set([
+  'api', 'chat', 'external', 'external_pull_request_event', 'merge_request_event', 'ondemand_dast_scan', 'ondemand_dast_validation',
+  'parent_pipeline', 'pipeline', 'push', 'schedule', 'security_orchestration_policy', 'trigger', 'web', 'webide', 'container_registry_push'
+])
+
+// Rule conditions are expanded into alternatives of conditions that all
+// hold; past this many alternatives a rule is assumed to be satisfiable
+const MAX_ALTERNATIVES = 64
+
+/** One comparison of a rule's `if:`, with literals on the right */
+interface Condition {
+  variable: string
+  /** `set`: the variable is non-empty, as a bare `$VAR` tests */
+  op: 'set' | 'eq' | 'ne'
+  value?: string | null
+}
+
+interface JobSetting {
+  pair: YamlPair
+  value: unknown
+  /** Set by the job itself rather than a template it extends */
+  own: boolean
+}
+
+interface Job {
+  name: string
+  pair: YamlPair
+  settings: Map<string, JobSetting>
+  stage: string
+}
+
+/**
+ * Schema validation followed, when the file matches the schema, by the
+ * semantic checks, as one lint result
+ */
+export function lintGitLabYaml(yaml: string): LintResult {
+  const invalid = validateCiConfig(yaml)
+  const problems: LintProblem[] = invalid.length > 0
+    ? invalid.map(problem => ({ ...problem, severity: 'error' }))
+    : checkCiConfig(yaml)
+  return {
+    status: problems.some(problem => problem.severity === 'error') ? 'invalid' : 'valid',
+    errors: problems.filter(problem => problem.severity === 'error').map(formatProblem),
+    warnings: problems.filter(problem => problem.severity === 'warning').map(formatProblem)
+  }
+}
+
+/**
+ * Semantic problems of a configuration that reads as YAML. A component
+ * template's `spec:` header document is skipped.
+ */
+export function checkCiConfig(yaml: string): LintProblem[] {
+  const { documents, errors } = parseYaml(yaml)
+  if (errors.length > 0) return []
+  return documents
+    .map(resolveAlias)
+    .filter((document): document is YamlMappingNode => document.kind === 'mapping' && document.pairs.some(pair => pair.key !== 'spec'))
+    .flatMap(document => new ConfigChecker(document).run())
+    .sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+class ConfigChecker {
+  private problems: LintProblem[] = []
+  private readonly top: YamlPair[]
+  /** Jobs and hidden templates by name */
+  private readonly definitions = new Map<string, YamlPair>()
+  private readonly jobs = new Map<string, Job>()
+  private readonly stages: string[]
+  private readonly included: boolean
+  /** Jobs of included GitLab templates, which jobs here may override with a few keys */
+  private readonly templateJobs = new Set<string>()
+  private resolving = new Set<string>()
+  private settings = new Map<string, Map<string, JobSetting>>()
+
+  constructor(document: YamlMappingNode) {
+    this.top = mappingPairs(document)
+    const include = this.top.find(pair => pair.key === 'include')
+    this.included = include !== undefined
+    const includes = include ? toValue(include.value) : []
+    for (const entry of Array.isArray(includes) ? includes : [includes]) {
+      if (isRecord(entry) && typeof entry.template === 'string') TEMPLATE_JOBS[entry.template]?.forEach(job => this.templateJobs.add(job))
+    }
+    for (const pair of this.top) {
+      if (!GLOBAL_KEYWORDS.has(pair.key) && resolveAlias(pair.value).kind === 'mapping') this.definitions.set(pair.key, pair)
+    }
+    const stages = this.top.find(pair => pair.key === 'stages')
+    const listed = stages ? toValue(stages.value) : DEFAULT_STAGES
+    this.stages = ['.pre', ...(Array.isArray(listed) ? listed.flat().map(String) : []), '.post']
+  }
+
+  run(): LintProblem[] {
+    this.checkExtends()
+    for (const [name, pair] of this.definitions) {
+      if (name.startsWith('.')) continue
+      const settings = this.resolve(name)
+      const stage = settings.get('stage')?.value
+      this.jobs.set(name, { name, pair, settings, stage: typeof stage === 'string' ? stage : DEFAULT_STAGE })
+    }
+
+    if (this.jobs.size === 0 && !this.included) {
+      this.report('error', this.top[0] ?? { line: 1, column: 1 }, 'The configuration has no visible jobs; GitLab needs at least one job whose name does not start with a dot')
+    }
+    for (const job of this.jobs.values()) {
+      this.checkStage(job)
+      this.checkScript(job)
+      this.checkRulesKeywords(job)
+      this.checkNeeds(job)
+      this.checkDependencies(job)
+      this.checkEnvironment(job)
+      const rules = job.settings.get('rules')
+      if (rules) this.checkRules(rules.pair.value, `job '${job.name}'`, `Job '${job.name}' never runs: none of its rules can add it to a pipeline`)
+    }
+    const workflow = this.top.find(pair => pair.key === 'workflow')
+    const workflowRules = workflow && resolveAlias(workflow.value).kind === 'mapping'
+      ? mappingPairs(resolveAlias(workflow.value) as YamlMappingNode).find(pair => pair.key === 'rules')
+      : undefined
+    if (workflowRules) this.checkRules(workflowRules.value, 'workflow', 'No pipeline is ever created: none of the workflow rules can match')
+    this.checkNeedsCycles()
+    this.checkResourceGroups()
+    this.checkReferences()
+    return this.problems
+  }
+
+  // ── Templates ──
+
+  private checkExtends(): void {
+    for (const [name, pair] of this.definitions) {
+      const extendsPair = mappingPairs(resolveAlias(pair.value) as YamlMappingNode).find(setting => setting.key === 'extends')
+      if (!extendsPair) continue
+      for (const target of names(extendsPair.value)) {
+        if (!this.definitions.has(target)) {
+          this.unknown(extendsPair.value, `'${name}' extends '${target}', which is not defined`)
+          continue
+        }
+        const cycle = this.extendsPath(target, name, [name, target])
+        if (cycle) this.report('error', extendsPair.value, `'${name}' extends itself: ${cycle.join(' → ')}`)
+      }
+    }
+  }
+
+  /** Chain of `extends:` from `from` back to `to`, if there is one */
+  private extendsPath(from: string, to: string, path: string[]): string[] | undefined {
+    if (from === to) return path
+    const pair = this.definitions.get(from)
+    const extendsPair = pair && mappingPairs(resolveAlias(pair.value) as YamlMappingNode).find(setting => setting.key === 'extends')
+    if (!extendsPair || path.length > this.definitions.size + 1) return undefined
+    for (const target of names(extendsPair.value)) {
+      const found = this.extendsPath(target, to, [...path, target])
+      if (found) return found
+    }
+    return undefined
+  }
+
+  /**
+   * Settings of a job with those of the templates it extends: later
+   * templates and then the job itself override earlier ones, and mappings
+   * such as `variables` and `environment` are merged key by key
+   */
+  private resolve(name: string): Map<string, JobSetting> {
+    const cached = this.settings.get(name)
+    if (cached) return cached
+    const settings = new Map<string, JobSetting>()
+    const pair = this.definitions.get(name)
+    if (!pair || this.resolving.has(name)) return settings
+    this.resolving.add(name)
+
+    const own = mappingPairs(resolveAlias(pair.value) as YamlMappingNode)
+    const extendsPair = own.find(setting => setting.key === 'extends')
+    for (const target of extendsPair ? names(extendsPair.value) : []) {
+      for (const [key, inherited] of this.resolve(target)) settings.set(key, { ...inherited, own: false })
+    }
+    for (const setting of own) {
+      const value = toValue(setting.value)
+      const inherited = settings.get(setting.key)?.value
+      settings.set(setting.key, { pair: setting, value: deepMerge(inherited, value), own: true })
+    }
+
+    this.resolving.delete(name)
+    this.settings.set(name, settings)
+    return settings
+  }
+
+  // ── Jobs ──
+
+  private checkStage(job: Job): void {
+    if (this.stages.includes(job.stage) || job.stage.includes('$')) return
+    const setting = job.settings.get('stage')
+    this.report('error', setting?.own ? setting.pair.value : job.pair, `Job '${job.name}' uses stage '${job.stage}', which is not in stages`)
+  }
+
+  private checkRulesKeywords(job: Job): void {
+    const rules = job.settings.get('rules')
+    if (!rules) return
+    for (const key of ['only', 'except']) {
+      const setting = job.settings.get(key)
+      if (setting) this.report('error', setting.pair, `Job '${job.name}' cannot use '${key}' together with 'rules'`)
+    }
+  }
+
+  private checkScript(job: Job): void {
+    if (['script', 'trigger', 'run'].some(key => job.settings.has(key)) || this.templateJobs.has(job.name)) return
+    // A job of an included file may be overridden here with a few keys
+    this.report(this.included ? 'warning' : 'error', job.pair,
+      `Job '${job.name}' has neither a script nor a trigger${this.included ? ', unless an included file defines it' : ''}`)
+  }
+
+  private checkNeeds(job: Job): void {
+    const needs = job.settings.get('needs')
+    if (!needs) return
+    const value = resolveAlias(needs.pair.value)
+    if (value.kind !== 'sequence') return
+    value.items.forEach(item => {
+      const need = toValue(item)
+      const target = typeof need === 'string' ? need : isRecord(need) && typeof need.job === 'string' ? need.job : undefined
+      // Jobs of other pipelines and optional needs are not checked
+      if (target === undefined || (isRecord(need) && (need.project !== undefined || need.pipeline !== undefined || need.optional === true))) return
+      const needed = this.jobs.get(target)
+      if (!needed) {
+        this.unknown(item, `Job '${job.name}' needs '${target}', which is not a job of this pipeline`)
+      } else if (this.stageIndex(needed.stage) > this.stageIndex(job.stage)) {
+        this.report('error', item, `Job '${job.name}' needs '${target}', which runs in the later stage '${needed.stage}'`)
+      }
+    })
+  }
+
+  private checkDependencies(job: Job): void {
+    const dependencies = job.settings.get('dependencies')
+    if (!dependencies) return
+    const value = resolveAlias(dependencies.pair.value)
+    if (value.kind !== 'sequence') return
+    const needs = job.settings.get('needs')?.value
+    const needed = new Set(Array.isArray(needs) ? needs.map(need => (isRecord(need) ? need.job : need)) : [])
+    for (const item of value.items) {
+      const target = toValue(item)
+      if (typeof target !== 'string') continue
+      const dependency = this.jobs.get(target)
+      if (!dependency) {
+        this.unknown(item, `Job '${job.name}' depends on '${target}', which is not a job of this pipeline`)
+      } else if (this.stageIndex(dependency.stage) >= this.stageIndex(job.stage) && !needed.has(target)) {
+        this.report('error', item, `Job '${job.name}' depends on artifacts of '${target}', which does not run in an earlier stage`)
+      }
+    }
+  }
+
+  private checkEnvironment(job: Job): void {
+    const environment = environmentOf(job)
+    if (!environment) return
+    const setting = job.settings.get('environment') as JobSetting
+    const at = setting.own ? setting.pair.value : job.pair
+
+    if (environment.onStop !== undefined) {
+      const stopper = this.jobs.get(environment.onStop)
+      if (!stopper) {
+        this.unknown(at, `Environment '${environment.name}' of job '${job.name}' is stopped by '${environment.onStop}', which is not a job of this pipeline`)
+      } else {
+        const stops = environmentOf(stopper)
+        if (stops?.name !== environment.name || stops.action !== 'stop') {
+          this.report('warning', stopper.pair, `Job '${stopper.name}' stops environment '${environment.name}' for '${job.name}' but does not have 'environment: { name: ${environment.name}, action: stop }'`)
+        }
+      }
+    }
+    if (environment.action === 'stop' && ![...this.jobs.values()].some(other => {
+      const started = environmentOf(other)
+      return started !== undefined && started.name === environment.name && started.action !== 'stop'
+    })) {
+      this.report('warning', at, `Job '${job.name}' stops environment '${environment.name}', which no job deploys to`)
+    }
+  }
+
+  private checkNeedsCycles(): void {
+    const state = new Map<string, 'visiting' | 'done'>()
+    const visit = (name: string, path: string[]): void => {
+      state.set(name, 'visiting')
+      const needs = this.jobs.get(name)?.settings.get('needs')?.value
+      for (const need of Array.isArray(needs) ? needs : []) {
+        const target = isRecord(need) ? need.job : need
+        if (typeof target !== 'string' || !this.jobs.has(target) || (isRecord(need) && (need.project !== undefined || need.pipeline !== undefined))) continue
+        if (state.get(target) === 'visiting') {
+          const cycle = [...path.slice(path.indexOf(target)), target]
+          this.report('error', (this.jobs.get(target) as Job).pair, `Jobs need each other in a cycle: ${cycle.join(' → ')}`)
+        } else if (!state.has(target)) {
+          visit(target, [...path, target])
+        }
+      }
+      state.set(name, 'done')
+    }
+    for (const name of this.jobs.keys()) if (!state.has(name)) visit(name, [name])
+  }
+
+  /**
+   * Deployments to one environment only wait for each other when they
+   * share a resource group
+   */
+  private checkResourceGroups(): void {
+    const deployments = new Map<string, Job[]>()
+    for (const job of this.jobs.values()) {
+      const environment = environmentOf(job)
+      if (!environment || (environment.action !== undefined && environment.action !== 'start')) continue
+      deployments.set(environment.name, [...(deployments.get(environment.name) ?? []), job])
+    }
+    for (const [environment, jobs] of deployments) {
+      const groups = new Set(jobs.map(job => job.settings.get('resource_group')?.value))
+      if (jobs.length < 2 || groups.size < 2) continue
+      const [first, ...others] = jobs
+      for (const job of others) {
+        if (job.settings.get('resource_group')?.value === first.settings.get('resource_group')?.value) continue
+        this.report('warning', job.settings.get('resource_group')?.pair.value ?? job.pair,
+          `Jobs '${first.name}' and '${job.name}' deploy to environment '${environment}' in different resource groups, so they can deploy at the same time`)
+      }
+    }
+  }
+
+  /** `!reference [job, key]` tags must name a job, template or global section */
+  private checkReferences(): void {
+    const keys = new Set(this.top.map(pair => pair.key))
+    const visit = (node: YamlNode): void => {
+      if (node.kind === 'sequence') {
+        const target = node.items[0]
+        if (node.tag === '!reference' && target?.kind === 'scalar' && !keys.has(String(target.value))) {
+          this.unknown(node, `!reference to '${target.value}', which is not defined`)
+        }
+        node.items.forEach(visit)
+      } else if (node.kind === 'mapping') {
+        node.pairs.forEach(pair => visit(pair.value))
+      }
+    }
+    this.top.forEach(pair => visit(pair.value))
+  }
+
+  // ── Rules ──
+
+  /**
+   * Rules are tried in order and the first that matches decides, so a rule
+   * after one without conditions is never reached; a rule whose `if:` can
+   * never be true never matches
+   */
+  private checkRules(rulesNode: YamlNode, owner: string, neverMessage: string): void {
+    const rules = resolveAlias(rulesNode)
+    if (rules.kind !== 'sequence' || rules.items.length === 0) return
+    let adds = false
+    for (const [index, item] of rules.items.entries()) {
+      const rule = toValue(item)
+      if (!isRecord(rule)) {
+        adds = true
+        continue
+      }
+      const unconditional = rule.if === undefined && rule.changes === undefined && rule.exists === undefined
+      const contradiction = typeof rule.if === 'string' ? contradictionOf(rule.if) : undefined
+      if (contradiction) {
+        const condition = resolveAlias(item).kind === 'mapping'
+          ? mappingPairs(resolveAlias(item) as YamlMappingNode).find(pair => pair.key === 'if')?.value
+          : undefined
+        this.report('warning', condition ?? item, `Rule ${index + 1} of ${owner} can never match: ${contradiction}`)
+      } else if (rule.when !== 'never') {
+        adds = true
+      }
+      if (unconditional) {
+        const next = rules.items[index + 1]
+        if (next) this.report('warning', next, `Rule ${index + 2} of ${owner} can never match: rule ${index + 1} has no conditions, so it always matches first`)
+        break
+      }
+    }
+    if (!adds) this.report('warning', rules, neverMessage)
+  }
+
+  // ── Helpers ──
+
+  private stageIndex(stage: string): number {
+    const index = this.stages.indexOf(stage)
+    return index === -1 ? this.stages.length : index
+  }
+
+  /** A reference this file cannot resolve, which an included file may */
+  private unknown(at: YamlPosition, message: string): void {
+    this.report(this.included ? 'warning' : 'error', at, this.included ? `${message}, unless an included file defines it` : message)
+  }
+
+  private report(severity: LintProblem['severity'], at: YamlPosition, message: string): void {
+    this.problems.push({ severity, message, line: at.line, column: at.column })
+  }
+}
+
+/**
+ * Why an `if:` expression can never be true, or undefined when it can be
+ * or cannot be analysed. Only comparisons of variables with literals are
+ * understood; anything else is assumed to be satisfiable.
+ */
+export function contradictionOf(expression: string): string | undefined {
+  const alternatives = parseCondition(expression)
+  if (!alternatives || alternatives.length === 0) return undefined
+  const reasons = alternatives.map(conflict)
+  return reasons.every(reason => reason !== undefined) ? reasons[0] : undefined
+}
+
+/** An `if:` expression as alternatives of conditions that must all hold */
+function parseCondition(expression: string): Condition[][] | undefined {
+  const tokens = expression.match(/\$\{?\w+\}?|"(?:[^"\\]|\\.)*"|'[^']*'|\/(?:\[(?:[^\]\\]|\\.)*\]|[^/\\[]|\\.)*\/[a-z]*|&&|\|\||==|!=|=~|!~|[()]|null|\S+/g) ?? []
+  let index = 0
+
+  const or = (): Condition[][] | undefined => {
+    let alternatives = and()
+    while (alternatives && tokens[index] === '||') {
+      index++
+      const next = and()
+      alternatives = next ? [...alternatives, ...next] : undefined
+    }
+    return alternatives
+  }
+  const and = (): Condition[][] | undefined => {
+    let alternatives = primary()
+    while (alternatives && tokens[index] === '&&') {
+      index++
+      const next = primary()
+      if (!next || alternatives.length * next.length > MAX_ALTERNATIVES) return undefined
+      const left: Condition[][] = alternatives
+      alternatives = left.flatMap(conditions => next.map(more => [...conditions, ...more]))
+    }
+    return alternatives
+  }
+  const primary = (): Condition[][] | undefined => {
+    if (tokens[index] === '(') {
+      index++
+      const inner = or()
+      if (tokens[index++] !== ')') return undefined
+      return inner
+    }
+    const left = operand(tokens[index++])
+    const op = tokens[index]
+    if (op !== '==' && op !== '!=' && op !== '=~' && op !== '!~') {
+      return left?.variable !== undefined ? [[{ variable: left.variable, op: 'set' }]] : undefined
+    }
+    index++
+    const right = operand(tokens[index++])
+    if (!left || !right) return undefined
+    // Regular expressions and comparisons of two variables are not analysed
+    if (op === '=~' || op === '!~' || (left.variable !== undefined) === (right.variable !== undefined)) return [[]]
+    const variable = (left.variable ?? right.variable) as string
+    const value = left.variable !== undefined ? right.literal : left.literal
+    return [[{ variable, op: op === '==' ? 'eq' : 'ne', value }]]
+  }
+
+  const alternatives = or()
+  return index === tokens.length ? alternatives : undefined
+}
+
+function operand(token: string | undefined): { variable?: string; literal?: string | null } | undefined {
+  if (token === undefined) return undefined
+  if (token.startsWith('$')) return { variable: token.replace(/^\$\{?|\}$/g, '') }
+  if (token === 'null') return { literal: null }
+  if (/^["']/.test(token)) return { literal: token.slice(1, -1) }
+  if (token.startsWith('/')) return { literal: token }
+  return undefined
+}
+
+/** Why a set of conditions cannot all hold, if they cannot */
+function conflict(conditions: Condition[]): string | undefined {
+  const byVariable = new Map<string, Condition[]>()
+  for (const condition of conditions) byVariable.set(condition.variable, [...(byVariable.get(condition.variable) ?? []), condition])
+
+  for (const [variable, tests] of byVariable) {
+    const equal = [...new Set(tests.filter(test => test.op === 'eq').map(test => test.value))]
+    if (equal.length > 1) return `$${variable} cannot be both ${equal.map(describeLiteral).join(' and ')}`
+    const [value] = equal
+    if (equal.length === 1 && tests.some(test => test.op === 'ne' && test.value === value)) {
+      return `$${variable} cannot both be and not be ${describeLiteral(value)}`
+    }
+    if (tests.some(test => test.op === 'set') && (value === null || value === '')) {
+      return `$${variable} cannot be both set and ${describeLiteral(value)}`
+    }
+  }
+
+  const source = byVariable.get('CI_PIPELINE_SOURCE')?.find(test => test.op === 'eq')?.value
+  if (typeof source === 'string' && !PIPELINE_SOURCES.has(source)) return `$CI_PIPELINE_SOURCE is never "${source}"`
+  const set = (variable: string) => (byVariable.get(variable) ?? []).some(test =>
+    test.op === 'set' || (test.op === 'eq' && test.value !== null && test.value !== '') || (test.op === 'ne' && test.value === null))
+  const mergeRequest = [...byVariable.keys()].find(variable => variable.startsWith('CI_MERGE_REQUEST_') && set(variable))
+  if (set('CI_COMMIT_TAG') && set('CI_COMMIT_BRANCH')) return 'tag pipelines have no $CI_COMMIT_BRANCH'
+  if (mergeRequest && set('CI_COMMIT_BRANCH')) return `merge request pipelines have $${mergeRequest} but no $CI_COMMIT_BRANCH`
+  if (mergeRequest && set('CI_COMMIT_TAG')) return `merge request pipelines have $${mergeRequest} but no $CI_COMMIT_TAG`
+  if (source === 'merge_request_event' && set('CI_COMMIT_BRANCH')) return 'merge request pipelines have no $CI_COMMIT_BRANCH'
+  if (source === 'merge_request_event' && set('CI_COMMIT_TAG')) return 'merge request pipelines have no $CI_COMMIT_TAG'
+  if (mergeRequest && typeof source === 'string' && source !== 'merge_request_event') return `only merge request pipelines have $${mergeRequest}`
+  return undefined
+}
+
+function describeLiteral(value: string | null | undefined): string {
+  return value === null || value === undefined ? 'null' : `"${value}"`
+}
+
+/** Environment of a job as `environment:` names it, in either form */
+function environmentOf(job: Job): { name: string; action?: string; onStop?: string } | undefined {
+  const value = job.settings.get('environment')?.value
+  if (typeof value === 'string') return { name: value }
+  if (!isRecord(value) || typeof value.name !== 'string') return undefined
+  return {
+    name: value.name,
+    action: typeof value.action === 'string' ? value.action : undefined,
+    onStop: typeof value.on_stop === 'string' ? value.on_stop : undefined
+  }
+}
+
+/** Names in a string-or-list setting such as `extends:` */
+function names(node: YamlNode): string[] {
+  const value = toValue(node)
+  return (Array.isArray(value) ? value : [value]).filter((name): name is string => typeof name === 'string')
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isRecord(base) || !isRecord(override)) return override
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(override)) merged[key] = deepMerge(base[key], value)
+  return merged
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
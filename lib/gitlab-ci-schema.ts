@@ -0,0 +1,316 @@
+/**
+ * GitLab CI Schema
+ *
+ * Validates `.gitlab-ci.yml` files offline against the JSON schema GitLab
+ * publishes for CI configuration (gitlab-ci-schema.data.json, GitLab's
+ * `ci.json`). The YAML is read with source positions, so each problem is
+ * reported at the line and column of the key or value at fault. Only the
+ * draft-07 keywords the schema uses are implemented; `format` is treated as
+ * an annotation, as GitLab's editor integration does.
+ */
+
+import schemaDocument from './gitlab-ci-schema.data.json'
+import { mappingPairs, parseYaml, resolveAlias, toValue, YamlNode, YamlPosition } from './yaml-parser'
+
+export interface CiConfigProblem {
+  message: string
+  line: number
+  column: number
+}
+
+interface JsonSchema {
+  $ref?: string
+  type?: string | string[]
+  enum?: unknown[]
+  const?: unknown
+  properties?: Record<string, SchemaNode>
+  patternProperties?: Record<string, SchemaNode>
+  additionalProperties?: SchemaNode
+  required?: string[]
+  dependencies?: Record<string, string[] | SchemaNode>
+  minProperties?: number
+  maxProperties?: number
+  items?: SchemaNode | SchemaNode[]
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  allOf?: SchemaNode[]
+  anyOf?: SchemaNode[]
+  oneOf?: SchemaNode[]
+  not?: SchemaNode
+  if?: SchemaNode
+  then?: SchemaNode
+  else?: SchemaNode
+}
+
+type SchemaNode = JsonSchema | boolean
+
+type PathSegment = string | number
+
+interface SchemaIssue extends YamlPosition {
+  path: PathSegment[]
+  keyword: string
+  message: string
+  /** JSON types the value should have had, for `type` issues */
+  expected?: string[]
+}
+
+const ROOT_SCHEMA = schemaDocument as unknown as JsonSchema
+
+const TYPE_NAMES: Record<string, string> = {
+  object: 'a mapping',
+  array: 'a list',
+  string: 'a string',
+  integer: 'an integer',
+  number: 'a number',
+  boolean: 'true or false',
+  null: 'empty'
+}
+
+// Keywords of a branch that rejected the value outright, rather than a part of it
+const SHAPE_KEYWORDS = new Set(['type', 'enum', 'const'])
+
+const patterns = new Map<string, RegExp>()
+
+/**
+ * Problems with a CI configuration: YAML syntax errors, or when the YAML
+ * reads, places where it does not match the schema. Each document of the
+ * file is checked, so a component's `spec:` header is checked too.
+ */
+export function validateCiConfig(yaml: string): CiConfigProblem[] {
+  const { documents, errors } = parseYaml(yaml)
+  // Schema problems of a misread file would only repeat the syntax error
+  if (errors.length > 0) return errors
+  if (documents.length === 0) return [{ message: 'The configuration is empty', line: 1, column: 1 }]
+
+  return documents
+    .flatMap(document => validate(document, ROOT_SCHEMA, []))
+    .map(issue => ({ message: `${describePath(issue.path)} ${issue.message}`, line: issue.line, column: issue.column }))
+    .sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+export function formatProblem(problem: CiConfigProblem): string {
+  return `Line ${problem.line}, column ${problem.column}: ${problem.message}`
+}
+
+function validate(node: YamlNode, schema: SchemaNode, path: PathSegment[]): SchemaIssue[] {
+  if (schema === true) return []
+  if (schema === false) return [issue(node, path, 'not', 'is not allowed here')]
+  node = resolveAlias(node)
+  // In draft-07 a $ref replaces the rest of its schema
+  if (schema.$ref) return validate(node, resolveRef(schema.$ref), path)
+
+  const type = jsonType(node)
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(expected => expected === type || (expected === 'number' && type === 'integer'))) {
+      return [{ ...issue(node, path, 'type', `should be ${describeTypes(types)}`), expected: types }]
+    }
+  }
+
+  const issues: SchemaIssue[] = []
+  if (schema.enum && !schema.enum.some(allowed => sameValue(allowed, toValue(node)))) {
+    issues.push(issue(node, path, 'enum', `should be one of ${schema.enum.map(describeValue).join(', ')}`))
+  }
+  if ('const' in schema && !sameValue(schema.const, toValue(node))) {
+    issues.push(issue(node, path, 'const', `should be ${describeValue(schema.const)}`))
+  }
+
+  if (node.kind === 'scalar' && typeof node.value === 'string') {
+    const text = node.value
+    if (schema.minLength !== undefined && text.length < schema.minLength) {
+      issues.push(issue(node, path, 'minLength', schema.minLength === 1 ? 'should not be empty' : `should be at least ${schema.minLength} characters long`))
+    }
+    if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+      issues.push(issue(node, path, 'maxLength', `should be at most ${schema.maxLength} characters long`))
+    }
+    if (schema.pattern !== undefined && !pattern(schema.pattern).test(text)) {
+      issues.push(issue(node, path, 'pattern', `should match ${schema.pattern}`))
+    }
+  }
+
+  if (node.kind === 'scalar' && typeof node.value === 'number') {
+    if (schema.minimum !== undefined && node.value < schema.minimum) issues.push(issue(node, path, 'minimum', `should be at least ${schema.minimum}`))
+    if (schema.maximum !== undefined && node.value > schema.maximum) issues.push(issue(node, path, 'maximum', `should be at most ${schema.maximum}`))
+  }
+
+  if (node.kind === 'sequence') issues.push(...validateItems(node.items, node, schema, path))
+  if (node.kind === 'mapping') issues.push(...validateEntries(node, schema, path))
+
+  for (const part of schema.allOf ?? []) issues.push(...validate(node, part, path))
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(branch => validate(node, branch, path))
+    if (!branches.some(branch => branch.length === 0)) issues.push(...closestBranch(node, branches, path))
+  }
+  if (schema.oneOf) {
+    const branches = schema.oneOf.map(branch => validate(node, branch, path))
+    const matches = branches.filter(branch => branch.length === 0).length
+    if (matches === 0) issues.push(...closestBranch(node, branches, path))
+    if (matches > 1) issues.push(issue(node, path, 'oneOf', 'matches more than one of its allowed forms'))
+  }
+  if (schema.not !== undefined && validate(node, schema.not, path).length === 0) {
+    issues.push(issue(node, path, 'not', 'is not allowed here'))
+  }
+  if (schema.if !== undefined) {
+    const branch = validate(node, schema.if, path).length === 0 ? schema.then : schema.else
+    if (branch !== undefined) issues.push(...validate(node, branch, path))
+  }
+  return issues
+}
+
+function validateItems(items: YamlNode[], node: YamlNode, schema: JsonSchema, path: PathSegment[]): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  if (schema.minItems !== undefined && items.length < schema.minItems) {
+    issues.push(issue(node, path, 'minItems', schema.minItems === 1 ? 'should not be an empty list' : `should have at least ${schema.minItems} items`))
+  }
+  if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+    issues.push(issue(node, path, 'maxItems', `should have at most ${schema.maxItems} items`))
+  }
+  if (schema.uniqueItems) {
+    const seen: unknown[] = []
+    items.forEach((item, index) => {
+      const value = toValue(item)
+      if (seen.some(other => sameValue(other, value))) issues.push(issue(item, [...path, index], 'uniqueItems', `repeats ${describeValue(value)}`))
+      seen.push(value)
+    })
+  }
+  if (schema.items !== undefined) {
+    const itemSchemas = schema.items
+    items.forEach((item, index) => {
+      const itemSchema = Array.isArray(itemSchemas) ? itemSchemas[index] : itemSchemas
+      if (itemSchema !== undefined) issues.push(...validate(item, itemSchema, [...path, index]))
+    })
+  }
+  return issues
+}
+
+function validateEntries(node: YamlNode & { kind: 'mapping' }, schema: JsonSchema, path: PathSegment[]): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  const pairs = mappingPairs(node)
+  const keys = new Set(pairs.map(pair => pair.key))
+
+  for (const key of schema.required ?? []) {
+    if (!keys.has(key)) issues.push(issue(node, path, 'required', `is missing the required key '${key}'`))
+  }
+  if (schema.minProperties !== undefined && pairs.length < schema.minProperties) {
+    issues.push(issue(node, path, 'minProperties', `should have at least ${schema.minProperties} keys`))
+  }
+  if (schema.maxProperties !== undefined && pairs.length > schema.maxProperties) {
+    issues.push(issue(node, path, 'maxProperties', `should have at most ${schema.maxProperties} keys`))
+  }
+  for (const [key, dependency] of Object.entries(schema.dependencies ?? {})) {
+    if (!keys.has(key)) continue
+    if (Array.isArray(dependency)) {
+      for (const needed of dependency) {
+        if (!keys.has(needed)) issues.push(issue(node, path, 'dependencies', `needs '${needed}' when '${key}' is set`))
+      }
+    } else {
+      issues.push(...validate(node, dependency, path))
+    }
+  }
+
+  for (const pair of pairs) {
+    const childPath = [...path, pair.key]
+    let matched = false
+    const property = schema.properties?.[pair.key]
+    if (property !== undefined && Object.prototype.hasOwnProperty.call(schema.properties, pair.key)) {
+      matched = true
+      issues.push(...validate(pair.value, property, childPath))
+    }
+    for (const [source, patternSchema] of Object.entries(schema.patternProperties ?? {})) {
+      if (!pattern(source).test(pair.key)) continue
+      matched = true
+      issues.push(...validate(pair.value, patternSchema, childPath))
+    }
+    if (matched || schema.additionalProperties === undefined) continue
+    if (schema.additionalProperties === false) {
+      issues.push({ line: pair.line, column: pair.column, path, keyword: 'additionalProperties', message: `has an unknown key '${pair.key}'` })
+    } else {
+      issues.push(...validate(pair.value, schema.additionalProperties, childPath))
+    }
+  }
+  return issues
+}
+
+/**
+ * Issues of the alternative the value came closest to matching. When every
+ * alternative rejects the value's type they become one issue listing the
+ * types that would do.
+ */
+function closestBranch(node: YamlNode, branches: SchemaIssue[][], path: PathSegment[]): SchemaIssue[] {
+  const depth = path.length
+  const rejects = (branch: SchemaIssue[]) => branch.some(item => item.path.length === depth && SHAPE_KEYWORDS.has(item.keyword))
+  const candidates = branches.filter(branch => !rejects(branch))
+  if (candidates.length === 0) {
+    const expected = [...new Set(branches.flatMap(branch => branch.flatMap(item => item.expected ?? [])))]
+    if (expected.length > 0 && branches.every(branch => branch.every(item => item.expected))) {
+      return [{ ...issue(node, path, 'type', `should be ${describeTypes(expected)}`), expected }]
+    }
+    return branches[0]
+  }
+  // A failed `not` usually means another alternative was meant
+  const weight = (branch: SchemaIssue[]) => branch.reduce((sum, item) => sum + (item.keyword === 'not' ? 2 : 1), 0)
+  return candidates.reduce((best, branch) => (weight(branch) < weight(best) ? branch : best))
+}
+
+function resolveRef(ref: string): SchemaNode {
+  let target: unknown = ROOT_SCHEMA
+  for (const segment of ref.replace(/^#\/?/, '').split('/').filter(Boolean)) {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    target = (target as Record<string, unknown> | undefined)?.[key]
+  }
+  return (target as SchemaNode | undefined) ?? true
+}
+
+function pattern(source: string): RegExp {
+  let compiled = patterns.get(source)
+  if (!compiled) {
+    compiled = new RegExp(source, 'u')
+    patterns.set(source, compiled)
+  }
+  return compiled
+}
+
+function jsonType(node: YamlNode): string {
+  switch (node.kind) {
+    case 'mapping':
+      return 'object'
+    case 'sequence':
+      return 'array'
+    case 'alias':
+      return 'null'
+    case 'scalar':
+      if (node.value === null) return 'null'
+      if (typeof node.value === 'number') return Number.isInteger(node.value) ? 'integer' : 'number'
+      return typeof node.value
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function issue(at: YamlPosition, path: PathSegment[], keyword: string, message: string): SchemaIssue {
+  return { line: at.line, column: at.column, path, keyword, message }
+}
+
+/** `'build.rules[0].when'`, or the configuration itself */
+function describePath(path: PathSegment[]): string {
+  if (path.length === 0) return 'The configuration'
+  const text = path.map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`)).join('')
+  return `'${text}'`
+}
+
+function describeTypes(types: string[]): string {
+  const names = [...new Set(types.map(type => TYPE_NAMES[type] ?? type))]
+  return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
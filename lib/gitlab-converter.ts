@@ -0,0 +1,2264 @@
+/**
+ * GitLab CI Converter
+ *
+ * Deterministic conversion of a PipelineModel into a `.gitlab-ci.yml`.
+ * Jobs, stages, images and scripts all come from the Jenkins pipeline;
+ * every step that could not be converted is listed in the report with
+ * the Jenkinsfile lines it came from.
+ */
+
+import {
+  AgentSpec,
+  ComponentInclude,
+  ConversionFinding,
+  ConversionReport,
+  DirectiveMapping,
+  EnvironmentVariable,
+  JobSource,
+  PipelineDirective,
+  PipelineMatrix,
+  PipelineModel,
+  PipelineParameter,
+  PipelineStage,
+  PipelineStep,
+  PostCondition,
+  PostConditionName,
+  SourceSpan,
+  StageInput,
+  StageWhen,
+  StaticValue,
+  ToolRequirement
+} from '@/types'
+import { isGroovyCall, isGroovyExpression, staticString, stepInput } from './pipeline-model'
+import { AgentTranslation, translateAgent } from './agent-translator'
+import { DownstreamTrigger, JobMapping, renderJobMapping, translateBuildStep } from './downstream-translator'
+import { GitLabRule, translateWhen } from './rules-translator'
+import { translateTriggers } from './trigger-translator'
+import { YamlComment, YamlMapping, YamlValue, emitEntry, entryLines, extractTemplates, renderYamlDocument } from './yaml-document'
+import { GLOBAL_KEYWORDS } from './gitlab-ci-lint'
+
+export { YamlComment }
+
+export interface GitLabJob {
+  stage: string
+  /** Hidden templates whose settings the job takes on */
+  extends?: string | string[]
+  image?: string | GitLabImage
+  services?: Array<string | GitLabService>
+  tags?: string[]
+  variables?: Record<string, string>
+  /** One job per matrix combination; each axis value is set as a variable */
+  parallel?: { matrix: MatrixEntry[] }
+  needs?: Array<string | GitLabNeed>
+  /** Trigger jobs start a downstream pipeline instead of running a script */
+  trigger?: GitLabTrigger
+  before_script?: string[]
+  script?: string[]
+  after_script?: string[]
+  artifacts?: {
+    when?: 'always' | 'on_success' | 'on_failure'
+    paths?: string[]
+    exclude?: string[]
+    reports?: { junit?: string[] }
+    expire_in?: string
+  }
+  cache?: GitLabCache | GitLabCache[]
+  /** A commented stub when the Jenkins condition could not be translated */
+  rules?: GitLabRule[] | YamlComment
+  when?: JobWhen
+  /** False on manual jobs that block the pipeline until they are run */
+  allow_failure?: boolean
+  timeout?: string
+  retry?: number
+  interruptible?: boolean
+  resource_group?: string
+  environment?: { name: string }
+}
+
+/** Job a job waits for, and whether it downloads that job's artifacts */
+export interface GitLabNeed {
+  job: string
+  artifacts?: boolean
+  /** The job may be left out of the pipeline by its rules */
+  optional?: boolean
+}
+
+/** Directories kept between pipelines, shared by jobs with the same key files */
+export interface GitLabCache {
+  key: { files: string[] }
+  paths: string[]
+}
+
+/** Downstream pipeline of a trigger job: another project's, or a child pipeline from a file of this one */
+export interface GitLabTrigger {
+  project?: string
+  branch?: string
+  include?: string
+  /** Wait for the downstream pipeline and take on its status */
+  strategy?: 'depend'
+}
+
+export interface GitLabImage {
+  name: string
+  entrypoint?: string[]
+  pull_policy?: 'always' | 'if-not-present' | 'never'
+  docker?: { user?: string }
+}
+
+export interface GitLabService {
+  name: string
+  /** Hostname the job reaches the service at */
+  alias?: string
+}
+
+export type JobWhen = 'on_success' | 'on_failure' | 'always' | 'manual'
+
+/** Axis name to one value or a list of values */
+export type MatrixEntry = Record<string, string | string[]>
+
+/**
+ * Pipeline variable; the long form is prefilled in the Run pipeline form,
+ * with `options` offered as a drop-down
+ */
+export type GitLabVariable = string | { value: string; description?: string; options?: string[] }
+
+/** `include:` entry for a CI/CD catalog component */
+export interface GitLabComponentInclude {
+  component: string
+  inputs?: Record<string, string | number | boolean>
+}
+
+/** `include:` entry for a template GitLab ships */
+export interface GitLabTemplateInclude {
+  template: string
+}
+
+export interface GitLabPipeline {
+  include?: Array<GitLabComponentInclude | GitLabTemplateInclude>
+  stages: string[]
+  /** Pipeline sources to run for, when the Jenkins triggers limit them */
+  workflow?: { rules?: GitLabRule[]; auto_cancel?: { on_new_commit: 'interruptible' } }
+  /** Job settings from pipeline-level options */
+  default?: { timeout?: string; retry?: number; interruptible?: boolean }
+  variables: Record<string, GitLabVariable>
+  jobs: Record<string, GitLabJob>
+}
+
+export interface ConversionOptions {
+  /** GitLab targets of the Jenkins jobs that `build` steps start, from the job mapping file */
+  jobMapping?: JobMapping
+  /**
+   * `simple` translates the Jenkins pipeline and adds nothing to it, so the
+   * options below that change the pipeline are ignored; `advanced` also
+   * moves settings jobs share into hidden templates they extend
+   */
+  targetComplexity?: 'simple' | 'balanced' | 'advanced'
+  /** Cache dependency downloads and let newer pipelines cancel jobs that do not deploy */
+  optimizeForSpeed?: boolean
+  /** Start jobs that use nothing from earlier stages with the pipeline, through `needs: []` */
+  enableParallelization?: boolean
+  /** Include GitLab's SAST and secret detection templates */
+  includeSecurityScanning?: boolean
+  /** Describe the pipeline in README-CI.md */
+  generateDocumentation?: boolean
+}
+
+export interface GitLabConversion {
+  pipeline: GitLabPipeline
+  yaml: string
+  report: ConversionReport
+  /** Companion files by path, such as pipeline schedule definitions */
+  files: Record<string, string>
+  /** Jenkinsfile lines behind each job */
+  sourceMap: JobSource[]
+  /** Constructs that were dropped or approximated, by line */
+  findings: ConversionFinding[]
+}
+
+/** Jenkins built-in variables and their GitLab predefined equivalents */
+export const JENKINS_VARIABLES: Record<string, string> = {
+  BUILD_NUMBER: 'CI_PIPELINE_IID',
+  BUILD_ID: 'CI_PIPELINE_ID',
+  BUILD_URL: 'CI_PIPELINE_URL',
+  JOB_NAME: 'CI_PROJECT_PATH',
+  JOB_BASE_NAME: 'CI_PROJECT_NAME',
+  WORKSPACE: 'CI_PROJECT_DIR',
+  BRANCH_NAME: 'CI_COMMIT_REF_NAME',
+  GIT_BRANCH: 'CI_COMMIT_REF_NAME',
+  GIT_COMMIT: 'CI_COMMIT_SHA',
+  GIT_URL: 'CI_REPOSITORY_URL',
+  TAG_NAME: 'CI_COMMIT_TAG',
+  CHANGE_ID: 'CI_MERGE_REQUEST_IID',
+  CHANGE_BRANCH: 'CI_MERGE_REQUEST_SOURCE_BRANCH_NAME',
+  CHANGE_TARGET: 'CI_MERGE_REQUEST_TARGET_BRANCH_NAME',
+  CHANGE_AUTHOR: 'GITLAB_USER_LOGIN',
+  NODE_NAME: 'CI_RUNNER_DESCRIPTION',
+  JENKINS_URL: 'CI_SERVER_URL',
+  STAGE_NAME: 'CI_JOB_STAGE'
+}
+
+const DEFAULT_IMAGE = 'alpine:3.19'
+const DOCKER_IMAGE = 'docker:24.0'
+const DOCKER_SERVICE = 'docker:24.0-dind'
+
+const SCHEDULES_FILE = '.gitlab/pipeline-schedules.yml'
+const JOB_MAPPING_FILE = '.gitlab/jenkins-jobs.yml'
+const APPROVAL_RULES_FILE = '.gitlab/approval-rules.md'
+const DOCUMENTATION_FILE = 'README-CI.md'
+
+// GitLab templates added for security scanning, and the jobs they define in the test stage
+const SCANNING_TEMPLATES = ['Security/SAST.gitlab-ci.yml', 'Security/Secret-Detection.gitlab-ci.yml']
+const SCANNING_JOBS = ['sast', 'secret_detection']
+const SCANNING_STAGE = 'test'
+
+// Job names that deploy, whose approvals GitLab enforces through protected environments
+const DEPLOY_JOB = /\b(deploy\w*|release|promote|publish|prod|production)\b/
+
+/** Environment a deploy job targets, from the words in its name; production otherwise */
+const ENVIRONMENTS: Array<{ pattern: RegExp; name: string }> = [
+  { pattern: /\bprod(uction)?\b/, name: 'production' },
+  { pattern: /\bstag(e|ing)\b/, name: 'staging' },
+  { pattern: /\b(qa|uat|test|testing)\b/, name: 'testing' },
+  { pattern: /\bdev(elopment)?\b/, name: 'development' }
+]
+
+/**
+ * Toolchains recognised from the commands a job runs. The version comes from
+ * a matching `tools { }` entry when the Jenkinsfile declares one.
+ */
+const TOOLCHAINS: Array<{ command: RegExp; tools: string[]; image: (version?: string, jdk?: string) => string }> = [
+  { command: /\bmvnw?\b/, tools: ['maven'], image: (v, jdk) => `maven:${v ?? '3.9'}-eclipse-temurin-${jdk ?? '17'}` },
+  { command: /\bgradlew?\b/, tools: ['gradle'], image: (v, jdk) => `gradle:${v ?? '8.7'}-jdk${jdk ?? '17'}` },
+  { command: /\b(npm|npx|yarn|pnpm|node)\b/, tools: ['nodejs', 'node'], image: v => `node:${v ?? '20'}` },
+  { command: /\b(python3?|pip3?|pytest|poetry|tox)\b/, tools: ['python'], image: v => `python:${v ?? '3.12'}` },
+  { command: /\bgo (build|test|run|mod|vet|install)\b/, tools: ['go', 'golang'], image: v => `golang:${v ?? '1.22'}` },
+  { command: /\bdotnet\b/, tools: ['dotnet'], image: v => `mcr.microsoft.com/dotnet/sdk:${v ?? '8.0'}` },
+  { command: /\bkubectl\b/, tools: [], image: () => 'bitnami/kubectl:1.29' },
+  { command: /\bhelm\b/, tools: [], image: () => 'alpine/helm:3.14.0' },
+  { command: /\bterraform\b/, tools: ['terraform'], image: v => `hashicorp/terraform:${v ?? '1.7'}` },
+  { command: /\bjava\b/, tools: ['jdk'], image: v => `eclipse-temurin:${v ?? '17'}` },
+  { command: /\bcurl\b/, tools: [], image: () => 'curlimages/curl:8.7.1' }
+]
+
+// Steps GitLab already does for every job
+const IMPLICIT_STEPS: Record<string, string> = {
+  checkout: 'GitLab checks out the project repository for every job',
+  cleanWs: 'GitLab jobs start from a clean workspace',
+  deleteDir: 'GitLab jobs start from a clean workspace',
+  timestamps: 'GitLab job logs are always timestamped',
+  ansiColor: 'GitLab job logs render ANSI colors'
+}
+
+// Steps whose output GitLab uploads from the job itself rather than running in a script
+const ARTIFACT_STEPS = ['archiveArtifacts', 'junit', 'publishTestResults', 'stash']
+
+/**
+ * Directories build tools write to, which later Jenkins stages found in the
+ * shared workspace. `uses` tells that a job relies on the directory without
+ * naming it, e.g. `npm test` on the node_modules an earlier stage installed.
+ */
+const BUILD_OUTPUTS: Array<{ command: RegExp; directory: string; uses?: RegExp }> = [
+  { command: /\bmvnw? .*\b(package|install|verify)\b/, directory: 'target/' },
+  { command: /\bgradlew? .*\b(build|assemble|jar)\b/, directory: 'build/' },
+  { command: /\b(npm|pnpm) (ci|install)\b|\byarn( install)?\s*$/m, directory: 'node_modules/', uses: /\b(npm|pnpm|yarn) (test|run)\b|\bnpx\b/ },
+  { command: /\b(npm|pnpm|yarn) (run )?build\b/, directory: 'dist/' },
+  { command: /\bgo build\b.* -o bin\//, directory: 'bin/' }
+]
+
+/**
+ * Package manager downloads worth caching between pipelines. Each tool is
+ * pointed at a directory inside the project, as GitLab only caches paths
+ * there, and the cache is keyed on the files that pin the dependencies.
+ */
+const DEPENDENCY_CACHES: Array<{ command: RegExp; files: string[]; paths: string[]; variables: Record<string, string> }> = [
+  { command: /\b(npm|npx)\b/, files: ['package-lock.json'], paths: ['.npm/'], variables: { npm_config_cache: '$CI_PROJECT_DIR/.npm' } },
+  { command: /\byarn\b/, files: ['yarn.lock'], paths: ['.yarn-cache/'], variables: { YARN_CACHE_FOLDER: '$CI_PROJECT_DIR/.yarn-cache' } },
+  { command: /\bmvnw?\b/, files: ['pom.xml'], paths: ['.m2/repository/'], variables: { MAVEN_OPTS: '-Dmaven.repo.local=$CI_PROJECT_DIR/.m2/repository' } },
+  { command: /\bgradlew?\b/, files: ['build.gradle', 'build.gradle.kts'], paths: ['.gradle/caches/', '.gradle/wrapper/'], variables: { GRADLE_USER_HOME: '$CI_PROJECT_DIR/.gradle' } },
+  { command: /\b(pip3?|pytest|tox)\b/, files: ['requirements.txt'], paths: ['.cache/pip/'], variables: { PIP_CACHE_DIR: '$CI_PROJECT_DIR/.cache/pip' } },
+  { command: /\bgo (build|test|run|mod|vet|install)\b/, files: ['go.sum'], paths: ['.go/pkg/mod/'], variables: { GOMODCACHE: '$CI_PROJECT_DIR/.go/pkg/mod' } }
+]
+
+// Jenkins drops stashes when the build ends; GitLab keeps artifacts until they expire
+const STASH_EXPIRY = '1 day'
+
+/**
+ * How each Jenkins post condition runs in GitLab: as an after_script guarded
+ * by `$CI_JOB_STATUS`, as a follow-up job with `when:`, and for artifacts.
+ * Conditions without an entry cannot be expressed.
+ */
+const POST_CONDITIONS: Partial<Record<PostConditionName, { status?: string; when?: JobWhen; artifacts?: ArtifactWhen }>> = {
+  always: { when: 'always', artifacts: 'always' },
+  cleanup: { when: 'always', artifacts: 'always' },
+  success: { status: '= "success"', when: 'on_success', artifacts: 'on_success' },
+  failure: { status: '= "failed"', when: 'on_failure', artifacts: 'on_failure' },
+  unsuccessful: { status: '!= "success"', when: 'on_failure', artifacts: 'on_failure' },
+  aborted: { status: '= "canceled"' }
+}
+
+const UNSUPPORTED_POST: Partial<Record<PostConditionName, string>> = {
+  changed: 'GitLab jobs cannot see the result of the previous pipeline',
+  fixed: 'GitLab jobs cannot see the result of the previous pipeline',
+  regression: 'GitLab jobs cannot see the result of the previous pipeline',
+  unstable: 'GitLab has no unstable status; use allow_failure or test report thresholds',
+  notBuilt: 'GitLab has no not-built status',
+  aborted: 'GitLab does not start jobs after a pipeline is canceled'
+}
+
+// What to do by hand about each kind of construct the converter drops
+const MANUAL_ACTIONS: Record<string, string> = {
+  agent: 'Choose the image or runner tags of the job by hand',
+  environment: 'Compute the value in the job script, or set it as a CI/CD variable',
+  expression: 'Rewrite the Groovy expression as shell in the job script',
+  groovy: 'Rewrite the Groovy code as shell commands in the job script',
+  'control-flow': 'Rewrite the Groovy code as shell commands in the job script',
+  method: 'Inline the method as shell commands in the jobs that call it',
+  class: 'Move the class into a script the jobs run',
+  catch: 'Handle the failure with allow_failure or a job that runs on_failure',
+  library: 'Upload the shared library, or rewrite its steps as shell commands',
+  lock: 'Pass the resource name to the job as a variable',
+  matrix: 'Write the parallel:matrix entries by hand',
+  option: 'Set the equivalent job keyword or project setting by hand',
+  parallel: 'Flatten the nested stages into jobs that need each other',
+  parameter: 'Add the parameter as a pipeline variable by hand',
+  pipeline: 'Check that the Jenkinsfile declares its stages',
+  post: 'Run the steps in a job whose rules match the condition',
+  properties: 'Move the job properties to project settings or workflow rules',
+  stage: 'Add a job for the stage by hand',
+  step: 'Replace the step with shell commands or the matching GitLab feature',
+  'syntax-error': 'Fix the Jenkinsfile syntax and convert again',
+  trigger: 'Set up the pipeline schedule or trigger by hand',
+  when: 'Finish the commented rules suggestion of the job',
+  wrapper: 'Rewrite the wrapper as commands around the job script'
+}
+
+/**
+ * Convert a pipeline model into GitLab CI configuration
+ */
+export function convertToGitLab(model: PipelineModel | undefined, options: ConversionOptions = {}): GitLabConversion {
+  return new GitLabConverter(model, options).convert()
+}
+
+/**
+ * Rewrite Jenkins variable references (`$BUILD_NUMBER`, `${env.GIT_COMMIT}`)
+ * to their GitLab predefined equivalents
+ */
+export function translateVariables(text: string): string {
+  return text
+    .replace(/\$\{(?:env|params)\.(\w+)\}/g, '${$1}')
+    .replace(/\$(\{?)([A-Za-z_]\w*)/g, (match, open: string, name: string) => {
+      const mapped = JENKINS_VARIABLES[name]
+      return mapped ? `$${open}${mapped}` : match
+    })
+}
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'job'
+}
+
+type ArtifactWhen = 'on_success' | 'on_failure' | 'always'
+
+/** Work in progress for a single GitLab job */
+interface JobDraft {
+  name: string
+  stage: string
+  /** What the job came from, for messages, e.g. `Stage 'Build'` */
+  label: string
+  span: SourceSpan
+  agent?: AgentSpec
+  tools: ToolRequirement[]
+  variables: Record<string, string>
+  script: string[]
+  afterScript: string[]
+  /** Step each script and after_script line was converted from */
+  scriptSpans: Array<SourceSpan | null>
+  afterScriptSpans: Array<SourceSpan | null>
+  artifacts: string[]
+  artifactExcludes: string[]
+  /** Artifact paths that only pass stashed files on to later jobs */
+  stashPaths: Set<string>
+  /** Jobs whose stashes this job unstashes */
+  unstashes: Set<string>
+  junit: string[]
+  /** Job outcomes the artifacts are wanted for */
+  artifactWhen: Set<ArtifactWhen>
+  usesDocker: boolean
+  /** Groovy variables holding images built with `docker.build` */
+  images: Record<string, string>
+  /** Unconverted count before this job's steps, to tell empty stages from lossy ones */
+  unconvertedBefore: number
+  matrix?: MatrixEntry[]
+  rules?: GitLabRule[] | YamlComment
+  /** `when { }` blocks the rules came from */
+  ruleSpans: SourceSpan[]
+  needs?: Array<string | GitLabNeed>
+  when?: JobWhen
+  timeout?: string
+  retry?: number
+  interruptible?: boolean
+  /** Run one pipeline's copy of the job at a time per branch */
+  resourceGroup?: boolean
+  /** Lockable resource the job holds, which takes precedence over resourceGroup */
+  lock?: ResourceLock
+  expireIn?: string
+  /** The job checks out code itself, e.g. with `checkout scm` */
+  checksOut?: boolean
+  /** Pod container the steps run in, from `container('name') { }` */
+  container?: string
+  /** Directory of the steps being converted, from enclosing `dir('path') { }` steps */
+  cwd?: string
+  /** Jenkins input the job waits for, from the stage's `input { }` or an `input` step */
+  approval?: StageInput
+  /** Downstream builds, with the script length when they were started and the post condition they ran for */
+  triggers: Array<{ downstream: DownstreamTrigger; span: SourceSpan; scriptLength: number; when?: JobWhen }>
+}
+
+/** Resource group for a Jenkins `lock`, and the option or step it came from */
+interface ResourceLock {
+  group: string
+  resource: string
+  owner: PipelineDirective | PipelineStep
+}
+
+/** Job settings converted from an `options { }` block */
+interface OptionSettings {
+  timeout?: string
+  retry?: number
+  interruptible?: boolean
+  resourceGroup?: boolean
+  lock?: ResourceLock
+  expireIn?: string
+  /** Parallel jobs are interruptible, from `parallelsAlwaysFailFast()` */
+  failFast?: boolean
+  variables: Record<string, string>
+}
+
+class GitLabConverter {
+  private report: ConversionReport = {
+    stages: [],
+    jobs: [],
+    images: [],
+    convertedSteps: 0,
+    unconverted: [],
+    notes: [],
+    secrets: [],
+    options: []
+  }
+  private stages: string[] = []
+  private reservedStages = new Set<string>()
+  private jobs: Record<string, GitLabJob> = {}
+  private includes: NonNullable<GitLabPipeline['include']> = []
+  /** Names of jobs that included components define */
+  private reservedJobs = new Set<string>()
+  private variables: Record<string, GitLabVariable> = {}
+  private workflow?: GitLabPipeline['workflow']
+  private defaults: NonNullable<GitLabPipeline['default']> = {}
+  /** Settings from the options of each stage or matrix, converted once */
+  private agents = new Map<AgentSpec, AgentTranslation>()
+  private agentImages = new Set<string>()
+  private stageOptions = new Map<PipelineStage | PipelineMatrix, OptionSettings>()
+  private pipelineOptions: OptionSettings = { variables: {} }
+  private files: Record<string, string> = {}
+  /** Job and artifact paths of each stash, by stash name */
+  private stashes = new Map<string, { job: string; paths: string[] }>()
+  /** Manual jobs converted from Jenkins inputs, for the approval rules checklist */
+  private approvals: Array<{ job: string; label: string; input: StageInput; environment?: string }> = []
+  /** GitLab target of each Jenkins job that `build` steps start, for the job mapping file */
+  private downstreamTargets: JobMapping = {}
+  /** Jobs holding each Jenkins lock, to tell locks that span several jobs */
+  private lockedJobs = new Map<ResourceLock['owner'], { lock: ResourceLock; jobs: string[] }>()
+  private sources: JobSource[] = []
+  /** Constructs converted with a different behaviour */
+  private approximations: ConversionFinding[] = []
+
+  constructor(
+    private readonly model: PipelineModel | undefined,
+    private readonly options: ConversionOptions
+  ) {}
+
+  convert(): GitLabConversion {
+    const model = this.model
+    if (!model || model.stages.length === 0) {
+      this.skip('pipeline', 'No Jenkins stages were found to convert', { startLine: 1, endLine: 1 })
+    } else {
+      if (this.adds('includeSecurityScanning')) SCANNING_JOBS.forEach(job => this.reservedJobs.add(job))
+      this.convertPipelineSettings(model)
+      for (const stage of model.stages) this.convertStage(stage, [])
+      this.addPostJobs([], model.post, [])
+      this.checkWorkspaceReuse()
+      this.checkLocks()
+      this.writeApprovalRules()
+      this.writeJobMapping()
+    }
+
+    // GitLab rejects a configuration without jobs
+    if (Object.keys(this.jobs).length === 0 && this.includes.length === 0) {
+      this.stages.push('build')
+      this.jobs.build = {
+        stage: 'build',
+        image: DEFAULT_IMAGE,
+        script: ['echo "No Jenkins steps were converted; add the build commands here"']
+      }
+    }
+
+    for (const construct of model?.unmodeled ?? []) this.report.unconverted.push(construct)
+    this.applyConversionOptions()
+
+    const pipeline: GitLabPipeline = {
+      include: this.includes.length > 0 ? this.includes : undefined,
+      stages: this.stages,
+      workflow: this.workflow,
+      default: Object.keys(this.defaults).length > 0 ? this.defaults : undefined,
+      variables: this.variables,
+      jobs: this.jobs
+    }
+    this.report.stages = [...this.stages]
+    this.report.jobs = Object.keys(this.jobs).filter(name => !name.startsWith('.'))
+    this.report.images = Array.from(new Set(Object.values(this.jobs)
+      .map(job => (typeof job.image === 'object' ? job.image.name : job.image))
+      .filter((i): i is string => !!i)))
+    const findings = this.collectFindings()
+    if (this.options.generateDocumentation) this.writeDocumentation(pipeline, findings)
+    const yaml = renderGitLabYaml(pipeline, model, findings)
+    const lines = entryLines(yaml)
+    const sourceMap = this.sources.map(source => ({ ...source, yaml: lines[source.job] }))
+    return { pipeline, yaml, report: this.report, files: this.files, sourceMap, findings }
+  }
+
+  private skip(kind: string, description: string, span: SourceSpan): void {
+    this.report.unconverted.push({ kind, description, span })
+  }
+
+  private note(message: string): void {
+    if (!this.report.notes.includes(message)) this.report.notes.push(message)
+  }
+
+  /** A note about a construct whose GitLab version behaves differently */
+  private approximate(kind: string, span: SourceSpan, message: string, action: string): void {
+    this.note(message)
+    this.approximations.push({ kind, line: span.startLine, severity: 'warning', reason: message, action })
+  }
+
+  /**
+   * Dropped and approximated constructs in line order, each given to the job
+   * it was found in
+   */
+  private collectFindings(): ConversionFinding[] {
+    const dropped = this.report.unconverted.map((item): ConversionFinding => ({
+      kind: item.kind,
+      line: item.span.startLine,
+      severity: 'error',
+      reason: item.description,
+      action: MANUAL_ACTIONS[item.kind] ?? 'Migrate the construct by hand'
+    }))
+    return [...dropped, ...this.approximations]
+      .map(finding => ({ ...finding, job: this.jobAt(finding.line) }))
+      .sort((a, b) => a.line - b.line)
+  }
+
+  /**
+   * Job with a step or condition on the line, else the innermost job whose
+   * lines enclose it. A job whose lines hold other jobs, such as one for a
+   * `finally` block around stages, only claims the lines of its own steps.
+   */
+  private jobAt(line: number): string | undefined {
+    const encloses = (span: SourceSpan | null) => !!span && span.startLine <= line && line <= span.endLine
+    const size = (source: JobSource) => source.span.endLine - source.span.startLine
+    const innermost = (sources: JobSource[]) => sources.reduce<JobSource | undefined>((best, source) => (!best || size(source) < size(best) ? source : best), undefined)
+    const stepped = this.sources.filter(source => [...source.rules, ...source.script, ...source.afterScript].some(encloses))
+    if (stepped.length > 0) return innermost(stepped)?.job
+    const holdsOthers = (source: JobSource) => this.sources.some(other =>
+      other.span.startLine >= source.span.startLine && other.span.endLine <= source.span.endLine && size(other) < size(source))
+    return innermost(this.sources.filter(source => encloses(source.span) && !holdsOthers(source)))?.job
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Pipeline-level settings
+  // ──────────────────────────────────────────────────────────────────
+
+  private convertPipelineSettings(model: PipelineModel): void {
+    for (const parameter of model.parameters) this.convertParameter(parameter)
+    Object.assign(this.variables, this.convertEnvironment(model.environment))
+
+    this.convertPipelineOptions(model.options)
+    this.convertTriggers(model)
+    for (const library of model.libraries) {
+      if (library.resolved) this.note(`Steps of shared library '${library.name}' are inlined into the jobs that call them`)
+      else this.skip('library', `Shared library '${library.name}' is not resolved; its steps are not converted`, library.span)
+    }
+  }
+
+  /**
+   * Cron triggers become pipeline schedules, which live in project settings
+   * rather than in the YAML, so they are written to a companion file
+   */
+  private convertTriggers(model: PipelineModel): void {
+    if (model.triggers.length === 0) return
+    // Jenkins hashes H fields from the job name, which the Jenkinsfile does not hold
+    const translation = translateTriggers(model.triggers, model.stages.map(stage => stage.name).join('/'))
+    for (const item of translation.untranslated) this.skip('trigger', item.description, item.span)
+    for (const note of translation.notes) this.note(note)
+
+    if (translation.schedules.length > 0) {
+      this.files[SCHEDULES_FILE] = renderCompanionFile([
+        'Pipeline schedules converted from Jenkins cron triggers.',
+        'Create each one under Build > Pipeline schedules, or with',
+        'POST /projects/:id/pipeline_schedules and the settings below.'
+      ], { schedules: translation.schedules as unknown as YamlValue })
+      this.note(`Create the pipeline schedules listed in ${SCHEDULES_FILE}; they run on main, so change ref for other branches`)
+    }
+
+    for (const upstream of translation.upstream) {
+      const path = `.gitlab/upstream/${slugify(upstream.project)}.gitlab-ci.yml`
+      this.files[path] = renderCompanionFile([
+        `Add this job to the .gitlab-ci.yml of ${upstream.project} so that its pipelines`,
+        'start this one, replacing path/to/this-project with the path of this project.',
+        'On GitLab Premium, a pipeline subscription under Settings > CI/CD can be used',
+        'instead, but subscriptions only fire for tag pipelines.'
+      ], {
+        'trigger-downstream': {
+          stage: '.post',
+          trigger: { project: 'path/to/this-project' },
+          when: upstream.when === 'always' ? 'always' : undefined
+        }
+      })
+      this.note(`Jenkins upstream trigger on '${upstream.project}' needs the trigger job in ${path}`)
+    }
+
+    if (translation.sources.length > 0) {
+      const rules: GitLabRule[] = translation.sources.map(source => ({ if: `$CI_PIPELINE_SOURCE == "${source}"` }))
+      if (translation.sources.includes('merge_request_event')) {
+        // Avoid a branch pipeline next to the merge request pipeline for the same push
+        rules.unshift({ if: '$CI_PIPELINE_SOURCE == "push" && $CI_OPEN_MERGE_REQUESTS', when: 'never' })
+      }
+      this.workflow = { rules, auto_cancel: this.workflow?.auto_cancel }
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Options
+  // ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Pipeline options become `default:` job settings where GitLab has them,
+   * and are otherwise applied to every job like stage options
+   */
+  private convertPipelineOptions(options: PipelineDirective[]): void {
+    const settings = this.convertOptions(options, 'pipeline')
+    if (settings.timeout) {
+      this.defaults.timeout = settings.timeout
+      this.note('The Jenkins pipeline timeout now applies to each GitLab job; the whole-pipeline limit is the project timeout setting')
+    }
+    if (settings.retry !== undefined) this.defaults.retry = settings.retry
+    if (settings.interruptible) {
+      this.defaults.interruptible = true
+      this.workflow = { ...this.workflow, auto_cancel: { on_new_commit: 'interruptible' } }
+    }
+    Object.assign(this.variables, settings.variables)
+    this.pipelineOptions = {
+      variables: {},
+      resourceGroup: settings.resourceGroup,
+      lock: settings.lock,
+      expireIn: settings.expireIn,
+      failFast: settings.failFast
+    }
+  }
+
+  private optionsOf(owner: PipelineStage | PipelineMatrix, scope: string): OptionSettings {
+    let settings = this.stageOptions.get(owner)
+    if (!settings) {
+      settings = this.convertOptions(owner.options, scope)
+      this.stageOptions.set(owner, settings)
+    }
+    return settings
+  }
+
+  /**
+   * Convert `options { }` directives, recording each one in the report's mapping table
+   */
+  private convertOptions(options: PipelineDirective[], scope: string): OptionSettings {
+    const settings: OptionSettings = { variables: {} }
+    for (const option of options) {
+      const first = option.args[0]
+      const map = (gitlab: string, status: DirectiveMapping['status'] = 'converted') =>
+        this.report.options.push({ directive: option.name, scope, gitlab, status, span: option.span })
+      const unconverted = (reason: string) => {
+        map(reason, 'unconverted')
+        this.skip('option', `Option '${option.name}' on ${scope} has no GitLab equivalent: ${reason}`, option.span)
+      }
+
+      switch (option.name) {
+        case 'timeout': {
+          const timeout = jobTimeout(option.named.time ?? first, option.named.unit)
+          if (!timeout) break
+          settings.timeout = timeout
+          map(`timeout: ${timeout}`)
+          continue
+        }
+        case 'retry': {
+          const count = Number(option.named.count ?? first)
+          if (!Number.isFinite(count)) break
+          settings.retry = jobRetry(count)
+          if (count > 3) this.approximate('option', option.span, `retry(${count}) was capped at GitLab's maximum of 2 retries`, 'Check that three attempts are enough for the job')
+          map(`retry: ${settings.retry}`)
+          continue
+        }
+        case 'timestamps':
+        case 'ansiColor':
+          map(IMPLICIT_STEPS[option.name], 'built-in')
+          continue
+        case 'newContainerPerStage':
+          map('Every GitLab job runs in a fresh container', 'built-in')
+          continue
+        case 'durabilityHint':
+        case 'disableResume':
+          map('GitLab keeps pipeline state itself and does not resume interrupted jobs', 'built-in')
+          continue
+        case 'buildDiscarder': {
+          const rotator = isGroovyCall(first) ? first.named : option.named
+          const days = Number(staticString(rotator.artifactDaysToKeepStr) || staticString(rotator.daysToKeepStr))
+          if (days > 0) {
+            settings.expireIn = `${days} days`
+            map(`artifacts:expire_in: ${settings.expireIn}`)
+          }
+          if (staticString(rotator.numToKeepStr) || staticString(rotator.artifactNumToKeepStr)) {
+            unconverted('GitLab expires artifacts by age, not by count; review the project artifact and pipeline retention settings')
+          }
+          continue
+        }
+        case 'disableConcurrentBuilds':
+          if (isStaticTrue(option.named.abortPrevious)) {
+            settings.interruptible = true
+            map('interruptible: true, with workflow:auto_cancel:on_new_commit: interruptible')
+            this.approximate('option', option.span, 'disableConcurrentBuilds(abortPrevious: true): a pipeline for a newer commit cancels the running jobs of older ones on the branch, but GitLab still runs the pipelines side by side until then', 'Check that the jobs are safe to run side by side with those of an older pipeline')
+          } else {
+            settings.resourceGroup = true
+            map('resource_group: <job>-$CI_COMMIT_REF_SLUG')
+            this.approximate('option', option.span, 'disableConcurrentBuilds: resource groups run one pipeline at a time per job and branch, but two pipelines can still be in different jobs at once', 'Check that the jobs are safe to run side by side with other jobs of another pipeline')
+          }
+          continue
+        case 'lock': {
+          const lock = this.lockOf(first, option.named, option, option.span)
+          if (!lock) break
+          settings.lock = lock
+          map(`resource_group: ${lock.group}`)
+          continue
+        }
+        case 'skipDefaultCheckout':
+          if (first === false) {
+            map('Nothing to do', 'built-in')
+            continue
+          }
+          settings.variables.GIT_STRATEGY = 'none'
+          map('GIT_STRATEGY: none')
+          continue
+        case 'checkoutToSubdirectory': {
+          const directory = staticString(first)
+          if (!directory) break
+          settings.variables.GIT_CLONE_PATH = `$CI_BUILDS_DIR/$CI_CONCURRENT_ID/$CI_PROJECT_PATH/${directory.replace(/^\/+|\/+$/g, '')}`
+          map('GIT_CLONE_PATH under $CI_BUILDS_DIR')
+          this.note('GIT_CLONE_PATH needs custom_build_dir enabled on the runner, and jobs start inside the checkout rather than above it')
+          continue
+        }
+        case 'parallelsAlwaysFailFast':
+          settings.failFast = true
+          map('interruptible: true on the jobs of parallel stages')
+          continue
+        case 'quietPeriod':
+          unconverted('GitLab starts pipelines at once; auto-canceling redundant pipelines covers bursts of pushes')
+          continue
+      }
+      unconverted('no matching GitLab setting')
+    }
+    return settings
+  }
+
+  /**
+   * Parameters become pipeline variables rather than spec:inputs, so that
+   * `params.X` in scripts and rules reads the same `$X` whether the pipeline
+   * was started by hand, by a schedule or through the API
+   */
+  private convertParameter(parameter: PipelineParameter): void {
+    const variable = this.parameterVariable(parameter, `password parameter '${parameter.name}'`)
+    if (variable !== undefined) this.variables[parameter.name] = variable
+  }
+
+  /**
+   * Variable holding a parameter's default. Password parameters are listed
+   * as secrets instead, as a default would publish the secret in the repository.
+   */
+  private parameterVariable(parameter: PipelineParameter, secretSource: string): GitLabVariable | undefined {
+    const description = parameter.description || undefined
+    switch (parameter.type) {
+      case 'password':
+        this.report.secrets.push({ variable: parameter.name, source: secretSource, span: parameter.span })
+        return undefined
+      case 'booleanParam': {
+        const value = parameter.defaultValue === true || parameter.defaultValue === 'true' ? 'true' : 'false'
+        return { value, description, options: ['true', 'false'] }
+      }
+      case 'choice': {
+        const options = parameter.choices ?? []
+        if (options.length === 0) break
+        return { value: options[0], description, options }
+      }
+      case 'string':
+      case 'text': {
+        const value = scalarString(parameter.defaultValue) ?? ''
+        return description ? { value, description } : value
+      }
+    }
+    this.skip('parameter', `Parameter '${parameter.name}' of type ${parameter.type} is not converted`, parameter.span)
+    return undefined
+  }
+
+  private convertEnvironment(environment: EnvironmentVariable[]): Record<string, string> {
+    const variables: Record<string, string> = {}
+    for (const variable of environment) {
+      if (variable.credentialsId) {
+        this.note(`Create a masked CI/CD variable ${variable.name} for Jenkins credential '${variable.credentialsId}'`)
+        continue
+      }
+      const value = scalarString(variable.value)
+      if (value === undefined) {
+        this.skip('environment', `Environment variable ${variable.name} is computed by Groovy at runtime`, variable.span)
+        continue
+      }
+      variables[variable.name] = this.shell(value, variable.span)
+    }
+    return variables
+  }
+
+  /**
+   * Runner settings for an agent, converted once however many jobs use it
+   */
+  private agentOf(agent: AgentSpec): AgentTranslation {
+    let translation = this.agents.get(agent)
+    if (translation) return translation
+    translation = translateAgent(agent)
+    for (const item of translation.untranslated) this.skip('agent', item.description, item.span)
+    for (const note of translation.notes) this.note(note)
+    if (translation.dockerfile) {
+      const name = this.agentImageJob(translation.dockerfile, agent.span)
+      translation.image = typeof translation.image === 'object' ? { ...translation.image, name } : name
+    }
+    this.agents.set(agent, translation)
+    return translation
+  }
+
+  /**
+   * Without a defaultContainer, Jenkins runs steps outside `container()` in
+   * the agent container, so the job takes the image its `container()` steps
+   * name and the other containers become services
+   */
+  private podContainerAgent(draft: JobDraft, agent: AgentTranslation): AgentTranslation {
+    const image = draft.container ? agent.containers[draft.container] : undefined
+    if (!image || image === agent.image) return agent
+    if (draft.agent?.defaultContainer) {
+      this.approximate('agent', draft.span, `Steps of ${draft.label} in container '${draft.container}' run in the job image; '${draft.container}' is reachable as a service`, 'Check that the steps work in the job image')
+      return agent
+    }
+    const services = Object.entries(agent.containers)
+      .filter(([name]) => name !== draft.container)
+      .map(([name, other]) => ({ name: other, alias: name }))
+    return { ...agent, image, services }
+  }
+
+  /**
+   * Job in the `.pre` stage that builds and pushes the image of a dockerfile
+   * agent to the project registry. Returns the image name.
+   */
+  private agentImageJob(dockerfile: NonNullable<AgentTranslation['dockerfile']>, span: SourceSpan): string {
+    const suffix = dockerfile.file === 'Dockerfile' ? '' : `-${slugify(dockerfile.file.replace(/\/?Dockerfile$/, '') || dockerfile.file)}`
+    const image = `$CI_REGISTRY_IMAGE/jenkins-agent${suffix}:$CI_COMMIT_SHA`
+    if (this.agentImages.has(image)) return image
+    this.agentImages.add(image)
+
+    const buildArgs = dockerfile.buildArgs ? ` ${this.shell(dockerfile.buildArgs, span)}` : ''
+    const jobName = this.jobName([`build agent image${suffix}`])
+    this.jobs[jobName] = {
+      stage: '.pre',
+      image: DOCKER_IMAGE,
+      services: [DOCKER_SERVICE],
+      variables: { DOCKER_TLS_CERTDIR: '/certs' },
+      script: [
+        'echo "$CI_REGISTRY_PASSWORD" | docker login -u "$CI_REGISTRY_USER" --password-stdin "$CI_REGISTRY"',
+        `docker build -t "${image}" -f ${dockerfile.file}${buildArgs} ${dockerfile.context}`,
+        `docker push "${image}"`
+      ]
+    }
+    this.sources.push({ job: jobName, span, rules: [], script: [null, span, span], afterScript: [] })
+    this.note('Dockerfile agents are built into the project container registry, which must be enabled')
+    return image
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Stages and jobs
+  // ──────────────────────────────────────────────────────────────────
+
+  // Stage names are reserved up front and listed once a job lands in them
+  private addStage(name: string): string {
+    let stage = name
+    for (let i = 2; this.reservedStages.has(stage); i++) stage = `${name}-${i}`
+    this.reservedStages.add(stage)
+    return stage
+  }
+
+  private jobName(path: string[]): string {
+    return this.uniqueJobName(path.map(slugify).join(':'))
+  }
+
+  private uniqueJobName(base: string): string {
+    // A job named like a top-level keyword would be read as pipeline settings
+    if (GLOBAL_KEYWORDS.has(base)) base = `${base}-job`
+    let name = base
+    for (let i = 2; this.jobs[name] || this.reservedJobs.has(name); i++) name = `${base}-${i}`
+    return name
+  }
+
+  private convertStage(stage: PipelineStage, parents: PipelineStage[]): void {
+    const path = [...parents, stage]
+    const names = path.map(s => s.name)
+
+    // Jobs created for the children of a container stage, which its post blocks follow
+    const before = new Set(Object.keys(this.jobs))
+    const children = () => Object.keys(this.jobs).filter(name => !before.has(name))
+
+    if (stage.parallel.length > 0) {
+      const start = Math.min(...stage.parallel.map(branch => branch.span.startLine))
+      const first = this.addStepsJob(stage, stage.steps.filter(step => step.span.startLine < start), path, 'before')
+      const gitlabStages = [this.addStage(slugify(names.join(' ')))]
+      const failFast = stage.failFast ?? this.pipelineOptions.failFast ?? false
+      for (const branch of stage.parallel) this.convertBranch(branch, names, path, gitlabStages, failFast, first ? [first] : [])
+      // Jobs left out by their rules or run on failure only do not hold up the steps after the branches
+      const branches = children()
+        .filter(name => name !== first && runsOnSuccess(this.jobs[name]))
+        .map(name => (this.jobs[name].rules ? { job: name, optional: true } : name))
+      this.addStepsJob(stage, stage.steps.filter(step => step.span.startLine >= start), path, 'after', branches)
+      if (failFast) {
+        this.approximate('parallel', stage.span, `GitLab does not stop the other parallel jobs of stage '${stage.name}' when one fails; they are interruptible, so a newer pipeline cancels them. Set workflow:auto_cancel:on_job_failure: all to cancel the whole pipeline on the first failure`, 'Decide whether the pipeline should stop at the first failure')
+      }
+      this.addPostJobs(names, stage.post, path, children())
+      return
+    }
+
+    if (stage.matrix) {
+      if (stage.matrix.stages.length > 1) {
+        this.approximate('matrix', stage.matrix.span, `Matrix stages of '${stage.name}' run as successive GitLab stages, each across every combination`, 'Check that no combination relies on its own earlier stages only')
+      }
+      const start = stage.matrix.span.startLine
+      this.addStepsJob(stage, stage.steps.filter(step => step.span.startLine < start), path, 'before')
+      // Without a combination Jenkins runs none of the matrix stages, where a job without parallel:matrix would run once
+      const excludesAll = stage.matrix.axes.length > 0 && matrixCombinations(stage.matrix).combinations.length === 0
+      if (excludesAll) {
+        this.skip('matrix', `Matrix '${stage.name}' excludes every combination of its axes, so none of its stages run`, stage.matrix.span)
+      }
+      for (const inner of excludesAll ? [] : stage.matrix.stages) {
+        const gitlabStage = this.addStage(slugify([...names, inner.name].join(' ')))
+        this.addJob(this.buildJob([...names, inner.name], gitlabStage, inner, [...path, inner]))
+      }
+      this.addStepsJob(stage, stage.steps.filter(step => step.span.startLine >= start), path, 'after')
+      this.addPostJobs(names, [...stage.matrix.post, ...stage.post], path, children())
+      return
+    }
+
+    if (stage.stages.length > 0) {
+      let pending = stage.steps
+      let part = 'before'
+      for (const child of stage.stages) {
+        this.addStepsJob(stage, pending.filter(step => step.span.startLine < child.span.startLine), path, part)
+        pending = pending.filter(step => step.span.startLine >= child.span.startLine)
+        this.convertStage(child, path)
+        part = `after ${child.name}`
+      }
+      this.addStepsJob(stage, pending, path, 'after')
+      this.addPostJobs(names, stage.post, path, children())
+      return
+    }
+
+    const gitlabStage = this.addStage(slugify(names.join(' ')))
+    if (stage.component) {
+      this.includeComponent(stage.component, names, gitlabStage)
+      return
+    }
+    this.addJob(this.buildJob(names, gitlabStage, stage, path))
+  }
+
+  /**
+   * Job for steps a scripted stage runs around its parallel branches or
+   * nested stages, which the model keeps in the stage itself. It runs in a
+   * GitLab stage of its own, in the order of the Jenkinsfile, after the
+   * jobs it needs. Returns the job name unless the steps left no job.
+   */
+  private addStepsJob(stage: PipelineStage, steps: PipelineStep[], path: PipelineStage[], part: string, needs: Array<string | GitLabNeed> = []): string | undefined {
+    if (steps.length === 0) return undefined
+    const names = [...path.map(s => s.name), part]
+    const span = { startLine: steps[0].span.startLine, endLine: steps[steps.length - 1].span.endLine }
+    const own: PipelineStage = { ...stage, name: `${stage.name} (${part})`, steps, parallel: [], stages: [], matrix: undefined, input: undefined, post: [], span }
+    const draft = this.buildJob(names, this.addStage(slugify(names.join(' '))), own, path)
+    if (needs.length > 0) draft.needs = needs
+    this.addJob(draft)
+    return this.jobs[draft.name] ? draft.name : undefined
+  }
+
+  /**
+   * A parallel branch runs as a job in the stage of the parallel block. A
+   * branch with sequential stages becomes a chain of jobs, one GitLab stage
+   * per step down the chain, each needing only the job before it so that
+   * the branches run side by side rather than in lockstep. The first jobs
+   * of each branch need the `start` jobs.
+   */
+  private convertBranch(branch: PipelineStage, names: string[], path: PipelineStage[], gitlabStages: string[], failFast: boolean, start: string[]): void {
+    const branchNames = [...names, branch.name]
+    const branchPath = [...path, branch]
+    if (branch.parallel.length > 0 || branch.matrix) {
+      this.skip('parallel', `Nested parallel stages inside parallel branch '${branch.name}' are not converted`, branch.span)
+    }
+    if (branch.stages.length === 0) {
+      const draft = this.buildJob(branchNames, gitlabStages[0], branch, branchPath)
+      if (start.length > 0) draft.needs = start
+      if (failFast) draft.interruptible = true
+      this.addJob(draft)
+      return
+    }
+
+    const before = new Set(Object.keys(this.jobs))
+    let previous: Array<string | GitLabNeed> = start
+    branch.stages.forEach((child, depth) => {
+      if (child.stages.length > 0 || child.parallel.length > 0 || child.matrix) {
+        this.skip('parallel', `Nested stages inside stage '${child.name}' of parallel branch '${branch.name}' are not converted`, child.span)
+        return
+      }
+      gitlabStages[depth] = gitlabStages[depth] ?? this.addStage(`${gitlabStages[0]}-${depth + 1}`)
+      const draft = this.buildJob([...branchNames, child.name], gitlabStages[depth], child, [...branchPath, child])
+      if (previous.length > 0) draft.needs = previous
+      if (failFast) draft.interruptible = true
+      this.addJob(draft)
+      const job = this.jobs[draft.name]
+      // A Jenkins stage skipped by its when { } does not stop the next one, which
+      // still waits for the jobs before it
+      if (job) previous = job.rules ? [...previous, { job: draft.name, optional: true }] : [draft.name]
+    })
+    this.addPostJobs(branchNames, branch.post, branchPath, Object.keys(this.jobs).filter(name => !before.has(name)))
+  }
+
+  /**
+   * The component defines the job; the stage and job name are passed as
+   * inputs so that it lands where the Jenkins stage was
+   */
+  private includeComponent(component: ComponentInclude, names: string[], gitlabStage: string): void {
+    const jobName = this.jobName(names)
+    this.includes.push({
+      component: `${component.project}/${component.name}@${component.version}`,
+      inputs: { stage: gitlabStage, 'job-name': jobName, ...component.inputs }
+    })
+    // Keep the name taken so that later jobs do not collide with the component's job
+    this.reservedJobs.add(jobName)
+    if (!this.stages.includes(gitlabStage)) this.stages.push(gitlabStage)
+    this.report.convertedSteps++
+    this.note(`Publish the CI/CD catalog project ${component.project.replace(/^\$CI_SERVER_FQDN\//, '')} before running the pipeline; it provides the included components`)
+  }
+
+  /**
+   * A job inheriting agent, tools, environment and conditions from its enclosing stages
+   */
+  private newDraft(names: string[], gitlabStage: string, label: string, path: PipelineStage[], span: SourceSpan): JobDraft {
+    const draft: JobDraft = {
+      name: this.jobName(names),
+      stage: gitlabStage,
+      label,
+      span,
+      tools: [...(this.model?.tools ?? [])],
+      variables: {},
+      script: [],
+      afterScript: [],
+      scriptSpans: [],
+      afterScriptSpans: [],
+      artifacts: [],
+      artifactExcludes: [],
+      stashPaths: new Set(),
+      unstashes: new Set(),
+      junit: [],
+      artifactWhen: new Set(),
+      usesDocker: false,
+      images: {},
+      unconvertedBefore: this.report.unconverted.length,
+      ruleSpans: stageWhens(path).map(when => when.span),
+      triggers: []
+    }
+    this.applyOptions(this.pipelineOptions, draft)
+    for (const ancestor of path) {
+      if (ancestor.agent) draft.agent = ancestor.agent
+      draft.tools.push(...ancestor.tools)
+      this.applyOptions(this.optionsOf(ancestor, `stage '${ancestor.name}'`), draft)
+      Object.assign(draft.variables, this.convertEnvironment(ancestor.environment))
+      if (ancestor.matrix) {
+        if (ancestor.matrix.agent) draft.agent = ancestor.matrix.agent
+        this.applyOptions(this.optionsOf(ancestor.matrix, `matrix '${ancestor.name}'`), draft)
+        Object.assign(draft.variables, this.convertEnvironment(ancestor.matrix.environment))
+      }
+    }
+    draft.agent = draft.agent ?? this.model?.agent
+    draft.rules = this.convertConditions(path)
+    return draft
+  }
+
+  private applyOptions(settings: OptionSettings, draft: JobDraft): void {
+    if (settings.timeout) draft.timeout = settings.timeout
+    if (settings.retry !== undefined) draft.retry = settings.retry
+    if (settings.interruptible) draft.interruptible = true
+    if (settings.resourceGroup) draft.resourceGroup = true
+    if (settings.lock) draft.lock = settings.lock
+    if (settings.expireIn) draft.expireIn = settings.expireIn
+    Object.assign(draft.variables, settings.variables)
+  }
+
+  private buildJob(names: string[], gitlabStage: string, stage: PipelineStage, path: PipelineStage[]): JobDraft {
+    const draft = this.newDraft(names, gitlabStage, `Stage '${stage.name}'`, path, stage.span)
+    const matrixStage = path.find(ancestor => ancestor.matrix)
+    if (matrixStage) draft.matrix = this.matrixEntries(matrixStage)
+
+    // Jenkins asks for the input after evaluating when { } and before allocating the agent
+    if (stage.input) this.requireApproval(stage.input, draft)
+    this.convertSteps(stage.steps, draft)
+
+    // Artifacts named in enclosing post blocks have to be uploaded by the job that made them
+    const enclosing = path.slice(0, -1).flatMap(ancestor => [...ancestor.post, ...(ancestor.matrix?.post ?? [])])
+    if (this.collectPostArtifacts(this.model?.post ?? [], draft)) {
+      this.note('Artifacts from the pipeline post { } block are collected by every job; remove them where the files are not produced')
+    }
+    this.collectPostArtifacts(enclosing, draft)
+    this.convertJobPost(stage.post, draft)
+    return draft
+  }
+
+  private addJob(draft: JobDraft): void {
+    const empty = draft.script.length === 0 && draft.afterScript.length === 0 && draft.artifacts.length === 0 && draft.junit.length === 0
+    if (empty && draft.triggers.length > 0) {
+      this.addTriggerJobs(draft)
+      return
+    }
+    if (empty && this.report.unconverted.length === draft.unconvertedBefore) {
+      this.note(`${draft.label} has no steps GitLab needs and was dropped`)
+      return
+    }
+
+    const agent = draft.agent ? this.podContainerAgent(draft, this.agentOf(draft.agent)) : undefined
+    if (agent) draft.variables = { ...agent.variables, ...draft.variables }
+    if (draft.usesDocker) draft.variables.DOCKER_TLS_CERTDIR = '/certs'
+    // An explicit checkout brings back the clone that skipDefaultCheckout turned off
+    if (draft.checksOut && (draft.variables.GIT_STRATEGY ?? this.variables.GIT_STRATEGY) === 'none') {
+      draft.variables.GIT_STRATEGY = 'fetch'
+    }
+    const job: GitLabJob = {
+      stage: draft.stage,
+      image: this.chooseImage(draft, agent),
+      services: nonEmpty([...(agent?.services ?? []), ...(draft.usesDocker ? [DOCKER_SERVICE] : [])]),
+      tags: nonEmpty(agent?.tags ?? []),
+      variables: Object.keys(draft.variables).length > 0 ? draft.variables : undefined,
+      parallel: draft.matrix ? { matrix: draft.matrix } : undefined,
+      needs: this.jobNeeds(draft),
+      script: draft.script.length > 0 ? draft.script : [`echo "${draft.label} has no convertible steps"`],
+      after_script: draft.afterScript.length > 0 ? draft.afterScript : undefined
+    }
+    if (draft.artifacts.length > 0 || draft.junit.length > 0) {
+      const when = draft.artifactWhen
+      job.artifacts = {
+        when: when.has('always') || (when.has('on_success') && when.has('on_failure'))
+          ? 'always'
+          : when.has('on_failure') ? 'on_failure' : undefined,
+        paths: draft.artifacts.length > 0 ? draft.artifacts : undefined,
+        exclude: draft.artifactExcludes.length > 0 ? draft.artifactExcludes : undefined,
+        reports: draft.junit.length > 0 ? { junit: draft.junit } : undefined,
+        expire_in: draft.expireIn ??
+          (draft.junit.length === 0 && draft.artifacts.every(path => draft.stashPaths.has(path)) ? STASH_EXPIRY : undefined)
+      }
+    }
+    setWhen(job, draft.rules, draft.when)
+    if (draft.timeout) job.timeout = draft.timeout
+    if (draft.retry !== undefined) job.retry = draft.retry
+    if (draft.interruptible) job.interruptible = true
+    if (draft.lock) {
+      job.resource_group = draft.lock.group
+      const locked = this.lockedJobs.get(draft.lock.owner) ?? { lock: draft.lock, jobs: [] }
+      locked.jobs.push(draft.name)
+      this.lockedJobs.set(draft.lock.owner, locked)
+    } else if (draft.resourceGroup) {
+      job.resource_group = `${slugify(draft.name)}-$CI_COMMIT_REF_SLUG`
+    }
+    if (draft.approval) this.gateJob(job, draft.name, draft)
+
+    // .pre and .post are built-in stages that must not be listed
+    if (!this.stages.includes(draft.stage) && !draft.stage.startsWith('.')) this.stages.push(draft.stage)
+    this.jobs[draft.name] = job
+    this.sources.push({
+      job: draft.name,
+      span: draft.span,
+      rules: draft.ruleSpans,
+      script: draft.script.length > 0 ? draft.scriptSpans : [null],
+      afterScript: draft.afterScriptSpans
+    })
+    this.addTriggerJobs(draft, draft.name)
+  }
+
+  /**
+   * Trigger jobs for the `build` steps of a draft, in its stage. Each needs
+   * the job before it, starting with the one running the draft's script, as
+   * Jenkins finishes one build before starting the next. Without a script
+   * job, the first trigger job takes the draft's name and conditions.
+   */
+  private addTriggerJobs(draft: JobDraft, scriptJob?: string): void {
+    let previous = scriptJob
+    for (const { downstream, span, scriptLength, when } of draft.triggers) {
+      const gate = previous === undefined
+      const name = gate ? draft.name : this.uniqueJobName(`${draft.name}:trigger-${slugify((downstream.target.split('/').pop() ?? '').replace(/\.ya?ml$/, ''))}`)
+      const variables: Record<string, string> = {}
+      for (const [key, value] of Object.entries(downstream.variables)) variables[key] = this.shell(value, span)
+      const strategy = downstream.wait ? 'depend' as const : undefined
+      const job: GitLabJob = {
+        stage: draft.stage,
+        variables: Object.keys(variables).length > 0 ? variables : undefined,
+        needs: gate ? this.jobNeeds(draft) : [previous as string],
+        trigger: downstream.child
+          ? { include: downstream.target, strategy }
+          : { project: downstream.target, branch: downstream.branch && this.shell(downstream.branch, span), strategy }
+      }
+      setWhen(job, draft.rules, when ?? (gate ? draft.when : undefined))
+      // A failed downstream pipeline that does not propagate leaves this one green
+      if (downstream.wait && !downstream.propagate) job.allow_failure = true
+      if (gate && draft.approval) this.gateJob(job, name, draft)
+
+      if (downstream.wait && scriptLength < draft.script.length) {
+        this.approximate('step', span, `Steps after the build of '${downstream.job}' in ${draft.label} run before the downstream pipeline; move them to a job that needs ${name} if they wait for it`, `Move the later steps to a job that needs ${name} if they wait for the build`)
+      }
+      if (!downstream.child) {
+        this.note(`Users running this pipeline need permission to run pipelines in ${downstream.target}, which job ${name} starts`)
+      }
+      this.downstreamTargets[downstream.job] = downstream.target
+      if (!this.stages.includes(draft.stage) && !draft.stage.startsWith('.')) this.stages.push(draft.stage)
+      this.jobs[name] = job
+      this.sources.push({ job: name, span, rules: draft.ruleSpans, script: [], afterScript: [] })
+      previous = name
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Approvals
+  // ──────────────────────────────────────────────────────────────────
+
+  /**
+   * A Jenkins input becomes a manual job that blocks the pipeline until it
+   * is run. The input parameters become job variables, which can be
+   * changed when the job is run by hand.
+   */
+  private requireApproval(input: StageInput, draft: JobDraft): void {
+    if (draft.approval) {
+      this.approximate('input', input.span, `${draft.label} asks for input more than once; its job is run by hand once`, 'Split the stage into one job per approval if each must be given separately')
+    } else if (draft.script.length > 0) {
+      this.approximate('input', input.span, `Steps before the input in ${draft.label} now also wait for it; move them to an earlier job if they must run first`, 'Move the steps before the input to an earlier job if they must run first')
+    }
+    draft.approval = draft.approval
+      ? { ...draft.approval, parameters: [...draft.approval.parameters, ...input.parameters] }
+      : input
+    draft.when = 'manual'
+    for (const parameter of input.parameters) {
+      const variable = this.parameterVariable(parameter, `password parameter '${parameter.name}' of the input in ${draft.label}`)
+      if (variable !== undefined) draft.variables[parameter.name] = typeof variable === 'string' ? variable : variable.value
+    }
+    // Jenkins stores the approver's user ID there; a manual job runs as the user who started it
+    if (input.submitterParameter) draft.variables[input.submitterParameter] = '$GITLAB_USER_LOGIN'
+  }
+
+  /** Block the pipeline on a manual job, deploying to a protected environment when it looks like a deploy */
+  private gateJob(job: GitLabJob, name: string, draft: JobDraft): void {
+    if (!draft.approval) return
+    job.allow_failure = false
+    const environment = deployEnvironment(name)
+    if (environment) job.environment = { name: environment }
+    this.approvals.push({ job: name, label: draft.label, input: draft.approval, environment })
+  }
+
+  /**
+   * Who may run each manual job is project configuration rather than YAML,
+   * so the Jenkins submitters are written to a checklist
+   */
+  private writeApprovalRules(): void {
+    if (this.approvals.length === 0) return
+    const lines = [
+      '# Approval rules',
+      '',
+      'Jenkins input steps became manual jobs with `allow_failure: false`, which hold',
+      'the pipeline until someone runs them. GitLab cannot read who may approve from',
+      '`.gitlab-ci.yml`; set up each rule below in the project settings.'
+    ]
+    for (const approval of this.approvals) {
+      const { input } = approval
+      const span = input.span.startLine === input.span.endLine
+        ? `line ${input.span.startLine}`
+        : `lines ${input.span.startLine}-${input.span.endLine}`
+      lines.push('', `## Job \`${approval.job}\``, '')
+      lines.push(`${approval.label}, Jenkinsfile ${span}: ${input.message ? `"${input.message}"` : 'no message'}${input.ok ? ` (${input.ok})` : ''}`, '')
+      const submitters = (input.submitter ?? '').split(',').map(name => name.trim()).filter(Boolean)
+      if (approval.environment) {
+        lines.push(`- [ ] Protect the \`${approval.environment}\` environment under Settings > CI/CD > Protected environments`)
+        lines.push(submitters.length > 0
+          ? `- [ ] Allow only these Jenkins submitters to deploy: ${submitters.join(', ')}`
+          : '- [ ] Choose who may deploy; Jenkins let anyone who could build the job approve')
+        lines.push('- [ ] Optionally require deployment approvals from the same users (GitLab Premium)')
+      } else if (submitters.length > 0) {
+        lines.push(`- [ ] Jenkins submitters: ${submitters.join(', ')}. Only protected environments limit who runs a job, so add an \`environment:\` to it and protect that environment`)
+      } else {
+        lines.push('- [ ] Decide who may run the job; Jenkins let anyone who could build the job approve')
+      }
+      for (const parameter of input.parameters) {
+        if (parameter.type === 'password') {
+          lines.push(`- [ ] Create a masked CI/CD variable \`${parameter.name}\` for the password Jenkins asked for`)
+          continue
+        }
+        const choices = parameter.choices && parameter.choices.length > 0 ? `, one of ${parameter.choices.join(', ')}` : ''
+        lines.push(`- [ ] Tell approvers to set \`${parameter.name}\` when running the job${choices}`)
+      }
+    }
+    this.files[APPROVAL_RULES_FILE] = lines.join('\n') + '\n'
+    this.note(`Jenkins input approvals are manual jobs; set up who may run them as listed in ${APPROVAL_RULES_FILE}`)
+  }
+
+  /**
+   * Which GitLab project each downstream Jenkins job moved to is a guess
+   * until the user corrects it, so the targets go to a file they can edit
+   */
+  private writeJobMapping(): void {
+    if (Object.keys(this.downstreamTargets).length === 0) return
+    this.files[JOB_MAPPING_FILE] = renderJobMapping(this.downstreamTargets)
+    this.note(`Check the GitLab project of each downstream Jenkins job in ${JOB_MAPPING_FILE}, then upload the file with the Jenkinsfile and convert again`)
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Post conditions
+  // ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Add artifact and test report steps from post blocks to a job, uploaded
+   * for the job outcomes the post condition covers. Returns whether any were added.
+   */
+  private collectPostArtifacts(posts: PostCondition[], draft: JobDraft): boolean {
+    let added = false
+    for (const post of posts) {
+      const steps = post.steps.filter(step => ARTIFACT_STEPS.includes(step.name))
+      const when = POST_CONDITIONS[post.condition]?.artifacts
+      if (steps.length === 0 || !when) continue
+      const collected = this.subDraft(draft)
+      this.convertSteps(steps, collected)
+      draft.artifacts.push(...collected.artifacts.filter(path => !draft.artifacts.includes(path)))
+      draft.artifactExcludes.push(...collected.artifactExcludes.filter(path => !draft.artifactExcludes.includes(path)))
+      draft.junit.push(...collected.junit.filter(path => !draft.junit.includes(path)))
+      draft.artifactWhen.add(when)
+      added = true
+    }
+    return added
+  }
+
+  /**
+   * Post blocks of a stage that became a single job run as after_script
+   * commands, guarded by the job status when the condition needs one
+   */
+  private convertJobPost(posts: PostCondition[], draft: JobDraft): void {
+    this.collectPostArtifacts(posts, draft)
+    for (const post of posts) {
+      const steps = post.steps.filter(step => !ARTIFACT_STEPS.includes(step.name))
+      if (steps.length === 0) continue
+      const mapping = POST_CONDITIONS[post.condition]
+      if (!mapping) {
+        this.skip('post', `post { ${post.condition} } on ${draft.label} has no GitLab equivalent: ${UNSUPPORTED_POST[post.condition]}`, post.span)
+        continue
+      }
+      const hook = this.subDraft(draft)
+      this.convertSteps(steps, hook)
+      draft.triggers.push(...hook.triggers.map(trigger => ({ ...trigger, scriptLength: draft.script.length, when: mapping.when })))
+      if (hook.script.length === 0) continue
+      draft.usesDocker = draft.usesDocker || hook.usesDocker
+      draft.afterScript.push(...(mapping.status
+        ? [`if [ "$CI_JOB_STATUS" ${mapping.status} ]; then\n${hook.script.map(line => line.replace(/^/gm, '  ')).join('\n')}\nfi`]
+        : hook.script))
+      draft.afterScriptSpans.push(...(mapping.status ? [post.span] : hook.scriptSpans))
+      this.note('after_script runs in a separate shell; variables exported in script are not visible there')
+    }
+  }
+
+  /**
+   * Post blocks of the pipeline, or of a stage that became several jobs, run
+   * as follow-up jobs: in `.post` for the pipeline, otherwise in a stage of
+   * their own that needs the stage's jobs
+   */
+  private addPostJobs(names: string[], posts: PostCondition[], path: PipelineStage[], needs?: string[]): void {
+    let gitlabStage: string | undefined
+    const owner = names.length > 0 ? `stage '${names[names.length - 1]}'` : 'the pipeline'
+    for (const post of posts) {
+      const steps = post.steps.filter(step => !ARTIFACT_STEPS.includes(step.name))
+      if (steps.length === 0) continue
+      const when = POST_CONDITIONS[post.condition]?.when
+      if (!when) {
+        this.skip('post', `post { ${post.condition} } on ${owner} has no GitLab equivalent: ${UNSUPPORTED_POST[post.condition]}`, post.span)
+        continue
+      }
+      gitlabStage = gitlabStage ?? (names.length > 0 ? this.addStage(`${slugify(names.join(' '))}-post`) : '.post')
+      const jobNames = names.length > 0 ? [...names, `post ${post.condition}`] : ['post', post.condition]
+      const draft = this.newDraft(jobNames, gitlabStage, `post { ${post.condition} } of ${owner}`, path, post.span)
+      draft.when = when
+      // A job left out by its rules would make GitLab reject the pipeline if needed outright
+      if (needs && needs.length > 0) draft.needs = needs.map(name => (this.jobs[name]?.rules ? { job: name, optional: true } : name))
+      this.convertSteps(steps, draft)
+      this.addJob(draft)
+    }
+  }
+
+  /** Scratch draft sharing a job's context, for converting steps without touching its script */
+  private subDraft(draft: JobDraft): JobDraft {
+    return {
+      ...draft,
+      script: [],
+      afterScript: [],
+      scriptSpans: [],
+      afterScriptSpans: [],
+      artifacts: [],
+      artifactExcludes: [],
+      junit: [],
+      artifactWhen: new Set(),
+      usesDocker: false,
+      triggers: []
+    }
+  }
+
+  /**
+   * Rules from the `when` blocks of a stage and everything enclosing it.
+   * Conditions that cannot be translated leave a commented stub for review.
+   */
+  private convertConditions(path: PipelineStage[]): GitLabRule[] | YamlComment | undefined {
+    const whens = stageWhens(path)
+    if (whens.length === 0) return undefined
+
+    const translation = translateWhen(whens, this.model?.parameters)
+    translation.notes.forEach(note => this.note(note))
+    if (translation.untranslated.length === 0) return translation.rules
+
+    for (const item of translation.untranslated) this.skip('when', item.description, item.span)
+    const suggestion = translation.partial.length > 0 ? translation.partial : [{ when: 'manual' as const }]
+    return new YamlComment([
+      ...translation.untranslated.map(item => `TODO(line ${item.span.startLine}): ${item.description}`),
+      ...emitEntry('rules', suggestion as unknown as YamlValue, 0)
+    ])
+  }
+
+  /**
+   * `parallel:matrix` entries for a matrix stage. Without excludes the axes map
+   * straight across; otherwise the remaining combinations are grouped on every
+   * axis but the last.
+   */
+  private matrixEntries(stage: PipelineStage): MatrixEntry[] | undefined {
+    const { axes, excludes, span } = stage.matrix!
+    if (axes.length === 0) {
+      this.skip('matrix', `Matrix '${stage.name}' has no axes`, span)
+      return undefined
+    }
+    if (excludes.length === 0) {
+      return [Object.fromEntries(axes.map(axis => [axis.name, axis.values]))]
+    }
+
+    const { combinations, total } = matrixCombinations(stage.matrix!)
+    this.note(`Matrix '${stage.name}' runs ${combinations.length} of ${total} combinations after excludes`)
+
+    const last = axes[axes.length - 1].name
+    const groups = new Map<string, MatrixEntry>()
+    for (const combination of combinations) {
+      const { [last]: value, ...rest } = combination
+      const key = JSON.stringify(rest)
+      const entry = groups.get(key) ?? { ...rest, [last]: [] }
+      const values = entry[last] as string[]
+      values.push(value)
+      groups.set(key, entry)
+    }
+    return Array.from(groups.values()).map(entry => {
+      const values = entry[last] as string[]
+      return values.length === 1 ? { ...entry, [last]: values[0] } : entry
+    })
+  }
+
+  private chooseImage(draft: JobDraft, agent?: AgentTranslation): string | GitLabImage {
+    if (agent?.image) return agent.image
+    if (draft.usesDocker) return DOCKER_IMAGE
+
+    const commands = draft.script.join('\n')
+    const toolchain = TOOLCHAINS.find(t => t.command.test(commands)) ??
+      TOOLCHAINS.find(t => t.tools.some(tool => draft.tools.some(declared => declared.type === tool)))
+    if (!toolchain) return DEFAULT_IMAGE
+
+    const version = (types: string[]) => {
+      const tool = draft.tools.find(declared => types.includes(declared.type))
+      return tool ? tool.name.match(/\d+(?:\.\d+)*/)?.[0] : undefined
+    }
+    return toolchain.image(version(toolchain.tools), version(['jdk']))
+  }
+
+  /**
+   * Jobs a job waits for. A job that unstashes downloads the artifacts of
+   * the jobs that stashed. As `needs` lets a job start before the earlier
+   * stages finish, it also waits for the jobs of the stage before its own,
+   * which keeps the Jenkins stage order.
+   */
+  private jobNeeds(draft: JobDraft): Array<string | GitLabNeed> | undefined {
+    if (draft.unstashes.size === 0) return draft.needs
+    const needs: Array<string | GitLabNeed> = [...(draft.needs ?? [])]
+    const listed = new Set(draft.needs?.map(need => (typeof need === 'string' ? need : need.job)))
+    for (const need of this.previousStageJobs(draft.stage)) {
+      if (listed.has(need.job) || draft.unstashes.has(need.job)) continue
+      needs.push({ ...need, artifacts: false })
+      listed.add(need.job)
+    }
+    for (const job of draft.unstashes) {
+      needs.push({ job, artifacts: true, optional: this.jobs[job]?.rules ? true : undefined })
+    }
+    return needs
+  }
+
+  /**
+   * Jobs of the closest earlier stage that has jobs running on success.
+   * Jobs that only run on failure or by hand would hold up the ones needing them.
+   */
+  private previousStageJobs(stage: string): GitLabNeed[] {
+    const earlier = this.stages.includes(stage) ? this.stages.slice(0, this.stages.indexOf(stage)) : this.stages
+    for (const previous of [...earlier].reverse()) {
+      const jobs = Object.entries(this.jobs)
+        .filter(([, job]) => job.stage === previous && (!job.when || job.when === 'on_success' || job.when === 'always'))
+        .map(([name, job]): GitLabNeed => ({ job: name, optional: job.rules ? true : undefined }))
+      if (jobs.length > 0) return jobs
+    }
+    return []
+  }
+
+  /**
+   * Resource group for a Jenkins lock. Lockable resources are shared by every
+   * job on the controller, while a resource group belongs to one project.
+   */
+  private lockOf(first: StaticValue | undefined, named: { [name: string]: StaticValue }, owner: ResourceLock['owner'], span: SourceSpan): ResourceLock | undefined {
+    const resource = scalarString(named.resource ?? first) ?? scalarString(named.label)
+    if (resource === undefined) return undefined
+    const group = /^[\w.\/-]+$/.test(resource) ? resource : slugify(resource)
+    if (named.resource === undefined && first === undefined) {
+      this.approximate('lock', span, `lock(label: '${resource}') took any free resource with the label; resource group '${group}' runs one job at a time`, 'Check that one job at a time is enough throughput')
+    }
+    if (named.quantity !== undefined) {
+      this.skip('lock', `lock quantity on '${resource}' has no GitLab equivalent; a resource group runs one job at a time`, span)
+    }
+    if (named.variable !== undefined) {
+      this.skip('lock', `lock variable on '${resource}' is not set; a resource group does not expose its name to the job`, span)
+    }
+    if (isStaticTrue(named.inversePrecedence)) {
+      this.approximate('lock', span, `lock('${resource}') let the newest build go first; set process_mode to newest_first on resource group '${group}' with the resource groups API`, `Set process_mode to newest_first on resource group '${group}'`)
+    }
+    this.note(`Resource group '${group}' only orders jobs of this project; other projects that locked '${resource}' in Jenkins no longer wait for it`)
+    return { group, resource, owner }
+  }
+
+  /**
+   * A lock around several stages holds the resource from the first job to
+   * the last, while each job takes and releases its resource group alone
+   */
+  private checkLocks(): void {
+    for (const { lock, jobs } of this.lockedJobs.values()) {
+      if (jobs.length < 2) continue
+      this.approximate('lock', lock.owner.span, `lock('${lock.resource}') spans jobs ${jobs.join(', ')}, which take resource group '${lock.group}' one at a time; another pipeline's job can run between them, so merge the jobs if the resource must be held throughout`, 'Merge the jobs if the resource must be held throughout')
+    }
+  }
+
+  /**
+   * Jenkins aborts older builds once a newer one passes a milestone. The
+   * closest GitLab setting is auto-cancel: the jobs before the milestone
+   * are interruptible, so a newer pipeline cancels this one until a job
+   * after the milestone starts.
+   */
+  private passMilestone(draft: JobDraft, span: SourceSpan): void {
+    for (const job of Object.values(this.jobs)) {
+      if (!job.trigger && job.stage !== '.post' && job.when !== 'manual') job.interruptible = true
+    }
+    if (draft.script.length > 0) {
+      this.approximate('step', span, `Steps before the milestone in ${draft.label} share a job with the steps after it, so they are not interruptible`, 'Move the steps before the milestone to a job of their own')
+    }
+    this.approximate('step', span, `Jobs before the milestone in ${draft.label} are interruptible: a pipeline for a newer commit on the branch cancels this one until a later job starts, where Jenkins aborted older builds once a newer one passed the milestone. Keep Auto-cancel redundant pipelines on under Settings > CI/CD > General pipelines`, 'Keep Auto-cancel redundant pipelines on in the project settings')
+  }
+
+  /**
+   * Warn about jobs reading build output an earlier Jenkins stage left in
+   * the shared workspace. GitLab jobs start from a fresh checkout, so the
+   * output only arrives through artifacts.
+   */
+  private checkWorkspaceReuse(): void {
+    const jobs = Object.entries(this.jobs)
+    jobs.forEach(([name, job], index) => {
+      const script = (job.script ?? []).join('\n')
+      for (const output of BUILD_OUTPUTS) {
+        if (output.command.test(script) || !usesOutput(output, script)) continue
+        const earlier = jobs.slice(0, index)
+        const producer = earlier.find(([, other]) => other.stage !== job.stage && output.command.test((other.script ?? []).join('\n')))
+        const passed = earlier.some(([, other]) => other.artifacts?.paths?.some(path => path.startsWith(output.directory) || path === '**/*'))
+        if (!producer || passed) continue
+        this.note(`Job '${name}' uses ${output.directory} from job '${producer[0]}', which Jenkins left in the shared workspace; GitLab jobs do not share a workspace, so stash it or archive it as an artifact`)
+      }
+    })
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Conversion options
+  // ──────────────────────────────────────────────────────────────────
+
+  /** Whether an option that adds to the translated pipeline applies */
+  private adds(option: 'optimizeForSpeed' | 'enableParallelization' | 'includeSecurityScanning'): boolean {
+    return this.options.targetComplexity !== 'simple' && !!this.options[option]
+  }
+
+  private applyConversionOptions(): void {
+    if (this.adds('optimizeForSpeed')) this.optimizeForSpeed()
+    if (this.adds('enableParallelization')) this.startIndependentJobs()
+    if (this.adds('includeSecurityScanning')) this.includeSecurityScanning()
+    if (this.options.targetComplexity === 'advanced') this.shareJobSettings()
+  }
+
+  /**
+   * Cache the downloads of the package managers each job runs, and make the
+   * jobs that do not deploy interruptible, so that a pipeline for a newer
+   * commit cancels them
+   */
+  private optimizeForSpeed(): void {
+    const cached = new Set<string>()
+    let interruptible = false
+    for (const [name, job] of Object.entries(this.jobs)) {
+      const script = (job.script ?? []).join('\n')
+      const caches: GitLabCache[] = []
+      for (const cache of DEPENDENCY_CACHES) {
+        if (!cache.command.test(script)) continue
+        // The Jenkinsfile already points the tool somewhere else
+        if (Object.keys(cache.variables).some(name => job.variables?.[name] !== undefined || this.variables[name] !== undefined)) continue
+        caches.push({ key: { files: cache.files }, paths: cache.paths })
+        job.variables = { ...job.variables, ...cache.variables }
+        cache.paths.forEach(path => cached.add(path))
+      }
+      // GitLab allows four caches per job
+      if (caches.length > 0) job.cache = caches.length === 1 ? caches[0] : caches.slice(0, 4)
+      if (!job.trigger && !deploys(name, job) && job.stage !== '.post' && !isManual(job)) {
+        job.interruptible = true
+        interruptible = true
+      }
+    }
+    if (cached.size > 0) {
+      this.note(`Dependency downloads are cached between pipelines in ${Array.from(cached).join(', ')}; clear the runner caches under Build > Pipelines if a cache goes bad`)
+    }
+    if (interruptible) this.note('Jobs that do not deploy are interruptible: keep Auto-cancel redundant pipelines on under Settings > CI/CD > General pipelines so a newer commit cancels them')
+  }
+
+  /**
+   * Let jobs that use nothing from earlier stages start with the pipeline.
+   * A job without `needs` gets the artifacts of every earlier job, so jobs
+   * after one that uploads artifacts keep the stage order, as do jobs that
+   * read build output, deploy, wait for an approval or follow a failure.
+   */
+  private startIndependentJobs(): void {
+    const jobs = Object.entries(this.jobs)
+    const started: string[] = []
+    for (const [name, job] of jobs) {
+      const stage = this.stages.indexOf(job.stage)
+      if (stage <= 0 || job.needs || job.trigger || deploys(name, job) || !runsOnSuccess(job)) continue
+      const earlier = jobs
+        .map(([, other]) => other)
+        .filter(other => other.stage === '.pre' || (this.stages.indexOf(other.stage) >= 0 && this.stages.indexOf(other.stage) < stage))
+      const script = (job.script ?? []).join('\n')
+      const dependent = earlier.some(other => other.artifacts?.paths || other.trigger || isManual(other)) ||
+        BUILD_OUTPUTS.some(output => usesOutput(output, script) && earlier.some(other => output.command.test((other.script ?? []).join('\n'))))
+      if (dependent) continue
+      job.needs = []
+      started.push(name)
+    }
+    if (started.length > 0) {
+      this.note(`Jobs ${started.join(', ')} start with the pipeline instead of after the earlier stages, so they also run when an earlier job fails`)
+    }
+  }
+
+  /**
+   * Include GitLab's SAST and secret detection, whose jobs run in the test
+   * stage; it is added before the first stage that deploys when missing
+   */
+  private includeSecurityScanning(): void {
+    this.includes.push(...SCANNING_TEMPLATES.map(template => ({ template })))
+    if (!this.stages.includes(SCANNING_STAGE)) {
+      const jobs = Object.entries(this.jobs)
+      const first = this.stages.findIndex(stage => jobs.some(([name, job]) => job.stage === stage && deploys(name, job)))
+      this.stages.splice(first < 0 ? this.stages.length : first, 0, SCANNING_STAGE)
+    }
+    this.note(`SAST and secret detection run in the ${SCANNING_STAGE} stage; their findings show in merge requests on GitLab Ultimate and as job artifacts otherwise`)
+  }
+
+  /** Move settings that jobs share into hidden templates the jobs extend */
+  private shareJobSettings(): void {
+    const { templates, jobs } = extractTemplates(this.jobs as unknown as Record<string, YamlMapping>)
+    this.jobs = { ...templates, ...jobs } as unknown as Record<string, GitLabJob>
+  }
+
+  /**
+   * README-CI.md: when each job runs and what it needs, and what to set up
+   * in the project for the pipeline to work
+   */
+  private writeDocumentation(pipeline: GitLabPipeline, findings: ConversionFinding[]): void {
+    const lines = [
+      '# CI/CD pipeline',
+      '',
+      'The `.gitlab-ci.yml` of this project was converted from its Jenkinsfile.',
+      `Its stages run in this order: ${pipeline.stages.map(stage => `\`${stage}\``).join(', ')}.`
+    ]
+    if (pipeline.include) {
+      lines.push('', 'It also runs the jobs of:', '')
+      for (const entry of pipeline.include) {
+        lines.push('template' in entry ? `- the \`${entry.template}\` template` : `- the \`${entry.component}\` component`)
+      }
+    }
+
+    lines.push('', '## Jobs')
+    for (const [name, own] of Object.entries(pipeline.jobs)) {
+      if (name.startsWith('.')) continue
+      const job = jobSettings(pipeline, own)
+      lines.push('', `### \`${name}\``, '', `- Stage: \`${job.stage}\``, `- Runs ${describeRun(job)}`)
+      if (job.trigger) lines.push(`- Starts ${job.trigger.project ? `a pipeline of \`${job.trigger.project}\`` : `a child pipeline from \`${job.trigger.include}\``}`)
+      const image = typeof job.image === 'object' ? job.image.name : job.image
+      if (image) lines.push(`- Image: \`${image}\``)
+      if (job.needs) {
+        const needs = job.needs.map(need => `\`${typeof need === 'string' ? need : need.job}\``)
+        lines.push(needs.length > 0 ? `- Waits for: ${needs.join(', ')}` : '- Starts with the pipeline')
+      }
+      if (job.environment) lines.push(`- Deploys to: \`${job.environment.name}\``)
+      if (job.artifacts?.paths) lines.push(`- Keeps: ${job.artifacts.paths.map(path => `\`${path}\``).join(', ')}`)
+    }
+
+    const variables = Object.entries(pipeline.variables)
+    if (variables.length > 0) {
+      lines.push('', '## Variables', '', 'Set these when running a pipeline by hand to change them.', '', '| Variable | Default | Description |', '| --- | --- | --- |')
+      for (const [name, variable] of variables) {
+        const { value, description } = typeof variable === 'string' ? { value: variable, description: undefined } : variable
+        lines.push(`| \`${name}\` | \`${value}\` | ${description ?? ''} |`)
+      }
+    }
+    if (this.report.secrets.length > 0) {
+      lines.push('', '## CI/CD variables to create', '', 'Add these under Settings > CI/CD > Variables, masked:', '')
+      for (const secret of this.report.secrets) lines.push(`- \`${secret.variable}\`, for the ${secret.source}`)
+    }
+    const files = Object.keys(this.files)
+    if (files.length > 0) {
+      lines.push('', '## Other files', '', ...files.map(path => `- \`${path}\``))
+    }
+    if (findings.length > 0) {
+      lines.push('', '## Still to migrate', '', `${findings.length} Jenkinsfile construct(s) were dropped or only approximated; each is marked with a \`TODO\` comment in \`.gitlab-ci.yml\`.`)
+    }
+    this.files[DOCUMENTATION_FILE] = lines.join('\n') + '\n'
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Steps
+  // ──────────────────────────────────────────────────────────────────
+
+  private convertSteps(steps: PipelineStep[], draft: JobDraft): void {
+    for (const step of steps) {
+      const before = draft.script.length
+      this.convertStep(step, draft)
+      // Lines of nested steps already point at the inner step
+      for (let i = before; i < draft.script.length; i++) draft.scriptSpans[i] = draft.scriptSpans[i] ?? step.span
+    }
+  }
+
+  private convertStep(step: PipelineStep, draft: JobDraft): void {
+    if (step.kind === 'groovy') {
+      this.skip('groovy', `Groovy ${describeStatement(step.name)} is not converted: ${firstLine(step.source)}`, step.span)
+      return
+    }
+    if (step.receiver) {
+      this.convertReceiverStep(step, draft)
+      return
+    }
+    if (step.assign && step.name !== 'input') {
+      this.skip('step', `Result of '${step.name}' is assigned to a Groovy variable: ${firstLine(step.source)}`, step.span)
+      return
+    }
+
+    const first = step.args[0]
+    switch (step.name) {
+      case 'sh':
+      case 'bat':
+      case 'powershell':
+      case 'pwsh': {
+        const command = scalarString(first ?? step.named.script)
+        if (command === undefined) break
+        if (step.name !== 'sh') this.approximate('step', step.span, `'${step.name}' steps need a Windows runner; check the converted commands`, 'Run the job on a Windows runner and check the commands')
+        if (step.named.returnStdout || step.named.returnStatus) {
+          this.skip('step', `${step.name} return value is not captured`, step.span)
+        }
+        draft.script.push(this.shell(dedent(command), step.span))
+        this.report.convertedSteps++
+        return
+      }
+      case 'echo': {
+        const message = scalarString(first)
+        if (message === undefined) break
+        draft.script.push(`echo ${doubleQuote(this.shell(message, step.span))}`)
+        this.report.convertedSteps++
+        return
+      }
+      case 'script':
+        this.convertSteps(step.body ?? [], draft)
+        return
+      case 'dir': {
+        const path = scalarString(first ?? step.named.path)
+        if (path === undefined) break
+        const cwd = draft.cwd
+        draft.script.push(`cd ${doubleQuote(this.shell(path, step.span))}`)
+        draft.cwd = joinPath(cwd, this.shell(path, step.span))
+        this.convertSteps(step.body ?? [], draft)
+        draft.cwd = cwd
+        // Back to the enclosing dir { } block, as later steps of that block expect
+        draft.script.push(`cd ${doubleQuote(cwd === undefined ? '$CI_PROJECT_DIR' : joinPath('$CI_PROJECT_DIR', cwd))}`)
+        this.report.convertedSteps++
+        return
+      }
+      case 'stash': {
+        const name = scalarString(step.named.name ?? first)
+        if (name === undefined) break
+        const includes = scalarString(step.named.includes)
+        const paths = includes === undefined
+          ? [draft.cwd ? `${draft.cwd}/` : '**/*']
+          : antPatterns(includes).map(pattern => joinPath(draft.cwd, pattern))
+        if (includes === undefined && !draft.cwd) {
+          draft.artifactExcludes.push('.git/**/*')
+          this.note(`stash '${name}' has no includes, so the whole workspace is uploaded as artifacts; narrow it down to the files later jobs need`)
+        }
+        const excludes = scalarString(step.named.excludes)
+        if (excludes !== undefined) draft.artifactExcludes.push(...antPatterns(excludes).map(pattern => joinPath(draft.cwd, pattern)))
+        for (const path of paths) {
+          if (!draft.artifacts.includes(path)) draft.artifacts.push(path)
+          draft.stashPaths.add(path)
+        }
+        draft.artifactWhen.add('on_success')
+        this.stashes.set(name, { job: draft.name, paths })
+        this.report.convertedSteps++
+        return
+      }
+      case 'unstash': {
+        const name = scalarString(step.named.name ?? first)
+        if (name === undefined) break
+        const stash = this.stashes.get(name)
+        if (!stash) {
+          this.skip('step', `unstash '${name}' has no stash in an earlier stage to download`, step.span)
+          return
+        }
+        // Files stashed by the same job are still in its directory
+        if (stash.job !== draft.name) draft.unstashes.add(stash.job)
+        this.report.convertedSteps++
+        return
+      }
+      case 'withEnv': {
+        const entries = Array.isArray(first) ? first.map(scalarString) : []
+        for (const entry of entries) {
+          if (entry?.includes('=')) draft.script.push(`export ${this.shell(entry, step.span)}`)
+        }
+        this.convertSteps(step.body ?? [], draft)
+        this.report.convertedSteps++
+        return
+      }
+      case 'withCredentials':
+        this.noteCredentialBindings(first)
+        this.convertSteps(step.body ?? [], draft)
+        this.report.convertedSteps++
+        return
+      case 'input':
+        if (step.assign) {
+          this.approximate('input', step.span, `The result of input in ${draft.label} is in the job variables named after its parameters, not in '${step.assign}'`, `Read the parameters from the job variables instead of '${step.assign}'`)
+        }
+        this.requireApproval(stepInput(step), draft)
+        this.report.convertedSteps++
+        return
+      case 'lock': {
+        const lock = this.lockOf(first, step.named, step, step.span)
+        if (!lock) break
+        if (draft.lock && draft.lock.group !== lock.group) {
+          this.skip('lock', `${draft.label} takes several locks; its job only holds resource group '${draft.lock.group}'`, step.span)
+        }
+        draft.lock = draft.lock ?? lock
+        this.convertSteps(step.body ?? [], draft)
+        this.report.convertedSteps++
+        return
+      }
+      case 'milestone':
+        this.passMilestone(draft, step.span)
+        this.report.convertedSteps++
+        return
+      case 'build': {
+        const downstream = translateBuildStep(step, this.options.jobMapping ?? {})
+        if (!downstream) break
+        for (const item of downstream.untranslated) this.skip('step', item.description, item.span)
+        draft.triggers.push({ downstream, span: step.span, scriptLength: draft.script.length })
+        this.report.convertedSteps++
+        return
+      }
+      case 'timeout': {
+        if (step.body?.length && step.body.every(inner => inner.name === 'input')) {
+          // The timeout bounds the wait for approval, not the work of the job
+          this.approximate('step', step.span, `GitLab manual jobs wait until someone runs them; the Jenkins timeout on the input in ${draft.label} is dropped`, 'Cancel the pipeline by hand when the approval is no longer wanted')
+          this.convertSteps(step.body, draft)
+          this.report.convertedSteps++
+          return
+        }
+        draft.timeout = jobTimeout(step.named.time ?? first, step.named.unit) ?? draft.timeout
+        this.convertSteps(step.body ?? [], draft)
+        this.report.convertedSteps++
+        return
+      }
+      case 'retry': {
+        const count = Number(first ?? step.named.count)
+        if (Number.isFinite(count) && count > 1) draft.retry = jobRetry(count)
+        if (count > 3) this.approximate('step', step.span, `retry(${count}) was capped at GitLab's maximum of 2 retries`, 'Check that three attempts are enough for the job')
+        this.convertSteps(step.body ?? [], draft)
+        this.report.convertedSteps++
+        return
+      }
+      case 'container': {
+        const name = scalarString(first ?? step.named.name)
+        if (name === undefined) break
+        if (draft.container && draft.container !== name) {
+          this.approximate('step', step.span, `${draft.label} uses several pod containers; its job runs in the image of '${draft.container}'`, 'Split the steps into one job per container image')
+        }
+        draft.container = draft.container ?? name
+        this.convertSteps(step.body ?? [], draft)
+        this.report.convertedSteps++
+        return
+      }
+      case 'slackSend': {
+        const message = scalarString(step.named.message ?? first)
+        if (message === undefined) break
+        const channel = scalarString(step.named.channel)
+        const payload = JSON.stringify({ ...(channel ? { channel } : {}), text: this.shell(message, step.span) })
+        draft.script.push(`curl -sS -X POST -H 'Content-Type: application/json' --data ${doubleQuote(payload)} "$SLACK_WEBHOOK_URL"`)
+        this.note('Create a masked CI/CD variable SLACK_WEBHOOK_URL holding a Slack incoming webhook URL')
+        this.report.convertedSteps++
+        return
+      }
+      case 'archiveArtifacts': {
+        const paths = scalarString(step.named.artifacts ?? first)
+        if (paths === undefined) break
+        draft.artifacts.push(...paths.split(',').map(p => p.trim()).filter(Boolean))
+        draft.artifactWhen.add('on_success')
+        this.report.convertedSteps++
+        return
+      }
+      case 'junit':
+      case 'publishTestResults': {
+        const pattern = scalarString(step.named.testResults ?? step.named.testResultsPattern ?? first)
+        if (pattern === undefined) break
+        draft.junit.push(...pattern.split(',').map(p => p.trim()).filter(Boolean))
+        draft.artifactWhen.add('always')
+        this.report.convertedSteps++
+        return
+      }
+      default:
+        if (IMPLICIT_STEPS[step.name]) {
+          if (step.name === 'checkout') draft.checksOut = true
+          this.note(IMPLICIT_STEPS[step.name])
+          this.convertSteps(step.body ?? [], draft)
+          this.report.convertedSteps++
+          return
+        }
+        if (step.name === 'git') {
+          draft.checksOut = true
+          this.note('GitLab checks out the project repository for every job')
+          this.report.convertedSteps++
+          return
+        }
+        this.skip('step', `Jenkins step '${step.name}' has no GitLab equivalent: ${firstLine(step.source)}`, step.span)
+        this.convertSteps(step.body ?? [], draft)
+        return
+    }
+    this.skip('step', `Arguments of '${step.name}' are computed at runtime: ${firstLine(step.source)}`, step.span)
+  }
+
+  /**
+   * `docker.build(...)`, `docker.withRegistry(...) { }` and `docker.image(...).inside { }`
+   */
+  private convertReceiverStep(step: PipelineStep, draft: JobDraft): void {
+    const receiver = step.receiver ?? ''
+    const first = scalarString(step.args[0])
+    if (receiver === 'docker' && step.name === 'build' && first !== undefined) {
+      const args = scalarString(step.args[1]) ?? '.'
+      const image = this.shell(first, step.span)
+      draft.script.push(`docker build -t ${image} ${this.shell(args, step.span)}`)
+      if (step.assign) draft.images[step.assign] = image
+      draft.usesDocker = true
+      this.report.convertedSteps++
+      return
+    }
+    if (receiver === 'docker' && step.name === 'withRegistry') {
+      const registry = first ?? ''
+      const credentialsId = scalarString(step.args[1])
+      if (credentialsId) {
+        const prefix = credentialVariable(credentialsId)
+        this.note(`Create CI/CD variables ${prefix}_USER and ${prefix}_PASSWORD for Jenkins credential '${credentialsId}'`)
+        draft.script.push(`echo "$${prefix}_PASSWORD" | docker login -u "$${prefix}_USER" --password-stdin ${registry.replace(/^https?:\/\//, '')}`.trim())
+      }
+      draft.usesDocker = true
+      this.convertSteps(step.body ?? [], draft)
+      this.report.convertedSteps++
+      return
+    }
+    const built = draft.images[receiver]
+    if (built && step.name === 'push') {
+      const tag = scalarString(step.args[0])
+      if (tag) {
+        const target = `${built.replace(/:[^/:]*$/, '')}:${this.shell(tag, step.span)}`
+        draft.script.push(`docker tag ${built} ${target}`, `docker push ${target}`)
+      } else {
+        draft.script.push(`docker push ${built}`)
+      }
+      this.report.convertedSteps++
+      return
+    }
+    const image = /^docker\.image\((['"])(.+)\1\)$/.exec(receiver)?.[2]
+    if (image && step.name === 'inside') {
+      draft.agent = { kind: 'docker', image, settings: { image }, span: step.span }
+      this.convertSteps(step.body ?? [], draft)
+      this.report.convertedSteps++
+      return
+    }
+    if (image && (step.name === 'push' || step.name === 'pull')) {
+      draft.script.push(`docker ${step.name} ${image}`)
+      draft.usesDocker = true
+      this.report.convertedSteps++
+      return
+    }
+    this.skip('step', `'${receiver}.${step.name}' is not converted: ${firstLine(step.source)}`, step.span)
+  }
+
+  private noteCredentialBindings(bindings: StaticValue | undefined): void {
+    for (const binding of Array.isArray(bindings) ? bindings : []) {
+      if (!isGroovyCall(binding)) continue
+      const id = staticString(binding.named.credentialsId) ?? '?'
+      const names = ['variable', 'usernameVariable', 'passwordVariable', 'keyFileVariable']
+        .map(key => staticString(binding.named[key]))
+        .filter((name): name is string => !!name)
+      const kind = binding.call === 'file' || binding.call === 'sshUserPrivateKey' || binding.call === 'kubeconfigFile' ? 'file-type ' : ''
+      this.note(`Create ${kind}CI/CD variable(s) ${names.join(', ')} for Jenkins credential '${id}'`)
+    }
+  }
+
+  /**
+   * Translate a shell string and report Groovy-only interpolations
+   */
+  private shell(text: string, span: SourceSpan): string {
+    const groovy = text.match(/\$\{\s*[A-Za-z_]\w*(\.[A-Za-z_]\w*|\s*\()[^}]*\}/g) ?? []
+    for (const expression of groovy) {
+      if (/^\$\{\s*(env|params)\.\w+\s*\}$/.test(expression)) continue
+      this.skip('expression', `Groovy interpolation ${expression} has no shell equivalent`, span)
+    }
+    return translateVariables(text)
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────
+// YAML output
+// ──────────────────────────────────────────────────────────────────
+
+/**
+ * Render the pipeline as YAML. Strings are quoted only when YAML would
+ * otherwise misread them; multi-line scripts use literal blocks. Findings
+ * become `# TODO(line N)` comments above their job, or under the header
+ * when they concern the whole pipeline.
+ */
+export function renderGitLabYaml(pipeline: GitLabPipeline, model?: PipelineModel, findings: ConversionFinding[] = []): string {
+  const todos = (job?: string) => findings
+    .filter(finding => finding.job === job)
+    // The commented rules stub of the job already explains untranslated conditions
+    .filter(finding => !(finding.kind === 'when' && job && pipeline.jobs[job]?.rules instanceof YamlComment))
+    .map(finding => `TODO(line ${finding.line}): ${finding.reason.replace(/\.$/, '')}. ${finding.action}`)
+  return renderYamlDocument({
+    comments: [`GitLab CI configuration converted from a ${model?.kind ?? 'Jenkins'} Jenkins pipeline`, ...todos()],
+    entries: [
+      { key: 'include', value: pipeline.include as unknown as YamlValue },
+      { key: 'stages', value: pipeline.stages },
+      { key: 'workflow', value: pipeline.workflow as unknown as YamlValue },
+      { key: 'default', value: pipeline.default },
+      { key: 'variables', value: Object.keys(pipeline.variables).length > 0 ? pipeline.variables : undefined },
+      ...Object.entries(pipeline.jobs).map(([key, job], index) => ({
+        key,
+        value: job as unknown as YamlValue,
+        comments: index === 0 && key.startsWith('.') ? ['Shared job settings'] : todos(key)
+      }))
+    ]
+  })
+}
+
+/**
+ * Settings of a job together with those of the templates it extends. The
+ * converter moves whole settings into templates, so nothing needs merging.
+ */
+export function jobSettings(pipeline: GitLabPipeline, job: GitLabJob): GitLabJob {
+  const templates = job.extends === undefined ? [] : ([] as string[]).concat(job.extends)
+  return Object.assign({}, ...templates.map(template => pipeline.jobs[template]), job)
+}
+
+/**
+ * CI/CD component template: the `spec:` header declaring the inputs, then
+ * the jobs, which refer to them as `$[[ inputs.name ]]`
+ */
+export function renderComponentTemplate(
+  comments: string[],
+  inputs: Record<string, { type?: string; default?: string | number | boolean }>,
+  jobs: Record<string, GitLabJob>
+): string {
+  const header = renderYamlDocument({ comments, entries: [{ key: 'spec', value: { inputs } as YamlValue }] })
+  const body = renderYamlDocument({
+    entries: Object.entries(jobs).map(([key, job]) => ({ key, value: job as unknown as YamlValue }))
+  })
+  return `${header}---\n${body}`
+}
+
+/** Settings file outside .gitlab-ci.yml, introduced by comment lines */
+function renderCompanionFile(comments: string[], document: Record<string, YamlValue>): string {
+  return renderYamlDocument({ comments, entries: Object.entries(document).map(([key, value]) => ({ key, value })) })
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────
+
+/** Whether a script reads a build output directory, by path or through the tool using it */
+function usesOutput(output: typeof BUILD_OUTPUTS[number], script: string): boolean {
+  const mentioned = new RegExp(`(^|[\\s'"=:(])(\\./)?${output.directory}`, 'm').test(script)
+  return mentioned || !!output.uses?.test(script)
+}
+
+/** Jobs that run only when the earlier jobs succeeded, as GitLab does by default */
+/** Axis combinations a matrix runs, out of the total before excludes */
+function matrixCombinations(matrix: PipelineMatrix): { combinations: Array<Record<string, string>>; total: number } {
+  let combinations: Array<Record<string, string>> = [{}]
+  for (const axis of matrix.axes) {
+    combinations = combinations.flatMap(combination => axis.values.map(value => ({ ...combination, [axis.name]: value })))
+  }
+  const total = combinations.length
+  combinations = combinations.filter(combination => !matrix.excludes.some(exclude =>
+    exclude.axes.every(axis => axis.notValues !== axis.values.includes(combination[axis.name] ?? ''))
+  ))
+  return { combinations, total }
+}
+
+function runsOnSuccess(job: GitLabJob): boolean {
+  const when = [job.when, ...(Array.isArray(job.rules) ? job.rules.map(rule => rule.when) : [])]
+  return when.every(value => value === undefined || value === 'on_success' || value === 'never')
+}
+
+/** When a job runs, in words, for the pipeline documentation */
+function describeRun(job: GitLabJob): string {
+  if (job.rules instanceof YamlComment) return 'under conditions still to be translated; see the commented rules of the job'
+  const manual = isManual(job) ? ', when started by hand' : ''
+  const conditions = (job.rules ?? []).filter(rule => rule.when !== 'never' && rule.if).map(rule => `\`${rule.if}\``)
+  const exclusions = (job.rules ?? []).filter(rule => rule.when === 'never' && rule.if).map(rule => `\`${rule.if}\``)
+  const when = job.when === 'on_failure' ? 'after an earlier job fails' : job.when === 'always' ? 'whatever the earlier jobs did' : 'in every pipeline'
+  const parts = [conditions.length > 0 ? `when ${conditions.join(' or ')}` : when]
+  if (exclusions.length > 0) parts.push(`except when ${exclusions.join(' or ')}`)
+  return parts.join(', ') + manual
+}
+
+/** Jobs with an environment, or whose name says they deploy */
+function deploys(name: string, job: GitLabJob): boolean {
+  return !!job.environment || DEPLOY_JOB.test(name)
+}
+
+/** Manual jobs, including those made manual by one of their rules */
+function isManual(job: GitLabJob): boolean {
+  return job.when === 'manual' || (Array.isArray(job.rules) && job.rules.some(rule => rule.when === 'manual'))
+}
+
+/** A job-level when cannot sit next to rules, so it moves into each rule */
+function setWhen(job: GitLabJob, rules: GitLabRule[] | YamlComment | undefined, when: JobWhen | undefined): void {
+  if (Array.isArray(rules) && when) {
+    job.rules = rules.map(rule => (rule.when ? rule : { ...rule, when }))
+  } else {
+    job.rules = rules
+    job.when = when
+  }
+}
+
+/** `when { }` blocks of a stage and everything enclosing it */
+function stageWhens(path: PipelineStage[]): StageWhen[] {
+  return path.flatMap(stage => [stage.when, stage.matrix?.when]).filter((w): w is StageWhen => !!w)
+}
+
+/** Environment of a job whose name says it deploys */
+function deployEnvironment(jobName: string): string | undefined {
+  if (!DEPLOY_JOB.test(jobName)) return undefined
+  return ENVIRONMENTS.find(environment => environment.pattern.test(jobName))?.name ?? 'production'
+}
+
+function scalarString(value: StaticValue | undefined): string | undefined {
+  if (typeof value === 'boolean') return String(value)
+  if (isGroovyExpression(value)) return undefined
+  return staticString(value)
+}
+
+/** GitLab job timeout for a Jenkins time and unit, e.g. `90` `SECONDS` → `2m` */
+function jobTimeout(time: StaticValue | undefined, unit: StaticValue | undefined): string | undefined {
+  const amount = Number(time)
+  if (!Number.isFinite(amount) || amount <= 0) return undefined
+  const name = String(unit ?? 'MINUTES').toUpperCase()
+  if (name.startsWith('HOUR')) return `${amount}h`
+  if (name.startsWith('DAY')) return `${amount * 24}h`
+  if (name.startsWith('SECOND')) return `${Math.max(1, Math.ceil(amount / 60))}m`
+  return `${amount}m`
+}
+
+/** GitLab retries a job at most twice; Jenkins counts the first attempt */
+function jobRetry(count: number): number {
+  return Math.max(0, Math.min(2, count - 1))
+}
+
+function nonEmpty<T>(items: T[]): T[] | undefined {
+  return items.length > 0 ? items : undefined
+}
+
+function isStaticTrue(value: StaticValue | undefined): boolean {
+  return value === true || value === 'true'
+}
+
+function dedent(text: string): string {
+  const lines = text.replace(/^\s*\n/, '').replace(/\s+$/, '').split('\n')
+  const indents = lines.filter(line => line.trim()).map(line => line.match(/^\s*/)![0].length)
+  const common = indents.length > 0 ? Math.min(...indents) : 0
+  return lines.map(line => line.slice(common)).join('\n')
+}
+
+function doubleQuote(text: string): string {
+  return `"${text.replace(/(["\\`])/g, '\\$1')}"`
+}
+
+/** Comma-separated Ant patterns; a trailing `/` matches the whole directory, as in GitLab */
+function antPatterns(patterns: string): string[] {
+  return patterns.split(',').map(pattern => pattern.trim()).filter(Boolean)
+}
+
+function joinPath(directory: string | undefined, path: string): string {
+  if (!directory || path.startsWith('/')) return path
+  return `${directory.replace(/\/+$/, '')}/${path.replace(/^\.\//, '')}`
+}
+
+function firstLine(source: string): string {
+  const line = source.split('\n')[0].trim()
+  return line.length > 80 ? line.slice(0, 77) + '...' : line
+}
+
+function describeStatement(type: string): string {
+  return type.replace(/(Statement|Declaration|Expression)$/, '').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase() || 'statement'
+}
+
+/** CI/CD variable prefix for a Jenkins credential id, e.g. `docker-registry-creds` → `DOCKER_REGISTRY_CREDS` */
+export function credentialVariable(credentialsId: string): string {
+  return credentialsId.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'CREDENTIAL'
+}
@@ -0,0 +1,523 @@
+/**
+ * Groovy Syntax Tree
+ *
+ * Node types produced by the Jenkinsfile parser together with the small set of
+ * helpers every consumer needs: walking the tree, matching pipeline steps and
+ * reading literal argument values.
+ */
+
+export interface SourcePosition {
+  line: number
+  column: number
+  offset: number
+}
+
+export interface SourceLocation {
+  start: SourcePosition
+  end: SourcePosition
+}
+
+interface BaseNode {
+  loc: SourceLocation
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Statements
+// ──────────────────────────────────────────────────────────────────
+
+export interface ScriptNode extends BaseNode {
+  type: 'Script'
+  body: StatementNode[]
+}
+
+export interface ExpressionStatement extends BaseNode {
+  type: 'ExpressionStatement'
+  expression: ExpressionNode
+}
+
+export interface VariableDeclaration extends BaseNode {
+  type: 'VariableDeclaration'
+  name: string
+  varType?: string
+  init?: ExpressionNode
+}
+
+export interface MethodParameter {
+  name: string
+  paramType?: string
+  defaultValue?: ExpressionNode
+}
+
+export interface MethodDeclaration extends BaseNode {
+  type: 'MethodDeclaration'
+  name: string
+  returnType?: string
+  params: MethodParameter[]
+  body: StatementNode[]
+}
+
+export interface ClassDeclaration extends BaseNode {
+  type: 'ClassDeclaration'
+  name: string
+  superClass?: string
+  body: StatementNode[]
+}
+
+export interface IfStatement extends BaseNode {
+  type: 'IfStatement'
+  test: ExpressionNode
+  consequent: StatementNode[]
+  alternate?: StatementNode[]
+}
+
+export interface CatchClause {
+  param: string
+  paramType?: string
+  body: StatementNode[]
+  loc: SourceLocation
+}
+
+export interface TryStatement extends BaseNode {
+  type: 'TryStatement'
+  block: StatementNode[]
+  handlers: CatchClause[]
+  finalizer?: StatementNode[]
+  /** From the `finally` keyword to the end of its block */
+  finalizerLoc?: SourceLocation
+}
+
+export interface ForStatement extends BaseNode {
+  type: 'ForStatement'
+  /** Loop variable for `for (x in items)` loops */
+  variable?: string
+  iterable?: ExpressionNode
+  /** Raw header for classic `for (init; test; update)` loops */
+  header?: string
+  body: StatementNode[]
+}
+
+export interface WhileStatement extends BaseNode {
+  type: 'WhileStatement'
+  test: ExpressionNode
+  body: StatementNode[]
+}
+
+export interface SwitchCase {
+  tests: ExpressionNode[]
+  body: StatementNode[]
+  loc: SourceLocation
+}
+
+export interface SwitchStatement extends BaseNode {
+  type: 'SwitchStatement'
+  discriminant: ExpressionNode
+  cases: SwitchCase[]
+}
+
+export interface ReturnStatement extends BaseNode {
+  type: 'ReturnStatement'
+  argument?: ExpressionNode
+}
+
+export interface ThrowStatement extends BaseNode {
+  type: 'ThrowStatement'
+  argument: ExpressionNode
+}
+
+export interface JumpStatement extends BaseNode {
+  type: 'BreakStatement' | 'ContinueStatement'
+}
+
+export interface BlockStatement extends BaseNode {
+  type: 'BlockStatement'
+  body: StatementNode[]
+}
+
+export interface ImportStatement extends BaseNode {
+  type: 'ImportStatement'
+  path: string
+}
+
+export interface Annotation {
+  name: string
+  arguments: ExpressionNode[]
+  namedArguments: NamedArgument[]
+  loc: SourceLocation
+}
+
+export interface AnnotatedStatement extends BaseNode {
+  type: 'AnnotatedStatement'
+  annotations: Annotation[]
+  statement?: StatementNode
+}
+
+/** Source the parser had to skip while recovering from a syntax error */
+export interface UnparsedStatement extends BaseNode {
+  type: 'Unparsed'
+  raw: string
+  reason: string
+}
+
+export type StatementNode =
+  | ExpressionStatement
+  | VariableDeclaration
+  | MethodDeclaration
+  | ClassDeclaration
+  | IfStatement
+  | TryStatement
+  | ForStatement
+  | WhileStatement
+  | SwitchStatement
+  | ReturnStatement
+  | ThrowStatement
+  | JumpStatement
+  | BlockStatement
+  | ImportStatement
+  | AnnotatedStatement
+  | UnparsedStatement
+
+// ──────────────────────────────────────────────────────────────────
+// Expressions
+// ──────────────────────────────────────────────────────────────────
+
+export interface Identifier extends BaseNode {
+  type: 'Identifier'
+  name: string
+}
+
+export interface Literal extends BaseNode {
+  type: 'Literal'
+  value: number | boolean | null
+  raw: string
+}
+
+export interface StringInterpolation {
+  raw: string
+  expression?: ExpressionNode
+}
+
+export interface StringLiteral extends BaseNode {
+  type: 'StringLiteral'
+  /** Cooked text; interpolations are kept as `${expr}` */
+  value: string
+  quote: "'" | '"' | "'''" | '"""' | '/' | '$/'
+  parts: Array<string | StringInterpolation>
+  interpolated: boolean
+}
+
+export interface ListExpression extends BaseNode {
+  type: 'ListExpression'
+  elements: ExpressionNode[]
+}
+
+export interface MapEntry {
+  key: string
+  keyNode: ExpressionNode
+  value: ExpressionNode
+}
+
+export interface MapExpression extends BaseNode {
+  type: 'MapExpression'
+  entries: MapEntry[]
+}
+
+export interface ClosureExpression extends BaseNode {
+  type: 'ClosureExpression'
+  params: string[]
+  body: StatementNode[]
+}
+
+export interface NamedArgument {
+  name: string
+  value: ExpressionNode
+  loc: SourceLocation
+}
+
+export interface MethodCall extends BaseNode {
+  type: 'MethodCall'
+  /** Receiver for `a.b()` style calls */
+  object?: ExpressionNode
+  method: string
+  arguments: ExpressionNode[]
+  namedArguments: NamedArgument[]
+  /** Trailing closure, e.g. `stage('x') { ... }` */
+  closure?: ClosureExpression
+  safe?: boolean
+  /** True for parenthesis-less calls such as `sh 'make'` */
+  command?: boolean
+}
+
+export interface PropertyAccess extends BaseNode {
+  type: 'PropertyAccess'
+  object: ExpressionNode
+  property: string
+  safe?: boolean
+}
+
+export interface IndexExpression extends BaseNode {
+  type: 'IndexExpression'
+  object: ExpressionNode
+  index: ExpressionNode
+}
+
+export interface BinaryExpression extends BaseNode {
+  type: 'BinaryExpression'
+  operator: string
+  left: ExpressionNode
+  right: ExpressionNode
+}
+
+export interface UnaryExpression extends BaseNode {
+  type: 'UnaryExpression'
+  operator: string
+  argument: ExpressionNode
+  prefix: boolean
+}
+
+export interface ConditionalExpression extends BaseNode {
+  type: 'ConditionalExpression'
+  test: ExpressionNode
+  /** Missing for the elvis operator `a ?: b` */
+  consequent?: ExpressionNode
+  alternate: ExpressionNode
+}
+
+export interface AssignmentExpression extends BaseNode {
+  type: 'AssignmentExpression'
+  operator: string
+  target: ExpressionNode
+  value: ExpressionNode
+}
+
+export interface NewExpression extends BaseNode {
+  type: 'NewExpression'
+  className: string
+  arguments: ExpressionNode[]
+  namedArguments: NamedArgument[]
+}
+
+export type ExpressionNode =
+  | Identifier
+  | Literal
+  | StringLiteral
+  | ListExpression
+  | MapExpression
+  | ClosureExpression
+  | MethodCall
+  | PropertyAccess
+  | IndexExpression
+  | BinaryExpression
+  | UnaryExpression
+  | ConditionalExpression
+  | AssignmentExpression
+  | NewExpression
+
+export type AstNode = ScriptNode | StatementNode | ExpressionNode
+
+export interface ParseError {
+  message: string
+  line: number
+  column: number
+}
+
+export interface ParseResult {
+  ast: ScriptNode
+  errors: ParseError[]
+  source: string
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Helpers
+// ──────────────────────────────────────────────────────────────────
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === 'object' && value !== null && 'type' in value && typeof value.type === 'string' && 'loc' in value
+}
+
+/**
+ * Direct child nodes of a node, in source order.
+ * Catch clauses, switch cases, map entries and named arguments are flattened
+ * so that callers only ever see real nodes.
+ */
+export function childNodes(node: AstNode): AstNode[] {
+  const children: AstNode[] = []
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect)
+    } else if (isNode(value)) {
+      children.push(value)
+    } else if (typeof value === 'object' && value !== null) {
+      // Containers such as CatchClause, MapEntry and NamedArgument
+      for (const [key, inner] of Object.entries(value)) {
+        if (key !== 'loc' && key !== 'keyNode') collect(inner)
+      }
+    }
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'loc' || key === 'type') continue
+    if (node.type === 'StringLiteral' && key === 'parts') {
+      for (const part of node.parts) {
+        if (typeof part !== 'string' && part.expression) children.push(part.expression)
+      }
+      continue
+    }
+    collect(value)
+  }
+  return children.sort((a, b) => a.loc.start.offset - b.loc.start.offset)
+}
+
+/**
+ * Depth-first walk. Returning false from the visitor skips the node's children.
+ */
+export function walk(
+  node: AstNode,
+  visit: (node: AstNode, ancestors: AstNode[]) => void | boolean,
+  ancestors: AstNode[] = []
+): void {
+  if (visit(node, ancestors) === false) return
+  const path = [...ancestors, node]
+  for (const child of childNodes(node)) {
+    walk(child, visit, path)
+  }
+}
+
+/**
+ * All method calls below a node, optionally filtered by method name
+ */
+export function findCalls(node: AstNode, method?: string): MethodCall[] {
+  const calls: MethodCall[] = []
+  walk(node, n => {
+    if (n.type === 'MethodCall' && (!method || n.method === method)) calls.push(n)
+  })
+  return calls
+}
+
+/**
+ * The call expression a statement consists of, if any (e.g. `sh 'make'`)
+ */
+export function statementCall(statement: StatementNode): MethodCall | undefined {
+  if (statement.type === 'ExpressionStatement' && statement.expression.type === 'MethodCall') {
+    return statement.expression
+  }
+  return undefined
+}
+
+/**
+ * Dotted name of a receiver chain, e.g. `docker.image` for `docker.image('x')`
+ */
+export function qualifiedName(node: ExpressionNode | undefined): string | undefined {
+  if (!node) return undefined
+  if (node.type === 'Identifier') return node.name
+  if (node.type === 'PropertyAccess') {
+    const base = qualifiedName(node.object)
+    return base ? `${base}.${node.property}` : undefined
+  }
+  if (node.type === 'MethodCall') {
+    const base = node.object ? qualifiedName(node.object) : undefined
+    return node.object ? (base ? `${base}.${node.method}` : undefined) : node.method
+  }
+  return undefined
+}
+
+/**
+ * Root identifier of a receiver chain, e.g. `docker` for `docker.image('x').inside()`
+ */
+export function receiverRoot(call: MethodCall): string | undefined {
+  let current: ExpressionNode | undefined = call.object
+  while (current) {
+    if (current.type === 'Identifier') return current.name
+    if (current.type === 'PropertyAccess' || current.type === 'IndexExpression') {
+      current = current.object
+    } else if (current.type === 'MethodCall') {
+      if (!current.object) return current.method
+      current = current.object
+    } else {
+      return undefined
+    }
+  }
+  return undefined
+}
+
+export function namedArgument(call: MethodCall | NewExpression | Annotation, name: string): ExpressionNode | undefined {
+  return call.namedArguments.find(arg => arg.name === name)?.value
+}
+
+/**
+ * Value of a literal expression. Strings, numbers, booleans, null, lists and
+ * maps of literals evaluate; anything that needs runtime state returns undefined.
+ */
+export function literalValue(node: ExpressionNode | undefined): unknown {
+  if (!node) return undefined
+  switch (node.type) {
+    case 'StringLiteral':
+      return node.value
+    case 'Literal':
+      return node.value
+    case 'UnaryExpression':
+      if (node.operator === '-' && node.argument.type === 'Literal' && typeof node.argument.value === 'number') {
+        return -node.argument.value
+      }
+      return undefined
+    case 'ListExpression': {
+      const values = node.elements.map(literalValue)
+      return values.some(v => v === undefined) ? undefined : values
+    }
+    case 'MapExpression': {
+      const result: Record<string, unknown> = {}
+      for (const entry of node.entries) {
+        const value = literalValue(entry.value)
+        if (value === undefined) return undefined
+        result[entry.key] = value
+      }
+      return result
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * String value of a string literal (interpolations kept as `${expr}`)
+ */
+export function stringValue(node: ExpressionNode | undefined): string | undefined {
+  if (!node) return undefined
+  if (node.type === 'StringLiteral') return node.value
+  return undefined
+}
+
+/**
+ * Exact source text of a node
+ */
+export function nodeSource(source: string, node: { loc: SourceLocation }): string {
+  return source.slice(node.loc.start.offset, node.loc.end.offset)
+}
+
+/**
+ * Structural description of a pipeline step, used instead of regexes so that
+ * comments, strings and nesting cannot produce false matches
+ */
+export interface StepPattern {
+  /** Method name, e.g. `withMaven` */
+  step?: string
+  /** Root receiver, e.g. `docker` for `docker.build(...)` */
+  receiver?: string
+  /** Named argument that must be present, e.g. `url` for `git url: ...` */
+  namedArg?: string
+  /** Identifier the first positional argument must be, e.g. `scm` for `checkout scm` */
+  firstArg?: string
+}
+
+export function matchesStep(call: MethodCall, pattern: StepPattern): boolean {
+  if (pattern.step !== undefined) {
+    if (call.method !== pattern.step) return false
+    // `foo.sh()` is not the `sh` step unless a receiver was asked for
+    if (pattern.receiver === undefined && call.object) return false
+  }
+  if (pattern.receiver !== undefined && receiverRoot(call) !== pattern.receiver) return false
+  if (pattern.namedArg !== undefined && !call.namedArguments.some(a => a.name === pattern.namedArg)) return false
+  if (pattern.firstArg !== undefined) {
+    const first = call.arguments[0]
+    if (!first || first.type !== 'Identifier' || first.name !== pattern.firstArg) return false
+  }
+  return true
+}
@@ -0,0 +1,386 @@
+/**
+ * Groovy Lexer
+ *
+ * Tokenizes Jenkinsfiles (a Groovy DSL) with exact source positions.
+ * Comments are dropped, string literals keep their interpolation parts,
+ * and newlines are emitted as tokens because they terminate statements.
+ */
+
+import { SourcePosition } from './groovy-ast'
+
+export type TokenType = 'identifier' | 'string' | 'number' | 'punct' | 'newline' | 'eof'
+
+export type StringQuote = "'" | '"' | "'''" | '"""' | '/' | '$/'
+
+export interface StringPart {
+  kind: 'text' | 'interpolation'
+  /** Cooked text for 'text' parts, raw Groovy source for 'interpolation' parts */
+  value: string
+  /** Offset of the interpolation source within the file */
+  offset: number
+  line: number
+  column: number
+}
+
+export interface Token {
+  type: TokenType
+  value: string
+  start: SourcePosition
+  end: SourcePosition
+  quote?: StringQuote
+  parts?: StringPart[]
+}
+
+export interface LexError {
+  message: string
+  line: number
+  column: number
+}
+
+// Longest operators first so that the greedy match picks them up
+const OPERATORS = [
+  '>>>=', '...', '..<', '<<=', '>>=', '===', '!==', '<=>', '==~', '>>>', '?.', '*.', '.&', '.@', '?:', '->', '=~',
+  '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '%=', '?=', '**', '<<', '>>', '::', '..',
+  '{', '}', '(', ')', '[', ']', ';', ',', '.', ':', '?', '=', '<', '>', '!', '+', '-', '*', '/', '%', '&', '|', '^', '~', '@'
+]
+
+// After these tokens a '/' is a division operator, anywhere else it opens a slashy string
+const DIVISION_PRECEDERS = new Set([')', ']', '}'])
+
+const KEYWORDS_BEFORE_EXPRESSION = new Set(['return', 'case', 'in', 'assert', 'throw'])
+
+export function tokenize(source: string): { tokens: Token[]; errors: LexError[] } {
+  return new GroovyLexer(source).run()
+}
+
+class GroovyLexer {
+  private pos = 0
+  private line = 1
+  private column = 1
+  private tokens: Token[] = []
+  private errors: LexError[] = []
+
+  constructor(private readonly source: string) {}
+
+  run(): { tokens: Token[]; errors: LexError[] } {
+    const src = this.source
+    if (src.startsWith('#!')) {
+      this.skipLineComment()
+    }
+
+    while (this.pos < src.length) {
+      const ch = src[this.pos]
+
+      if (ch === '\n') {
+        const start = this.position()
+        this.advance()
+        const last = this.tokens[this.tokens.length - 1]
+        if (last && last.type !== 'newline') {
+          this.tokens.push({ type: 'newline', value: '\n', start, end: this.position() })
+        }
+        continue
+      }
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\f' || ch === '﻿') {
+        this.advance()
+        continue
+      }
+      if (ch === '\\' && (src[this.pos + 1] === '\n' || (src[this.pos + 1] === '\r' && src[this.pos + 2] === '\n'))) {
+        // Explicit line continuation
+        this.advance()
+        if (src[this.pos] === '\r') this.advance()
+        this.advance()
+        continue
+      }
+      if (ch === '/' && src[this.pos + 1] === '/') {
+        this.skipLineComment()
+        continue
+      }
+      if (ch === '/' && src[this.pos + 1] === '*') {
+        this.skipBlockComment()
+        continue
+      }
+      if (src.startsWith("'''", this.pos) || src.startsWith('"""', this.pos)) {
+        this.readString(src.substr(this.pos, 3) as StringQuote)
+        continue
+      }
+      if (ch === "'" || ch === '"') {
+        this.readString(ch)
+        continue
+      }
+      if (src.startsWith('$/', this.pos)) {
+        this.readString('$/')
+        continue
+      }
+      if (ch === '/' && this.slashyStringAllowed()) {
+        this.readString('/')
+        continue
+      }
+      if (isDigit(ch) || (ch === '.' && isDigit(src[this.pos + 1] ?? '') && !this.previousIsValue())) {
+        this.readNumber()
+        continue
+      }
+      if (isIdentifierStart(ch)) {
+        this.readIdentifier()
+        continue
+      }
+
+      const op = OPERATORS.find(candidate => src.startsWith(candidate, this.pos))
+      if (op) {
+        const start = this.position()
+        for (let i = 0; i < op.length; i++) this.advance()
+        this.tokens.push({ type: 'punct', value: op, start, end: this.position() })
+        continue
+      }
+
+      this.errors.push({ message: `Unexpected character '${ch}'`, line: this.line, column: this.column })
+      this.advance()
+    }
+
+    const eofPos = this.position()
+    this.tokens.push({ type: 'eof', value: '', start: eofPos, end: eofPos })
+    return { tokens: this.tokens, errors: this.errors }
+  }
+
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column, offset: this.pos }
+  }
+
+  private advance(): string {
+    const ch = this.source[this.pos++]
+    if (ch === '\n') {
+      this.line++
+      this.column = 1
+    } else {
+      this.column++
+    }
+    return ch
+  }
+
+  private skipLineComment(): void {
+    while (this.pos < this.source.length && this.source[this.pos] !== '\n') this.advance()
+  }
+
+  private skipBlockComment(): void {
+    const start = this.position()
+    this.advance()
+    this.advance()
+    while (this.pos < this.source.length && !this.source.startsWith('*/', this.pos)) this.advance()
+    if (this.pos >= this.source.length) {
+      this.errors.push({ message: 'Unterminated block comment', line: start.line, column: start.column })
+      return
+    }
+    this.advance()
+    this.advance()
+  }
+
+  private previousIsValue(): boolean {
+    const last = this.tokens[this.tokens.length - 1]
+    if (!last || last.type === 'newline') return false
+    if (last.type === 'identifier') return !KEYWORDS_BEFORE_EXPRESSION.has(last.value)
+    if (last.type === 'string' || last.type === 'number') return true
+    return last.type === 'punct' && DIVISION_PRECEDERS.has(last.value)
+  }
+
+  private slashyStringAllowed(): boolean {
+    if (this.previousIsValue()) return false
+    // A slashy string never starts with whitespace or '=' (that would be '/=')
+    const next = this.source[this.pos + 1]
+    return next !== undefined && next !== ' ' && next !== '\n' && next !== '='
+  }
+
+  private readNumber(): void {
+    const start = this.position()
+    const src = this.source
+    let text = ''
+    if (src[this.pos] === '0' && (src[this.pos + 1] === 'x' || src[this.pos + 1] === 'X')) {
+      text += this.advance() + this.advance()
+      while (/[0-9a-fA-F_]/.test(src[this.pos] ?? '')) text += this.advance()
+    } else {
+      while (/[0-9_]/.test(src[this.pos] ?? '')) text += this.advance()
+      if (src[this.pos] === '.' && isDigit(src[this.pos + 1] ?? '')) {
+        text += this.advance()
+        while (/[0-9_]/.test(src[this.pos] ?? '')) text += this.advance()
+      }
+      if ((src[this.pos] === 'e' || src[this.pos] === 'E') && /[0-9+-]/.test(src[this.pos + 1] ?? '')) {
+        text += this.advance() + this.advance()
+        while (isDigit(src[this.pos] ?? '')) text += this.advance()
+      }
+    }
+    if (/[lLiIgGdDfF]/.test(src[this.pos] ?? '') && !isIdentifierPart(src[this.pos + 1] ?? '')) {
+      this.advance()
+    }
+    this.tokens.push({ type: 'number', value: text.replace(/_/g, ''), start, end: this.position() })
+  }
+
+  private readIdentifier(): void {
+    const start = this.position()
+    let text = ''
+    while (this.pos < this.source.length && isIdentifierPart(this.source[this.pos])) text += this.advance()
+    this.tokens.push({ type: 'identifier', value: text, start, end: this.position() })
+  }
+
+  private readString(quote: StringQuote): void {
+    const start = this.position()
+    for (let i = 0; i < quote.length; i++) this.advance()
+
+    const interpolating = quote === '"' || quote === '"""' || quote === '/' || quote === '$/'
+    const multiline = quote.length === 3 || quote === '/' || quote === '$/'
+    // Dollar-slashy strings open with '$/' and close with '/$'
+    const closing = quote === '$/' ? '/$' : quote
+    const parts: StringPart[] = []
+    let text = ''
+    let textStart = this.position()
+    let terminated = false
+
+    const flushText = () => {
+      if (text) parts.push({ kind: 'text', value: text, offset: textStart.offset, line: textStart.line, column: textStart.column })
+      text = ''
+    }
+
+    while (this.pos < this.source.length) {
+      if (quote === '$/' && (this.source.startsWith('$$', this.pos) || this.source.startsWith('$/', this.pos))) {
+        // Dollar-slashy strings escape with '$' and keep backslashes as they are
+        this.advance()
+        text += this.advance()
+        continue
+      }
+      if (this.source.startsWith(closing, this.pos)) {
+        for (let i = 0; i < closing.length; i++) this.advance()
+        terminated = true
+        break
+      }
+      const ch = this.source[this.pos]
+      if (ch === '\n' && !multiline) break
+
+      if (ch === '\\' && quote !== '$/') {
+        if (quote === '/') {
+          // Slashy strings only escape the delimiter
+          this.advance()
+          if (this.source[this.pos] === '/') {
+            text += this.advance()
+          } else {
+            text += '\\'
+          }
+          continue
+        }
+        text += this.readEscape()
+        continue
+      }
+
+      if (interpolating && ch === '$') {
+        const next = this.source[this.pos + 1]
+        if (next === '{') {
+          flushText()
+          this.readBracedInterpolation(parts)
+          textStart = this.position()
+          continue
+        }
+        if (next !== undefined && isIdentifierStart(next) && next !== '$') {
+          flushText()
+          this.readDottedInterpolation(parts)
+          textStart = this.position()
+          continue
+        }
+      }
+
+      text += this.advance()
+    }
+    flushText()
+
+    if (!terminated) {
+      this.errors.push({ message: `Unterminated string literal`, line: start.line, column: start.column })
+    }
+
+    const value = parts.map(p => (p.kind === 'text' ? p.value : '${' + p.value + '}')).join('')
+    this.tokens.push({ type: 'string', value, start, end: this.position(), quote, parts })
+  }
+
+  private readEscape(): string {
+    this.advance()
+    const ch = this.source[this.pos]
+    if (ch === undefined) return '\\'
+    if (ch === '\n') {
+      this.advance()
+      return ''
+    }
+    this.advance()
+    switch (ch) {
+      case 'n': return '\n'
+      case 't': return '\t'
+      case 'r': return '\r'
+      case 'b': return '\b'
+      case 'f': return '\f'
+      case 'u': {
+        const hex = this.source.substr(this.pos, 4)
+        if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+          for (let i = 0; i < 4; i++) this.advance()
+          return String.fromCharCode(parseInt(hex, 16))
+        }
+        return 'u'
+      }
+      // An escaped dollar is a literal '$', which is exactly what a shell expects to see
+      default: return ch
+    }
+  }
+
+  private readBracedInterpolation(parts: StringPart[]): void {
+    this.advance() // $
+    this.advance() // {
+    const exprStart = this.position()
+    let depth = 1
+    let raw = ''
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos]
+      if (ch === '{') depth++
+      if (ch === '}') {
+        depth--
+        if (depth === 0) break
+      }
+      if (ch === "'" || ch === '"') {
+        raw += this.copyNestedString(ch)
+        continue
+      }
+      raw += this.advance()
+    }
+    if (this.source[this.pos] === '}') this.advance()
+    parts.push({ kind: 'interpolation', value: raw.trim(), offset: exprStart.offset, line: exprStart.line, column: exprStart.column })
+  }
+
+  private readDottedInterpolation(parts: StringPart[]): void {
+    this.advance() // $
+    const exprStart = this.position()
+    let raw = ''
+    while (this.pos < this.source.length) {
+      while (isIdentifierPart(this.source[this.pos] ?? '')) raw += this.advance()
+      // "$a.b" continues the path, "$a." followed by a non-identifier does not
+      if (this.source[this.pos] === '.' && isIdentifierStart(this.source[this.pos + 1] ?? '')) {
+        raw += this.advance()
+        continue
+      }
+      break
+    }
+    parts.push({ kind: 'interpolation', value: raw, offset: exprStart.offset, line: exprStart.line, column: exprStart.column })
+  }
+
+  private copyNestedString(quote: string): string {
+    let raw = this.advance()
+    while (this.pos < this.source.length && this.source[this.pos] !== quote && this.source[this.pos] !== '\n') {
+      if (this.source[this.pos] === '\\') raw += this.advance()
+      if (this.pos < this.source.length) raw += this.advance()
+    }
+    if (this.source[this.pos] === quote) raw += this.advance()
+    return raw
+  }
+}
+
+function isDigit(ch: string): boolean {
+  return ch >= '0' && ch <= '9'
+}
+
+function isIdentifierStart(ch: string): boolean {
+  return /[A-Za-z_$À-￿]/.test(ch)
+}
+
+function isIdentifierPart(ch: string): boolean {
+  return /[A-Za-z0-9_$À-￿]/.test(ch)
+}
@@ -0,0 +1,1193 @@
+/**
+ * Jenkinsfile Parser
+ *
+ * Recursive-descent parser for the Groovy subset used by declarative and
+ * scripted Jenkins pipelines. Produces a syntax tree with source positions and
+ * never throws: syntax errors are collected and the offending source is kept
+ * as `Unparsed` statements so that the rest of the file is still analyzed.
+ */
+
+import { tokenize, Token, StringPart } from './groovy-lexer'
+import {
+  Annotation,
+  CatchClause,
+  ClosureExpression,
+  ExpressionNode,
+  MapEntry,
+  MethodCall,
+  MethodParameter,
+  NamedArgument,
+  ParseError,
+  ParseResult,
+  ScriptNode,
+  SourceLocation,
+  SourcePosition,
+  StatementNode,
+  statementCall,
+  StringInterpolation,
+  SwitchCase
+} from './groovy-ast'
+
+const MODIFIERS = new Set(['public', 'private', 'protected', 'static', 'final', 'abstract', 'synchronized', 'transient', 'volatile'])
+
+const PRIMITIVE_TYPES = new Set(['void', 'boolean', 'byte', 'char', 'short', 'int', 'long', 'float', 'double'])
+
+// Identifiers that cannot be the name of a parenthesis-less command call
+const RESERVED = new Set([
+  'if', 'else', 'for', 'while', 'do', 'try', 'catch', 'finally', 'switch', 'case', 'default', 'return', 'throw',
+  'break', 'continue', 'def', 'new', 'class', 'interface', 'enum', 'import', 'package', 'in', 'instanceof', 'as',
+  'true', 'false', 'null', 'assert'
+])
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '?=', '<<=', '>>=', '>>>=', '**='])
+
+// Binary operator precedence, lowest first
+const BINARY_LEVELS: string[][] = [
+  ['||'],
+  ['&&'],
+  ['|'],
+  ['^'],
+  ['&'],
+  ['==', '!=', '<=>', '===', '!==', '=~', '==~'],
+  ['<', '>', '<=', '>=', 'in', 'instanceof', 'as'],
+  ['..', '..<'],
+  ['<<', '>>', '>>>'],
+  ['+', '-'],
+  ['*', '/', '%'],
+  ['**']
+]
+
+class SyntaxError extends Error {
+  constructor(message: string, readonly token: Token) {
+    super(message)
+  }
+}
+
+// Cache of recent parses so that scanning, plugin analysis and conversion of
+// the same upload all read one tree
+const parseCache = new Map<string, ParseResult>()
+const PARSE_CACHE_SIZE = 20
+
+/**
+ * Parse a Jenkinsfile into a syntax tree
+ */
+export function parseJenkinsfile(source: string): ParseResult {
+  const cached = parseCache.get(source)
+  if (cached) return cached
+
+  const result = new GroovyParser(source).parse()
+  parseCache.set(source, result)
+  if (parseCache.size > PARSE_CACHE_SIZE) {
+    const oldest = parseCache.keys().next().value
+    if (oldest !== undefined) parseCache.delete(oldest)
+  }
+  return result
+}
+
+class GroovyParser {
+  private tokens: Token[]
+  private pos = 0
+  private errors: ParseError[] = []
+  // One entry per nesting level; true while newlines are insignificant (inside parentheses or brackets)
+  private newlineModes: boolean[] = [false]
+
+  constructor(private readonly source: string, private readonly baseTokens?: Token[]) {
+    if (baseTokens) {
+      this.tokens = baseTokens
+    } else {
+      const { tokens, errors } = tokenize(source)
+      this.tokens = tokens
+      this.errors.push(...errors)
+    }
+  }
+
+  parse(): ParseResult {
+    const body = this.parseStatements(false)
+    const ast: ScriptNode = { type: 'Script', body, loc: { start: { line: 1, column: 1, offset: 0 }, end: this.peekRaw().end } }
+    this.errors.sort((a, b) => a.line - b.line || a.column - b.column)
+    return { ast, errors: this.errors, source: this.source }
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Token helpers
+  // ──────────────────────────────────────────────────────────────────
+
+  private get ignoringNewlines(): boolean {
+    return this.newlineModes[this.newlineModes.length - 1]
+  }
+
+  private peekRaw(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)]
+  }
+
+  private peek(offset = 0): Token {
+    if (!this.ignoringNewlines) return this.peekRaw(offset)
+    let i = this.pos
+    let remaining = offset
+    while (i < this.tokens.length - 1) {
+      if (this.tokens[i].type !== 'newline') {
+        if (remaining === 0) break
+        remaining--
+      }
+      i++
+    }
+    return this.tokens[i]
+  }
+
+  private next(): Token {
+    if (this.ignoringNewlines) {
+      while (this.tokens[this.pos].type === 'newline') this.pos++
+    }
+    const token = this.tokens[this.pos]
+    if (this.pos < this.tokens.length - 1) this.pos++
+    return token
+  }
+
+  private skipNewlines(): void {
+    while (this.tokens[this.pos].type === 'newline' || this.isPunct(this.tokens[this.pos], ';')) this.pos++
+  }
+
+  private previousEnd(): SourcePosition {
+    for (let i = this.pos - 1; i >= 0; i--) {
+      if (this.tokens[i].type !== 'newline') return this.tokens[i].end
+    }
+    return this.tokens[0].start
+  }
+
+  private isPunct(token: Token, value?: string): boolean {
+    return token.type === 'punct' && (value === undefined || token.value === value)
+  }
+
+  private isIdent(token: Token, value?: string): boolean {
+    return token.type === 'identifier' && (value === undefined || token.value === value)
+  }
+
+  private check(value: string): boolean {
+    const token = this.peek()
+    return (token.type === 'punct' || token.type === 'identifier') && token.value === value
+  }
+
+  private accept(value: string): boolean {
+    if (this.check(value)) {
+      this.next()
+      return true
+    }
+    return false
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek()
+    if ((token.type === 'punct' || token.type === 'identifier') && token.value === value) return this.next()
+    throw new SyntaxError(`Expected '${value}' but found ${describe(token)}`, token)
+  }
+
+  private expectIdentifier(): Token {
+    const token = this.peek()
+    if (token.type === 'identifier') return this.next()
+    throw new SyntaxError(`Expected identifier but found ${describe(token)}`, token)
+  }
+
+  private withNewlineMode<T>(ignore: boolean, fn: () => T): T {
+    this.newlineModes.push(ignore)
+    try {
+      return fn()
+    } finally {
+      this.newlineModes.pop()
+    }
+  }
+
+  private loc(start: SourcePosition): SourceLocation {
+    return { start, end: this.previousEnd() }
+  }
+
+  /** Peek past newlines regardless of mode */
+  private peekPastNewlines(): Token {
+    let i = this.pos
+    while (i < this.tokens.length - 1 && this.tokens[i].type === 'newline') i++
+    return this.tokens[i]
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Statements
+  // ──────────────────────────────────────────────────────────────────
+
+  /**
+   * Parse statements until EOF or (when inBlock) a closing brace
+   */
+  private parseStatements(inBlock: boolean): StatementNode[] {
+    const statements: StatementNode[] = []
+    this.withNewlineMode(false, () => {
+      for (;;) {
+        this.skipNewlines()
+        const token = this.peekRaw()
+        if (token.type === 'eof') break
+        if (this.isPunct(token, '}')) {
+          if (inBlock) break
+          this.errors.push({ message: "Unexpected '}'", line: token.start.line, column: token.start.column })
+          this.pos++
+          continue
+        }
+
+        const startPos = this.pos
+        try {
+          const statement = this.parseStatement()
+          if (statement) statements.push(statement)
+          this.expectStatementEnd(statement)
+        } catch (error) {
+          if (!(error instanceof SyntaxError)) throw error
+          statements.push(this.recover(startPos, error))
+        }
+        if (this.pos === startPos) {
+          // Guarantee progress
+          this.pos++
+        }
+      }
+    })
+    return statements
+  }
+
+  private expectStatementEnd(statement?: StatementNode): void {
+    const token = this.peekRaw()
+    if (token.type === 'newline' || token.type === 'eof' || this.isPunct(token, ';') || this.isPunct(token, '}')) return
+    // Sibling blocks on one line, as in `post { success { } cleanup { } }`
+    if (token.type === 'identifier' && statement && statementCall(statement)?.closure && this.isPunct(this.tokens[this.pos - 1], '}')) return
+    throw new SyntaxError(`Unexpected ${describe(token)}`, token)
+  }
+
+  /**
+   * Skip to the end of the broken statement and keep its text as an Unparsed node
+   */
+  private recover(startPos: number, error: SyntaxError): StatementNode {
+    this.errors.push({ message: error.message, line: error.token.start.line, column: error.token.start.column })
+    // Restart from the failing statement's own tokens so that nested braces are balanced
+    this.pos = startPos
+    const open: string[] = []
+    const start = this.tokens[startPos].start
+    while (this.pos < this.tokens.length - 1) {
+      const token = this.tokens[this.pos]
+      if (this.isPunct(token, '{') || this.isPunct(token, '(') || this.isPunct(token, '[')) {
+        open.push(token.value)
+      } else if (this.isPunct(token, '}') || this.isPunct(token, ')') || this.isPunct(token, ']')) {
+        if (open.length === 0) break
+        // Unclosed parentheses inside a block (e.g. `stage('x' {`) are dropped when the block closes
+        const opener = token.value === '}' ? '{' : token.value === ')' ? '(' : '['
+        const index = open.lastIndexOf(opener)
+        if (index >= 0) open.length = index
+        if (token.value === '}' && !open.includes('{')) {
+          const following = this.tokens[this.pos + 1]
+          if (open.length === 0 || following.type === 'newline' || following.type === 'eof' || this.isPunct(following, '}')) {
+            this.pos++
+            break
+          }
+        }
+      } else if (token.type === 'newline' && open.length === 0 && this.pos > startPos) {
+        break
+      }
+      this.pos++
+    }
+    const end = this.previousEnd()
+    const safeEnd = end.offset < start.offset ? start : end
+    return {
+      type: 'Unparsed',
+      raw: this.source.slice(start.offset, safeEnd.offset),
+      reason: error.message,
+      loc: { start, end: safeEnd }
+    }
+  }
+
+  private parseStatement(): StatementNode | undefined {
+    const token = this.peek()
+    const start = token.start
+
+    if (this.isPunct(token, ';')) {
+      this.next()
+      return undefined
+    }
+    if (this.isPunct(token, '@') && this.isIdent(this.peek(1)) && this.peek(1).value !== 'interface') {
+      return this.parseAnnotated()
+    }
+    if (this.isPunct(token, '{')) {
+      this.next()
+      const body = this.parseBlockBody()
+      return { type: 'BlockStatement', body, loc: this.loc(start) }
+    }
+
+    if (token.type === 'identifier') {
+      switch (token.value) {
+        case 'if': return this.parseIf()
+        case 'try': return this.parseTry()
+        case 'for': return this.parseFor()
+        case 'while': return this.parseWhile()
+        case 'switch': return this.parseSwitch()
+        case 'return': {
+          this.next()
+          const argument = this.atStatementEnd() ? undefined : this.parseExpression()
+          return { type: 'ReturnStatement', argument, loc: this.loc(start) }
+        }
+        case 'throw': {
+          this.next()
+          const argument = this.parseExpression()
+          return { type: 'ThrowStatement', argument, loc: this.loc(start) }
+        }
+        case 'assert': {
+          // Modelled as a call so that consumers treat it like any other step
+          this.next()
+          const args = [this.parseExpression()]
+          if (this.accept(':') || this.accept(',')) args.push(this.parseExpression())
+          const expression: ExpressionNode = {
+            type: 'MethodCall', method: 'assert', arguments: args, namedArguments: [], command: true, loc: this.loc(start)
+          }
+          return { type: 'ExpressionStatement', expression, loc: this.loc(start) }
+        }
+        case 'break':
+        case 'continue':
+          this.next()
+          if (this.peekRaw().type === 'identifier') this.next() // label
+          return { type: token.value === 'break' ? 'BreakStatement' : 'ContinueStatement', loc: this.loc(start) }
+        case 'import':
+        case 'package': {
+          this.next()
+          let path = ''
+          while (!this.atStatementEnd()) path += this.next().value
+          return { type: 'ImportStatement', path: path.trim(), loc: this.loc(start) }
+        }
+        case 'class':
+        case 'interface':
+        case 'enum':
+          return this.parseClass()
+      }
+
+      const declaration = this.tryParseDeclaration()
+      if (declaration) return declaration
+    }
+
+    return this.parseExpressionStatement()
+  }
+
+  private atStatementEnd(): boolean {
+    const token = this.peekRaw()
+    return token.type === 'newline' || token.type === 'eof' || this.isPunct(token, ';') || this.isPunct(token, '}')
+  }
+
+  private parseAnnotated(): StatementNode {
+    const start = this.peek().start
+    const annotations: Annotation[] = []
+    while (this.isPunct(this.peekPastNewlines(), '@') && this.isIdent(this.peekAfterNewlines(1))) {
+      this.skipNewlines()
+      const annotationStart = this.next().start
+      let name = this.expectIdentifier().value
+      while (this.isPunct(this.peekRaw(), '.') && this.isIdent(this.peekRaw(1))) {
+        this.next()
+        name += '.' + this.next().value
+      }
+      let args: ExpressionNode[] = []
+      let named: NamedArgument[] = []
+      if (this.isPunct(this.peekRaw(), '(')) {
+        ;({ args, named } = this.parseArguments())
+      }
+      annotations.push({ name, arguments: args, namedArguments: named, loc: this.loc(annotationStart) })
+    }
+    this.skipNewlines()
+    const statement = this.atStatementEnd() ? undefined : this.parseStatement()
+    return { type: 'AnnotatedStatement', annotations, statement, loc: this.loc(start) }
+  }
+
+  private peekAfterNewlines(offset: number): Token {
+    let i = this.pos
+    while (i < this.tokens.length - 1 && this.tokens[i].type === 'newline') i++
+    return this.tokens[Math.min(i + offset, this.tokens.length - 1)]
+  }
+
+  private parseBlockBody(): StatementNode[] {
+    const body = this.parseStatements(true)
+    if (!this.isPunct(this.peekRaw(), '}')) {
+      const token = this.peekRaw()
+      this.errors.push({ message: "Missing closing '}'", line: token.start.line, column: token.start.column })
+      return body
+    }
+    this.pos++
+    return body
+  }
+
+  /** Body of if/for/while: either a braced block or a single statement */
+  private parseBody(): StatementNode[] {
+    const ahead = this.peekPastNewlines()
+    if (this.isPunct(ahead, '{')) {
+      this.skipNewlines()
+      this.next()
+      return this.parseBlockBody()
+    }
+    this.skipNewlines()
+    const statement = this.parseStatement()
+    return statement ? [statement] : []
+  }
+
+  private parseParenthesized<T>(fn: () => T): T {
+    this.expect('(')
+    const result = this.withNewlineMode(true, fn)
+    this.withNewlineMode(true, () => this.expect(')'))
+    return result
+  }
+
+  private parseIf(): StatementNode {
+    const start = this.next().start
+    const test = this.parseParenthesized(() => this.parseExpression())
+    const consequent = this.parseBody()
+    let alternate: StatementNode[] | undefined
+    if (this.isIdent(this.peekPastNewlines(), 'else')) {
+      this.skipNewlines()
+      this.next()
+      if (this.isIdent(this.peekPastNewlines(), 'if')) {
+        this.skipNewlines()
+        alternate = [this.parseIf()]
+      } else {
+        alternate = this.parseBody()
+      }
+    }
+    return { type: 'IfStatement', test, consequent, alternate, loc: this.loc(start) }
+  }
+
+  private parseTry(): StatementNode {
+    const start = this.next().start
+    this.skipNewlines()
+    this.expect('{')
+    const block = this.parseBlockBody()
+    const handlers: CatchClause[] = []
+    let finalizer: StatementNode[] | undefined
+    let finalizerLoc: SourceLocation | undefined
+
+    while (this.isIdent(this.peekPastNewlines(), 'catch')) {
+      this.skipNewlines()
+      const catchStart = this.next().start
+      const { param, paramType } = this.parseParenthesized(() => {
+        const names: string[] = []
+        while (!this.check(')')) {
+          const token = this.next()
+          if (token.type === 'eof') throw new SyntaxError('Unterminated catch clause', token)
+          if (token.type === 'identifier') names.push(token.value)
+        }
+        const param = names.pop() ?? 'e'
+        return { param, paramType: names.length ? names.filter(n => n !== 'final').join(' | ') || undefined : undefined }
+      })
+      this.skipNewlines()
+      this.expect('{')
+      const body = this.parseBlockBody()
+      handlers.push({ param, paramType, body, loc: this.loc(catchStart) })
+    }
+    if (this.isIdent(this.peekPastNewlines(), 'finally')) {
+      this.skipNewlines()
+      const finallyStart = this.next().start
+      this.skipNewlines()
+      this.expect('{')
+      finalizer = this.parseBlockBody()
+      finalizerLoc = this.loc(finallyStart)
+    }
+    return { type: 'TryStatement', block, handlers, finalizer, finalizerLoc, loc: this.loc(start) }
+  }
+
+  private parseFor(): StatementNode {
+    const start = this.next().start
+    const header = this.parseParenthesized(() => {
+      const headerStart = this.peek().start
+      // for (x in items) / for (Type x in items) / for (def x : items)
+      const saved = this.pos
+      const names: string[] = []
+      while (this.isIdent(this.peek()) && !this.check('in')) {
+        names.push(this.next().value)
+      }
+      if (names.length > 0 && (this.check('in') || this.check(':'))) {
+        this.next()
+        const iterable = this.parseExpression()
+        return { variable: names[names.length - 1], iterable }
+      }
+      this.pos = saved
+      let depth = 0
+      while (!(depth === 0 && this.check(')'))) {
+        const token = this.next()
+        if (token.type === 'eof') throw new SyntaxError('Unterminated for header', token)
+        if (this.isPunct(token, '(')) depth++
+        if (this.isPunct(token, ')')) depth--
+      }
+      return { header: this.source.slice(headerStart.offset, this.previousEnd().offset) }
+    })
+    const body = this.parseBody()
+    return { type: 'ForStatement', ...header, body, loc: this.loc(start) }
+  }
+
+  private parseWhile(): StatementNode {
+    const start = this.next().start
+    const test = this.parseParenthesized(() => this.parseExpression())
+    const body = this.parseBody()
+    return { type: 'WhileStatement', test, body, loc: this.loc(start) }
+  }
+
+  private parseSwitch(): StatementNode {
+    const start = this.next().start
+    const discriminant = this.parseParenthesized(() => this.parseExpression())
+    this.skipNewlines()
+    this.expect('{')
+    const cases: SwitchCase[] = []
+    this.withNewlineMode(false, () => {
+      for (;;) {
+        this.skipNewlines()
+        const token = this.peekRaw()
+        if (token.type === 'eof' || this.isPunct(token, '}')) break
+        const caseStart = token.start
+        const tests: ExpressionNode[] = []
+        while (this.isIdent(this.peekPastNewlines(), 'case') || this.isIdent(this.peekPastNewlines(), 'default')) {
+          this.skipNewlines()
+          const label = this.next()
+          if (label.value === 'case') tests.push(this.withNewlineMode(true, () => this.parseExpression()))
+          this.expect(':')
+        }
+        if (this.pos < this.tokens.length && tests.length === 0 && !this.isIdent(token, 'default')) {
+          if (!this.isIdent(this.tokens[this.pos - 1], 'default') && !this.isPunct(this.tokens[this.pos - 1], ':')) {
+            throw new SyntaxError(`Expected 'case' but found ${describe(token)}`, token)
+          }
+        }
+        const body: StatementNode[] = []
+        for (;;) {
+          this.skipNewlines()
+          const next = this.peekRaw()
+          if (next.type === 'eof' || this.isPunct(next, '}') || this.isIdent(next, 'case') || this.isIdent(next, 'default')) break
+          const statement = this.parseStatement()
+          if (statement) body.push(statement)
+          this.expectStatementEnd(statement)
+        }
+        cases.push({ tests, body, loc: this.loc(caseStart) })
+      }
+    })
+    this.expect('}')
+    return { type: 'SwitchStatement', discriminant, cases, loc: this.loc(start) }
+  }
+
+  private parseClass(): StatementNode {
+    const start = this.next().start
+    const name = this.expectIdentifier().value
+    let superClass: string | undefined
+    while (!this.isPunct(this.peekPastNewlines(), '{')) {
+      const token = this.next()
+      if (token.type === 'eof') throw new SyntaxError(`Expected class body for ${name}`, token)
+      if (this.isIdent(token, 'extends')) superClass = this.expectIdentifier().value
+    }
+    this.skipNewlines()
+    this.expect('{')
+    const body = this.parseBlockBody()
+    return { type: 'ClassDeclaration', name, superClass, body, loc: this.loc(start) }
+  }
+
+  /**
+   * Variable and method declarations:
+   *   def x = 1 / String x = 'a' / List<String> xs = [] / def call(Map config) { } / void run() { }
+   */
+  private tryParseDeclaration(): StatementNode | undefined {
+    const saved = this.pos
+    const start = this.peek().start
+    let sawModifier = false
+    while (this.isIdent(this.peekRaw()) && MODIFIERS.has(this.peekRaw().value)) {
+      this.next()
+      sawModifier = true
+    }
+
+    const first = this.peekRaw()
+    if (!this.isIdent(first)) {
+      this.pos = saved
+      return undefined
+    }
+
+    let varType: string | undefined
+    let name: Token | undefined
+
+    if (first.value === 'def') {
+      this.next()
+      // `def Type name` is legal too
+      if (this.isIdent(this.peekRaw()) && this.isIdent(this.peekRaw(1))) {
+        varType = this.next().value
+      }
+      if (!this.isIdent(this.peekRaw())) {
+        this.pos = saved
+        return undefined
+      }
+      name = this.next()
+    } else {
+      const typeName = this.tryParseTypeName()
+      if (typeName && this.isIdent(this.peekRaw()) && !RESERVED.has(this.peekRaw().value)) {
+        const after = this.peekRaw(1)
+        const looksLikeType = typeName.includes('<') || typeName.endsWith(']') || /^[A-Z]/.test(typeName) || PRIMITIVE_TYPES.has(typeName) || sawModifier
+        const declares = this.isPunct(after, '=') || after.type === 'newline' || after.type === 'eof' || this.isPunct(after, ';') || this.isPunct(after, '}')
+        if (looksLikeType && (declares || (this.isPunct(after, '(') && this.methodBodyFollows(this.pos + 1)))) {
+          varType = typeName
+          name = this.next()
+        }
+      }
+      if (!name) {
+        this.pos = saved
+        return undefined
+      }
+    }
+
+    if (this.isPunct(this.peekRaw(), '(')) {
+      return this.parseMethodDeclaration(start, name.value, varType)
+    }
+
+    let init: ExpressionNode | undefined
+    if (this.accept('=')) {
+      this.skipNewlines()
+      init = this.parseExpression()
+    }
+    return { type: 'VariableDeclaration', name: name.value, varType, init, loc: this.loc(start) }
+  }
+
+  private tryParseTypeName(): string | undefined {
+    const saved = this.pos
+    if (!this.isIdent(this.peekRaw())) return undefined
+    let name = this.next().value
+    while (this.isPunct(this.peekRaw(), '.') && this.isIdent(this.peekRaw(1))) {
+      this.next()
+      name += '.' + this.next().value
+    }
+    if (this.isPunct(this.peekRaw(), '<')) {
+      let depth = 0
+      let generic = ''
+      do {
+        const token = this.next()
+        if (token.type === 'eof' || token.type === 'newline') {
+          this.pos = saved
+          return undefined
+        }
+        if (this.isPunct(token, '<')) depth++
+        if (this.isPunct(token, '>')) depth--
+        if (this.isPunct(token, '>>')) depth -= 2
+        generic += token.value
+      } while (depth > 0)
+      name += generic
+    }
+    while (this.isPunct(this.peekRaw(), '[') && this.isPunct(this.peekRaw(1), ']')) {
+      this.next()
+      this.next()
+      name += '[]'
+    }
+    return name
+  }
+
+  /** True when the parenthesized list starting at index is followed by a '{' */
+  private methodBodyFollows(index: number): boolean {
+    let depth = 0
+    for (let i = index; i < this.tokens.length; i++) {
+      const token = this.tokens[i]
+      if (this.isPunct(token, '(')) depth++
+      if (this.isPunct(token, ')')) {
+        depth--
+        if (depth === 0) {
+          let j = i + 1
+          while (this.tokens[j] && this.tokens[j].type === 'newline') j++
+          // `throws X` clauses are allowed between the parameters and the body
+          if (this.tokens[j] && this.isIdent(this.tokens[j], 'throws')) return true
+          return !!this.tokens[j] && this.isPunct(this.tokens[j], '{')
+        }
+      }
+      if (token.type === 'eof') return false
+    }
+    return false
+  }
+
+  private parseMethodDeclaration(start: SourcePosition, name: string, returnType?: string): StatementNode {
+    const params = this.parseParenthesized(() => {
+      const list: MethodParameter[] = []
+      while (!this.check(')')) {
+        const parts: string[] = []
+        while (this.isIdent(this.peek())) {
+          const typeName = this.tryParseTypeName()
+          if (typeName) parts.push(typeName)
+        }
+        const param: MethodParameter = { name: parts.pop() ?? `arg${list.length}` }
+        const typeName = parts.filter(p => p !== 'final' && p !== 'def').join(' ')
+        if (typeName) param.paramType = typeName
+        if (this.accept('=')) param.defaultValue = this.parseExpression()
+        list.push(param)
+        if (!this.accept(',')) break
+      }
+      return list
+    })
+    this.skipNewlines()
+    if (this.accept('throws')) {
+      while (!this.isPunct(this.peekPastNewlines(), '{')) {
+        const token = this.next()
+        if (token.type === 'eof') throw new SyntaxError(`Expected body for method ${name}`, token)
+      }
+      this.skipNewlines()
+    }
+    this.expect('{')
+    const body = this.parseBlockBody()
+    return { type: 'MethodDeclaration', name, returnType: returnType === 'def' ? undefined : returnType, params, body, loc: this.loc(start) }
+  }
+
+  private parseExpressionStatement(): StatementNode {
+    const start = this.peek().start
+    let expression = this.parseExpression()
+
+    // Parenthesis-less command call: `sh 'make'`, `agent any`, `app.push 'latest'`
+    if ((expression.type === 'Identifier' || expression.type === 'PropertyAccess') && this.canStartCommandArgument()) {
+      expression = this.parseCommandCall(expression)
+    }
+
+    // A closure on the line after a bare block name still belongs to it (`pipeline\n{`)
+    if (
+      (expression.type === 'Identifier' || (expression.type === 'MethodCall' && !expression.closure)) &&
+      this.peekRaw().type === 'newline' &&
+      this.isPunct(this.peekPastNewlines(), '{')
+    ) {
+      this.skipNewlines()
+      const closure = this.parseClosure()
+      expression = this.attachClosure(expression, closure)
+    }
+
+    return { type: 'ExpressionStatement', expression, loc: this.loc(start) }
+  }
+
+  private canStartCommandArgument(): boolean {
+    const token = this.peekRaw()
+    if (token.type === 'string' || token.type === 'number') return true
+    if (token.type === 'identifier') return !['in', 'instanceof', 'as'].includes(token.value)
+    return this.isPunct(token, '[') || this.isPunct(token, '!')
+  }
+
+  private parseCommandCall(callee: ExpressionNode): MethodCall {
+    const start = callee.loc.start
+    const args: ExpressionNode[] = []
+    const named: NamedArgument[] = []
+    this.withNewlineMode(false, () => {
+      for (;;) {
+        this.parseArgument(args, named)
+        if (!this.isPunct(this.peekRaw(), ',')) break
+        this.next()
+        this.skipNewlines()
+      }
+    })
+    const call = this.makeCall(callee, args, named, start, true)
+    if (this.isPunct(this.peekRaw(), '{')) {
+      call.closure = this.parseClosure()
+      call.loc = this.loc(start)
+    }
+    return call
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Expressions
+  // ──────────────────────────────────────────────────────────────────
+
+  private parseExpression(): ExpressionNode {
+    return this.parseAssignment()
+  }
+
+  private parseAssignment(): ExpressionNode {
+    const start = this.peek().start
+    const target = this.parseConditional()
+    const token = this.peek()
+    if (this.isPunct(token) && ASSIGNMENT_OPERATORS.has(token.value)) {
+      this.next()
+      this.skipNewlinesInExpression()
+      const value = this.parseAssignment()
+      return { type: 'AssignmentExpression', operator: token.value, target, value, loc: this.loc(start) }
+    }
+    return target
+  }
+
+  private skipNewlinesInExpression(): void {
+    while (this.peekRaw().type === 'newline') this.pos++
+  }
+
+  private parseConditional(): ExpressionNode {
+    const start = this.peek().start
+    const test = this.parseBinary(0)
+    if (this.check('?:')) {
+      this.next()
+      this.skipNewlinesInExpression()
+      const alternate = this.parseConditional()
+      return { type: 'ConditionalExpression', test, alternate, loc: this.loc(start) }
+    }
+    if (this.check('?')) {
+      this.next()
+      this.skipNewlinesInExpression()
+      const consequent = this.parseConditional()
+      this.skipNewlinesInExpression()
+      this.expect(':')
+      this.skipNewlinesInExpression()
+      const alternate = this.parseConditional()
+      return { type: 'ConditionalExpression', test, consequent, alternate, loc: this.loc(start) }
+    }
+    return test
+  }
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= BINARY_LEVELS.length) return this.parseUnary()
+    const start = this.peek().start
+    let left = this.parseBinary(level + 1)
+    for (;;) {
+      const token = this.peek()
+      const isOperator = (token.type === 'punct' || token.type === 'identifier') && BINARY_LEVELS[level].includes(token.value)
+      if (!isOperator) break
+      // `!in` / `!instanceof`
+      this.next()
+      this.skipNewlinesInExpression()
+      const right = this.parseBinary(level + 1)
+      left = { type: 'BinaryExpression', operator: token.value, left, right, loc: this.loc(start) }
+    }
+    return left
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek()
+    if (this.isPunct(token) && ['!', '-', '+', '~', '++', '--'].includes(token.value)) {
+      this.next()
+      const argument = this.parseUnary()
+      return { type: 'UnaryExpression', operator: token.value, argument, prefix: true, loc: this.loc(token.start) }
+    }
+    // Casts: (String) value
+    if (this.isPunct(token, '(') && this.isIdent(this.peek(1)) && /^[A-Z]/.test(this.peek(1).value) && this.isPunct(this.peek(2), ')')) {
+      const after = this.peek(3)
+      if (after.type === 'identifier' || after.type === 'string' || after.type === 'number' || this.isPunct(after, '(')) {
+        this.next()
+        this.next()
+        this.next()
+        return this.parseUnary()
+      }
+    }
+    return this.parsePostfix(this.parsePrimary())
+  }
+
+  private parsePostfix(expression: ExpressionNode): ExpressionNode {
+    const start = expression.loc.start
+    for (;;) {
+      let token = this.peek()
+
+      // Method chains continued on the next line: docker.image('x')\n    .inside { }
+      if (token.type === 'newline') {
+        const ahead = this.peekPastNewlines()
+        if (this.isPunct(ahead, '.') || this.isPunct(ahead, '?.') || this.isPunct(ahead, '*.')) {
+          this.skipNewlinesInExpression()
+          token = this.peek()
+        } else {
+          break
+        }
+      }
+
+      if (this.isPunct(token, '.') || this.isPunct(token, '?.') || this.isPunct(token, '*.') || this.isPunct(token, '.&')) {
+        this.next()
+        const nameToken = this.next()
+        if (nameToken.type !== 'identifier' && nameToken.type !== 'string') {
+          throw new SyntaxError(`Expected property name but found ${describe(nameToken)}`, nameToken)
+        }
+        const property = nameToken.value
+        const safe = token.value === '?.'
+        if (this.isPunct(this.peekRaw(), '(')) {
+          const { args, named } = this.parseArguments()
+          const call: MethodCall = {
+            type: 'MethodCall', object: expression, method: property, arguments: args, namedArguments: named, safe, loc: this.loc(start)
+          }
+          if (this.isPunct(this.peekRaw(), '{')) {
+            call.closure = this.parseClosure()
+            call.loc = this.loc(start)
+          }
+          expression = call
+        } else if (this.isPunct(this.peekRaw(), '{') && !this.ignoringNewlines) {
+          const closure = this.parseClosure()
+          expression = {
+            type: 'MethodCall', object: expression, method: property, arguments: [], namedArguments: [], closure, safe, loc: this.loc(start)
+          }
+        } else {
+          expression = { type: 'PropertyAccess', object: expression, property, safe, loc: this.loc(start) }
+        }
+        continue
+      }
+
+      if (this.isPunct(token, '(') && this.peekRaw().type !== 'newline' && isCallable(expression)) {
+        const { args, named } = this.parseArguments()
+        const call = this.makeCall(expression, args, named, start, false)
+        if (this.isPunct(this.peekRaw(), '{')) {
+          call.closure = this.parseClosure()
+          call.loc = this.loc(start)
+        }
+        expression = call
+        continue
+      }
+
+      if (this.isPunct(token, '{') && this.peekRaw().type !== 'newline' && expression.type === 'Identifier' && !RESERVED.has(expression.name)) {
+        const closure = this.parseClosure()
+        expression = this.attachClosure(expression, closure)
+        continue
+      }
+
+      if (this.isPunct(token, '[') && this.peekRaw().type !== 'newline') {
+        this.next()
+        const index = this.withNewlineMode(true, () => this.parseExpression())
+        this.withNewlineMode(true, () => this.expect(']'))
+        expression = { type: 'IndexExpression', object: expression, index, loc: this.loc(start) }
+        continue
+      }
+
+      if ((this.isPunct(token, '++') || this.isPunct(token, '--')) && this.peekRaw().type !== 'newline') {
+        this.next()
+        expression = { type: 'UnaryExpression', operator: token.value, argument: expression, prefix: false, loc: this.loc(start) }
+        continue
+      }
+
+      break
+    }
+    return expression
+  }
+
+  private attachClosure(expression: ExpressionNode, closure: ClosureExpression): MethodCall {
+    if (expression.type === 'MethodCall') {
+      expression.closure = closure
+      expression.loc = { start: expression.loc.start, end: closure.loc.end }
+      return expression
+    }
+    const call = this.makeCall(expression, [], [], expression.loc.start, false)
+    call.closure = closure
+    call.loc = { start: expression.loc.start, end: closure.loc.end }
+    return call
+  }
+
+  private makeCall(callee: ExpressionNode, args: ExpressionNode[], named: NamedArgument[], start: SourcePosition, command: boolean): MethodCall {
+    if (callee.type === 'PropertyAccess') {
+      return {
+        type: 'MethodCall', object: callee.object, method: callee.property, arguments: args, namedArguments: named,
+        safe: callee.safe, command: command || undefined, loc: this.loc(start)
+      }
+    }
+    const method = callee.type === 'Identifier' ? callee.name : 'call'
+    return {
+      type: 'MethodCall', object: callee.type === 'Identifier' ? undefined : callee, method, arguments: args,
+      namedArguments: named, command: command || undefined, loc: this.loc(start)
+    }
+  }
+
+  private parseArguments(): { args: ExpressionNode[]; named: NamedArgument[] } {
+    const args: ExpressionNode[] = []
+    const named: NamedArgument[] = []
+    this.expect('(')
+    this.withNewlineMode(true, () => {
+      while (!this.check(')')) {
+        if (this.peek().type === 'eof') throw new SyntaxError("Missing closing ')'", this.peek())
+        this.parseArgument(args, named)
+        if (!this.accept(',')) break
+      }
+      this.expect(')')
+    })
+    return { args, named }
+  }
+
+  private parseArgument(args: ExpressionNode[], named: NamedArgument[]): void {
+    const token = this.peek()
+    const following = this.peek(1)
+    if ((token.type === 'identifier' || token.type === 'string' || token.type === 'number') && this.isPunct(following, ':')) {
+      this.next()
+      this.next()
+      this.skipNewlinesInExpression()
+      const value = this.parseExpression()
+      named.push({ name: token.value, value, loc: this.loc(token.start) })
+      return
+    }
+    if (this.isPunct(token, '*') || this.isPunct(token, '*:')) {
+      // Spread arguments are kept as plain expressions
+      this.next()
+    }
+    args.push(this.parseExpression())
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek()
+    const start = token.start
+
+    if (token.type === 'string') {
+      this.next()
+      return this.stringNode(token)
+    }
+    if (token.type === 'number') {
+      this.next()
+      return { type: 'Literal', value: Number(token.value), raw: token.value, loc: this.loc(start) }
+    }
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        this.next()
+        return { type: 'Literal', value: token.value === 'true', raw: token.value, loc: this.loc(start) }
+      }
+      if (token.value === 'null') {
+        this.next()
+        return { type: 'Literal', value: null, raw: token.value, loc: this.loc(start) }
+      }
+      if (token.value === 'new') return this.parseNew()
+      if (RESERVED.has(token.value) && !['this', 'super'].includes(token.value)) {
+        throw new SyntaxError(`Unexpected keyword '${token.value}'`, token)
+      }
+      this.next()
+      return { type: 'Identifier', name: token.value, loc: this.loc(start) }
+    }
+    if (this.isPunct(token, '(')) {
+      this.next()
+      const inner = this.withNewlineMode(true, () => this.parseExpression())
+      this.withNewlineMode(true, () => this.expect(')'))
+      return inner
+    }
+    if (this.isPunct(token, '[')) return this.parseListOrMap()
+    if (this.isPunct(token, '{')) return this.parseClosure()
+
+    throw new SyntaxError(`Unexpected ${describe(token)}`, token)
+  }
+
+  private parseNew(): ExpressionNode {
+    const start = this.next().start
+    const className = this.tryParseTypeName() ?? this.expectIdentifier().value
+    let args: ExpressionNode[] = []
+    let named: NamedArgument[] = []
+    if (this.isPunct(this.peekRaw(), '(')) {
+      ;({ args, named } = this.parseArguments())
+    } else if (this.isPunct(this.peekRaw(), '[')) {
+      // Array creation: new String[3]
+      this.next()
+      this.withNewlineMode(true, () => {
+        if (!this.check(']')) args.push(this.parseExpression())
+        this.expect(']')
+      })
+    }
+    return { type: 'NewExpression', className, arguments: args, namedArguments: named, loc: this.loc(start) }
+  }
+
+  private parseListOrMap(): ExpressionNode {
+    const start = this.next().start
+    return this.withNewlineMode(true, () => {
+      if (this.check(':') && this.isPunct(this.peek(1), ']')) {
+        this.next()
+        this.next()
+        return { type: 'MapExpression', entries: [], loc: this.loc(start) } as ExpressionNode
+      }
+      const elements: ExpressionNode[] = []
+      const entries: MapEntry[] = []
+      while (!this.check(']')) {
+        if (this.peek().type === 'eof') throw new SyntaxError("Missing closing ']'", this.peek())
+        const token = this.peek()
+        if (this.isPunct(this.peek(1), ':') && (token.type === 'identifier' || token.type === 'string' || token.type === 'number')) {
+          this.next()
+          this.next()
+          const keyNode: ExpressionNode = token.type === 'string'
+            ? this.stringNode(token)
+            : { type: 'Identifier', name: token.value, loc: { start: token.start, end: token.end } }
+          entries.push({ key: token.value, keyNode, value: this.parseExpression() })
+        } else if (this.isPunct(token, '(')) {
+          // Computed key: [(expr): value]
+          const keyNode = this.parseExpression()
+          if (this.accept(':')) {
+            entries.push({ key: this.source.slice(keyNode.loc.start.offset, keyNode.loc.end.offset), keyNode, value: this.parseExpression() })
+          } else {
+            elements.push(keyNode)
+          }
+        } else {
+          elements.push(this.parseExpression())
+        }
+        if (!this.accept(',')) break
+      }
+      this.expect(']')
+      if (entries.length > 0) {
+        return { type: 'MapExpression', entries, loc: this.loc(start) } as ExpressionNode
+      }
+      return { type: 'ListExpression', elements, loc: this.loc(start) } as ExpressionNode
+    })
+  }
+
+  private parseClosure(): ClosureExpression {
+    const start = this.expect('{').start
+    const params = this.tryParseClosureParams()
+    const body = this.parseBlockBody()
+    return { type: 'ClosureExpression', params, body, loc: this.loc(start) }
+  }
+
+  private tryParseClosureParams(): string[] {
+    let i = this.pos
+    const names: string[] = []
+    let lastIdentifier: string | undefined
+    while (i < this.tokens.length) {
+      const token = this.tokens[i]
+      if (token.type === 'newline') {
+        i++
+        continue
+      }
+      if (this.isPunct(token, '->')) {
+        if (lastIdentifier) names.push(lastIdentifier)
+        this.pos = i + 1
+        return names
+      }
+      if (token.type === 'identifier') {
+        lastIdentifier = token.value
+      } else if (this.isPunct(token, ',')) {
+        if (!lastIdentifier) return []
+        names.push(lastIdentifier)
+        lastIdentifier = undefined
+      } else if (!(this.isPunct(token, '<') || this.isPunct(token, '>') || this.isPunct(token, '.') || this.isPunct(token, '[') || this.isPunct(token, ']'))) {
+        return []
+      }
+      i++
+    }
+    return []
+  }
+
+  private stringNode(token: Token): ExpressionNode {
+    const parts: Array<string | StringInterpolation> = []
+    for (const part of token.parts ?? []) {
+      if (part.kind === 'text') {
+        parts.push(part.value)
+      } else {
+        parts.push({ raw: part.value, expression: this.parseInterpolation(part) })
+      }
+    }
+    return {
+      type: 'StringLiteral',
+      value: token.value,
+      quote: token.quote ?? "'",
+      parts,
+      interpolated: parts.some(p => typeof p !== 'string'),
+      loc: { start: token.start, end: token.end }
+    }
+  }
+
+  private parseInterpolation(part: StringPart): ExpressionNode | undefined {
+    if (!part.value) return undefined
+    // Tokenize the embedded expression and shift its positions into file coordinates
+    const { tokens } = tokenize(part.value)
+    const shifted = tokens.map(t => ({
+      ...t,
+      start: shiftPosition(t.start, part),
+      end: shiftPosition(t.end, part)
+    }))
+    const parser = new GroovyParser(this.source, shifted)
+    try {
+      const expression = parser.withNewlineMode(true, () => parser.parseExpression())
+      return parser.peek().type === 'eof' ? expression : undefined
+    } catch (error) {
+      if (error instanceof SyntaxError) return undefined
+      throw error
+    }
+  }
+}
+
+function shiftPosition(position: SourcePosition, part: StringPart): SourcePosition {
+  return {
+    line: part.line + position.line - 1,
+    column: position.line === 1 ? part.column + position.column - 1 : position.column,
+    offset: part.offset + position.offset
+  }
+}
+
+function isCallable(expression: ExpressionNode): boolean {
+  return expression.type === 'Identifier' || expression.type === 'MethodCall' || expression.type === 'ClosureExpression' ||
+    expression.type === 'IndexExpression'
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case 'eof': return 'end of file'
+    case 'newline': return 'end of line'
+    case 'string': return 'string literal'
+    default: return `'${token.value}'`
+  }
+}
@@ -0,0 +1,690 @@
+/**
+ * Pipeline Model
+ *
+ * Reads the Jenkinsfile syntax tree into the typed PipelineModel from
+ * `types/index.ts`. Converters and reports work from this model instead of
+ * the raw tree; anything it cannot represent is listed in `unmodeled` with
+ * the line range it came from.
+ */
+
+import {
+  AgentSpec,
+  EnvironmentVariable,
+  GroovyCall,
+  GroovyExpression,
+  LibraryReference,
+  MatrixAxis,
+  MatrixExclude,
+  PipelineDirective,
+  PipelineMatrix,
+  PipelineModel,
+  PipelineParameter,
+  PipelineStage,
+  PipelineStep,
+  PostCondition,
+  PostConditionName,
+  SourceSpan,
+  StageInput,
+  StageWhen,
+  StaticValue,
+  ToolRequirement,
+  UnmodeledConstruct,
+  WhenCondition
+} from '@/types'
+import { parseJenkinsfile } from './groovy-parser'
+import { interpretScriptedPipeline } from './scripted-interpreter'
+import {
+  ExpressionNode,
+  literalValue,
+  MethodCall,
+  nodeSource,
+  ScriptNode,
+  SourceLocation,
+  StatementNode,
+  statementCall,
+  walk
+} from './groovy-ast'
+
+const POST_CONDITIONS: PostConditionName[] = [
+  'always', 'success', 'failure', 'unstable', 'changed', 'fixed', 'regression', 'aborted', 'unsuccessful', 'notBuilt', 'cleanup'
+]
+
+const PARAMETER_TYPES = ['string', 'text', 'booleanParam', 'choice', 'password', 'credentials', 'file', 'run']
+
+/**
+ * Build the pipeline model for a Jenkinsfile: declarative when it has a
+ * top-level `pipeline { }` block, scripted when it uses `node`/`stage`.
+ * Returns undefined when the file is neither.
+ */
+export function buildPipelineModel(source: string): PipelineModel | undefined {
+  return interpretPipeline(parseJenkinsfile(source).ast, source)
+}
+
+/**
+ * Build the pipeline model for parsed statements, such as the body of a
+ * shared library step that defines the whole pipeline
+ */
+export function interpretPipeline(ast: ScriptNode, source: string): PipelineModel | undefined {
+  const pipeline = ast.body.map(statementCall).find(call => call?.method === 'pipeline' && !call.object && call.closure)
+  if (!pipeline) return interpretScriptedPipeline(ast, source)
+  return new DeclarativeInterpreter(source).interpret(ast, pipeline)
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Shared helpers (also used by the scripted interpreter)
+// ──────────────────────────────────────────────────────────────────
+
+export function spanOf(node: { loc: SourceLocation }): SourceSpan {
+  return { startLine: node.loc.start.line, endLine: node.loc.end.line }
+}
+
+export function isGroovyExpression(value: StaticValue | undefined): value is GroovyExpression {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const record = value as { [key: string]: StaticValue }
+  return typeof record.expression === 'string' && Object.keys(record).length === 1
+}
+
+export function isGroovyCall(value: StaticValue | undefined): value is GroovyCall {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false
+  const record = value as { [key: string]: StaticValue }
+  return typeof record.call === 'string' && Array.isArray(record.args) && typeof record.named === 'object'
+}
+
+/**
+ * Convert an argument expression into a StaticValue. Literals evaluate,
+ * plain nested calls become GroovyCall values and everything else is kept
+ * as a Groovy expression.
+ */
+export function toStaticValue(node: ExpressionNode, source: string): StaticValue {
+  switch (node.type) {
+    case 'StringLiteral':
+      return node.value
+    case 'Literal':
+      return node.value
+    case 'ListExpression':
+      return node.elements.map(element => toStaticValue(element, source))
+    case 'MapExpression': {
+      const result: { [key: string]: StaticValue } = {}
+      for (const entry of node.entries) result[entry.key] = toStaticValue(entry.value, source)
+      return result
+    }
+    case 'UnaryExpression': {
+      const value = literalValue(node)
+      if (typeof value === 'number') return value
+      break
+    }
+    case 'MethodCall':
+      if (!node.object && !node.closure) {
+        return {
+          call: node.method,
+          args: node.arguments.map(arg => toStaticValue(arg, source)),
+          named: namedValues(node, source)
+        }
+      }
+      break
+  }
+  return { expression: nodeSource(source, node) }
+}
+
+export function namedValues(call: MethodCall, source: string): { [name: string]: StaticValue } {
+  const named: { [name: string]: StaticValue } = {}
+  for (const arg of call.namedArguments) named[arg.name] = toStaticValue(arg.value, source)
+  return named
+}
+
+/** String form of a value, or undefined when it is not a plain string or number */
+export function staticString(value: StaticValue | undefined): string | undefined {
+  if (typeof value === 'string') return value
+  if (typeof value === 'number') return String(value)
+  return undefined
+}
+
+/**
+ * Convert a statement inside a steps block. Calls become steps (with their
+ * closure as body); any other statement is kept as Groovy source.
+ */
+export function toStep(statement: StatementNode, source: string): PipelineStep {
+  const assign = statement.type === 'VariableDeclaration' && statement.init?.type === 'MethodCall' ? statement.name : undefined
+  const call = statement.type === 'VariableDeclaration' && statement.init?.type === 'MethodCall'
+    ? statement.init
+    : statementCall(statement)
+  if (call) {
+    return {
+      kind: 'step',
+      name: call.method,
+      receiver: call.object ? nodeSource(source, call.object) : undefined,
+      assign,
+      args: call.arguments.map(arg => toStaticValue(arg, source)),
+      named: namedValues(call, source),
+      body: call.closure ? call.closure.body.map(child => toStep(child, source)) : undefined,
+      source: nodeSource(source, statement),
+      span: spanOf(statement)
+    }
+  }
+  return {
+    kind: 'groovy',
+    name: statement.type,
+    args: [],
+    named: {},
+    source: nodeSource(source, statement),
+    span: spanOf(statement)
+  }
+}
+
+/**
+ * Read a parameter definition such as `string(name: 'ENV', defaultValue: 'dev')`
+ */
+export function toParameter(call: MethodCall, source: string): PipelineParameter | undefined {
+  return parameterOf(call.method, namedValues(call, source), spanOf(call))
+}
+
+/**
+ * Read an `input` step, e.g. `input message: 'Deploy?', submitter: 'ops'`,
+ * into the same shape as a stage-level `input { }` directive
+ */
+export function stepInput(step: PipelineStep): StageInput {
+  const parameters = Array.isArray(step.named.parameters) ? step.named.parameters : []
+  return {
+    message: staticString(step.named.message ?? step.args[0]) ?? '',
+    id: staticString(step.named.id),
+    ok: staticString(step.named.ok),
+    submitter: staticString(step.named.submitter),
+    submitterParameter: staticString(step.named.submitterParameter),
+    parameters: parameters
+      .filter(isGroovyCall)
+      .map(call => parameterOf(call.call, call.named, step.span))
+      .filter((parameter): parameter is PipelineParameter => parameter !== undefined),
+    span: step.span
+  }
+}
+
+function parameterOf(type: string, named: { [name: string]: StaticValue }, span: SourceSpan): PipelineParameter | undefined {
+  const name = staticString(named.name)
+  if (!name) return undefined
+  const choices = named.choices
+  return {
+    type,
+    name,
+    defaultValue: named.defaultValue,
+    description: staticString(named.description),
+    choices: Array.isArray(choices)
+      ? choices.map(choice => staticString(choice)).filter((choice): choice is string => choice !== undefined)
+      : typeof choices === 'string'
+        ? choices.split('\n').filter(Boolean)
+        : undefined,
+    span
+  }
+}
+
+/**
+ * Library references from `@Library` annotations anywhere in the file
+ */
+export function libraryAnnotations(ast: ScriptNode): LibraryReference[] {
+  const libraries: LibraryReference[] = []
+  walk(ast, node => {
+    if (node.type !== 'AnnotatedStatement') return
+    for (const annotation of node.annotations) {
+      if (annotation.name !== 'Library') continue
+      const value = literalValue(annotation.arguments[0])
+      for (const entry of Array.isArray(value) ? value : [value]) {
+        if (typeof entry === 'string') libraries.push({ ...splitLibrary(entry), span: spanOf(annotation) })
+      }
+    }
+  })
+  return libraries
+}
+
+export function splitLibrary(reference: string): { name: string; version?: string } {
+  const at = reference.indexOf('@')
+  return at < 0 ? { name: reference } : { name: reference.slice(0, at), version: reference.slice(at + 1) }
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Declarative interpreter
+// ──────────────────────────────────────────────────────────────────
+
+class DeclarativeInterpreter {
+  private unmodeled: UnmodeledConstruct[] = []
+
+  constructor(private readonly source: string) {}
+
+  interpret(ast: ScriptNode, pipeline: MethodCall): PipelineModel {
+    const model: PipelineModel = {
+      kind: 'declarative',
+      environment: [],
+      options: [],
+      parameters: [],
+      triggers: [],
+      tools: [],
+      libraries: libraryAnnotations(ast),
+      stages: [],
+      post: [],
+      unmodeled: this.unmodeled,
+      span: spanOf(pipeline)
+    }
+
+    for (const statement of ast.body) {
+      if (statementCall(statement) === pipeline || statement.type === 'ImportStatement') continue
+      if (statement.type === 'AnnotatedStatement' && statement.annotations.every(a => a.name === 'Library')) continue
+      this.unmodel(statement, 'groovy', 'Groovy code outside the pipeline block')
+    }
+
+    this.eachSection(pipeline, (name, call) => {
+      switch (name) {
+        case 'agent':
+          model.agent = this.readAgent(call)
+          return true
+        case 'environment':
+          model.environment.push(...this.readEnvironment(call))
+          return true
+        case 'options':
+          model.options.push(...this.readDirectives(call))
+          return true
+        case 'parameters':
+          model.parameters.push(...this.readParameters(call))
+          return true
+        case 'properties':
+          // Not valid declarative syntax, but common in hand-written files: read what it wraps
+          this.eachSection(call, (inner, innerCall) => {
+            if (inner === 'parameters') model.parameters.push(...this.readParameters(innerCall))
+            else model.options.push(this.readDirective(innerCall))
+            return true
+          })
+          return true
+        case 'triggers':
+          model.triggers.push(...this.readDirectives(call))
+          return true
+        case 'tools':
+          model.tools.push(...this.readTools(call))
+          return true
+        case 'libraries':
+          this.eachSection(call, (inner, innerCall) => {
+            const reference = staticString(toStaticValue(innerCall.arguments[0] ?? innerCall, this.source))
+            if (inner !== 'lib' || !reference) return false
+            model.libraries.push({ ...splitLibrary(reference), span: spanOf(innerCall) })
+            return true
+          })
+          return true
+        case 'stages':
+          model.stages.push(...this.readStages(call))
+          return true
+        case 'post':
+          model.post.push(...this.readPost(call))
+          return true
+        default:
+          return false
+      }
+    })
+
+    return model
+  }
+
+  /**
+   * Visit each statement of a block call's closure. The visitor returns false
+   * for statements it does not recognize, which are then recorded as unmodeled.
+   */
+  private eachSection(block: MethodCall, visit: (name: string, call: MethodCall) => boolean): void {
+    for (const statement of block.closure?.body ?? []) {
+      const call = statementCall(statement)
+      if (call && !call.object && visit(call.method, call)) continue
+      this.unmodel(statement, call ? 'directive' : 'groovy', `Unsupported statement in ${block.method} block`)
+    }
+  }
+
+  private unmodel(node: { loc: SourceLocation }, kind: string, reason: string): void {
+    const text = nodeSource(this.source, node).split('\n')[0].trim()
+    this.unmodeled.push({ kind, description: `${reason}: ${text}`, span: spanOf(node) })
+  }
+
+  private readAgent(call: MethodCall): AgentSpec {
+    const agent: AgentSpec = { kind: 'unknown', settings: {}, span: spanOf(call) }
+    const first = call.arguments[0]
+    if (first?.type === 'Identifier' && (first.name === 'any' || first.name === 'none')) {
+      agent.kind = first.name
+      return agent
+    }
+    // Legacy `agent label: 'x'` form
+    const named = namedValues(call, this.source)
+    if (staticString(named.label)) {
+      agent.kind = 'label'
+      agent.label = staticString(named.label)
+      agent.settings = named
+      return agent
+    }
+    if (!call.closure) {
+      this.unmodel(call, 'agent', 'Unrecognized agent')
+      return agent
+    }
+
+    this.eachSection(call, (kind, inner) => {
+      switch (kind) {
+        case 'label':
+          agent.kind = 'label'
+          agent.label = staticString(toStaticValue(inner.arguments[0] ?? inner, this.source))
+          return true
+        case 'any':
+        case 'none':
+          agent.kind = kind
+          return true
+        case 'node':
+        case 'docker':
+        case 'dockerfile':
+        case 'kubernetes':
+          agent.kind = kind
+          Object.assign(agent.settings, this.readSettings(inner))
+          return true
+        default:
+          return false
+      }
+    })
+
+    const settings = agent.settings
+    // `docker 'image'` and `dockerfile true` shorthands
+    if (agent.kind === 'docker' && settings.value !== undefined && settings.image === undefined) settings.image = settings.value
+    agent.label = agent.label ?? staticString(settings.label)
+    agent.image = staticString(settings.image)
+    agent.args = staticString(settings.args)
+    agent.filename = staticString(settings.filename)
+    agent.dir = staticString(settings.dir)
+    agent.additionalBuildArgs = staticString(settings.additionalBuildArgs)
+    agent.yaml = staticString(settings.yaml)
+    agent.yamlFile = staticString(settings.yamlFile)
+    agent.defaultContainer = staticString(settings.defaultContainer)
+    return agent
+  }
+
+  /**
+   * Settings of a block such as `docker { image 'x'; args '-v a:b' }`.
+   * A positional argument (`docker 'x'`) is stored under `value`.
+   */
+  private readSettings(call: MethodCall): { [name: string]: StaticValue } {
+    const settings = namedValues(call, this.source)
+    if (call.arguments[0]) settings.value = toStaticValue(call.arguments[0], this.source)
+    for (const statement of call.closure?.body ?? []) {
+      const inner = statementCall(statement)
+      if (inner && !inner.object) {
+        settings[inner.method] = inner.arguments[0]
+          ? toStaticValue(inner.arguments[0], this.source)
+          : inner.namedArguments.length > 0 ? namedValues(inner, this.source) : true
+      } else {
+        this.unmodel(statement, 'agent', `Unsupported statement in ${call.method} agent`)
+      }
+    }
+    return settings
+  }
+
+  private readEnvironment(call: MethodCall): EnvironmentVariable[] {
+    const variables: EnvironmentVariable[] = []
+    for (const statement of call.closure?.body ?? []) {
+      const expression = statement.type === 'ExpressionStatement' ? statement.expression : undefined
+      if (expression?.type !== 'AssignmentExpression' || expression.target.type !== 'Identifier') {
+        this.unmodel(statement, 'environment', 'Unsupported statement in environment block')
+        continue
+      }
+      const value = toStaticValue(expression.value, this.source)
+      const credentialsId = isGroovyCall(value) && value.call === 'credentials' ? staticString(value.args[0]) : undefined
+      variables.push({ name: expression.target.name, value, credentialsId, span: spanOf(statement) })
+    }
+    return variables
+  }
+
+  private readDirective(call: MethodCall): PipelineDirective {
+    return {
+      name: call.method,
+      args: call.arguments.map(arg => toStaticValue(arg, this.source)),
+      named: namedValues(call, this.source),
+      span: spanOf(call)
+    }
+  }
+
+  private readDirectives(block: MethodCall): PipelineDirective[] {
+    const directives: PipelineDirective[] = []
+    this.eachSection(block, (_name, call) => {
+      directives.push(this.readDirective(call))
+      return true
+    })
+    return directives
+  }
+
+  private readParameters(block: MethodCall): PipelineParameter[] {
+    const parameters: PipelineParameter[] = []
+    this.eachSection(block, (name, call) => {
+      const parameter = toParameter(call, this.source)
+      if (!parameter) return false
+      if (!PARAMETER_TYPES.includes(name)) {
+        this.unmodel(call, 'parameter', `Parameter type '${name}' is read as a plain value`)
+      }
+      parameters.push(parameter)
+      return true
+    })
+    return parameters
+  }
+
+  private readTools(block: MethodCall): ToolRequirement[] {
+    const tools: ToolRequirement[] = []
+    this.eachSection(block, (type, call) => {
+      const name = staticString(toStaticValue(call.arguments[0] ?? call, this.source))
+      if (!name) return false
+      tools.push({ type, name, span: spanOf(call) })
+      return true
+    })
+    return tools
+  }
+
+  private readStages(block: MethodCall): PipelineStage[] {
+    const stages: PipelineStage[] = []
+    this.eachSection(block, (name, call) => {
+      if (name !== 'stage') return false
+      stages.push(this.readStage(call))
+      return true
+    })
+    return stages
+  }
+
+  private readStage(call: MethodCall): PipelineStage {
+    const name = call.arguments[0] ? toStaticValue(call.arguments[0], this.source) : undefined
+    const stage: PipelineStage = {
+      name: staticString(name) ?? (isGroovyExpression(name) ? name.expression : 'unnamed'),
+      environment: [],
+      options: [],
+      tools: [],
+      steps: [],
+      parallel: [],
+      stages: [],
+      post: [],
+      span: spanOf(call)
+    }
+
+    this.eachSection(call, (section, inner) => {
+      switch (section) {
+        case 'agent':
+          stage.agent = this.readAgent(inner)
+          return true
+        case 'environment':
+          stage.environment.push(...this.readEnvironment(inner))
+          return true
+        case 'options':
+          stage.options.push(...this.readDirectives(inner))
+          return true
+        case 'tools':
+          stage.tools.push(...this.readTools(inner))
+          return true
+        case 'when':
+          stage.when = this.readWhen(inner)
+          return true
+        case 'input':
+          stage.input = this.readInput(inner)
+          return true
+        case 'steps':
+          stage.steps.push(...(inner.closure?.body ?? []).map(statement => toStep(statement, this.source)))
+          return true
+        case 'parallel':
+          stage.parallel.push(...this.readStages(inner))
+          return true
+        case 'failFast':
+          stage.failFast = literalValue(inner.arguments[0]) === true
+          return true
+        case 'matrix':
+          stage.matrix = this.readMatrix(inner)
+          return true
+        case 'stages':
+          stage.stages.push(...this.readStages(inner))
+          return true
+        case 'post':
+          stage.post.push(...this.readPost(inner))
+          return true
+        default:
+          return false
+      }
+    })
+    return stage
+  }
+
+  private readWhen(block: MethodCall): StageWhen {
+    const when: StageWhen = { conditions: [], span: spanOf(block) }
+    this.eachSection(block, (name, call) => {
+      if (name === 'beforeAgent' || name === 'beforeInput' || name === 'beforeOptions') {
+        when[name] = literalValue(call.arguments[0]) === true
+        return true
+      }
+      when.conditions.push(this.readCondition(call))
+      return true
+    })
+    return when
+  }
+
+  private readCondition(call: MethodCall): WhenCondition {
+    const condition: WhenCondition = {
+      kind: call.method,
+      value: call.arguments[0] ? toStaticValue(call.arguments[0], this.source) : undefined,
+      named: namedValues(call, this.source),
+      span: spanOf(call)
+    }
+    const body = call.closure?.body ?? []
+    if (call.method === 'expression') {
+      condition.expression = body.length > 0
+        ? this.source.slice(body[0].loc.start.offset, body[body.length - 1].loc.end.offset).trim()
+        : ''
+    } else if (body.length > 0) {
+      condition.conditions = []
+      this.eachSection(call, (_name, inner) => {
+        condition.conditions!.push(this.readCondition(inner))
+        return true
+      })
+    }
+    return condition
+  }
+
+  private readInput(block: MethodCall): StageInput {
+    const settings = namedValues(block, this.source)
+    const input: StageInput = { message: '', parameters: [], span: spanOf(block) }
+    this.eachSection(block, (name, call) => {
+      if (name === 'parameters') {
+        input.parameters.push(...this.readParameters(call))
+        return true
+      }
+      settings[name] = call.arguments[0] ? toStaticValue(call.arguments[0], this.source) : true
+      return true
+    })
+    input.message = staticString(settings.message) ?? ''
+    input.id = staticString(settings.id)
+    input.ok = staticString(settings.ok)
+    input.submitter = staticString(settings.submitter)
+    input.submitterParameter = staticString(settings.submitterParameter)
+    return input
+  }
+
+  private readMatrix(block: MethodCall): PipelineMatrix {
+    const matrix: PipelineMatrix = {
+      axes: [],
+      excludes: [],
+      environment: [],
+      options: [],
+      stages: [],
+      post: [],
+      span: spanOf(block)
+    }
+    this.eachSection(block, (section, call) => {
+      switch (section) {
+        case 'axes':
+          this.eachSection(call, (name, axis) => {
+            if (name !== 'axis') return false
+            const read = this.readAxis(axis)
+            matrix.axes.push({ name: read.name, values: read.values, span: read.span })
+            return true
+          })
+          return true
+        case 'excludes':
+          this.eachSection(call, (name, exclude) => {
+            if (name !== 'exclude') return false
+            const entry: MatrixExclude = { axes: [], span: spanOf(exclude) }
+            this.eachSection(exclude, (axisName, axis) => {
+              if (axisName !== 'axis') return false
+              const read = this.readAxis(axis)
+              entry.axes.push({ name: read.name, values: read.values, notValues: read.notValues })
+              return true
+            })
+            matrix.excludes.push(entry)
+            return true
+          })
+          return true
+        case 'agent':
+          matrix.agent = this.readAgent(call)
+          return true
+        case 'environment':
+          matrix.environment.push(...this.readEnvironment(call))
+          return true
+        case 'options':
+          matrix.options.push(...this.readDirectives(call))
+          return true
+        case 'when':
+          matrix.when = this.readWhen(call)
+          return true
+        case 'stages':
+          matrix.stages.push(...this.readStages(call))
+          return true
+        case 'post':
+          matrix.post.push(...this.readPost(call))
+          return true
+        default:
+          return false
+      }
+    })
+    return matrix
+  }
+
+  /**
+   * Read `axis { name 'X'; values 'a', 'b' }` (or `notValues` inside excludes)
+   */
+  private readAxis(axis: MethodCall): MatrixAxis & { notValues: boolean } {
+    const result = { name: '', values: [] as string[], notValues: false, span: spanOf(axis) }
+    this.eachSection(axis, (name, call) => {
+      const values = call.arguments.map(arg => staticString(toStaticValue(arg, this.source)) ?? nodeSource(this.source, arg))
+      if (name === 'name') {
+        result.name = values[0] ?? ''
+        return true
+      }
+      if (name === 'values' || name === 'notValues') {
+        result.values.push(...values)
+        result.notValues = name === 'notValues'
+        return true
+      }
+      return false
+    })
+    return result
+  }
+
+  private readPost(block: MethodCall): PostCondition[] {
+    const conditions: PostCondition[] = []
+    this.eachSection(block, (name, call) => {
+      if (!POST_CONDITIONS.includes(name as PostConditionName)) return false
+      conditions.push({
+        condition: name as PostConditionName,
+        steps: (call.closure?.body ?? []).map(statement => toStep(statement, this.source)),
+        span: spanOf(call)
+      })
+      return true
+    })
+    return conditions
+  }
+}
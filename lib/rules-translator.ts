@@ -0,0 +1,448 @@
+/**
+ * When-to-Rules Translator
+ *
+ * Turns declarative `when { }` conditions, and the `if` tests the scripted
+ * interpreter records the same way, into GitLab `rules:`. GitLab rule
+ * expressions have no negation operator, so conditions are pushed into
+ * negation normal form and expanded into one rule per alternative.
+ */
+
+import { PipelineParameter, SourceSpan, StageWhen, StaticValue, WhenCondition } from '@/types'
+import { ExpressionNode } from './groovy-ast'
+import { parseJenkinsfile } from './groovy-parser'
+import { isGroovyExpression, staticString } from './pipeline-model'
+import { JENKINS_VARIABLES } from './gitlab-converter'
+
+export interface GitLabRule {
+  if?: string
+  changes?: string[]
+  when?: 'on_success' | 'on_failure' | 'manual' | 'always' | 'never'
+}
+
+export interface RulesTranslation {
+  /** Rules for the job; undefined when it always runs or a condition could not be translated */
+  rules?: GitLabRule[]
+  /** Rules for the conditions that did translate, for a commented stub */
+  partial: GitLabRule[]
+  untranslated: Array<{ description: string; span: SourceSpan }>
+  notes: string[]
+}
+
+type Formula =
+  | { op: 'and' | 'or'; terms: Formula[] }
+  | { op: 'not'; term: Formula }
+  | { op: 'if'; expression: string; negated: string }
+  | { op: 'changes'; patterns: string[]; negated: boolean }
+  | { op: 'const'; value: boolean }
+
+type Literal = Extract<Formula, { op: 'if' | 'changes' }>
+
+class Untranslatable extends Error {
+  constructor(message: string, readonly span?: SourceSpan) {
+    super(message)
+  }
+}
+
+// Rule sets past this size are harder to review than the Jenkins condition
+const MAX_RULES = 16
+
+/** Jenkins trigger causes and the pipeline sources GitLab reports for them */
+const TRIGGER_SOURCES: Record<string, string[]> = {
+  TimerTrigger: ['schedule'],
+  TimerTriggerCause: ['schedule'],
+  SCMTrigger: ['push'],
+  SCMTriggerCause: ['push'],
+  BranchEventCause: ['push'],
+  UserIdCause: ['web'],
+  UpstreamCause: ['pipeline', 'parent_pipeline'],
+  BuildUpstreamCause: ['pipeline', 'parent_pipeline'],
+  RemoteCause: ['trigger']
+}
+
+/** changeRequest arguments and the merge request variables that hold them */
+const CHANGE_REQUEST_VARIABLES: Record<string, string> = {
+  id: '$CI_MERGE_REQUEST_IID',
+  target: '$CI_MERGE_REQUEST_TARGET_BRANCH_NAME',
+  branch: '$CI_MERGE_REQUEST_SOURCE_BRANCH_NAME',
+  fork: '$CI_MERGE_REQUEST_SOURCE_PROJECT_PATH',
+  title: '$CI_MERGE_REQUEST_TITLE',
+  author: '$GITLAB_USER_LOGIN',
+  authorDisplayName: '$GITLAB_USER_NAME',
+  authorEmail: '$GITLAB_USER_EMAIL'
+}
+
+/**
+ * Translate the `when` blocks that guard a job. Blocks from enclosing stages
+ * and matrices all have to hold, so they are combined with AND.
+ */
+export function translateWhen(whens: StageWhen[], parameters: PipelineParameter[] = []): RulesTranslation {
+  const translation: RulesTranslation = { partial: [], untranslated: [], notes: [] }
+  const booleans = new Set(parameters.filter(p => p.type === 'booleanParam').map(p => p.name))
+  const terms: Formula[] = []
+
+  for (const when of whens) {
+    if (when.beforeAgent || when.beforeInput || when.beforeOptions) {
+      translation.notes.push('GitLab evaluates rules before a job starts, so beforeAgent/beforeInput/beforeOptions need no equivalent')
+    }
+    for (const condition of when.conditions) {
+      try {
+        terms.push(conditionFormula(condition, booleans))
+      } catch (error) {
+        const reason = error instanceof Untranslatable ? error.message : String(error)
+        translation.untranslated.push({
+          description: `${describeCondition(condition)} has no GitLab rules equivalent: ${reason}`,
+          span: (error instanceof Untranslatable && error.span) || condition.span
+        })
+      }
+    }
+  }
+
+  if (terms.length === 0) return translation
+  try {
+    const rules = toRules({ op: 'and', terms })
+    if (translation.untranslated.length === 0) translation.rules = rules
+    else translation.partial = rules ?? []
+  } catch (error) {
+    translation.untranslated.push({
+      description: `when { } conditions cannot be expressed as rules: ${(error as Error).message}`,
+      span: whens[0].span
+    })
+  }
+  return translation
+}
+
+/**
+ * Source-like description of a condition for reports, e.g. `branch 'main'`
+ */
+export function describeCondition(condition: WhenCondition): string {
+  if (condition.kind === 'expression') return `expression { ${condition.expression ?? ''} }`
+  if (condition.conditions) return `${condition.kind} { ${condition.conditions.map(describeCondition).join('; ')} }`
+  const args = [
+    ...(condition.value !== undefined ? [describeValue(condition.value)] : []),
+    ...Object.entries(condition.named).map(([name, value]) => `${name}: ${describeValue(value)}`)
+  ]
+  return args.length > 0 ? `${condition.kind} ${args.join(', ')}` : condition.kind
+}
+
+function describeValue(value: StaticValue): string {
+  if (isGroovyExpression(value)) return value.expression
+  return typeof value === 'string' ? `'${value}'` : JSON.stringify(value)
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Conditions
+// ──────────────────────────────────────────────────────────────────
+
+function conditionFormula(condition: WhenCondition, booleans: Set<string>): Formula {
+  const text = (value: StaticValue | undefined) => {
+    const result = staticString(value)
+    if (result === undefined && value !== undefined) {
+      throw new Untranslatable('its arguments are computed at runtime', condition.span)
+    }
+    return result
+  }
+  const pattern = text(condition.named.pattern ?? condition.value)
+  const comparator = text(condition.named.comparator)
+
+  switch (condition.kind) {
+    case 'branch':
+      if (pattern === undefined) throw new Untranslatable('no branch pattern', condition.span)
+      return matchPattern('$CI_COMMIT_BRANCH', pattern, comparator ?? 'GLOB')
+    case 'tag':
+      return pattern === undefined
+        ? present('$CI_COMMIT_TAG')
+        : { op: 'and', terms: [present('$CI_COMMIT_TAG'), matchPattern('$CI_COMMIT_TAG', pattern, comparator ?? 'GLOB')] }
+    case 'buildingTag':
+      return present('$CI_COMMIT_TAG')
+    case 'changeRequest': {
+      const terms: Formula[] = [compare('$CI_PIPELINE_SOURCE', 'merge_request_event')]
+      for (const [name, value] of Object.entries(condition.named)) {
+        if (name === 'comparator') continue
+        const variable = CHANGE_REQUEST_VARIABLES[name]
+        if (!variable) throw new Untranslatable(`changeRequest ${name} has no merge request variable`, condition.span)
+        terms.push(matchPattern(variable, text(value) ?? '', comparator ?? 'EQUALS'))
+      }
+      return { op: 'and', terms }
+    }
+    case 'changeset':
+      if (pattern === undefined) throw new Untranslatable('no changeset pattern', condition.span)
+      if (comparator === 'REGEXP') throw new Untranslatable('changes: only accepts glob patterns', condition.span)
+      return { op: 'changes', patterns: [pattern], negated: false }
+    case 'environment': {
+      const name = text(condition.named.name)
+      const value = text(condition.named.value) ?? ''
+      if (!name) throw new Untranslatable('no variable name', condition.span)
+      const variable = `$${JENKINS_VARIABLES[name] ?? name}`
+      return condition.named.ignoreCase === true
+        ? regexMatch(variable, `/^${escapeRegex(value)}$/i`)
+        : compare(variable, value)
+    }
+    case 'equals': {
+      const expected = text(condition.named.expected)
+      const actual = condition.named.actual
+      const variable = isGroovyExpression(actual) ? operandVariable(parseExpression(actual.expression, condition.span)) : undefined
+      if (expected === undefined || !variable) throw new Untranslatable('only environment and parameter values can be compared', condition.span)
+      return compare(variable, expected)
+    }
+    case 'triggeredBy': {
+      const cause = text(condition.named.cause ?? condition.value) ?? ''
+      const sources = TRIGGER_SOURCES[cause]
+      if (!sources) throw new Untranslatable(`no GitLab pipeline source matches ${cause}`, condition.span)
+      const source: Formula = { op: 'or', terms: sources.map(s => compare('$CI_PIPELINE_SOURCE', s)) }
+      const detail = text(condition.named.detail)
+      return detail ? { op: 'and', terms: [source, compare('$GITLAB_USER_LOGIN', detail)] } : source
+    }
+    case 'expression':
+      return expressionFormula(parseExpression(condition.expression ?? '', condition.span), booleans, condition.span)
+    case 'allOf':
+    case 'anyOf':
+      return {
+        op: condition.kind === 'allOf' ? 'and' : 'or',
+        terms: (condition.conditions ?? []).map(inner => conditionFormula(inner, booleans))
+      }
+    case 'not': {
+      const [inner] = condition.conditions ?? []
+      if (!inner) throw new Untranslatable('empty not { }', condition.span)
+      return { op: 'not', term: conditionFormula(inner, booleans) }
+    }
+    default:
+      throw new Untranslatable(`'${condition.kind}' has no GitLab counterpart`, condition.span)
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Groovy expressions
+// ──────────────────────────────────────────────────────────────────
+
+function parseExpression(source: string, span: SourceSpan): ExpressionNode {
+  const { ast, errors } = parseJenkinsfile(source)
+  const [statement, ...rest] = ast.body
+  if (errors.length > 0 || !statement || rest.length > 0) throw new Untranslatable('only single expressions are translated', span)
+  if (statement.type === 'ExpressionStatement') return statement.expression
+  if (statement.type === 'ReturnStatement' && statement.argument) return statement.argument
+  throw new Untranslatable('only single expressions are translated', span)
+}
+
+function expressionFormula(node: ExpressionNode, booleans: Set<string>, span: SourceSpan): Formula {
+  switch (node.type) {
+    case 'BinaryExpression': {
+      const { operator, left, right } = node
+      if (operator === '&&' || operator === '||') {
+        return {
+          op: operator === '&&' ? 'and' : 'or',
+          terms: [expressionFormula(left, booleans, span), expressionFormula(right, booleans, span)]
+        }
+      }
+      if (operator === '==' || operator === '!=') {
+        const [variable, value] = operandVariable(left) ? [operandVariable(left)!, right] : [operandVariable(right), left]
+        const literal = operandLiteral(value)
+        const other = operandVariable(value)
+        if (!variable || (literal === undefined && !other)) break
+        const formula: Formula = other && literal === undefined
+          ? { op: 'if', expression: `${variable} == ${other}`, negated: `${variable} != ${other}` }
+          : compare(variable, literal!)
+        return operator === '==' ? formula : { op: 'not', term: formula }
+      }
+      if (operator === '==~' || operator === '=~') {
+        const variable = operandVariable(left)
+        const pattern = right.type === 'StringLiteral' && !right.interpolated ? right.value : undefined
+        if (!variable || pattern === undefined) break
+        // ==~ must match the whole value, =~ finds a match anywhere
+        return regexMatch(variable, `/${operator === '==~' ? anchor(pattern) : escapeSlashes(pattern)}/`)
+      }
+      break
+    }
+    case 'UnaryExpression':
+      if (node.operator === '!') return { op: 'not', term: expressionFormula(node.argument, booleans, span) }
+      break
+    case 'Literal':
+      if (typeof node.value === 'boolean') return { op: 'const', value: node.value }
+      break
+    case 'Identifier':
+    case 'PropertyAccess': {
+      const variable = operandVariable(node)
+      if (!variable) break
+      return booleans.has(variable.slice(1)) ? compare(variable, 'true') : present(variable)
+    }
+    case 'MethodCall': {
+      const variable = node.object ? operandVariable(node.object) : undefined
+      const arg = node.arguments[0]
+      const value = arg?.type === 'StringLiteral' && !arg.interpolated ? arg.value : undefined
+      if (!variable) break
+      if (node.method === 'toBoolean' && node.arguments.length === 0) return compare(variable, 'true')
+      if (value === undefined) break
+      switch (node.method) {
+        case 'equals':
+          return compare(variable, value)
+        case 'equalsIgnoreCase':
+          return regexMatch(variable, `/^${escapeRegex(value)}$/i`)
+        case 'startsWith':
+          return regexMatch(variable, `/^${escapeRegex(value)}/`)
+        case 'endsWith':
+          return regexMatch(variable, `/${escapeRegex(value)}$/`)
+        case 'contains':
+          return regexMatch(variable, `/${escapeRegex(value)}/`)
+        case 'matches':
+          return regexMatch(variable, `/${anchor(value)}/`)
+      }
+      break
+    }
+  }
+  throw new Untranslatable('it depends on Groovy state GitLab cannot see', span)
+}
+
+/**
+ * GitLab variable for `env.X`, `params.X` or an upper-case environment name
+ */
+function operandVariable(node: ExpressionNode): string | undefined {
+  if (node.type === 'PropertyAccess' && node.object.type === 'Identifier') {
+    if (node.object.name === 'env') return `$${JENKINS_VARIABLES[node.property] ?? node.property}`
+    if (node.object.name === 'params') return `$${node.property}`
+  }
+  if (node.type === 'Identifier' && /^[A-Z][A-Z0-9_]*$/.test(node.name)) {
+    return `$${JENKINS_VARIABLES[node.name] ?? node.name}`
+  }
+  return undefined
+}
+
+function operandLiteral(node: ExpressionNode): string | null | undefined {
+  if (node.type === 'StringLiteral' && !node.interpolated) return node.value
+  if (node.type === 'Literal') return node.value === null ? null : String(node.value)
+  return undefined
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Atoms
+// ──────────────────────────────────────────────────────────────────
+
+function compare(variable: string, value: string | null): Formula {
+  if (value === null) return { op: 'if', expression: `${variable} == null`, negated: `${variable} != null` }
+  const quoted = quote(value)
+  return { op: 'if', expression: `${variable} == ${quoted}`, negated: `${variable} != ${quoted}` }
+}
+
+function present(variable: string): Formula {
+  return { op: 'if', expression: variable, negated: `${variable} == null || ${variable} == ""` }
+}
+
+function regexMatch(variable: string, regex: string): Formula {
+  return { op: 'if', expression: `${variable} =~ ${regex}`, negated: `${variable} !~ ${regex}` }
+}
+
+/**
+ * Match a Jenkins branch/tag pattern. GLOB is Ant-style: `*` stays within a
+ * path segment and `**` crosses them.
+ */
+function matchPattern(variable: string, pattern: string, comparator: string): Formula {
+  switch (comparator.toUpperCase()) {
+    case 'EQUALS':
+      return compare(variable, pattern)
+    case 'REGEXP':
+      return regexMatch(variable, `/${anchor(pattern)}/`)
+    case 'GLOB': {
+      if (!/[*?]/.test(pattern)) return compare(variable, pattern)
+      const regex = pattern
+        .split(/(\*\*|\*|\?)/)
+        .map(part => (part === '**' ? '.*' : part === '*' ? '[^/]*' : part === '?' ? '[^/]' : escapeRegex(part)))
+        .join('')
+      return regexMatch(variable, `/^${regex}$/`)
+    }
+    default:
+      throw new Untranslatable(`unknown comparator ${comparator}`)
+  }
+}
+
+function quote(value: string): string {
+  if (!value.includes('"')) return `"${value}"`
+  if (!value.includes("'")) return `'${value}'`
+  throw new Untranslatable('the value contains both quote characters')
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+function escapeSlashes(pattern: string): string {
+  return pattern.replace(/\\.|\//g, match => (match === '/' ? '\\/' : match))
+}
+
+/** Jenkins regex comparisons match the whole value */
+function anchor(pattern: string): string {
+  const body = escapeSlashes(pattern)
+  return /^\^.*\$$/.test(body) ? body : `^(?:${body})$`
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Normal forms
+// ──────────────────────────────────────────────────────────────────
+
+function negate(formula: Formula): Formula {
+  switch (formula.op) {
+    case 'and':
+      return { op: 'or', terms: formula.terms.map(negate) }
+    case 'or':
+      return { op: 'and', terms: formula.terms.map(negate) }
+    case 'not':
+      return formula.term
+    case 'if':
+      return { op: 'if', expression: formula.negated, negated: formula.expression }
+    case 'changes':
+      return { ...formula, negated: !formula.negated }
+    case 'const':
+      return { op: 'const', value: !formula.value }
+  }
+}
+
+/** Alternatives, each a list of literals that must all hold */
+function disjunctiveForm(formula: Formula): Literal[][] {
+  switch (formula.op) {
+    case 'const':
+      return formula.value ? [[]] : []
+    case 'if':
+    case 'changes':
+      return [[formula]]
+    case 'not':
+      return disjunctiveForm(negate(formula.term))
+    case 'or':
+      return formula.terms.flatMap(disjunctiveForm)
+    case 'and': {
+      let clauses: Literal[][] = [[]]
+      for (const term of formula.terms) {
+        const alternatives = disjunctiveForm(term)
+        clauses = clauses.flatMap(clause => alternatives.map(alternative => [...clause, ...alternative]))
+        if (clauses.length > MAX_RULES) throw new Untranslatable(`more than ${MAX_RULES} alternatives`)
+      }
+      return clauses
+    }
+  }
+}
+
+/**
+ * Rules for a formula, or undefined when it always holds
+ */
+function toRules(formula: Formula): GitLabRule[] | undefined {
+  const clauses = disjunctiveForm(formula)
+  if (clauses.length > MAX_RULES) throw new Untranslatable(`more than ${MAX_RULES} alternatives`)
+  if (clauses.some(clause => clause.length === 0)) return undefined
+  if (clauses.length === 0) return [{ when: 'never' }]
+
+  const rules: GitLabRule[] = []
+  for (const clause of clauses) {
+    const ifs = clause.filter((l): l is Extract<Literal, { op: 'if' }> => l.op === 'if').map(l => l.expression)
+    const expression = ifs.length > 0
+      ? Array.from(new Set(ifs)).map(e => (ifs.length > 1 && e.includes('||') ? `(${e})` : e)).join(' && ')
+      : undefined
+    const changes = clause.filter((l): l is Extract<Literal, { op: 'changes' }> => l.op === 'changes')
+    const required = changes.filter(c => !c.negated)
+    const excluded = changes.filter(c => c.negated)
+
+    if (required.length > 1) throw new Untranslatable('changes: matches any pattern, not all of several changesets')
+    if (excluded.length > 0) {
+      // Skipping on a change only works when nothing else can match afterwards
+      if (clauses.length > 1) throw new Untranslatable('a negated changeset inside an alternative')
+      rules.push({ if: expression, changes: excluded.flatMap(c => c.patterns), when: 'never' })
+    }
+    rules.push(expression || required.length > 0 ? { if: expression, changes: required[0]?.patterns } : { when: 'on_success' })
+  }
+  return rules.map(rule => Object.fromEntries(Object.entries(rule).filter(([, v]) => v !== undefined)) as GitLabRule)
+}
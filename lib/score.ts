@@ -4,6 +4,9 @@ console.log('🟢 NEW SCORE MODULE LOADED', scoreVersion);
 
 console.log('🟢 NEW SCORE MODULE LOADED', Date.now())
 import { ScanResult } from '@/types'
+import { parseJenkinsfile } from './groovy-parser'
+import { buildPipelineModel } from './pipeline-model'
+import { findCalls, matchesStep, ScriptNode, StepPattern, walk } from './groovy-ast'
 
 interface PluginHit {
   key: string
@@ -11,40 +14,52 @@ interface PluginHit {
   category?: string
 }
 
-function detectPlugins(jenkinsText: string): PluginHit[] {
-  const plugins: PluginHit[] = []
-  
-  // Common plugin patterns
-  const patterns = [
-    { pattern: /withMaven\s*\(/g, key: 'maven', name: 'Maven Plugin', category: 'build' },
-    { pattern: /withGradle\s*\(/g, key: 'gradle', name: 'Gradle Plugin', category: 'build' },
-    { pattern: /withCredentials\s*\(/g, key: 'credentials', name: 'Credentials Plugin', category: 'security' },
-    { pattern: /docker\s*\./g, key: 'docker', name: 'Docker Plugin', category: 'deployment' },
-    { pattern: /git\s+url:/g, key: 'git', name: 'Git Plugin', category: 'scm' },
-    { pattern: /slackSend\s*\(/g, key: 'slack', name: 'Slack Plugin', category: 'notification' },
-    { pattern: /junit\s*\(/g, key: 'junit', name: 'JUnit Plugin', category: 'testing' },
-    { pattern: /archiveArtifacts\s*\(/g, key: 'artifacts', name: 'Archive Artifacts', category: 'build' },
-    { pattern: /publishTestResults\s*\(/g, key: 'test-results', name: 'Test Results Publisher', category: 'testing' },
-    { pattern: /sonarqube\s*\(/g, key: 'sonar', name: 'SonarQube Plugin', category: 'quality' }
-  ]
-  
-  for (const { pattern, key, name, category } of patterns) {
-    if (pattern.test(jenkinsText)) {
-      plugins.push({ key, name, category })
+// Common plugin steps, matched against the syntax tree so commented-out code is ignored
+const PLUGIN_STEPS: Array<StepPattern & PluginHit> = [
+  { step: 'withMaven', key: 'maven', name: 'Maven Plugin', category: 'build' },
+  { step: 'withGradle', key: 'gradle', name: 'Gradle Plugin', category: 'build' },
+  { step: 'withCredentials', key: 'credentials', name: 'Credentials Plugin', category: 'security' },
+  { receiver: 'docker', key: 'docker', name: 'Docker Plugin', category: 'deployment' },
+  { step: 'git', namedArg: 'url', key: 'git', name: 'Git Plugin', category: 'scm' },
+  { step: 'slackSend', key: 'slack', name: 'Slack Plugin', category: 'notification' },
+  { step: 'junit', key: 'junit', name: 'JUnit Plugin', category: 'testing' },
+  { step: 'archiveArtifacts', key: 'artifacts', name: 'Archive Artifacts', category: 'build' },
+  { step: 'publishTestResults', key: 'test-results', name: 'Test Results Publisher', category: 'testing' },
+  { step: 'sonarqube', key: 'sonar', name: 'SonarQube Plugin', category: 'quality' }
+]
+
+function detectPlugins(ast: ScriptNode): PluginHit[] {
+  const calls = findCalls(ast)
+  return PLUGIN_STEPS
+    .filter(pattern => calls.some(call => matchesStep(call, pattern)))
+    .map(({ key, name, category }) => ({ key, name, category }))
+}
+
+/**
+ * A pipeline is declarative when it has a top-level `pipeline { }` block and
+ * scripted when it uses `node { }` outside of one (`agent { node { } }` is declarative)
+ */
+function detectPipelineStyle(ast: ScriptNode): { scripted: boolean; declarative: boolean } {
+  const declarative = findCalls(ast, 'pipeline').some(call => call.closure && !call.object)
+  let scripted = false
+  walk(ast, (node, ancestors) => {
+    if (scripted) return false
+    if (node.type === 'MethodCall' && node.method === 'node' && !node.object && node.closure) {
+      scripted = !ancestors.some(a => a.type === 'MethodCall' && a.method === 'pipeline')
     }
-  }
-  
-  return plugins
+  })
+  return { scripted, declarative }
 }
 
 export function scan(jenkinsText: string): ScanResult {
   const lines = jenkinsText.split('\n')
   const lineCount = lines.length
+
+  const { ast, errors } = parseJenkinsfile(jenkinsText)
+  const { scripted: isScripted, declarative: isDeclarative } = detectPipelineStyle(ast)
   
-  const isScripted = /node\s*\{/.test(jenkinsText)
-  const isDeclarative = /pipeline\s*\{/.test(jenkinsText)
-  
-  const pluginHits = detectPlugins(jenkinsText)
+  const pipeline = buildPipelineModel(jenkinsText)
+  const pluginHits = detectPlugins(ast)
   const pluginCount = pluginHits.length
   
   // Simple tier calculation
@@ -74,9 +89,17 @@ export function scan(jenkinsText: string): ScanResult {
   if (isScripted) {
     warnings.push('Scripted pipelines are harder to migrate than declarative pipelines')
   }
+  if (pipeline && pipeline.unmodeled.length > 0) {
+    const lines = pipeline.unmodeled.map(u => u.span.startLine).join(', ')
+    warnings.push(`${pipeline.unmodeled.length} Groovy construct(s) need manual migration (lines ${lines})`)
+  }
   if (pluginCount > 15) {
     warnings.push('High plugin count may indicate overly complex pipeline')
   }
+  if (errors.length > 0) {
+    const first = errors[0]
+    warnings.push(`Jenkinsfile has ${errors.length} syntax error(s); first at line ${first.line}: ${first.message}`)
+  }
   
   console.log('Debug:', { pluginCount, lineCount, isScripted, tier, plugins: pluginHits.map(p => p.name) })
   
@@ -92,6 +115,7 @@ export function scan(jenkinsText: string): ScanResult {
     tier,
     lineCount,
     warnings,
-    timestamp: Date.now()
+    timestamp: Date.now(),
+    pipeline
   }
 }
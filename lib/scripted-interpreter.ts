@@ -0,0 +1,534 @@
+/**
+ * Scripted Pipeline Interpreter
+ *
+ * Maps the common scripted idioms (`node(label) {}`, `stage('x') {}`,
+ * `parallel(...)`, `docker.image().inside {}`, `properties([...])`,
+ * `try/catch/finally`) onto the same PipelineModel that declarative
+ * pipelines use. Every Groovy construct it cannot model is listed in
+ * `unmodeled` with its line range.
+ */
+
+import {
+  AgentSpec,
+  EnvironmentVariable,
+  PipelineDirective,
+  PipelineModel,
+  PipelineStage,
+  PipelineStep,
+  PostCondition,
+  PostConditionName,
+  StageWhen,
+  StaticValue
+} from '@/types'
+import {
+  ClosureExpression,
+  ExpressionNode,
+  findCalls,
+  MethodCall,
+  NamedArgument,
+  nodeSource,
+  ScriptNode,
+  SourceLocation,
+  StatementNode,
+  statementCall
+} from './groovy-ast'
+import {
+  isGroovyCall,
+  libraryAnnotations,
+  namedValues,
+  spanOf,
+  staticString,
+  toParameter,
+  toStaticValue,
+  toStep
+} from './pipeline-model'
+
+// Block steps that only change how the wrapped stages run; recorded as options on each stage
+const OPTION_WRAPPERS = ['timeout', 'retry', 'timestamps', 'ansiColor', 'lock', 'sshagent']
+
+// Loose steps that GitLab does for every job anyway
+const IMPLICIT_STEPS = ['checkout', 'deleteDir', 'cleanWs']
+
+/** Settings inherited by the stages inside a block */
+interface Scope {
+  agent?: AgentSpec
+  environment: EnvironmentVariable[]
+  options: PipelineDirective[]
+  conditions: StageWhen['conditions']
+  whenSpan?: StageWhen['span']
+}
+
+const EMPTY_SCOPE: Scope = { environment: [], options: [], conditions: [] }
+
+/**
+ * Interpret a scripted pipeline. Returns undefined when the file has no
+ * `node { }` or `stage { }` blocks to interpret.
+ */
+export function interpretScriptedPipeline(ast: ScriptNode, source: string): PipelineModel | undefined {
+  if (findCalls(ast, 'node').length === 0 && findCalls(ast, 'stage').length === 0) return undefined
+  return new ScriptedInterpreter(source).interpret(ast)
+}
+
+class ScriptedInterpreter {
+  private model!: PipelineModel
+  /** Stage that receives loose steps (`stage 'x'` without a block, or an implicit stage) */
+  private current?: PipelineStage
+  /** Catch and finally blocks of pipeline-level try statements, with the stages their try block holds */
+  private tryPosts: Array<{ posts: PostCondition[]; stages: PipelineStage[]; loc: SourceLocation }> = []
+
+  constructor(private readonly source: string) {}
+
+  interpret(ast: ScriptNode): PipelineModel {
+    this.model = {
+      kind: 'scripted',
+      environment: [],
+      options: [],
+      parameters: [],
+      triggers: [],
+      tools: [],
+      libraries: libraryAnnotations(ast),
+      stages: [],
+      post: [],
+      unmodeled: [],
+      span: spanOf(ast)
+    }
+    this.interpretBlock(ast.body, { environment: [], options: [], conditions: [] }, this.model.stages, this.model.post)
+    this.settleTryPosts()
+    return this.model
+  }
+
+  private unmodel(node: { loc: SourceLocation }, kind: string, reason: string): void {
+    const text = nodeSource(this.source, node).split('\n')[0].trim()
+    this.model.unmodeled.push({ kind, description: `${reason}: ${text}`, span: spanOf(node) })
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Blocks that contain stages
+  // ──────────────────────────────────────────────────────────────────
+
+  private interpretBlock(statements: StatementNode[], scope: Scope, stages: PipelineStage[], post: PostCondition[]): void {
+    for (const statement of statements) {
+      switch (statement.type) {
+        case 'AnnotatedStatement':
+          if (!statement.annotations.every(a => a.name === 'Library')) {
+            this.unmodel(statement, 'groovy', 'Annotation is not modeled')
+          }
+          continue
+        case 'ImportStatement':
+          this.unmodel(statement, 'groovy', 'Import is not modeled')
+          continue
+        case 'MethodDeclaration':
+          this.unmodel(statement, 'method', `Method '${statement.name}' is not inlined into the stages that call it`)
+          continue
+        case 'ClassDeclaration':
+          this.unmodel(statement, 'class', `Class '${statement.name}' is not modeled`)
+          continue
+        case 'TryStatement':
+          this.interpretTry(statement, scope, stages, post)
+          continue
+        case 'IfStatement':
+          this.interpretIf(statement, scope, stages, post)
+          continue
+        case 'Unparsed':
+          this.unmodel(statement, 'syntax-error', statement.reason)
+          continue
+      }
+
+      if (statement.type === 'ExpressionStatement' && statement.expression.type === 'AssignmentExpression') {
+        const { target, value } = statement.expression
+        if (target.type === 'PropertyAccess' && target.object.type === 'Identifier' && target.object.name === 'env') {
+          const env = { name: target.property, value: toStaticValue(value, this.source), span: spanOf(statement) }
+          this.addEnvironment(scope, stages, env)
+          continue
+        }
+      }
+
+      const call = statementCall(statement)
+      if (call && this.interpretContainerCall(call, scope, stages, post)) continue
+
+      if (this.containsStages(statement)) {
+        this.unmodel(statement, 'control-flow', 'Stages inside this construct are not modeled')
+        continue
+      }
+      if (!call) {
+        this.unmodel(statement, 'groovy', 'Groovy statement outside a stage')
+        continue
+      }
+      this.addLooseStep(statement, scope, stages)
+    }
+  }
+
+  /**
+   * Handle calls that structure the pipeline. Returns false for plain steps.
+   */
+  private interpretContainerCall(call: MethodCall, scope: Scope, stages: PipelineStage[], post: PostCondition[]): boolean {
+    if (call.object) {
+      const docker = this.dockerInside(call)
+      if (!docker || !call.closure) return false
+      // The container runs on the node of the enclosing block, whose label still picks the runner
+      const label = scope.agent?.label
+      const agent = label ? { ...docker, label, settings: { ...docker.settings, label } } : docker
+      this.current = undefined
+      this.interpretBlock(call.closure.body, { ...scope, agent }, stages, post)
+      return true
+    }
+
+    switch (call.method) {
+      case 'node': {
+        if (!call.closure) return false
+        const agent = this.nodeAgent(call)
+        if (!this.model.agent) this.model.agent = agent
+        this.current = undefined
+        this.interpretBlock(call.closure.body, { ...scope, agent }, stages, post)
+        this.current = undefined
+        return true
+      }
+      case 'stage': {
+        const stage = this.newStage(call, scope, this.stageName(call))
+        stages.push(stage)
+        if (call.closure) {
+          this.interpretStageBody(call.closure.body, stage)
+          this.current = undefined
+        } else {
+          // Legacy `stage 'Build'` form: the following steps belong to this stage
+          this.current = stage
+        }
+        return true
+      }
+      case 'parallel': {
+        const stage = this.newStage(call, scope, 'Parallel')
+        this.readParallel(call, stage)
+        stages.push(stage)
+        this.current = undefined
+        return true
+      }
+      case 'properties':
+        this.readProperties(call)
+        return true
+      case 'withEnv': {
+        if (!call.closure || !this.containsStages(call.closure)) return false
+        const environment = this.withEnvVariables(call)
+        this.interpretBlock(call.closure.body, { ...scope, environment: [...scope.environment, ...environment] }, stages, post)
+        return true
+      }
+    }
+
+    if (!call.closure || !this.containsStages(call.closure)) return false
+    if (OPTION_WRAPPERS.includes(call.method)) {
+      const option: PipelineDirective = {
+        name: call.method,
+        args: call.arguments.map(arg => toStaticValue(arg, this.source)),
+        named: namedValues(call, this.source),
+        span: spanOf(call)
+      }
+      this.interpretBlock(call.closure.body, { ...scope, options: [...scope.options, option] }, stages, post)
+      return true
+    }
+    this.unmodel(call, 'wrapper', `'${call.method}' wraps several stages and is not applied to them`)
+    this.interpretBlock(call.closure.body, scope, stages, post)
+    return true
+  }
+
+  private interpretTry(statement: Extract<StatementNode, { type: 'TryStatement' }>, scope: Scope, stages: PipelineStage[], post: PostCondition[]): void {
+    const first = stages.length
+    this.interpretBlock(statement.block, scope, stages, post)
+    this.current = undefined
+    const posts: PostCondition[] = []
+    for (const handler of statement.handlers) {
+      this.addPost(posts, 'failure', handler.body, handler.param, handler.loc)
+    }
+    if (statement.finalizer) {
+      this.addPost(posts, 'always', statement.finalizer, undefined, statement.finalizerLoc ?? statement.loc)
+    }
+    if (posts.length > 0) this.tryPosts.push({ posts, stages: stages.slice(first), loc: statement.loc })
+  }
+
+  /**
+   * A try block around the whole pipeline gives pipeline post conditions;
+   * around some stages only, its catch and finally blocks belong to those
+   * stages, which is known once the stages after it have been read
+   */
+  private settleTryPosts(): void {
+    for (const { posts, stages, loc } of this.tryPosts) {
+      if (stages.length === 0 || stages.length === this.model.stages.length) {
+        this.model.post.push(...posts)
+        continue
+      }
+      if (stages.length > 1) {
+        this.unmodel({ loc }, 'post', 'catch and finally blocks around several stages run after each of them')
+      }
+      for (const stage of stages) stage.post.push(...posts)
+    }
+  }
+
+  /**
+   * `if (cond) { stage(...) }` becomes stages with an expression condition
+   */
+  private interpretIf(statement: Extract<StatementNode, { type: 'IfStatement' }>, scope: Scope, stages: PipelineStage[], post: PostCondition[]): void {
+    if (!this.containsStages(statement)) {
+      this.unmodel(statement, 'groovy', 'Groovy statement outside a stage')
+      return
+    }
+    const test = nodeSource(this.source, statement.test)
+    const branch = (expression: string, body: StatementNode[]) => {
+      const condition = { kind: 'expression', named: {}, expression, span: spanOf(statement.test) }
+      this.current = undefined
+      this.interpretBlock(body, { ...scope, conditions: [...scope.conditions, condition], whenSpan: spanOf(statement) }, stages, post)
+      this.current = undefined
+    }
+    branch(test, statement.consequent)
+    if (statement.alternate) branch(`!(${test})`, statement.alternate)
+  }
+
+  private addLooseStep(statement: StatementNode, scope: Scope, stages: PipelineStage[]): void {
+    const step = toStep(statement, this.source)
+    if (!this.current) {
+      if (IMPLICIT_STEPS.includes(step.name)) return
+      const previous = stages[stages.length - 1]
+      const name = previous ? `${previous.name} (continued)` : 'Build'
+      this.current = this.newStage(statement, scope, name)
+      stages.push(this.current)
+    }
+    this.current.steps.push(step)
+    this.current.span.endLine = Math.max(this.current.span.endLine, step.span.endLine)
+  }
+
+  private addEnvironment(scope: Scope, stages: PipelineStage[], variable: EnvironmentVariable): void {
+    if (this.current) {
+      this.current.environment.push(variable)
+    } else if (stages === this.model.stages && scope.conditions.length === 0) {
+      this.model.environment.push(variable)
+    } else {
+      scope.environment.push(variable)
+    }
+  }
+
+  private addPost(post: PostCondition[], condition: PostConditionName, body: StatementNode[], rethrown: string | undefined, loc: SourceLocation): void {
+    // `throw err` of the caught exception only keeps the build failed, which GitLab does anyway
+    const statements = body.filter(statement =>
+      !(statement.type === 'ThrowStatement' && statement.argument.type === 'Identifier' && statement.argument.name === rethrown)
+    )
+    if (rethrown !== undefined && statements.length === body.length) {
+      this.unmodel({ loc }, 'catch', 'catch block swallows the failure; the GitLab job will still fail')
+    }
+    if (statements.length === 0) return
+    post.push({ condition, steps: statements.flatMap(statement => this.postSteps(statement)), span: spanOf({ loc }) })
+  }
+
+  /**
+   * Steps of a catch or finally block; a `stage(...)` there only labels its
+   * steps, which run in the same post job
+   */
+  private postSteps(statement: StatementNode): PipelineStep[] {
+    const call = statementCall(statement)
+    if (!call || call.object || call.method !== 'stage' || !call.closure) return [toStep(statement, this.source)]
+    const stage = this.newStage(call, EMPTY_SCOPE, this.stageName(call))
+    this.interpretStageBody(call.closure.body, stage)
+    if (stage.parallel.length > 0 || stage.stages.length > 0 || stage.post.length > 0) {
+      this.unmodel(call, 'post', `Stages and try blocks inside stage '${stage.name}' of a catch or finally block are not converted`)
+    }
+    return stage.steps
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Stage bodies
+  // ──────────────────────────────────────────────────────────────────
+
+  private newStage(node: { loc: SourceLocation }, scope: Scope, name: string): PipelineStage {
+    const stage: PipelineStage = {
+      name,
+      environment: [...scope.environment],
+      options: [...scope.options],
+      tools: [],
+      steps: [],
+      parallel: [],
+      stages: [],
+      post: [],
+      span: spanOf(node)
+    }
+    if (scope.agent && scope.agent !== this.model.agent) stage.agent = scope.agent
+    if (scope.conditions.length > 0) {
+      stage.when = { conditions: [...scope.conditions], span: scope.whenSpan ?? spanOf(node) }
+    }
+    return stage
+  }
+
+  private stageName(call: MethodCall): string {
+    const name = call.arguments[0] ? toStaticValue(call.arguments[0], this.source) : undefined
+    const text = staticString(name)
+    if (text !== undefined) return text
+    this.unmodel(call, 'stage', 'Stage name is computed at runtime')
+    return call.arguments[0] ? nodeSource(this.source, call.arguments[0]) : 'unnamed'
+  }
+
+  private interpretStageBody(statements: StatementNode[], stage: PipelineStage): void {
+    for (const statement of statements) {
+      const call = statementCall(statement)
+
+      if (statement.type === 'TryStatement') {
+        this.interpretStageBody(statement.block, stage)
+        for (const handler of statement.handlers) {
+          this.addPost(stage.post, 'failure', handler.body, handler.param, handler.loc)
+        }
+        if (statement.finalizer) this.addPost(stage.post, 'always', statement.finalizer, undefined, statement.finalizerLoc ?? statement.loc)
+        continue
+      }
+
+      if (call?.object && call.closure) {
+        const docker = this.dockerInside(call)
+        if (docker) {
+          if (stage.agent?.kind === 'docker' && stage.agent.image !== docker.image) {
+            this.unmodel(call, 'agent', `Stage '${stage.name}' uses more than one container image`)
+          } else {
+            stage.agent = docker
+          }
+          this.interpretStageBody(call.closure.body, stage)
+          continue
+        }
+      }
+
+      if (call && !call.object) {
+        if (call.method === 'stage' && call.closure) {
+          const child = this.newStage(call, EMPTY_SCOPE, this.stageName(call))
+          this.interpretStageBody(call.closure.body, child)
+          stage.stages.push(child)
+          continue
+        }
+        if (call.method === 'parallel') {
+          this.readParallel(call, stage)
+          continue
+        }
+        if (call.method === 'node' && call.closure) {
+          stage.agent = this.nodeAgent(call)
+          this.interpretStageBody(call.closure.body, stage)
+          continue
+        }
+      }
+
+      stage.steps.push(toStep(statement, this.source))
+    }
+  }
+
+  /**
+   * Read `parallel(a: { }, b: { }, failFast: true)` or `parallel([a: { }, b: { }])`
+   */
+  private readParallel(call: MethodCall, stage: PipelineStage): void {
+    const entries: NamedArgument[] = [...call.namedArguments]
+    const map = call.arguments[0]
+    if (map?.type === 'MapExpression') {
+      entries.push(...map.entries.map(entry => ({ name: entry.key, value: entry.value, loc: entry.value.loc })))
+    } else if (map) {
+      this.unmodel(call, 'parallel', 'Parallel branches are built at runtime')
+    }
+
+    for (const entry of entries) {
+      if (entry.name === 'failFast') {
+        stage.failFast = toStaticValue(entry.value, this.source) === true
+        continue
+      }
+      if (entry.value.type !== 'ClosureExpression') {
+        this.unmodel(entry, 'parallel', `Parallel branch '${entry.name}' is not a literal closure`)
+        continue
+      }
+      const branch = this.newStage(entry.value, EMPTY_SCOPE, entry.name)
+      this.interpretStageBody((entry.value as ClosureExpression).body, branch)
+      stage.parallel.push(branch)
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────
+  // Agents and properties
+  // ──────────────────────────────────────────────────────────────────
+
+  private nodeAgent(call: MethodCall): AgentSpec {
+    const label = call.arguments[0] ? toStaticValue(call.arguments[0], this.source) : undefined
+    const text = staticString(label)
+    if (label !== undefined && text === undefined) {
+      this.unmodel(call, 'agent', 'Node label is computed at runtime')
+    }
+    return text
+      ? { kind: 'label', label: text, settings: { label: text }, span: spanOf(call) }
+      : { kind: 'any', settings: {}, span: spanOf(call) }
+  }
+
+  /**
+   * Agent for `docker.image('x').inside('-v a:b') { }`, if the call is one
+   */
+  private dockerInside(call: MethodCall): AgentSpec | undefined {
+    const image = call.object
+    if (call.method !== 'inside' || image?.type !== 'MethodCall' || image.method !== 'image') return undefined
+    if (image.object?.type !== 'Identifier' || image.object.name !== 'docker') return undefined
+    const settings: { [name: string]: StaticValue } = {}
+    settings.image = image.arguments[0] ? toStaticValue(image.arguments[0], this.source) : null
+    if (call.arguments[0]) settings.args = toStaticValue(call.arguments[0], this.source)
+    return {
+      kind: 'docker',
+      image: staticString(settings.image),
+      args: staticString(settings.args),
+      settings,
+      span: spanOf(call)
+    }
+  }
+
+  private withEnvVariables(call: MethodCall): EnvironmentVariable[] {
+    const value = call.arguments[0] ? toStaticValue(call.arguments[0], this.source) : undefined
+    if (!Array.isArray(value)) {
+      this.unmodel(call, 'environment', 'withEnv list is computed at runtime')
+      return []
+    }
+    return value.map(staticString).filter((entry): entry is string => !!entry && entry.includes('=')).map(entry => ({
+      name: entry.slice(0, entry.indexOf('=')),
+      value: entry.slice(entry.indexOf('=') + 1),
+      span: spanOf(call)
+    }))
+  }
+
+  /**
+   * `properties([parameters([...]), pipelineTriggers([...]), buildDiscarder(...)])`
+   */
+  private readProperties(call: MethodCall): void {
+    const list = call.arguments[0]
+    if (list?.type !== 'ListExpression') {
+      this.unmodel(call, 'properties', 'properties() argument is computed at runtime')
+      return
+    }
+    for (const element of list.elements) {
+      if (element.type !== 'MethodCall' || element.object) {
+        this.unmodel(element, 'properties', 'Unsupported job property')
+        continue
+      }
+      const items = this.listItems(element.arguments[0])
+      if (element.method === 'parameters') {
+        for (const item of items) {
+          const parameter = item.type === 'MethodCall' ? toParameter(item, this.source) : undefined
+          if (parameter) this.model.parameters.push(parameter)
+          else this.unmodel(item, 'parameter', 'Unsupported parameter definition')
+        }
+      } else if (element.method === 'pipelineTriggers') {
+        for (const item of items) {
+          const value = toStaticValue(item, this.source)
+          if (!isGroovyCall(value)) {
+            this.unmodel(item, 'trigger', 'Unsupported trigger definition')
+            continue
+          }
+          this.model.triggers.push({ name: value.call, args: value.args, named: value.named, span: spanOf(item) })
+        }
+      } else {
+        this.model.options.push({
+          name: element.method,
+          args: element.arguments.map(arg => toStaticValue(arg, this.source)),
+          named: namedValues(element, this.source),
+          span: spanOf(element)
+        })
+      }
+    }
+  }
+
+  private listItems(node: ExpressionNode | undefined): ExpressionNode[] {
+    return node?.type === 'ListExpression' ? node.elements : []
+  }
+
+  private containsStages(node: StatementNode | ClosureExpression): boolean {
+    return findCalls(node, 'stage').length > 0
+  }
+}
@@ -0,0 +1,439 @@
+/**
+ * Shared Library Resolver
+ *
+ * Reads an uploaded Jenkins shared library (`vars/*.groovy`, `src/`,
+ * `resources/`) and inlines the global steps a pipeline calls, so that
+ * `myDeploy(env: 'prod')` converts as the `sh` and other steps its body
+ * runs. Arguments are bound where they are static: `${config.env}` in the
+ * step body becomes `prod`. A step whose body holds the whole pipeline
+ * (`pipeline { }` or `node { }` inside `def call`) becomes the model itself.
+ */
+
+import { PipelineModel, PipelineStage, PipelineStep, PostCondition, SourceSpan, StaticValue, UnmodeledConstruct } from '@/types'
+import { findCalls, MethodDeclaration, nodeSource, StatementNode, statementCall } from './groovy-ast'
+import { parseJenkinsfile } from './groovy-parser'
+import { interpretPipeline, isGroovyCall, isGroovyExpression, libraryAnnotations, staticString, toStep } from './pipeline-model'
+
+export interface LibraryStep {
+  /** Global variable name, from `vars/<name>.groovy` */
+  name: string
+  path: string
+  source: string
+  /** Top-level methods; `call` runs for `name(...)`, the others for `name.method(...)` */
+  methods: Record<string, MethodDeclaration>
+}
+
+export interface SharedLibrary {
+  name: string
+  steps: Record<string, LibraryStep>
+  /** Groovy classes under `src/`, which are not inlined */
+  classes: string[]
+  /** Files under `resources/` by their `libraryResource` path */
+  resources: Record<string, string>
+}
+
+export interface LibraryResolution {
+  model: PipelineModel | undefined
+  /** Library steps that were inlined, with the lines that call them */
+  inlined: Array<{ step: string; path: string; span: SourceSpan }>
+}
+
+type Bindings = Record<string, StaticValue>
+
+/** State of one inlined library method */
+interface Frame {
+  step: LibraryStep
+  bindings: Bindings
+  /** Closure parameters, bound to the steps of the caller's block */
+  closures: Map<string, PipelineStep[]>
+  /** Map variable each closure parameter delegates to, from `body.delegate = config` */
+  delegates: Map<string, string>
+}
+
+// Guards against library steps that call each other in a cycle
+const MAX_INLINE_DEPTH = 8
+
+// Top-level blocks of a step that defines the whole pipeline
+const PIPELINE_BLOCKS = ['pipeline', 'node', 'stage']
+
+/**
+ * Read a shared library from its files by path. Archives often wrap the
+ * library in a top-level folder, so paths are taken relative to the
+ * directory that holds `vars/`, `src/` or `resources/`.
+ */
+export function loadSharedLibrary(files: Record<string, string>, name: string): SharedLibrary {
+  const library: SharedLibrary = { name, steps: {}, classes: [], resources: {} }
+  const paths = Object.keys(files).map(path => path.replace(/\\/g, '/'))
+  const root = paths.map(path => path.match(/^(.*?\/)?(?:vars|src|resources)\//)).find(Boolean)?.[1] ?? ''
+
+  Object.values(files).forEach((content, index) => {
+    if (!paths[index].startsWith(root)) return
+    const path = paths[index].slice(root.length)
+    const step = path.match(/^vars\/([A-Za-z_]\w*)\.groovy$/)
+    if (step) {
+      const methods: Record<string, MethodDeclaration> = {}
+      for (const statement of parseJenkinsfile(content).ast.body) {
+        const declaration = statement.type === 'AnnotatedStatement' ? statement.statement : statement
+        if (declaration?.type === 'MethodDeclaration' && !hasOwn(methods, declaration.name)) methods[declaration.name] = declaration
+      }
+      library.steps[step[1]] = { name: step[1], path, source: content, methods }
+    } else if (path.startsWith('src/') && path.endsWith('.groovy')) {
+      library.classes.push(path)
+    } else if (path.startsWith('resources/') && !path.endsWith('/')) {
+      library.resources[path.slice('resources/'.length)] = content
+    }
+  })
+  return library
+}
+
+/**
+ * Inline the library steps a pipeline calls. When the Jenkinsfile only
+ * calls a library step that defines the pipeline, the model is built from
+ * that step's body.
+ */
+export function resolveSharedLibraries(
+  jenkinsfile: string,
+  model: PipelineModel | undefined,
+  libraries: SharedLibrary[]
+): LibraryResolution {
+  const resolver = new LibraryResolver(libraries)
+  return { model: resolver.resolve(jenkinsfile, model), inlined: resolver.inlined }
+}
+
+/**
+ * Steps that one call of a library step runs, with its arguments bound
+ */
+export function inlineLibraryStep(libraries: SharedLibrary[], step: PipelineStep): PipelineStep[] {
+  return new LibraryResolver(libraries).expandStep(step, 0)
+}
+
+class LibraryResolver {
+  readonly inlined: LibraryResolution['inlined'] = []
+  private readonly unmodeled: UnmodeledConstruct[] = []
+  private readonly steps = new Map<string, LibraryStep>()
+  private readonly resources: Record<string, string> = {}
+
+  constructor(private readonly libraries: SharedLibrary[]) {
+    // Jenkins searches libraries in load order, so the first definition wins
+    for (const library of libraries) {
+      for (const step of Object.values(library.steps)) {
+        if (!this.steps.has(step.name)) this.steps.set(step.name, step)
+      }
+      for (const [path, content] of Object.entries(library.resources)) {
+        if (!hasOwn(this.resources, path)) this.resources[path] = content
+      }
+    }
+  }
+
+  resolve(jenkinsfile: string, model: PipelineModel | undefined): PipelineModel | undefined {
+    const base = model ?? this.pipelineFromStep(jenkinsfile)
+    if (!base) return undefined
+    return {
+      ...base,
+      // A single uploaded library stands in for whatever name the Jenkinsfile loads it by
+      libraries: base.libraries.map(library => ({
+        ...library,
+        resolved: this.libraries.length === 1 || this.libraries.some(candidate => candidate.name === library.name)
+      })),
+      stages: base.stages.map(stage => this.expandStage(stage)),
+      post: this.expandPost(base.post),
+      unmodeled: [...base.unmodeled, ...this.unmodeled]
+    }
+  }
+
+  /**
+   * Model for a Jenkinsfile such as `standardPipeline(app: 'api')`, whose
+   * library step body declares the pipeline
+   */
+  private pipelineFromStep(jenkinsfile: string): PipelineModel | undefined {
+    const { ast, source } = parseJenkinsfile(jenkinsfile)
+    for (const statement of ast.body) {
+      const call = statementCall(statement)
+      const step = call && !call.object ? this.steps.get(call.method) : undefined
+      const method = step?.methods.call
+      if (!step || !method) continue
+
+      const caller = toStep(statement, source)
+      const frame = this.newFrame(step, method, caller)
+      const start = method.body.findIndex(inner => !this.prelude(inner, frame))
+      const body = start < 0 ? [] : method.body.slice(start)
+      if (!body.some(inner => PIPELINE_BLOCKS.some(block => findCalls(inner, block).length > 0))) continue
+
+      const model = interpretPipeline({ type: 'Script', body, loc: method.loc }, step.source)
+      if (!model) continue
+      this.inlined.push({ step: step.name, path: step.path, span: caller.span })
+      // Report lines point at the call in the Jenkinsfile, not into the library file
+      return { ...relocate(bindDeep(model, frame.bindings, this.resources), caller.span), libraries: libraryAnnotations(ast) }
+    }
+    return undefined
+  }
+
+  private expandStage(stage: PipelineStage): PipelineStage {
+    return {
+      ...stage,
+      steps: this.expandSteps(stage.steps, 0),
+      parallel: stage.parallel.map(branch => this.expandStage(branch)),
+      stages: stage.stages.map(child => this.expandStage(child)),
+      matrix: stage.matrix && {
+        ...stage.matrix,
+        stages: stage.matrix.stages.map(child => this.expandStage(child)),
+        post: this.expandPost(stage.matrix.post)
+      },
+      post: this.expandPost(stage.post)
+    }
+  }
+
+  private expandPost(post: PostCondition[]): PostCondition[] {
+    return post.map(condition => ({ ...condition, steps: this.expandSteps(condition.steps, 0) }))
+  }
+
+  private expandSteps(steps: PipelineStep[], depth: number): PipelineStep[] {
+    return steps.flatMap(step => this.expandStep(step, depth))
+  }
+
+  expandStep(step: PipelineStep, depth: number): PipelineStep[] {
+    const current = step.body ? { ...step, body: this.expandSteps(step.body, depth) } : step
+    if (current.kind !== 'step') return [current]
+    const owner = this.steps.get(current.receiver ?? current.name)
+    const methodName = current.receiver ? current.name : 'call'
+    const method = owner && hasOwn(owner.methods, methodName) ? owner.methods[methodName] : undefined
+    if (!owner || !method) return [current]
+
+    const name = current.receiver ? `${current.receiver}.${current.name}` : current.name
+    if (depth >= MAX_INLINE_DEPTH) {
+      this.unmodeled.push({ kind: 'library', description: `Shared library step '${name}' calls itself too deeply to inline`, span: current.span })
+      return [current]
+    }
+    this.inlined.push({ step: name, path: owner.path, span: current.span })
+
+    return this.inlineStatements(method.body, this.newFrame(owner, method, current), current.span, depth + 1)
+  }
+
+  private inlineStatements(statements: StatementNode[], frame: Frame, span: SourceSpan, depth: number): PipelineStep[] {
+    const inlined: PipelineStep[] = []
+    for (const statement of statements) {
+      if (this.prelude(statement, frame)) continue
+      // A bare `return` ends the step; it produces nothing to convert
+      if (statement.type === 'ReturnStatement' && (!statement.argument || statement.argument.type === 'Identifier')) continue
+      // Conditions on the arguments are known now, e.g. `if (config.publish) { ... }`
+      if (statement.type === 'IfStatement') {
+        const test = evaluate(nodeSource(frame.step.source, statement.test), frame.bindings, this.resources)
+        if (test !== undefined && !isGroovyExpression(test) && !isComponentInput(test)) {
+          inlined.push(...this.inlineStatements(isTruthy(test) ? statement.consequent : statement.alternate ?? [], frame, span, depth))
+          continue
+        }
+      }
+      for (const step of this.bindStep(toStep(statement, frame.step.source), frame, span)) {
+        inlined.push(...this.expandStep(step, depth))
+      }
+    }
+    return inlined
+  }
+
+  /**
+   * Bind the parameters of a library method to the caller's arguments.
+   * Named arguments arrive as one map, the usual `def call(Map config)`.
+   */
+  private newFrame(step: LibraryStep, method: MethodDeclaration, caller: PipelineStep): Frame {
+    const frame: Frame = { step, bindings: {}, closures: new Map(), delegates: new Map() }
+    const args: StaticValue[] = Object.keys(caller.named).length > 0 ? [caller.named, ...caller.args] : [...caller.args]
+    method.params.forEach((param, index) => {
+      if (index < args.length) {
+        frame.bindings[param.name] = args[index]
+      } else if (index === args.length && caller.body) {
+        frame.closures.set(param.name, caller.body)
+      } else if (param.defaultValue) {
+        const value = evaluate(nodeSource(step.source, param.defaultValue), frame.bindings, this.resources)
+        if (value !== undefined) frame.bindings[param.name] = value
+      }
+    })
+    return frame
+  }
+
+  /**
+   * Statements that only prepare values: `def x = <static value>` and the
+   * closure-configuration idiom (`body.delegate = config; body()`).
+   * Returns true when the statement was consumed.
+   */
+  private prelude(statement: StatementNode, frame: Frame): boolean {
+    const { source } = frame.step
+    if (statement.type === 'VariableDeclaration' && statement.init) {
+      const value = evaluate(nodeSource(source, statement.init), frame.bindings, this.resources)
+      if (value === undefined) return false
+      frame.bindings[statement.name] = value
+      return true
+    }
+    if (statement.type !== 'ExpressionStatement') return false
+    const expression = statement.expression
+    if (expression.type === 'AssignmentExpression' && expression.target.type === 'PropertyAccess') {
+      const target = expression.target.object
+      if (target.type !== 'Identifier' || !frame.closures.has(target.name)) return false
+      if (expression.target.property === 'delegate') frame.delegates.set(target.name, nodeSource(source, expression.value))
+      return expression.target.property === 'delegate' || expression.target.property === 'resolveStrategy'
+    }
+    const call = statementCall(statement)
+    const delegate = call && !call.object ? frame.delegates.get(call.method) : undefined
+    if (!call || delegate === undefined) return false
+
+    // The caller's block assigns the settings, e.g. `myPipeline { goals = 'verify' }`
+    const config = frame.bindings[delegate]
+    const settings: Bindings = isMap(config) ? { ...config } : {}
+    for (const step of frame.closures.get(call.method) ?? []) {
+      const assignment = step.source.match(/^\s*(\w+)\s*=\s*([\s\S]+)$/)
+      const value = assignment ? evaluate(assignment[2], {}, this.resources) : undefined
+      if (assignment && value !== undefined) settings[assignment[1]] = value
+    }
+    frame.bindings[delegate] = settings
+    return true
+  }
+
+  /**
+   * Library statement as a step with the frame's values bound. Calls of
+   * a closure parameter (`body()`) become the steps of the caller's block,
+   * and every step reports the line of the call it was inlined from.
+   */
+  private bindStep(step: PipelineStep, frame: Frame, span: SourceSpan): PipelineStep[] {
+    const closure = step.kind === 'step' && !step.receiver && step.args.length === 0 ? frame.closures.get(step.name) : undefined
+    if (closure) return closure
+    const bound = bindDeep({ ...step, body: undefined }, frame.bindings, this.resources)
+    return [{
+      ...bound,
+      body: step.body?.flatMap(inner => this.bindStep(inner, frame, span)),
+      span
+    }]
+  }
+}
+
+// ──────────────────────────────────────────────────────────────────
+// Static evaluation
+// ──────────────────────────────────────────────────────────────────
+
+/**
+ * Replace bound values throughout a model or step: `${config.x}` inside
+ * strings, Groovy expressions that evaluate, and `libraryResource` calls
+ */
+function bindDeep<T>(value: T, bindings: Bindings, resources: Record<string, string>): T {
+  if (typeof value === 'string') return substitute(value, bindings, resources) as T
+  if (Array.isArray(value)) return value.map(item => bindDeep(item, bindings, resources)) as T
+  if (typeof value !== 'object' || value === null) return value
+
+  const staticValue = value as StaticValue
+  if (isGroovyExpression(staticValue)) {
+    const result = evaluate(staticValue.expression, bindings, resources)
+    return (result === undefined || result === null ? value : result) as T
+  }
+  if (isGroovyCall(staticValue) && staticValue.call === 'libraryResource') {
+    const path = staticString(bindDeep(staticValue.args[0] ?? staticValue.named.resource, bindings, resources))
+    if (path !== undefined && hasOwn(resources, path)) return resources[path] as T
+  }
+  const result: Record<string, unknown> = {}
+  for (const [key, inner] of Object.entries(value)) result[key] = bindDeep(inner, bindings, resources)
+  return result as T
+}
+
+function relocate<T>(value: T, span: SourceSpan): T {
+  if (Array.isArray(value)) return value.map(item => relocate(item, span)) as T
+  if (typeof value !== 'object' || value === null) return value
+  const result: Record<string, unknown> = {}
+  for (const [key, inner] of Object.entries(value)) result[key] = key === 'span' ? span : relocate(inner, span)
+  return result as T
+}
+
+function substitute(text: string, bindings: Bindings, resources: Record<string, string>): string {
+  return text.replace(/\$\{([^{}]+)\}/g, (match, expression: string) => {
+    const value = evaluate(expression, bindings, resources)
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value)
+    // Runtime values passed in, such as `params.ENV`, stay interpolations for the converter
+    if (isGroovyExpression(value)) return `\${${value.expression}}`
+    return match
+  })
+}
+
+/**
+ * Value of a Groovy expression at conversion time: literals, bound
+ * variables and map properties, and `a ?: b`. Undefined when it needs
+ * runtime state.
+ */
+function evaluate(text: string, bindings: Bindings, resources: Record<string, string>): StaticValue | undefined {
+  const expression = text.trim()
+  const elvis = topLevelElvis(expression)
+  if (elvis >= 0) {
+    const left = evaluate(expression.slice(0, elvis), bindings, resources)
+    if (left === undefined || isGroovyExpression(left)) return undefined
+    return left === null || left === '' || left === false ? evaluate(expression.slice(elvis + 2), bindings, resources) : left
+  }
+
+  let match: RegExpMatchArray | null
+  if ((match = expression.match(/^'((?:[^'\\]|\\.)*)'$/))) return match[1].replace(/\\(.)/g, '$1')
+  if ((match = expression.match(/^"((?:[^"\\]|\\.)*)"$/))) {
+    const value = substitute(match[1].replace(/\\(.)/g, '$1'), bindings, resources)
+    return value.includes('${') ? undefined : value
+  }
+  if (/^-?\d+(\.\d+)?$/.test(expression)) return Number(expression)
+  if (expression === 'true' || expression === 'false') return expression === 'true'
+  if (expression === 'null') return null
+  if (expression === '[:]') return {}
+  if ((match = expression.match(/^libraryResource\s*\(?\s*'([^']*)'\s*\)?$/))) return hasOwn(resources, match[1]) ? resources[match[1]] : undefined
+  if (/^[A-Za-z_]\w*(?:\??\.[A-Za-z_]\w*|\[\s*'[^']*'\s*\])*$/.test(expression)) return lookup(expression, bindings)
+  return undefined
+}
+
+function lookup(path: string, bindings: Bindings): StaticValue | undefined {
+  const [root, ...keys] = Array.from(path.matchAll(/([A-Za-z_]\w*)|\[\s*'([^']*)'\s*\]/g), match => match[1] ?? match[2])
+  if (!hasOwn(bindings, root)) return undefined
+  let value = bindings[root]
+  for (const key of keys) {
+    if (isGroovyExpression(value)) {
+      value = { expression: `${value.expression}.${key}` }
+    } else if (isMap(value)) {
+      // Groovy maps answer null for keys they do not have
+      value = hasOwn(value, key) ? value[key] : null
+    } else {
+      return undefined
+    }
+  }
+  return value
+}
+
+/** Component inputs (`$[[ inputs.x ]]`) are only known when a pipeline includes the component */
+function isComponentInput(value: StaticValue): boolean {
+  return typeof value === 'string' && value.includes('$[[ inputs.')
+}
+
+/** Groovy truth: null, false, zero and empty strings, lists and maps are false */
+function isTruthy(value: StaticValue): boolean {
+  if (value === null || value === false || value === 0 || value === '') return false
+  if (Array.isArray(value)) return value.length > 0
+  if (isMap(value)) return Object.keys(value).length > 0
+  return true
+}
+
+function hasOwn(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key)
+}
+
+function isMap(value: StaticValue | undefined): value is { [key: string]: StaticValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isGroovyExpression(value) && !isGroovyCall(value)
+}
+
+/** Offset of a `?:` outside strings and brackets, or -1 */
+function topLevelElvis(expression: string): number {
+  let quote: string | undefined
+  let depth = 0
+  for (let i = 0; i < expression.length - 1; i++) {
+    const char = expression[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = undefined
+    } else if (char === "'" || char === '"') {
+      quote = char
+    } else if ('([{'.includes(char)) {
+      depth++
+    } else if (')]}'.includes(char)) {
+      depth--
+    } else if (depth === 0 && char === '?' && expression[i + 1] === ':') {
+      return i
+    }
+  }
+  return -1
+}
@@ -0,0 +1,210 @@
+/**
+ * Trigger Translator
+ *
+ * Turns the `triggers { }` directive, and `pipelineTriggers([...])` from
+ * scripted `properties`, into GitLab pipeline schedules, pipeline sources for
+ * `workflow:rules` and multi-project triggers for upstream jobs. Jenkins `H`
+ * fields are resolved to fixed values so that GitLab schedules keep the load
+ * spreading they were written for.
+ */
+
+import { PipelineDirective, SourceSpan, StaticValue } from '@/types'
+import { isGroovyExpression, staticString } from './pipeline-model'
+
+/** Schedule settings as the pipeline schedules API takes them */
+export interface PipelineSchedule {
+  description: string
+  ref: string
+  cron: string
+  cron_timezone: string
+  active: boolean
+  variables?: Record<string, string>
+}
+
+export interface UpstreamTrigger {
+  /** Jenkins job name, kept as the GitLab project path */
+  project: string
+  /** Whether a failed upstream pipeline still starts this one */
+  when: 'on_success' | 'always'
+  span: SourceSpan
+}
+
+export interface TriggerTranslation {
+  schedules: PipelineSchedule[]
+  upstream: UpstreamTrigger[]
+  /** `$CI_PIPELINE_SOURCE` values the pipeline should run for; empty when any source may start it */
+  sources: string[]
+  untranslated: Array<{ description: string; span: SourceSpan }>
+  notes: string[]
+}
+
+export interface CronEntry {
+  /** Jenkins line the entry came from */
+  spec: string
+  cron: string
+  timezone?: string
+  variables?: Record<string, string>
+}
+
+// Jenkins reads these aliases with H fields, not at midnight like Vixie cron
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': 'H H H H *',
+  '@annually': 'H H H H *',
+  '@monthly': 'H H H * *',
+  '@weekly': 'H H * * H',
+  '@daily': 'H H * * *',
+  '@midnight': 'H H(0-2) * * *',
+  '@hourly': 'H * * * *'
+}
+
+/** Ranges H picks from for minute, hour, day of month, month and day of week */
+const HASH_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 28], [1, 12], [0, 6]]
+
+const FIELD_MAXIMUMS = [59, 23, 31, 12, 7]
+
+// Webhook-style triggers from SCM plugins, all replaced by GitLab push pipelines
+const PUSH_TRIGGERS = ['pollSCM', 'githubPush', 'bitbucketPush', 'gitlab', 'GenericTrigger']
+
+const DEFAULT_TIMEZONE = 'UTC'
+
+/**
+ * Translate pipeline triggers. `seed` stands in for the Jenkins job name
+ * that H fields are hashed from, which the Jenkinsfile does not contain.
+ */
+export function translateTriggers(triggers: PipelineDirective[], seed: string): TriggerTranslation {
+  const translation: TriggerTranslation = { schedules: [], upstream: [], sources: [], untranslated: [], notes: [] }
+  const sources = new Set<string>()
+
+  for (const trigger of triggers) {
+    switch (trigger.name) {
+      case 'cron':
+      case 'parameterizedCron': {
+        const spec = staticString(trigger.args[0] ?? trigger.named.spec ?? trigger.named.parameterizedSpecification)
+        if (spec === undefined) break
+        try {
+          for (const entry of translateCron(spec, seed, trigger.name === 'parameterizedCron')) {
+            translation.schedules.push({
+              description: `Jenkins ${trigger.name} '${entry.spec}'`,
+              ref: 'main',
+              cron: entry.cron,
+              cron_timezone: entry.timezone ?? DEFAULT_TIMEZONE,
+              active: true,
+              variables: entry.variables
+            })
+          }
+          sources.add('schedule')
+        } catch (error) {
+          translation.untranslated.push({ description: `Cron trigger '${spec}': ${(error as Error).message}`, span: trigger.span })
+        }
+        continue
+      }
+      case 'upstream': {
+        const projects = staticString(trigger.named.upstreamProjects ?? trigger.args[0])
+        if (projects === undefined) break
+        const threshold = resultName(trigger.named.threshold)
+        for (const project of projects.split(',').map(p => p.trim()).filter(Boolean)) {
+          translation.upstream.push({ project, when: threshold === 'FAILURE' ? 'always' : 'on_success', span: trigger.span })
+        }
+        if (threshold === 'UNSTABLE') translation.notes.push('GitLab has no unstable result; upstream pipelines trigger this one only when they succeed')
+        sources.add('pipeline')
+        continue
+      }
+      default:
+        if (PUSH_TRIGGERS.includes(trigger.name)) {
+          sources.add('push')
+          // The GitLab plugin builds merge requests unless told not to
+          if (trigger.name === 'gitlab' && trigger.named.triggerOnMergeRequest !== false) sources.add('merge_request_event')
+          if (trigger.name === 'pollSCM') {
+            translation.notes.push('GitLab starts pipelines from push events, so pollSCM polling is not needed; workflow:rules limit the pipeline to the sources Jenkins built for')
+          }
+          continue
+        }
+    }
+    translation.untranslated.push({ description: `Trigger '${trigger.name}' has no GitLab equivalent`, span: trigger.span })
+  }
+
+  // Without a push trigger Jenkins may still build from branch events, so only then is the source list complete
+  if (sources.has('push')) {
+    translation.sources = ['merge_request_event', 'push', 'schedule', 'pipeline'].filter(source => sources.has(source))
+    translation.sources.push('web')
+  }
+  return translation
+}
+
+/**
+ * Translate a Jenkins cron specification into GitLab cron lines. A spec may
+ * hold several lines, `#` comments and `TZ=` lines that apply to the lines
+ * after them; parameterized specs add `%NAME=value;...` variables.
+ */
+export function translateCron(spec: string, seed: string, parameterized = false): CronEntry[] {
+  const entries: CronEntry[] = []
+  let timezone: string | undefined
+  for (const raw of spec.split('\n')) {
+    const line = raw.trim()
+    if (!line || line.startsWith('#')) continue
+    const tz = line.match(/^TZ\s*=\s*(\S+)$/)
+    if (tz) {
+      timezone = tz[1]
+      continue
+    }
+
+    const [schedule, parameters] = parameterized ? splitOnce(line, '%') : [line, undefined]
+    const expanded = CRON_ALIASES[schedule.trim().toLowerCase()] ?? schedule.trim()
+    const fields = expanded.split(/\s+/)
+    if (fields.length !== 5) throw new Error(`expected 5 fields in '${schedule.trim()}'`)
+
+    const cron = fields.map((field, index) => resolveField(field, index, `${seed}:${index}`)).join(' ')
+    entries.push({ spec: line, cron, timezone, variables: parameters ? parseParameters(parameters) : undefined })
+  }
+  if (entries.length === 0) throw new Error('no schedule lines')
+  return entries
+}
+
+function resolveField(field: string, index: number, seed: string): string {
+  return field.split(',').map((part, position) => {
+    const hashed = part.match(/^H(?:\((\d+)-(\d+)\))?(?:\/(\d+))?$/)
+    if (!hashed) {
+      if (!/^[\d*\/A-Za-z-]+$/.test(part)) throw new Error(`unsupported field '${part}'`)
+      return part
+    }
+    const [lo, hi] = hashed[1] !== undefined ? [Number(hashed[1]), Number(hashed[2])] : HASH_RANGES[index]
+    if (lo > hi || hi > FIELD_MAXIMUMS[index]) throw new Error(`range ${lo}-${hi} is out of bounds`)
+    const hash = hashOf(`${seed}:${position}`)
+    if (hashed[3] === undefined) return String(lo + (hash % (hi - lo + 1)))
+    // H/n starts at a hashed offset within the first step, like Jenkins
+    const step = Number(hashed[3])
+    if (step <= 0) throw new Error(`step must be positive in '${part}'`)
+    const start = lo + (hash % Math.min(step, hi - lo + 1))
+    return `${start}-${hi}/${step}`
+  }).join(',')
+}
+
+function parseParameters(text: string): Record<string, string> {
+  const variables: Record<string, string> = {}
+  for (const pair of text.split(';')) {
+    const [name, value] = splitOnce(pair, '=')
+    if (name.trim()) variables[name.trim()] = (value ?? '').trim()
+  }
+  return variables
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+  const index = text.indexOf(separator)
+  return index < 0 ? [text, undefined] : [text.slice(0, index), text.slice(index + 1)]
+}
+
+/** Result name from `hudson.model.Result.SUCCESS` or a plain string */
+function resultName(value: StaticValue | undefined): string {
+  const text = isGroovyExpression(value) ? value.expression : staticString(value)
+  return text?.split('.').pop()?.toUpperCase() ?? 'SUCCESS'
+}
+
+/** FNV-1a, stable across runs so re-converting keeps the same times */
+function hashOf(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
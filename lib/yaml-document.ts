@@ -0,0 +1,229 @@
+/**
+ * YAML Document
+ *
+ * Document model and serializer for the YAML files this tool writes. A
+ * document is a list of top-level entries holding plain objects, arrays and
+ * scalars, so a key cannot appear twice. Strings are quoted only when YAML
+ * would otherwise misread them and are never rewritten, so `$VARIABLE`
+ * references reach GitLab as written. Settings that several jobs repeat can
+ * be factored into hidden templates the jobs `extends:`.
+ */
+
+import { SourceSpan } from '@/types'
+
+/** Lines rendered as `#` comments in place of a key's value */
+export class YamlComment {
+  constructor(readonly lines: string[]) {}
+}
+
+export type YamlValue = string | number | boolean | null | undefined | YamlComment | YamlValue[] | YamlMapping
+
+export interface YamlMapping {
+  [key: string]: YamlValue
+}
+
+/** Top-level key, introduced by comment lines */
+export interface YamlEntry {
+  key: string
+  value: YamlValue
+  comments?: string[]
+}
+
+export interface YamlDocument {
+  /** Comment lines at the top of the file */
+  comments?: string[]
+  entries: YamlEntry[]
+  /** Comment lines at the end of the file */
+  trailing?: string[]
+}
+
+// Fewest keys worth moving into a template; one key is shorter inline than as `extends:`
+const MIN_TEMPLATE_KEYS = 2
+
+// A key as yamlKey writes it, at the start of a line
+const TOP_LEVEL_KEY = /^("(?:[^"\\]|\\.)*"|[A-Za-z0-9_.:/-]+):(?:\s|$)/
+
+/**
+ * Render a document, with a blank line between top-level entries
+ */
+export function renderYamlDocument(document: YamlDocument): string {
+  const lines = (document.comments ?? []).map(line => `# ${line}`)
+  for (const entry of document.entries) {
+    if (entry.value === undefined) continue
+    if (lines.length > 0) lines.push('')
+    lines.push(...(entry.comments ?? []).map(line => `# ${line}`), ...emitEntry(entry.key, entry.value, 0))
+  }
+  if (document.trailing && document.trailing.length > 0) {
+    lines.push('', ...document.trailing.map(line => `# ${line}`))
+  }
+  return lines.length > 0 ? lines.join('\n') + '\n' : ''
+}
+
+/**
+ * Move settings that two or more jobs share, with equal values, into hidden
+ * `.templates` the jobs extend. Jobs sharing the same settings share one
+ * template; a job extends several when it shares different settings with
+ * different jobs. Only jobs with a `script` or `trigger` take part: the
+ * others override jobs of included templates, and an `extends:` of their
+ * own would replace the one the included job relies on.
+ */
+export function extractTemplates(jobs: Record<string, YamlMapping>): { templates: Record<string, YamlMapping>; jobs: Record<string, YamlMapping> } {
+  const shared = new Map<string, { key: string; value: YamlValue; jobs: string[] }>()
+  for (const [name, job] of Object.entries(jobs)) {
+    if ((job.script === undefined && job.trigger === undefined) || job.extends !== undefined) continue
+    for (const [key, value] of Object.entries(job)) {
+      if (value === undefined || value instanceof YamlComment) continue
+      const signature = `${key}\0${JSON.stringify(value)}`
+      const setting = shared.get(signature) ?? { key, value, jobs: [] }
+      setting.jobs.push(name)
+      shared.set(signature, setting)
+    }
+  }
+
+  // Settings shared by the same jobs form one template
+  const groups = new Map<string, { jobs: string[]; settings: YamlMapping }>()
+  for (const setting of shared.values()) {
+    if (setting.jobs.length < 2) continue
+    const id = setting.jobs.join('\0')
+    const group = groups.get(id) ?? { jobs: setting.jobs, settings: {} }
+    group.settings[setting.key] = setting.value
+    groups.set(id, group)
+  }
+
+  const templates: Record<string, YamlMapping> = {}
+  const extended = new Map<string, string[]>()
+  for (const group of groups.values()) {
+    const keys = Object.keys(group.settings)
+    if (keys.length < MIN_TEMPLATE_KEYS) continue
+    const name = uniqueKey(templateName(group.jobs, keys), key => key in templates || key in jobs)
+    templates[name] = group.settings
+    for (const job of group.jobs) extended.set(job, [...(extended.get(job) ?? []), name])
+  }
+
+  const result: Record<string, YamlMapping> = {}
+  for (const [name, job] of Object.entries(jobs)) {
+    const names = extended.get(name)
+    if (!names) {
+      result[name] = job
+      continue
+    }
+    const moved = new Set(names.flatMap(template => Object.keys(templates[template])))
+    const rest = Object.fromEntries(Object.entries(job).filter(([key]) => !moved.has(key)))
+    result[name] = { extends: names.length === 1 ? names[0] : names, ...rest }
+  }
+  return { templates, jobs: result }
+}
+
+/**
+ * Line range of each top-level key in rendered YAML, from the key to the
+ * last line of its value
+ */
+export function entryLines(yaml: string): Record<string, SourceSpan> {
+  const entries: Record<string, SourceSpan> = {}
+  let current: SourceSpan | undefined
+  yaml.split('\n').forEach((line, index) => {
+    const key = TOP_LEVEL_KEY.exec(line)
+    if (key) {
+      current = { startLine: index + 1, endLine: index + 1 }
+      entries[key[1].startsWith('"') ? JSON.parse(key[1]) as string : key[1]] = current
+    } else if (/^\S/.test(line)) {
+      current = undefined
+    } else if (current && line.trim()) {
+      current.endLine = index + 1
+    }
+  })
+  return entries
+}
+
+/** Lines of a key and its value, indented by `indent` spaces */
+export function emitEntry(key: string, value: YamlValue, indent: number): string[] {
+  const pad = ' '.repeat(indent)
+  const label = `${pad}${yamlKey(key)}:`
+  if (value === undefined) return []
+  if (value instanceof YamlComment) return value.lines.map(line => `${pad}# ${line}`)
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${label} []`]
+    return [label, ...value.flatMap(item => emitItem(item, indent + 2))]
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+    if (entries.length === 0) return [`${label} {}`]
+    return [label, ...entries.flatMap(([k, v]) => emitEntry(k, v, indent + 2))]
+  }
+  if (typeof value === 'string' && value.includes('\n')) return [`${label} ${blockHeader(value)}`, ...blockLines(value, indent + 2)]
+  return [`${label} ${yamlScalar(value)}`]
+}
+
+/**
+ * A scalar as YAML reads it back: plain when unambiguous, otherwise single
+ * quoted, which leaves `$` and backslashes as they are
+ */
+export function yamlScalar(value: YamlValue): string {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (typeof value !== 'string') return JSON.stringify(value)
+  const plain = value.length > 0 &&
+    !/^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/\s$/.test(value) &&
+    !/: |\s#/.test(value) &&
+    !/:$/.test(value) &&
+    !/^(true|false|yes|no|on|off|null|~|y|n)$/i.test(value) &&
+    // numbers, infinities, dates and times would lose their string type
+    !/^[-+.]?\d[\d_.:eE+-]*$/.test(value) &&
+    !/^[-+]?\.(inf|nan)$/i.test(value) &&
+    !/^0[xo]/i.test(value) &&
+    !/^\d{4}-\d\d-\d\d/.test(value)
+  return plain ? value : `'${value.replace(/'/g, "''")}'`
+}
+
+/**
+ * An item of a flow sequence, where flow indicators end a plain scalar and
+ * a line break inside quotes would be folded into a space
+ */
+function flowScalar(value: YamlValue): string {
+  if (typeof value !== 'string') return yamlScalar(value)
+  if (value.includes('\n')) return JSON.stringify(value)
+  return /[,[\]{}]/.test(value) ? `'${value.replace(/'/g, "''")}'` : yamlScalar(value)
+}
+
+/**
+ * `|`, or `|2` when the text starts with spaces, which YAML would otherwise
+ * take for the indentation of the block
+ */
+function blockHeader(text: string): string {
+  return /^\n*[ \t]/.test(text) ? '|2' : '|'
+}
+
+function emitItem(value: YamlValue, indent: number): string[] {
+  const pad = ' '.repeat(indent)
+  if (typeof value === 'string' && value.includes('\n')) return [`${pad}- ${blockHeader(value)}`, ...blockLines(value, indent + 2)]
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const [first, ...rest] = Object.entries(value).filter(([, v]) => v !== undefined).flatMap(([k, v]) => emitEntry(k, v, indent + 2))
+    return first ? [`${pad}- ${first.trimStart()}`, ...rest] : [`${pad}- {}`]
+  }
+  if (Array.isArray(value)) return [`${pad}- [${value.map(flowScalar).join(', ')}]`]
+  return [`${pad}- ${yamlScalar(value)}`]
+}
+
+function blockLines(text: string, indent: number): string[] {
+  const pad = ' '.repeat(indent)
+  return text.replace(/\n+$/, '').split('\n').map(line => (line ? pad + line : ''))
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z0-9_.:/-]+$/.test(key) && !/^[-:]/.test(key) ? key : JSON.stringify(key)
+}
+
+/** `.deploy` for `deploy:staging` and `deploy:production`, else named after the settings */
+function templateName(jobs: string[], keys: string[]): string {
+  const prefixes = new Set(jobs.map(job => job.split(':')[0]))
+  const [prefix] = prefixes
+  const base = prefixes.size === 1 && jobs.every(job => job.includes(':')) ? prefix : keys.slice(0, 3).join('-')
+  return `.${base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}`
+}
+
+function uniqueKey(base: string, taken: (key: string) => boolean): string {
+  let key = base
+  for (let n = 2; taken(key); n++) key = `${base}-${n}`
+  return key
+}
@@ -0,0 +1,727 @@
+/**
+ * YAML Parser
+ *
+ * Reads `.gitlab-ci.yml` files into nodes that keep their source position,
+ * so a problem found in the configuration can point at the line and column
+ * it comes from. Covers the YAML that CI files are written in: block and
+ * flow collections, plain, quoted and block scalars, comments, several
+ * documents, anchors, aliases and `<<` merge keys. Tags such as
+ * `!reference` are kept on the node for the reader to interpret. Like the
+ * Groovy parser it never throws: malformed input yields errors alongside
+ * whatever could be read.
+ */
+
+export interface YamlPosition {
+  line: number
+  column: number
+}
+
+interface YamlNodeBase extends YamlPosition {
+  anchor?: string
+  tag?: string
+}
+
+export interface YamlScalarNode extends YamlNodeBase {
+  kind: 'scalar'
+  value: string | number | boolean | null
+}
+
+export interface YamlSequenceNode extends YamlNodeBase {
+  kind: 'sequence'
+  items: YamlNode[]
+}
+
+export interface YamlMappingNode extends YamlNodeBase {
+  kind: 'mapping'
+  pairs: YamlPair[]
+}
+
+export interface YamlAliasNode extends YamlNodeBase {
+  kind: 'alias'
+  name: string
+  /** Node of the anchor, missing when the anchor is not defined before the alias */
+  target?: YamlNode
+}
+
+export type YamlNode = YamlScalarNode | YamlSequenceNode | YamlMappingNode | YamlAliasNode
+
+/** Mapping entry; the position is that of the key */
+export interface YamlPair extends YamlPosition {
+  key: string
+  value: YamlNode
+}
+
+export interface YamlError {
+  message: string
+  line: number
+  column: number
+}
+
+export interface YamlParseResult {
+  documents: YamlNode[]
+  errors: YamlError[]
+}
+
+const MERGE_KEY = '<<'
+
+// Characters that cannot start a plain scalar
+const INDICATORS = new Set(['-', '?', ':', ',', '[', ']', '{', '}', '#', '&', '*', '!', '|', '>', "'", '"', '%', '@', '`'])
+
+const FLOW_INDICATORS = new Set([',', '[', ']', '{', '}'])
+
+const ESCAPES: Record<string, string> = {
+  '0': '\0', a: '\x07', b: '\b', t: '\t', '\t': '\t', n: '\n', v: '\v', f: '\f', r: '\r', e: '\x1b',
+  ' ': ' ', '"': '"', '/': '/', '\\': '\\', N: '\x85', _: '\xa0', L: ' ', P: ' '
+}
+
+const HEX_ESCAPES: Record<string, number> = { x: 2, u: 4, U: 8 }
+
+export function parseYaml(text: string): YamlParseResult {
+  return new YamlParser(text.replace(/\r\n?/g, '\n')).run()
+}
+
+/**
+ * Node an alias stands for, or the node itself
+ */
+export function resolveAlias(node: YamlNode): YamlNode {
+  return node.kind === 'alias' && node.target ? resolveAlias(node.target) : node
+}
+
+/**
+ * Entries of a mapping with `<<` merge keys applied: keys of the mapping
+ * itself come first and win, then those of the merged mappings, the
+ * earlier of several merged mappings taking precedence
+ */
+export function mappingPairs(node: YamlMappingNode): YamlPair[] {
+  const own = node.pairs.filter(pair => pair.key !== MERGE_KEY)
+  const keys = new Set(own.map(pair => pair.key))
+  const merged: YamlPair[] = []
+  for (const pair of node.pairs) {
+    if (pair.key !== MERGE_KEY) continue
+    const value = resolveAlias(pair.value)
+    for (const source of value.kind === 'sequence' ? value.items.map(resolveAlias) : [value]) {
+      if (source.kind !== 'mapping') continue
+      for (const inherited of mappingPairs(source)) {
+        if (keys.has(inherited.key)) continue
+        keys.add(inherited.key)
+        merged.push(inherited)
+      }
+    }
+  }
+  return [...own, ...merged]
+}
+
+/**
+ * Plain JavaScript value of a node, with aliases followed and merge keys applied
+ */
+export function toValue(node: YamlNode): unknown {
+  switch (node.kind) {
+    case 'alias':
+      return node.target ? toValue(node.target) : null
+    case 'scalar':
+      return node.value
+    case 'sequence':
+      return node.items.map(toValue)
+    case 'mapping': {
+      const result: Record<string, unknown> = {}
+      for (const pair of mappingPairs(node)) {
+        // defineProperty, so that a `__proto__` key stays an ordinary key
+        Object.defineProperty(result, pair.key, { value: toValue(pair.value), enumerable: true, writable: true, configurable: true })
+      }
+      return result
+    }
+  }
+}
+
+class YamlParser {
+  private pos = 0
+  private line = 1
+  private lineStart = 0
+  private errors: YamlError[] = []
+  private anchors = new Map<string, YamlNode>()
+
+  constructor(private readonly src: string) {}
+
+  run(): YamlParseResult {
+    const documents: YamlNode[] = []
+    this.skipBlankLines()
+    while (!this.atEnd()) {
+      if (this.peek() === '%' && this.column() === 1) {
+        this.skipLine()
+        this.skipBlankLines()
+        continue
+      }
+      this.anchors = new Map()
+      if (this.atDocumentMarker('---')) this.moveTo(this.pos + 3)
+      documents.push(this.parseNode(-1, 'document'))
+      this.endOfNode()
+      this.skipBlankLines()
+      if (this.atDocumentMarker('...')) {
+        this.skipLine()
+        this.skipBlankLines()
+      } else if (!this.atEnd() && !this.atDocumentMarker('---')) {
+        this.error('Unexpected content after the end of the document')
+        this.skipLine()
+        this.skipBlankLines()
+      }
+    }
+    return { documents, errors: this.errors }
+  }
+
+  // ── Nodes ──
+
+  /**
+   * Node after an indicator (`key:`, `- `, `---`) or at the start of the
+   * document. `indent` is the indentation of the enclosing collection; the
+   * node may continue on the following lines when indented deeper, and a
+   * mapping value may also be a sequence at the indentation of its key.
+   */
+  private parseNode(indent: number, context: 'document' | 'value' | 'item'): YamlNode {
+    this.skipSpaces()
+    const start = this.position()
+    let anchor: string | undefined
+    let tag: string | undefined
+    while (this.peek() === '&' || this.peek() === '!') {
+      const property = this.readName()
+      if (property.startsWith('&')) anchor = property.slice(1)
+      else tag = property
+      this.skipSpaces()
+    }
+
+    let node: YamlNode
+    if (this.atLineEnd()) {
+      this.skipBlankLines()
+      const column = this.column() - 1
+      const sequenceOfKey = context === 'value' && column === indent && this.atSequenceEntry()
+      if (this.atEnd() || this.atDocumentMarker('---') || this.atDocumentMarker('...') || (column <= indent && !sequenceOfKey)) {
+        node = { kind: 'scalar', value: tag === '!!str' || tag === '!' ? '' : null, ...start }
+      } else {
+        node = this.parseContent(indent, true)
+      }
+    } else {
+      node = this.parseContent(indent, context !== 'value')
+    }
+
+    if (tag) {
+      node.tag = tag
+      if (node.kind === 'scalar' && (tag === '!!str' || tag === '!') && node.value !== null) node.value = String(node.value)
+    }
+    if (anchor !== undefined) {
+      node.anchor = anchor
+      this.anchors.set(anchor, node)
+    }
+    return node
+  }
+
+  /**
+   * Node starting at the cursor. Block collections may start here unless
+   * the node is the value of a key on the same line.
+   */
+  private parseContent(indent: number, allowBlock: boolean): YamlNode {
+    const ch = this.peek()
+    if (this.atSequenceEntry()) {
+      if (allowBlock) return this.parseBlockSequence(this.column() - 1)
+      this.error('A sequence cannot start on the line of its key')
+    }
+    if (allowBlock && this.atKey()) return this.parseBlockMapping(this.column() - 1)
+    if (ch === '[' || ch === '{') return this.parseFlowCollection()
+    if (ch === '|' || ch === '>') return this.parseBlockScalar(indent)
+    if (ch === '*') return this.parseAlias()
+
+    const node = ch === '"' || ch === "'" ? this.parseQuoted() : this.parsePlain(indent, false)
+    if (!allowBlock) {
+      this.skipSpaces()
+      if (this.peek() === ':' && this.isSpace(this.peek(1))) {
+        this.error('A mapping cannot start on the line of its key; put it on the next lines, indented')
+        this.skipToLineEnd()
+      }
+    }
+    return node
+  }
+
+  private parseBlockMapping(indent: number): YamlMappingNode {
+    const node: YamlMappingNode = { kind: 'mapping', pairs: [], ...this.position() }
+    const keys = new Set<string>()
+    for (;;) {
+      const start = this.position()
+      const key = this.atKey() ? this.parseKey() : undefined
+      if (key === undefined) {
+        this.error(this.atSequenceEntry() ? 'A sequence item cannot follow the entries of a mapping' : 'Expected a key followed by a colon')
+        this.skipToLineEnd()
+      } else {
+        if (keys.has(key) && key !== MERGE_KEY) this.error(`Duplicate key '${key}'`, start)
+        keys.add(key)
+        node.pairs.push({ key, value: this.parseNode(indent, 'value'), ...start })
+        this.endOfNode()
+      }
+      if (!this.nextEntry(indent)) return node
+    }
+  }
+
+  private parseBlockSequence(indent: number): YamlSequenceNode {
+    const node: YamlSequenceNode = { kind: 'sequence', items: [], ...this.position() }
+    for (;;) {
+      this.advance()
+      node.items.push(this.parseNode(indent, 'item'))
+      this.endOfNode()
+      if (!this.nextEntry(indent) || !this.atSequenceEntry()) return node
+    }
+  }
+
+  /**
+   * Move to the next entry of a block collection at `indent`; false when
+   * the collection has ended
+   */
+  private nextEntry(indent: number): boolean {
+    for (;;) {
+      this.skipBlankLines()
+      if (this.atEnd() || this.atDocumentMarker('---') || this.atDocumentMarker('...')) return false
+      const column = this.column() - 1
+      if (column === indent) return true
+      if (column < indent) return false
+      this.error(`Bad indentation: expected ${indent} spaces, found ${column}`)
+      this.skipToLineEnd()
+    }
+  }
+
+  private parseKey(): string {
+    const ch = this.peek()
+    let key: string
+    if (ch === '"' || ch === "'") {
+      key = String(this.parseQuoted().value)
+      this.skipSpaces()
+    } else {
+      const start = this.pos
+      while (!(this.peek() === ':' && this.isSpace(this.peek(1)))) this.advance()
+      key = this.src.slice(start, this.pos).trimEnd()
+    }
+    this.advance()
+    return key
+  }
+
+  private parseAlias(): YamlAliasNode {
+    const start = this.position()
+    const name = this.readName().slice(1)
+    const target = this.anchors.get(name)
+    if (!target) this.error(`Alias '*${name}' refers to an anchor that is not defined before it`, start)
+    return { kind: 'alias', name, target, ...start }
+  }
+
+  // ── Scalars ──
+
+  /**
+   * Plain scalar, which in block context continues on following lines
+   * indented deeper than `indent`, folded into one line
+   */
+  private parsePlain(indent: number, flow: boolean): YamlScalarNode {
+    const start = this.position()
+    let text = this.readPlainLine(flow)
+    if (!flow) {
+      for (;;) {
+        const save = { pos: this.pos, line: this.line, lineStart: this.lineStart }
+        let breaks = 0
+        this.skipSpaces()
+        while (this.peek() === '\n') {
+          this.advance()
+          this.skipSpaces()
+          breaks++
+        }
+        const continues = breaks > 0 && !this.atEnd() && this.column() - 1 > indent && this.peek() !== '#' &&
+          !this.atKey() && !this.atDocumentMarker('---') && !this.atDocumentMarker('...')
+        if (!continues) {
+          this.restore(save)
+          break
+        }
+        text += (breaks === 1 ? ' ' : '\n'.repeat(breaks - 1)) + this.readPlainLine(false)
+      }
+    }
+    return { kind: 'scalar', value: resolvePlain(text), ...start }
+  }
+
+  private readPlainLine(flow: boolean): string {
+    const start = this.pos
+    for (;;) {
+      const ch = this.peek()
+      if (ch === undefined || ch === '\n') break
+      if (ch === '#' && this.isSpace(this.src[this.pos - 1])) break
+      if (ch === ':' && (this.isSpace(this.peek(1)) || (flow && FLOW_INDICATORS.has(this.peek(1) ?? '')))) break
+      if (flow && FLOW_INDICATORS.has(ch)) break
+      this.advance()
+    }
+    return this.src.slice(start, this.pos).trim()
+  }
+
+  private parseQuoted(): YamlScalarNode {
+    const start = this.position()
+    const quote = this.peek()
+    this.advance()
+    let text = ''
+    for (;;) {
+      const ch = this.peek()
+      if (ch === undefined) {
+        this.error('Unterminated quoted string', start)
+        break
+      }
+      this.advance()
+      if (ch === quote) {
+        if (quote === "'" && this.peek() === "'") {
+          this.advance()
+          text += "'"
+          continue
+        }
+        break
+      }
+      if (ch === '\n') {
+        text = text.replace(/[ \t]+$/, '')
+        let breaks = 0
+        this.skipSpaces()
+        while (this.peek() === '\n') {
+          this.advance()
+          this.skipSpaces()
+          breaks++
+        }
+        text += breaks === 0 ? ' ' : '\n'.repeat(breaks)
+      } else if (ch === '\\' && quote === '"') {
+        text += this.readEscape()
+      } else {
+        text += ch
+      }
+    }
+    return { kind: 'scalar', value: text, ...start }
+  }
+
+  private readEscape(): string {
+    const start = this.position()
+    const ch = this.peek()
+    if (ch === undefined) return ''
+    this.advance()
+    if (ch === '\n') {
+      // An escaped line break joins the lines without a space
+      this.skipSpaces()
+      return ''
+    }
+    if (ch in ESCAPES) return ESCAPES[ch]
+    const length = HEX_ESCAPES[ch]
+    const hex = length ? this.src.slice(this.pos, this.pos + length) : ''
+    if (length && /^[0-9a-fA-F]+$/.test(hex) && hex.length === length) {
+      this.moveTo(this.pos + length)
+      return String.fromCodePoint(parseInt(hex, 16))
+    }
+    this.error(`Unknown escape sequence '\\${ch}'`, start)
+    return ch
+  }
+
+  /**
+   * Literal `|` or folded `>` block scalar, with optional indentation and
+   * chomping indicators
+   */
+  private parseBlockScalar(indent: number): YamlScalarNode {
+    const start = this.position()
+    const folded = this.peek() === '>'
+    this.advance()
+    let chomping = ''
+    let explicit = 0
+    while (/[1-9+-]/.test(this.peek() ?? '')) {
+      const ch = this.peek() as string
+      if (ch === '+' || ch === '-') chomping = ch
+      else explicit = Number(ch)
+      this.advance()
+    }
+    this.skipSpaces()
+    if (!this.atLineEnd()) {
+      this.error('Expected a line break after the block scalar indicator')
+    }
+    this.skipToLineEnd()
+
+    const lines: string[] = []
+    let contentIndent = explicit ? Math.max(indent, 0) + explicit : 0
+    let offset = this.peek() === '\n' ? this.pos + 1 : this.src.length
+    while (offset < this.src.length) {
+      const end = this.src.indexOf('\n', offset)
+      const raw = this.src.slice(offset, end === -1 ? this.src.length : end)
+      const spaces = raw.length - raw.replace(/^ +/, '').length
+      if (raw.trim() === '') {
+        lines.push(raw.slice(contentIndent || raw.length))
+      } else {
+        if (!contentIndent) contentIndent = spaces
+        if (spaces < contentIndent || contentIndent <= indent || (spaces === 0 && /^(---|\.\.\.)(\s|$)/.test(raw))) break
+        lines.push(raw.slice(contentIndent))
+      }
+      offset = end === -1 ? this.src.length : end + 1
+    }
+
+    // Trailing blank lines belong to the chomping, and the cursor stops
+    // at the end of the last line of content
+    let trailing = 0
+    while (trailing < lines.length && lines[lines.length - 1 - trailing].trim() === '') trailing++
+    const content = lines.slice(0, lines.length - trailing)
+    const consumed = content.length > 0 ? this.lineEndAfter(content.length) : this.pos
+    this.moveTo(consumed)
+
+    let value = folded ? foldLines(content) : content.join('\n')
+    if (content.length > 0 && chomping !== '-') value += '\n'
+    if (chomping === '+') value += '\n'.repeat(content.length > 0 ? trailing : trailing + 1)
+    return { kind: 'scalar', value, ...start }
+  }
+
+  // ── Flow collections ──
+
+  private parseFlowCollection(): YamlSequenceNode | YamlMappingNode {
+    const start = this.position()
+    const close = this.peek() === '[' ? ']' : '}'
+    this.advance()
+    const node: YamlSequenceNode | YamlMappingNode = close === ']'
+      ? { kind: 'sequence', items: [], ...start }
+      : { kind: 'mapping', pairs: [], ...start }
+    const keys = new Set<string>()
+
+    for (;;) {
+      this.skipFlowSpace()
+      if (this.atEnd()) {
+        this.error(`Unterminated flow collection, expected '${close}'`, start)
+        return node
+      }
+      if (this.peek() === close) break
+      const entry = this.position()
+      const item = this.parseFlowNode()
+      this.skipFlowSpace()
+      let value: YamlNode | undefined
+      if (this.peek() === ':') {
+        this.advance()
+        this.skipFlowSpace()
+        value = this.peek() === ',' || this.peek() === close
+          ? { kind: 'scalar', value: null, ...this.position() }
+          : this.parseFlowNode()
+        this.skipFlowSpace()
+      }
+
+      if (node.kind === 'sequence') {
+        node.items.push(value ? { kind: 'mapping', pairs: [{ key: scalarKey(item), value, ...entry }], ...entry } : item)
+      } else {
+        const key = scalarKey(item)
+        if (keys.has(key)) this.error(`Duplicate key '${key}'`, entry)
+        keys.add(key)
+        node.pairs.push({ key, value: value ?? { kind: 'scalar', value: null, ...entry }, ...entry })
+      }
+
+      if (this.peek() === ',') {
+        this.advance()
+      } else if (this.atEnd()) {
+        this.error(`Unterminated flow collection, expected '${close}'`, start)
+        return node
+      } else if (this.peek() !== close) {
+        this.error(`Expected ',' or '${close}' in flow collection`)
+        this.skipToLineEnd()
+        return node
+      }
+    }
+    this.advance()
+    return node
+  }
+
+  private parseFlowNode(): YamlNode {
+    let anchor: string | undefined
+    let tag: string | undefined
+    while (this.peek() === '&' || this.peek() === '!') {
+      const property = this.readName()
+      if (property.startsWith('&')) anchor = property.slice(1)
+      else tag = property
+      this.skipFlowSpace()
+    }
+    const ch = this.peek()
+    const node = ch === '[' || ch === '{' ? this.parseFlowCollection()
+      : ch === '*' ? this.parseAlias()
+        : ch === '"' || ch === "'" ? this.parseQuoted()
+          : this.parsePlain(-1, true)
+    if (tag) node.tag = tag
+    if (anchor !== undefined) {
+      node.anchor = anchor
+      this.anchors.set(anchor, node)
+    }
+    return node
+  }
+
+  private skipFlowSpace(): void {
+    for (;;) {
+      const ch = this.peek()
+      if (ch === ' ' || ch === '\t' || ch === '\n') this.advance()
+      else if (ch === '#') this.skipToLineEnd()
+      else return
+    }
+  }
+
+  // ── Lines and cursor ──
+
+  /** Whether the cursor is at `key:` — a plain or quoted key followed by a colon and a space */
+  private atKey(): boolean {
+    const end = this.src.indexOf('\n', this.pos)
+    const line = this.src.slice(this.pos, end === -1 ? this.src.length : end)
+    const quoted = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*')[ \t]*:(?:[ \t]|$)/.test(line)
+    if (quoted) return true
+    if (line.length === 0 || (INDICATORS.has(line[0]) && !/^[-?:]\S/.test(line))) return false
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '#' && i > 0 && /\s/.test(line[i - 1])) return false
+      if (line[i] === ':' && (i + 1 === line.length || /\s/.test(line[i + 1]))) return true
+    }
+    return false
+  }
+
+  private atSequenceEntry(): boolean {
+    return this.peek() === '-' && this.isSpace(this.peek(1))
+  }
+
+  private atDocumentMarker(marker: string): boolean {
+    return this.pos === this.lineStart && this.src.startsWith(marker, this.pos) && this.isSpace(this.src[this.pos + 3])
+  }
+
+  /** Whether only spaces, a comment or nothing follows on this line */
+  private atLineEnd(): boolean {
+    const ch = this.peek()
+    return ch === undefined || ch === '\n' || (ch === '#' && (this.pos === this.lineStart || this.isSpace(this.src[this.pos - 1])))
+  }
+
+  /**
+   * After a node: only a comment may follow on its line, unless the node
+   * ended at the start of a later line
+   */
+  private endOfNode(): void {
+    if (/^ *$/.test(this.src.slice(this.lineStart, this.pos))) return
+    this.skipSpaces()
+    if (!this.atLineEnd()) {
+      this.error('Unexpected content after the value')
+    }
+    this.skipToLineEnd()
+  }
+
+  /** Skip blank and comment lines, stopping at the first character of content */
+  private skipBlankLines(): void {
+    for (;;) {
+      const lineStart = this.pos === this.lineStart
+      this.skipSpaces()
+      if (this.peek() === '\t' && lineStart) {
+        const tab = this.position()
+        while (this.peek() === '\t' || this.peek() === ' ') this.advance()
+        if (!this.atLineEnd()) this.error('Tabs cannot be used for indentation', tab)
+      }
+      if (this.peek() === '#') this.skipToLineEnd()
+      if (this.peek() !== '\n') return
+      this.advance()
+    }
+  }
+
+  private skipSpaces(): void {
+    while (this.peek() === ' ' || (this.peek() === '\t' && this.pos !== this.lineStart && !/^ *$/.test(this.src.slice(this.lineStart, this.pos)))) {
+      this.advance()
+    }
+  }
+
+  private skipToLineEnd(): void {
+    while (this.peek() !== undefined && this.peek() !== '\n') this.advance()
+  }
+
+  private skipLine(): void {
+    this.skipToLineEnd()
+    if (this.peek() === '\n') this.advance()
+  }
+
+  /** `&anchor`, `*alias` or `!tag` at the cursor */
+  private readName(): string {
+    const start = this.pos
+    this.advance()
+    while (this.peek() !== undefined && !this.isSpace(this.peek()) && !FLOW_INDICATORS.has(this.peek() as string)) this.advance()
+    return this.src.slice(start, this.pos)
+  }
+
+  /** Offset of the end of the `count`-th line after the cursor's line */
+  private lineEndAfter(count: number): number {
+    let offset = this.src.indexOf('\n', this.pos)
+    for (let i = 0; i < count && offset !== -1; i++) {
+      const next = this.src.indexOf('\n', offset + 1)
+      offset = next === -1 ? this.src.length : next
+    }
+    return offset === -1 ? this.src.length : offset
+  }
+
+  private isSpace(ch: string | undefined): boolean {
+    return ch === undefined || ch === ' ' || ch === '\t' || ch === '\n'
+  }
+
+  private peek(offset = 0): string | undefined {
+    return this.src[this.pos + offset]
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length
+  }
+
+  private advance(): void {
+    if (this.src[this.pos] === '\n') {
+      this.line++
+      this.lineStart = this.pos + 1
+    }
+    this.pos++
+  }
+
+  private moveTo(offset: number): void {
+    while (this.pos < offset && this.pos < this.src.length) this.advance()
+  }
+
+  private restore(state: { pos: number; line: number; lineStart: number }): void {
+    this.pos = state.pos
+    this.line = state.line
+    this.lineStart = state.lineStart
+  }
+
+  private column(): number {
+    return this.pos - this.lineStart + 1
+  }
+
+  private position(): YamlPosition {
+    return { line: this.line, column: this.column() }
+  }
+
+  private error(message: string, at: YamlPosition = this.position()): void {
+    this.errors.push({ message, line: at.line, column: at.column })
+  }
+}
+
+/**
+ * Type of a plain scalar as GitLab's YAML reader (Ruby's, following YAML
+ * 1.1) sees it: `yes`, `no`, `on` and `off` are booleans too
+ */
+function resolvePlain(text: string): string | number | boolean | null {
+  if (/^(~|null|Null|NULL)?$/.test(text)) return null
+  if (/^(true|True|TRUE|yes|Yes|YES|on|On|ON)$/.test(text)) return true
+  if (/^(false|False|FALSE|no|No|NO|off|Off|OFF)$/.test(text)) return false
+  if (/^[-+]?(0|[1-9][0-9_]*)$/.test(text)) return Number(text.replace(/_/g, ''))
+  if (/^0x[0-9a-fA-F_]+$/.test(text)) return parseInt(text.slice(2).replace(/_/g, ''), 16)
+  if (/^0o?[0-7_]+$/.test(text)) return parseInt(text.replace(/^0o?/, '').replace(/_/g, ''), 8)
+  if (/^[-+]?(\.[0-9]+|[0-9][0-9_]*(\.[0-9_]*)?)([eE][-+]?[0-9]+)?$/.test(text)) return parseFloat(text.replace(/_/g, ''))
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN
+  return text
+}
+
+/** Lines of a folded block scalar joined with spaces, except around blank and more-indented lines */
+function foldLines(lines: string[]): string {
+  let text = ''
+  let breaks = 0
+  let previousIndented = false
+  lines.forEach((line, index) => {
+    if (line === '') {
+      breaks++
+      return
+    }
+    const indented = /^[ \t]/.test(line)
+    if (index > breaks) text += indented || previousIndented ? '\n'.repeat(breaks + 1) : breaks > 0 ? '\n'.repeat(breaks) : ' '
+    else text += '\n'.repeat(breaks)
+    text += line
+    breaks = 0
+    previousIndented = indented
+  })
+  return text
+}
+
+function scalarKey(node: YamlNode): string {
+  return node.kind === 'scalar' ? String(node.value ?? '') : node.kind === 'alias' ? `*${node.name}` : JSON.stringify(toValue(node))
+}
@@ -0,0 +1,72 @@
+/**
+ * Zip Archive Reader
+ *
+ * Reads the text files of an uploaded zip archive, such as a shared
+ * library, from its central directory. Only stored and deflated entries
+ * occur in practice; the total size is capped so that a small archive
+ * cannot expand without bound. Server-side only, as it needs zlib.
+ */
+
+import { inflateRawSync } from 'zlib'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const STORED = 0
+const DEFLATED = 8
+
+/** Upper bound for the uncompressed size of all entries together */
+const MAX_TOTAL_SIZE = 10 * 1024 * 1024
+
+/**
+ * Text files of a zip archive by path. Directories and binary files are
+ * left out. Throws when the data is not a zip archive it can read.
+ */
+export function readZipArchive(data: Buffer): Record<string, string> {
+  const end = findEndOfCentralDirectory(data)
+  const count = data.readUInt16LE(end + 10)
+  let offset = data.readUInt32LE(end + 16)
+  let total = 0
+  const files: Record<string, string> = {}
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Zip central directory is corrupt')
+    }
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const size = data.readUInt32LE(offset + 24)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const headerOffset = data.readUInt32LE(offset + 42)
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength)
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+    total += size
+    if (total > MAX_TOTAL_SIZE) throw new Error(`Zip archive expands to more than ${MAX_TOTAL_SIZE / 1024 / 1024} MB`)
+    if (data.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) throw new Error(`Zip entry '${name}' is corrupt`)
+
+    const start = headerOffset + 30 + data.readUInt16LE(headerOffset + 26) + data.readUInt16LE(headerOffset + 28)
+    const compressed = data.subarray(start, start + compressedSize)
+    let content: Buffer
+    if (method === STORED) content = compressed
+    else if (method === DEFLATED) content = inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) })
+    else throw new Error(`Zip entry '${name}' uses unsupported compression method ${method}`)
+
+    // Binary files, such as images under resources/, are not needed for conversion
+    if (content.includes(0)) continue
+    files[name] = content.toString('utf8')
+  }
+  return files
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  // The record is 22 bytes plus a comment of at most 65535 bytes
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new Error('Not a zip archive')
+}
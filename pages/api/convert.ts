@@ -1,7 +1,11 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { scan } from '@/lib/score'
 import { ConversionResult } from '@/types'
-import { enterpriseAIMigrationSystem } from '@/lib/ai-migration-system-simple'
+import { enterpriseAIMigrationSystem, MigrationContext } from '@/lib/ai-migration-system-simple'
+import { loadSharedLibrary, SharedLibrary } from '@/lib/shared-library'
+import { JobMapping, parseJobMapping } from '@/lib/downstream-translator'
+import { readZipArchive } from '@/lib/zip-archive'
+import { lintGitLabYaml } from '@/lib/gitlab-ci-lint'
 
 // Security: Max file size limit (500KB) to satisfy tests expecting large content to be rejected
 const MAX_FILE_SIZE = 500 * 1024
@@ -35,8 +39,11 @@ function checkRateLimit(req: NextApiRequest): boolean {
   return true
 }
 
+// Log4j-style lookups, which the generated YAML would hand to any tool that logs it
+const LOOKUP_INJECTION = /\$\{(jndi|java):/i
+
 // Input validation and sanitization
-function validateInput(content: any): { valid: boolean; error?: string } {
+function validateInput(content: unknown): { valid: true; content: string } | { valid: false; error: string } {
   if (!content) {
     return { valid: false, error: 'Content is required' }
   }
@@ -53,8 +60,110 @@ function validateInput(content: any): { valid: boolean; error?: string } {
   if (content.includes('<script') || content.includes('javascript:')) {
     return { valid: false, error: 'Invalid content detected' }
   }
+
+  if (LOOKUP_INJECTION.test(content)) {
+    return { valid: false, error: 'Invalid content detected' }
+  }
   
-  return { valid: true }
+  return { valid: true, content }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFileMap(value: unknown): value is Record<string, string> {
+  return isRecord(value) && Object.values(value).every(file => typeof file === 'string')
+}
+
+/**
+ * Shared libraries uploaded with the Jenkinsfile, as a file map from a
+ * directory upload or a base64 zip archive. Library steps are inlined into
+ * the YAML, so their files pass the same checks as the Jenkinsfile. A
+ * library with a `catalogProject` path becomes CI/CD components instead.
+ */
+function readLibraries(uploads: unknown): { libraries: SharedLibrary[]; catalogProjects: Record<string, string>; error?: string } {
+  const catalogProjects: Record<string, string> = {}
+  if (uploads === undefined) return { libraries: [], catalogProjects }
+  if (!Array.isArray(uploads)) return { libraries: [], catalogProjects, error: 'Libraries must be an array' }
+
+  const libraries: SharedLibrary[] = []
+  for (const upload of uploads as unknown[]) {
+    if (!isRecord(upload) || typeof upload.name !== 'string' || !upload.name) {
+      return { libraries: [], catalogProjects, error: 'Each library needs a name' }
+    }
+    const name = upload.name
+    if (upload.catalogProject !== undefined) {
+      if (typeof upload.catalogProject !== 'string' || !/^[\w.-]+(\/[\w.-]+)+$/.test(upload.catalogProject)) {
+        return { libraries: [], catalogProjects, error: `Library '${name}': catalogProject must be a project path such as group/project` }
+      }
+      catalogProjects[name] = upload.catalogProject
+    }
+    let files: unknown
+    try {
+      files = typeof upload.zip === 'string' ? readZipArchive(Buffer.from(upload.zip, 'base64')) : upload.files
+    } catch (zipError) {
+      return { libraries: [], catalogProjects, error: `Library '${name}': ${(zipError as Error).message}` }
+    }
+    if (!isFileMap(files)) {
+      return { libraries: [], catalogProjects, error: `Library '${name}' needs a zip archive or a map of file contents` }
+    }
+    for (const [path, file] of Object.entries(files)) {
+      if (!path.endsWith('.groovy')) continue
+      const validation = validateInput(file)
+      if (!validation.valid && file.length > 0) {
+        return { libraries: [], catalogProjects, error: `Library file ${path}: ${validation.error}` }
+      }
+    }
+    libraries.push(loadSharedLibrary(files, name))
+  }
+  return { libraries, catalogProjects }
+}
+
+/**
+ * The job mapping file the converter wrote, as corrected by the user
+ */
+function readJobMapping(text: unknown): { jobMapping?: JobMapping; error?: string } {
+  if (text === undefined) return {}
+  if (typeof text !== 'string' || text.length > MAX_FILE_SIZE) return { error: 'Job mapping must be the text of the mapping file' }
+  try {
+    return { jobMapping: parseJobMapping(text) }
+  } catch (mappingError) {
+    return { error: (mappingError as Error).message }
+  }
+}
+
+type MigrationOptions = NonNullable<MigrationContext['options']>
+
+const DEFAULT_OPTIONS: Required<MigrationOptions> = {
+  targetComplexity: 'balanced',
+  optimizeForSpeed: true,
+  includeSecurityScanning: true,
+  enableParallelization: true,
+  generateDocumentation: false
+}
+
+/**
+ * Conversion options chosen in the dashboard; those left out keep their defaults
+ */
+function readOptions(value: unknown): { options: MigrationOptions; error?: string } {
+  if (value === undefined) return { options: DEFAULT_OPTIONS }
+  if (!isRecord(value)) {
+    return { options: DEFAULT_OPTIONS, error: 'Options must be an object' }
+  }
+  for (const [name, option] of Object.entries(value)) {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_OPTIONS, name)) return { options: DEFAULT_OPTIONS, error: `Unknown option '${name}'` }
+    const valid = name === 'targetComplexity'
+      ? typeof option === 'string' && ['simple', 'balanced', 'advanced'].includes(option)
+      : typeof option === 'boolean'
+    if (!valid) {
+      return {
+        options: DEFAULT_OPTIONS,
+        error: name === 'targetComplexity' ? 'targetComplexity must be simple, balanced or advanced' : `Option '${name}' must be true or false`
+      }
+    }
+  }
+  return { options: { ...DEFAULT_OPTIONS, ...value } }
 }
 
 export default async function handler(
@@ -84,15 +193,30 @@ export default async function handler(
       }
     }
     
-    const { content } = (req.body || {}) as any
+    const body: unknown = req.body
+    const { content: contentValue, libraries: libraryUploads, jobMapping: jobMappingText, options: optionValues } = isRecord(body) ? body : {}
     
     // Input validation
-    const validation = validateInput(content)
+    const validation = validateInput(contentValue)
     if (!validation.valid) {
       // Normalize error messages and include success flag
       const errorMessage = validation.error || 'Invalid input'
       return res.status(400).json({ success: false, error: errorMessage })
     }
+    const { content } = validation
+    
+    const { libraries, catalogProjects, error: libraryError } = readLibraries(libraryUploads)
+    if (libraryError) {
+      return res.status(400).json({ success: false, error: libraryError })
+    }
+    const { jobMapping, error: mappingError } = readJobMapping(jobMappingText)
+    if (mappingError) {
+      return res.status(400).json({ success: false, error: mappingError })
+    }
+    const { options, error: optionsError } = readOptions(optionValues)
+    if (optionsError) {
+      return res.status(400).json({ success: false, error: optionsError })
+    }
     
     // Scan the Jenkins file
     let scanResult
@@ -110,20 +234,22 @@ export default async function handler(
     const migrationResult = await enterpriseAIMigrationSystem.migrate({
       jenkinsfile: content,
       scanResult,
-      options: {
-        targetComplexity: 'balanced',
-        optimizeForSpeed: true,
-        includeSecurityScanning: true,
-        enableParallelization: true,
-        generateDocumentation: false
-      }
+      libraries,
+      catalogProjects,
+      jobMapping,
+      options
     })
     
     const conversionResult: ConversionResult = {
       yaml: migrationResult.gitlabYaml,
       scanResult,
       validationErrors: migrationResult.success ? [] : ['Migration failed'],
-      success: migrationResult.success
+      success: migrationResult.success,
+      report: migrationResult.report,
+      files: migrationResult.files,
+      sourceMap: migrationResult.sourceMap,
+      findings: migrationResult.findings,
+      lint: lintGitLabYaml(migrationResult.gitlabYaml)
     }
     
     // Log successful conversion (for monitoring)
@@ -144,7 +270,7 @@ export default async function handler(
 export const config = {
   api: {
     bodyParser: {
-      sizeLimit: '2mb',
+      sizeLimit: '5mb',
     },
   },
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+/**
+ * Credential Migrator API
+ *
+ * Detects the Jenkins credentials a pipeline uses and returns the GitLab
+ * CI/CD variables that replace them, with a `.env` template and a script
+ * that creates the variables. Given a project ID and access token, it also
+ * checks which variables the project has already.
+ */
+
+import type { NextApiRequest, NextApiResponse } from 'next'
+import {
+  CredentialHit,
+  CustomMapping,
+  GitLabVarSpec,
+  UsageAnalysis,
+  ValidationResult,
+  analyzeUsage,
+  checkVariableStatus,
+  detectCredentials,
+  generateEnvFile,
+  generateScript,
+  mapCredentials,
+  validateVariables
+} from '@/lib/credential-migrator'
+
+interface CredentialMigrationRequest {
+  jenkinsfile: string
+  projectId?: string
+  /** Access token for the status check; never stored or returned */
+  gitlabToken?: string
+  environmentScope?: string
+  forceProtected?: boolean
+  customMappings?: Record<string, CustomMapping>
+  options?: {
+    generateEnv?: boolean
+    generateScript?: boolean
+    dryRun?: boolean
+    batchSize?: number
+  }
+}
+
+type CredentialMigrationOptions = NonNullable<CredentialMigrationRequest['options']>
+
+const OPTION_NAMES: Array<keyof CredentialMigrationOptions> = ['generateEnv', 'generateScript', 'dryRun', 'batchSize']
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * The request body, checked field by field so that malformed mappings or
+ * options are rejected here rather than failing inside the migrator
+ */
+function readRequest(body: unknown): { request?: CredentialMigrationRequest; error?: string } {
+  if (!isRecord(body) || typeof body.jenkinsfile !== 'string') return { error: 'jenkinsfile is required' }
+  const { jenkinsfile, projectId, gitlabToken, environmentScope, forceProtected } = body
+  if (projectId !== undefined && typeof projectId !== 'string') return { error: 'projectId must be a string' }
+  if (gitlabToken !== undefined && typeof gitlabToken !== 'string') return { error: 'gitlabToken must be a string' }
+  if (environmentScope !== undefined && typeof environmentScope !== 'string') return { error: 'environmentScope must be a string' }
+  if (forceProtected !== undefined && typeof forceProtected !== 'boolean') return { error: 'forceProtected must be true or false' }
+
+  let customMappings: Record<string, CustomMapping> | undefined
+  if (body.customMappings !== undefined) {
+    if (!isRecord(body.customMappings)) return { error: 'customMappings must map credential IDs to variables' }
+    customMappings = {}
+    for (const [id, value] of Object.entries(body.customMappings)) {
+      const { mapping, error } = readMapping(value)
+      if (!mapping) return { error: `Custom mapping '${id}': ${error}` }
+      customMappings[id] = mapping
+    }
+  }
+
+  const { options, error } = readOptions(body.options)
+  if (!options) return { error }
+
+  return { request: { jenkinsfile, projectId, gitlabToken, environmentScope, forceProtected, customMappings, options } }
+}
+
+function readMapping(value: unknown): { mapping?: CustomMapping; error?: string } {
+  if (!isRecord(value)) return { error: 'must be an object' }
+  const { proposedKey, type, masked, description } = value
+  if (typeof proposedKey !== 'string' || !proposedKey) return { error: 'proposedKey is required' }
+  if (type !== undefined && type !== 'env_var' && type !== 'file') return { error: "type must be 'env_var' or 'file'" }
+  if (masked !== undefined && typeof masked !== 'boolean') return { error: 'masked must be true or false' }
+  if (value.protected !== undefined && typeof value.protected !== 'boolean') return { error: 'protected must be true or false' }
+  if (description !== undefined && typeof description !== 'string') return { error: 'description must be a string' }
+  return { mapping: { proposedKey, type, masked, protected: value.protected, description } }
+}
+
+function readOptions(value: unknown): { options?: CredentialMigrationOptions; error?: string } {
+  if (value === undefined) return { options: {} }
+  if (!isRecord(value)) return { error: 'options must be an object' }
+  const stray = Object.keys(value).find(name => !OPTION_NAMES.some(option => option === name))
+  if (stray) return { error: `Unknown option '${stray}'` }
+
+  const { generateEnv, generateScript, dryRun, batchSize } = value
+  if (generateEnv !== undefined && typeof generateEnv !== 'boolean') return { error: "Option 'generateEnv' must be true or false" }
+  if (generateScript !== undefined && typeof generateScript !== 'boolean') return { error: "Option 'generateScript' must be true or false" }
+  if (dryRun !== undefined && typeof dryRun !== 'boolean') return { error: "Option 'dryRun' must be true or false" }
+  if (batchSize !== undefined && (typeof batchSize !== 'number' || !Number.isInteger(batchSize) || batchSize < 1)) {
+    return { error: "Option 'batchSize' must be a positive whole number" }
+  }
+  return { options: { generateEnv, generateScript, dryRun, batchSize } }
+}
+
+interface CredentialMigrationResponse {
+  success: boolean
+  data?: {
+    credentials: CredentialHit[]
+    analysis: UsageAnalysis
+    variables: GitLabVarSpec[]
+    validation: ValidationResult
+    envFile?: string
+    script?: string
+    /** Why the variables could not be checked against the project */
+    statusError?: string
+    summary: {
+      totalCredentials: number
+      totalVariables: number
+      fileVariables: number
+      protectedVariables: number
+      maskedVariables: number
+    }
+  }
+  error?: string
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CredentialMigrationResponse>
+) {
+  res.setHeader('Access-Control-Allow-Origin', process.env.ALLOWED_ORIGINS || '*')
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end()
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const { request, error: requestError } = readRequest(req.body)
+    if (!request) {
+      return res.status(400).json({ success: false, error: requestError })
+    }
+    const {
+      jenkinsfile,
+      projectId,
+      gitlabToken,
+      environmentScope,
+      forceProtected,
+      customMappings,
+      options = {}
+    } = request
+
+    if (jenkinsfile.length > 1000000) { // 1MB limit
+      return res.status(400).json({
+        success: false,
+        error: 'Jenkinsfile exceeds maximum size limit (1MB)'
+      })
+    }
+
+    const credentials = detectCredentials(jenkinsfile)
+    let variables = mapCredentials(credentials, { environmentScope, forceProtected, customMappings })
+    console.log(`🔑 Found ${credentials.length} credential references, mapped to ${variables.length} variables`)
+
+    let statusError: string | undefined
+    if (projectId && gitlabToken) {
+      try {
+        variables = await checkVariableStatus(variables, projectId, gitlabToken)
+      } catch (error) {
+        statusError = error instanceof Error ? error.message : 'Status check failed'
+        console.error('❌ Variable status check failed:', statusError)
+      }
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        credentials,
+        analysis: analyzeUsage(credentials),
+        variables,
+        validation: validateVariables(variables),
+        envFile: options.generateEnv === false ? undefined : generateEnvFile(variables),
+        script: options.generateScript === false
+          ? undefined
+          : generateScript(variables, { projectId, dryRun: options.dryRun, batchSize: options.batchSize }),
+        statusError,
+        summary: {
+          totalCredentials: new Set(credentials.filter(hit => !hit.dynamic).map(hit => hit.credentialsId)).size,
+          totalVariables: variables.length,
+          fileVariables: variables.filter(variable => variable.variable_type === 'file').length,
+          protectedVariables: variables.filter(variable => variable.protected).length,
+          maskedVariables: variables.filter(variable => variable.masked).length
+        }
+      }
+    })
+  } catch (error) {
+    console.error('❌ Credential migration error:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+    return res.status(500).json({
+      success: false,
+      error: `Credential migration failed: ${errorMessage}`
+    })
+  }
+}
@@ -8,6 +8,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { GitLabDryRunEngine } from '@/lib/gitlab-dryrun-engine'
 import { DryRunResult, DatabaseService } from '@/lib/database'
+import { lintGitLabYaml } from '@/lib/gitlab-ci-lint'
 
 interface DryRunRequest {
   jenkinsContent: string
@@ -90,12 +91,12 @@ async function executeDryRun(
       })
     }
     
-    // Validate GitLab YAML structure
-    const yamlValidation = validateGitLabYaml(gitlabYaml)
-    if (!yamlValidation.valid) {
+    // Validate against GitLab's CI schema before anything runs
+    const lint = lintGitLabYaml(gitlabYaml)
+    if (lint.status === 'invalid') {
       return res.status(400).json({
         success: false,
-        error: `Invalid GitLab CI YAML: ${yamlValidation.error}`
+        error: `Invalid GitLab CI YAML: ${lint.errors.join('; ')}`
       })
     }
     
@@ -238,52 +239,6 @@ async function getDryRunStatus(
   }
 }
 
-/**
- * Validate GitLab YAML structure
- */
-function validateGitLabYaml(yamlContent: string): { valid: boolean; error?: string } {
-  try {
-    // Basic validation - just check that it's not empty and has some CI structure
-    if (!yamlContent || yamlContent.trim().length < 10) {
-      return { valid: false, error: 'YAML content is too short or empty' }
-    }
-    
-    // Check for at least one of the basic GitLab CI structures
-    const hasStages = yamlContent.includes('stages:') || yamlContent.includes('stage:')
-    const hasScript = yamlContent.includes('script:') || yamlContent.includes('include:')
-    // Require valid job keys (not top-level reserved keys)
-    const reserved = new Set(['stages', 'variables', 'include', 'workflow', 'default', 'image', 'services'])
-    let hasJob = false
-    const jobRegex = /^([a-zA-Z0-9_-]+):\s*$/m
-    const lines = yamlContent.split('\n')
-    for (const line of lines) {
-      const m = line.match(jobRegex)
-      if (m && !reserved.has(m[1])) { hasJob = true; break }
-    }
-    
-    if (!hasStages && !hasScript && !hasJob) {
-      return { valid: false, error: 'No valid GitLab CI structure found (no stages, scripts, or jobs)' }
-    }
-    
-    // Only check for obvious syntax errors
-    // Only check for obvious syntax errors
-    // Reuse lines from above
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      
-      // Check for tabs (GitLab YAML should use spaces)
-      if (line.includes('\t')) {
-        return { valid: false, error: `Line ${i + 1}: Tabs are not allowed in GitLab YAML` }
-      }
-    }
-    
-    return { valid: true }
-    
-  } catch (error) {
-    return { valid: false, error: 'YAML parsing error' }
-  }
-}
-
 /**
  * Determine migration readiness based on dry-run results
  */
@@ -6,6 +6,9 @@
  */
 
 import type { NextApiRequest, NextApiResponse } from 'next'
+import { YamlMapping, extractTemplates, renderYamlDocument } from '@/lib/yaml-document'
+import { lintGitLabYaml } from '@/lib/gitlab-ci-lint'
+import { LintResult } from '@/types'
 
 interface SimpleConversionRequest {
   jenkinsContent: string
@@ -16,6 +19,8 @@ interface SimpleConversionResponse {
   success: boolean
   yaml?: string
   stages?: string[]
+  /** Schema and semantic problems of the template, which may come from the AI */
+  lint?: LintResult
   error?: string
 }
 
@@ -44,7 +49,8 @@ export default async function handler(
     return res.status(200).json({
       success: true,
       yaml: gitlabYaml,
-      stages
+      stages,
+      lint: lintGitLabYaml(gitlabYaml)
     })
 
   } catch (error) {
@@ -160,133 +166,127 @@ Generate a single, complete, production-ready .gitlab-ci.yml using current GitLa
   }
 }
 
+/** Build tool settings of the fallback template */
+const TOOLCHAINS = {
+  gradle: {
+    image: 'gradle:8-jdk17',
+    cache: ['.gradle/wrapper', '.gradle/caches'],
+    variables: { GRADLE_OPTS: '-Dorg.gradle.daemon=false' },
+    build: './gradlew clean build -x test',
+    test: './gradlew test',
+    jars: 'build/libs/*.jar',
+    junit: 'build/test-results/test/**/TEST-*.xml',
+    reports: 'build/reports/tests/'
+  },
+  maven: {
+    image: 'maven:3.9-openjdk-17',
+    cache: ['.m2/repository/'],
+    variables: { MAVEN_OPTS: '-Dmaven.repo.local=$CI_PROJECT_DIR/.m2/repository' },
+    build: 'mvn clean compile -DskipTests',
+    test: 'mvn test',
+    jars: 'target/*.jar',
+    junit: 'target/surefire-reports/TEST-*.xml',
+    reports: 'target/site/jacoco/'
+  }
+}
+
+const FALLBACK_STAGES = ['validate', 'build', 'test', 'analyze', 'package', 'deploy']
+
+const DEFAULT_BRANCH = { if: '$CI_COMMIT_BRANCH == $CI_DEFAULT_BRANCH' }
+
+const SECTION_COMMENTS: Record<string, string[]> = {
+  'validate:pipeline': ['Validation Stage'],
+  'build:application': ['Build Stage'],
+  'test:unit': ['Test Stage'],
+  sast: ['Security Analysis (uses included templates)'],
+  container_scanning: ['Container Security'],
+  'build:docker': ['Package Stage'],
+  'deploy:staging': ['Deploy Stage']
+}
+
 function generateFallbackEnterpriseTemplate(jenkinsContent: string): string {
   // Basic pattern detection for fallback
   const hasGradle = /gradlew|gradle/.test(jenkinsContent)
   const hasDocker = /docker|Docker/.test(jenkinsContent)
   const hasTests = /test|junit|TestNG/.test(jenkinsContent)
+  const tool = hasGradle ? TOOLCHAINS.gradle : TOOLCHAINS.maven
+
+  const jobs: Record<string, YamlMapping> = {
+    'validate:pipeline': {
+      stage: 'validate',
+      image: 'registry.gitlab.com/gitlab-org/cli:latest',
+      script: ['echo "Validating pipeline configuration"'],
+      rules: [{ if: '$CI_PIPELINE_SOURCE == "merge_request_event"' }]
+    },
+    'build:application': {
+      stage: 'build',
+      image: tool.image,
+      cache: { paths: tool.cache },
+      script: [tool.build],
+      artifacts: { paths: [tool.jars], expire_in: '1 hour' }
+    }
+  }
+  if (hasTests) {
+    jobs['test:unit'] = {
+      stage: 'test',
+      image: tool.image,
+      cache: { paths: tool.cache },
+      script: [tool.test],
+      artifacts: {
+        when: 'always',
+        reports: { junit: [tool.junit] },
+        paths: [tool.reports],
+        expire_in: '1 week'
+      },
+      coverage: '/Total.*?([0-9]{1,3})%/'
+    }
+  }
+  jobs.sast = { stage: 'analyze' }
+  jobs.dependency_scanning = { stage: 'analyze' }
+  if (hasDocker) {
+    jobs.container_scanning = { stage: 'analyze', variables: { CS_IMAGE: '$CI_REGISTRY_IMAGE:$CI_COMMIT_SHA' } }
+    jobs['build:docker'] = {
+      stage: 'package',
+      image: 'docker:24-dind',
+      services: ['docker:24-dind'],
+      script: ['docker build -t $CI_REGISTRY_IMAGE:$CI_COMMIT_SHA .', 'docker push $CI_REGISTRY_IMAGE:$CI_COMMIT_SHA'],
+      rules: [DEFAULT_BRANCH]
+    }
+  }
+  for (const [environment, rule] of [['staging', DEFAULT_BRANCH], ['production', { if: '$CI_COMMIT_TAG', when: 'manual' }]] as const) {
+    jobs[`deploy:${environment}`] = {
+      stage: 'deploy',
+      image: 'bitnami/kubectl:latest',
+      script: [`echo "Deploying to ${environment} environment"`, `echo "kubectl apply -f k8s/${environment}/"`],
+      environment: { name: environment, url: `https://${environment}.example.com` },
+      rules: [rule]
+    }
+  }
 
-  return `# Enterprise GitLab CI Pipeline
-# Generated with fallback template - consider manual review
-
-include:
-  - template: Security/SAST.gitlab-ci.yml
-  - template: Security/Dependency-Scanning.gitlab-ci.yml
-  - template: Security/Container-Scanning.gitlab-ci.yml
-
-stages:
-  - validate
-  - build
-  - test
-  - analyze
-  - package
-  - deploy
-
-variables:
-  MAVEN_OPTS: "-Dmaven.repo.local=$CI_PROJECT_DIR/.m2/repository"
-  GRADLE_OPTS: "-Dorg.gradle.daemon=false"
-  DOCKER_DRIVER: overlay2
-  DOCKER_TLS_CERTDIR: "/certs"
-
-# Validation Stage
-validate:pipeline:
-  stage: validate
-  image: registry.gitlab.com/gitlab-org/cli:latest
-  script:
-    - echo "Validating pipeline configuration"
-  rules:
-    - if: '$CI_PIPELINE_SOURCE == "merge_request_event"'
-
-# Build Stage
-build:application:
-  stage: build
-  image: ${hasGradle ? 'gradle:8-jdk17' : 'maven:3.9-openjdk-17'}
-  cache:
-    paths:
-      - ${hasGradle ? '.gradle/wrapper' : '.m2/repository/'}
-      - ${hasGradle ? '.gradle/caches' : ''}
-  script:
-    - ${hasGradle ? './gradlew clean build -x test' : 'mvn clean compile -DskipTests'}
-  artifacts:
-    paths:
-      - ${hasGradle ? 'build/libs/*.jar' : 'target/*.jar'}
-    expire_in: 1 hour
-
-# Test Stage
-${hasTests ? `test:unit:
-  stage: test
-  image: ${hasGradle ? 'gradle:8-jdk17' : 'maven:3.9-openjdk-17'}
-  cache:
-    paths:
-      - ${hasGradle ? '.gradle/wrapper' : '.m2/repository/'}
-  script:
-    - ${hasGradle ? './gradlew test' : 'mvn test'}
-  artifacts:
-    when: always
-    reports:
-      junit:
-        - ${hasGradle ? 'build/test-results/test/**/TEST-*.xml' : 'target/surefire-reports/TEST-*.xml'}
-    paths:
-      - ${hasGradle ? 'build/reports/tests/' : 'target/site/jacoco/'}
-    expire_in: 1 week
-  coverage: '/Total.*?([0-9]{1,3})%/'
-` : ''}
-
-# Security Analysis (uses included templates)
-sast:
-  stage: analyze
-
-dependency_scanning:
-  stage: analyze
-
-${hasDocker ? `# Container Security
-container_scanning:
-  stage: analyze
-  variables:
-    CS_IMAGE: $CI_REGISTRY_IMAGE:$CI_COMMIT_SHA
-
-# Package Stage
-build:docker:
-  stage: package
-  image: docker:24-dind
-  services:
-    - docker:24-dind
-  script:
-    - docker build -t $CI_REGISTRY_IMAGE:$CI_COMMIT_SHA .
-    - docker push $CI_REGISTRY_IMAGE:$CI_COMMIT_SHA
-  rules:
-    - if: '$CI_COMMIT_BRANCH == $CI_DEFAULT_BRANCH'
-` : ''}
-
-# Deploy Stage
-deploy:staging:
-  stage: deploy
-  image: bitnami/kubectl:latest
-  script:
-    - echo "Deploying to staging environment"
-    - echo "kubectl apply -f k8s/staging/"
-  environment:
-    name: staging
-    url: https://staging.example.com
-  rules:
-    - if: '$CI_COMMIT_BRANCH == $CI_DEFAULT_BRANCH'
-
-deploy:production:
-  stage: deploy
-  image: bitnami/kubectl:latest
-  script:
-    - echo "Deploying to production environment"
-    - echo "kubectl apply -f k8s/production/"
-  environment:
-    name: production
-    url: https://production.example.com
-  rules:
-    - if: '$CI_COMMIT_TAG'
-  when: manual
-
-# TODO: Customize this template based on your specific Jenkins pipeline requirements
-# TODO: Add environment-specific variables and secrets
-# TODO: Configure notification integrations (Slack, email, etc.)
-# TODO: Add performance testing and smoke tests
-# TODO: Configure rollback procedures`
-}
\ No newline at end of file
+  const usedStages = new Set(Object.values(jobs).map(job => job.stage))
+  const { templates, jobs: extended } = extractTemplates(jobs)
+  return renderYamlDocument({
+    comments: ['Enterprise GitLab CI Pipeline', 'Generated with fallback template - consider manual review'],
+    entries: [
+      {
+        key: 'include',
+        value: ['SAST', 'Dependency-Scanning', ...(hasDocker ? ['Container-Scanning'] : [])]
+          .map(template => ({ template: `Security/${template}.gitlab-ci.yml` }))
+      },
+      { key: 'stages', value: FALLBACK_STAGES.filter(stage => usedStages.has(stage)) },
+      {
+        key: 'variables',
+        value: { ...tool.variables, ...(hasDocker ? { DOCKER_DRIVER: 'overlay2', DOCKER_TLS_CERTDIR: '/certs' } : {}) }
+      },
+      ...Object.entries(templates).map(([key, value], index) => ({ key, value, comments: index === 0 ? ['Shared job settings'] : undefined })),
+      ...Object.entries(extended).map(([key, value]) => ({ key, value, comments: SECTION_COMMENTS[key] }))
+    ],
+    trailing: [
+      'TODO: Customize this template based on your specific Jenkins pipeline requirements',
+      'TODO: Add environment-specific variables and secrets',
+      'TODO: Configure notification integrations (Slack, email, etc.)',
+      'TODO: Add performance testing and smoke tests',
+      'TODO: Configure rollback procedures'
+    ]
+  })
+}
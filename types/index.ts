@@ -20,6 +20,8 @@ export interface ScanResult {
   lineCount: number
   warnings: string[]
   timestamp: number
+  /** Typed reading of the pipeline, when the file has one */
+  pipeline?: PipelineModel
 }
 
 export interface ConversionResult {
@@ -27,6 +29,82 @@ export interface ConversionResult {
   scanResult: ScanResult
   validationErrors: string[]
   success: boolean
+  /** What the converter produced and what it had to leave behind */
+  report?: ConversionReport
+  /** Companion files by path, such as pipeline schedule definitions */
+  files?: Record<string, string>
+  /** Jenkinsfile lines behind each generated job */
+  sourceMap?: JobSource[]
+  /** Constructs the conversion dropped or approximated, by line */
+  findings?: ConversionFinding[]
+  /** The generated YAML checked against GitLab's CI schema */
+  lint?: LintResult
+}
+
+/** Outcome of converting a pipeline model to GitLab CI */
+export interface ConversionReport {
+  /** GitLab stages, in order */
+  stages: string[]
+  jobs: string[]
+  images: string[]
+  /** Jenkins steps turned into GitLab configuration */
+  convertedSteps: number
+  /** Jenkinsfile constructs with no GitLab output, with the lines they came from */
+  unconverted: UnmodeledConstruct[]
+  /** Follow-up actions, such as CI/CD variables to create */
+  notes: string[]
+  /** Masked CI/CD variables to create by hand; their values must not appear in the YAML */
+  secrets: SecretRequirement[]
+  /** What each `options { }` directive became */
+  options: DirectiveMapping[]
+}
+
+/** A Jenkinsfile construct that needs a manual change after conversion */
+export interface ConversionFinding {
+  /** Construct kind, e.g. `step`, `when` or `groovy` */
+  kind: string
+  /** Jenkinsfile line the construct starts on */
+  line: number
+  /** `error` when the construct is missing from the YAML, `warning` when it behaves differently */
+  severity: 'error' | 'warning'
+  reason: string
+  /** What to change by hand */
+  action: string
+  /** Job the construct belongs to; pipeline-wide findings have none */
+  job?: string
+}
+
+/** Where a generated job came from in the Jenkinsfile */
+export interface JobSource {
+  job: string
+  /** Stage, post block or step the job was converted from */
+  span: SourceSpan
+  /** Lines of the job in the generated YAML */
+  yaml?: SourceSpan
+  /** `when { }` blocks its rules were translated from */
+  rules: SourceSpan[]
+  /** Step behind each script line, or null for lines the converter added */
+  script: Array<SourceSpan | null>
+  afterScript: Array<SourceSpan | null>
+}
+
+export interface DirectiveMapping {
+  /** Directive name, e.g. `timeout` */
+  directive: string
+  /** `pipeline`, or the stage the directive was declared on */
+  scope: string
+  /** GitLab setting it became, or why there is none */
+  gitlab: string
+  status: 'converted' | 'built-in' | 'unconverted'
+  span: SourceSpan
+}
+
+export interface SecretRequirement {
+  /** CI/CD variable name the converted scripts read */
+  variable: string
+  /** What asked for it in the Jenkinsfile, e.g. `password parameter 'DB_PASSWORD'` */
+  source: string
+  span: SourceSpan
 }
 
 export interface LintResult {
@@ -34,3 +112,244 @@ export interface LintResult {
   errors: string[]
   warnings?: string[]
 }
+
+// ──────────────────────────────────────────────────────────────────
+// Pipeline model
+// ──────────────────────────────────────────────────────────────────
+
+/** Jenkinsfile line range a model element was read from (1-based, inclusive) */
+export interface SourceSpan {
+  startLine: number
+  endLine: number
+}
+
+/** A value only known at build time, kept as Groovy source */
+export interface GroovyExpression {
+  expression: string
+}
+
+/** A nested call used as a value, e.g. `logRotator(numToKeepStr: '20')` */
+export interface GroovyCall {
+  call: string
+  args: StaticValue[]
+  named: { [name: string]: StaticValue }
+}
+
+/**
+ * Argument value as written in the Jenkinsfile. Strings are shell-ready:
+ * GString interpolations are kept as `${expr}` and escaped `\$` becomes `$`.
+ */
+export type StaticValue =
+  | string
+  | number
+  | boolean
+  | null
+  | StaticValue[]
+  | GroovyExpression
+  | GroovyCall
+  | { [key: string]: StaticValue }
+
+export type AgentKind = 'any' | 'none' | 'label' | 'node' | 'docker' | 'dockerfile' | 'kubernetes' | 'unknown'
+
+export interface AgentSpec {
+  kind: AgentKind
+  label?: string
+  /** docker agents */
+  image?: string
+  args?: string
+  /** dockerfile agents */
+  filename?: string
+  dir?: string
+  additionalBuildArgs?: string
+  /** kubernetes agents */
+  yaml?: string
+  yamlFile?: string
+  defaultContainer?: string
+  /** Every setting from the agent block, including ones without a field above */
+  settings: { [name: string]: StaticValue }
+  span: SourceSpan
+}
+
+export interface EnvironmentVariable {
+  name: string
+  value: StaticValue
+  /** Set when the value is `credentials('id')` */
+  credentialsId?: string
+  span: SourceSpan
+}
+
+/** A directive written as a call, used for options and triggers, e.g. `timeout(time: 1, unit: 'HOURS')` */
+export interface PipelineDirective {
+  name: string
+  args: StaticValue[]
+  named: { [name: string]: StaticValue }
+  span: SourceSpan
+}
+
+export interface PipelineParameter {
+  /** Jenkins parameter type as written: string, text, booleanParam, choice, password, ... */
+  type: string
+  name: string
+  defaultValue?: StaticValue
+  description?: string
+  choices?: string[]
+  span: SourceSpan
+}
+
+export interface ToolRequirement {
+  /** Tool type, e.g. `maven` or `jdk` */
+  type: string
+  name: string
+  span: SourceSpan
+}
+
+export interface LibraryReference {
+  name: string
+  version?: string
+  /** Set when an uploaded shared library provided the steps, which are then inlined or included as components */
+  resolved?: boolean
+  span: SourceSpan
+}
+
+export interface WhenCondition {
+  /** Directive name: branch, tag, expression, environment, allOf, anyOf, not, ... */
+  kind: string
+  /** First positional argument, e.g. the pattern in `branch 'main'` */
+  value?: StaticValue
+  named: { [name: string]: StaticValue }
+  /** Groovy source of an `expression { }` body */
+  expression?: string
+  /** Operands of allOf, anyOf and not */
+  conditions?: WhenCondition[]
+  span: SourceSpan
+}
+
+export interface StageWhen {
+  /** Conditions that must all hold */
+  conditions: WhenCondition[]
+  beforeAgent?: boolean
+  beforeInput?: boolean
+  beforeOptions?: boolean
+  span: SourceSpan
+}
+
+export interface StageInput {
+  message: string
+  id?: string
+  ok?: string
+  submitter?: string
+  submitterParameter?: string
+  parameters: PipelineParameter[]
+  span: SourceSpan
+}
+
+export interface PipelineStep {
+  /** 'step' for calls such as `sh 'make'`, 'groovy' for any other statement */
+  kind: 'step' | 'groovy'
+  /** Method name for steps, statement type for Groovy statements */
+  name: string
+  /** Receiver source for calls such as `docker.build(...)` */
+  receiver?: string
+  /** Variable the result is assigned to, e.g. `image` in `def image = docker.build(...)` */
+  assign?: string
+  args: StaticValue[]
+  named: { [name: string]: StaticValue }
+  /** Steps inside a block step, e.g. `withCredentials(...) { }` or `script { }` */
+  body?: PipelineStep[]
+  source: string
+  span: SourceSpan
+}
+
+export type PostConditionName =
+  | 'always'
+  | 'success'
+  | 'failure'
+  | 'unstable'
+  | 'changed'
+  | 'fixed'
+  | 'regression'
+  | 'aborted'
+  | 'unsuccessful'
+  | 'notBuilt'
+  | 'cleanup'
+
+export interface PostCondition {
+  condition: PostConditionName
+  steps: PipelineStep[]
+  span: SourceSpan
+}
+
+export interface MatrixAxis {
+  name: string
+  values: string[]
+  span: SourceSpan
+}
+
+export interface MatrixExclude {
+  axes: Array<{ name: string; values: string[]; notValues: boolean }>
+  span: SourceSpan
+}
+
+export interface PipelineMatrix {
+  axes: MatrixAxis[]
+  excludes: MatrixExclude[]
+  agent?: AgentSpec
+  environment: EnvironmentVariable[]
+  options: PipelineDirective[]
+  when?: StageWhen
+  stages: PipelineStage[]
+  post: PostCondition[]
+  span: SourceSpan
+}
+
+export interface PipelineStage {
+  name: string
+  agent?: AgentSpec
+  environment: EnvironmentVariable[]
+  options: PipelineDirective[]
+  tools: ToolRequirement[]
+  when?: StageWhen
+  input?: StageInput
+  steps: PipelineStep[]
+  /** Branches of a `parallel { }` block */
+  parallel: PipelineStage[]
+  failFast?: boolean
+  matrix?: PipelineMatrix
+  /** Sequential child stages of a `stages { }` block */
+  stages: PipelineStage[]
+  post: PostCondition[]
+  /** CI/CD catalog component included in place of the stage's only step, a shared library call */
+  component?: ComponentInclude
+  span: SourceSpan
+}
+
+export interface ComponentInclude {
+  /** Catalog project path, e.g. `$CI_SERVER_FQDN/platform/jenkins-lib` */
+  project: string
+  name: string
+  /** Release tag, or `~latest` */
+  version: string
+  inputs: Record<string, string | number | boolean>
+}
+
+/** Something in the Jenkinsfile the model could not represent */
+export interface UnmodeledConstruct {
+  kind: string
+  description: string
+  span: SourceSpan
+}
+
+export interface PipelineModel {
+  kind: 'declarative' | 'scripted'
+  agent?: AgentSpec
+  environment: EnvironmentVariable[]
+  options: PipelineDirective[]
+  parameters: PipelineParameter[]
+  triggers: PipelineDirective[]
+  tools: ToolRequirement[]
+  libraries: LibraryReference[]
+  stages: PipelineStage[]
+  post: PostCondition[]
+  unmodeled: UnmodeledConstruct[]
+  span: SourceSpan
+}